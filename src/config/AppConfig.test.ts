@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test"
+import * as AppConfig from "./AppConfig"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
+import * as ConfigProvider from "effect/ConfigProvider"
+
+describe("AppConfig", () => {
+  describe("parseReplaySpeed", () => {
+    it("should parse multipliers and max", () => {
+      expect(AppConfig.parseReplaySpeed("10x")).toEqual(Option.some(10))
+      expect(AppConfig.parseReplaySpeed("2.5")).toEqual(Option.some(2.5))
+      expect(AppConfig.parseReplaySpeed("MAX")).toEqual(Option.some(Number.POSITIVE_INFINITY))
+      expect(AppConfig.parseReplaySpeed("0")).toEqual(Option.none())
+    })
+  })
+
+  describe("replaySpeedConfig", () => {
+    it("should read REPLAY_SPEED and default to the recorded pace", async () => {
+      const load = (env: ReadonlyArray<[string, string]>) =>
+        Effect.runPromise(
+          Effect.withConfigProvider(
+            AppConfig.replaySpeedConfig,
+            ConfigProvider.fromMap(new Map(env))
+          )
+        )
+
+      expect(await load([["REPLAY_SPEED", "10x"]])).toBe(10)
+      expect(await load([])).toBe(1)
+    })
+  })
+
+  describe("parseDurationMs", () => {
+    it("should parse short and long duration forms", () => {
+      expect(AppConfig.parseDurationMs("500ms")).toEqual(Option.some(500))
+      expect(AppConfig.parseDurationMs("30s")).toEqual(Option.some(30_000))
+      expect(AppConfig.parseDurationMs("5m")).toEqual(Option.some(300_000))
+      expect(AppConfig.parseDurationMs("1.5h")).toEqual(Option.some(5_400_000))
+      expect(AppConfig.parseDurationMs("2 minutes")).toEqual(Option.some(120_000))
+    })
+
+    it("should reject bare numbers, zero and garbage", () => {
+      expect(AppConfig.parseDurationMs("30")).toEqual(Option.none())
+      expect(AppConfig.parseDurationMs("0s")).toEqual(Option.none())
+      expect(AppConfig.parseDurationMs("soon")).toEqual(Option.none())
+    })
+  })
+
+  describe("parseWindowSpec", () => {
+    const parse = (spec: string) =>
+      Effect.runPromise(Effect.either(AppConfig.parseWindowSpec(spec)))
+
+    it("should map shorthands to window configs", async () => {
+      const [event, time, hybrid] = await Promise.all([parse("50"), parse("30s"), parse("100/5m")])
+      expect(event._tag === "Right" && event.right).toEqual({ _tag: "EventBased", size: 50 })
+      expect(time._tag === "Right" && time.right).toEqual({ _tag: "TimeBased", durationMs: 30_000 })
+      expect(hybrid._tag === "Right" && hybrid.right).toEqual({
+        _tag: "Hybrid",
+        size: 100,
+        durationMs: 300_000,
+      })
+    })
+
+    it("should report invalid windows as InvalidWindowConfigError", async () => {
+      const [size, duration] = await Promise.all([parse("0"), parse("50/never")])
+      expect(size._tag === "Left" && size.left.reason).toContain("Window size must be positive")
+      expect(duration._tag === "Left" && duration.left.reason).toBe(
+        "Invalid window duration: never"
+      )
+    })
+
+    it("should report a negative size as a size error", async () => {
+      const [event, hybrid, word] = await Promise.all([
+        parse("-5"),
+        parse("-5/30s"),
+        parse("many/30s"),
+      ])
+      expect(event._tag === "Left" && event.left.reason).toBe(
+        "Window size must be positive, got -5"
+      )
+      expect(hybrid._tag === "Left" && hybrid.left.reason).toBe(
+        "Window size must be positive, got -5"
+      )
+      expect(word._tag === "Left" && word.left.reason).toBe("Invalid window size: many")
+    })
+  })
+})
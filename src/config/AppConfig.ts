@@ -1,8 +1,14 @@
 import * as Config from "effect/Config"
 import * as ConfigError from "effect/ConfigError"
+import * as Duration from "effect/Duration"
+import * as Effect from "effect/Effect"
 import * as Either from "effect/Either"
+import * as Option from "effect/Option"
 import { pipe } from "effect/Function"
 import * as Redacted from "effect/Redacted"
+import * as Simulation from "../domain/Simulation"
+import * as Statistics from "../domain/Statistics"
+import * as DomainError from "../domain/DomainError"
 
 /**
  * Application configuration using Effect Config module.
@@ -11,9 +17,27 @@ import * as Redacted from "effect/Redacted"
  * supporting both environment variables and programmatic configuration.
  *
  * Environment Variables:
- * - MARKET_DATA_PROVIDER: Provider type ("finnhub" | "polygon") [default: "finnhub"]
+ * - MARKET_DATA_PROVIDER: Provider type ("finnhub" | "polygon" | "replay" | "simulated") [default: "finnhub"]
  * - FINNHUB_TOKEN: Finnhub API token (required if using Finnhub)
  * - FINNHUB_WS_URL: Finnhub WebSocket URL [default: "wss://ws.finnhub.io"]
+ * - POLYGON_API_KEY: Polygon.io API key (required if using Polygon)
+ * - POLYGON_WS_URL: Polygon WebSocket URL [default: "wss://socket.polygon.io/stocks"]
+ * - REPLAY_FILE: Recorded NDJSON/CSV session to replay (required if using replay)
+ * - REPLAY_SPEED: Replay speed ("1", "10x", "max") [default: "1"]
+ * - SIM_PROCESS: Simulated price process ("gbm" | "ou" | "jump") [default: "gbm"]
+ * - SIM_INITIAL_PRICE: Starting price of every simulated symbol [default: 100]
+ * - SIM_DRIFT / SIM_VOLATILITY: Annualized drift and volatility [default: 0.05 / 0.2]
+ * - SIM_MEAN_REVERSION / SIM_MEAN: OU reversion speed per year and level [default: 5 / initial price]
+ * - SIM_JUMP_INTENSITY / SIM_JUMP_MEAN / SIM_JUMP_VOLATILITY: Jumps per year and log jump size [default: 50 / 0 / 0.01]
+ * - SIM_ARRIVAL_RATE: Mean trades per second per symbol [default: 5]
+ * - SIM_VOLUME_MEDIAN / SIM_VOLUME_SIGMA: Log-normal trade size [default: 100 / 0.8]
+ * - SIM_LATENCY_MS / SIM_LATENCY_JITTER_MS: Injected latency [default: 20 / 5]
+ * - SIM_SEED: Seed for reproducible simulations [default: random]
+ * - RECONNECT_INITIAL_DELAY_MS: First reconnect delay [default: 500]
+ * - RECONNECT_MAX_DELAY_MS: Upper bound for the backoff delay [default: 30000]
+ * - RECONNECT_FACTOR: Exponential backoff factor [default: 2]
+ * - RECONNECT_MAX_ATTEMPTS: Reconnect attempts before giving up [default: unlimited]
+ * - RECONNECT_RESET_AFTER_MS: Healthy time after which the backoff restarts [default: 60000]
  * - SYMBOLS: Comma-separated symbols [default: "AAPL"]
  *
  * @category Configuration
@@ -34,7 +58,25 @@ import * as Redacted from "effect/Redacted"
  * @category Types
  * @since 0.3.0
  */
-export type ProviderType = "finnhub" | "polygon"
+export type ProviderType = "finnhub" | "polygon" | "replay" | "simulated"
+
+/**
+ * Reconnect policy for streaming providers.
+ *
+ * Delays grow exponentially from `initialDelayMs` by `factor`, are capped at
+ * `maxDelayMs` and jittered. The backoff restarts once a connection has been
+ * healthy for `resetAfterMs`.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export interface ReconnectConfig {
+  readonly initialDelayMs: number
+  readonly maxDelayMs: number
+  readonly factor: number
+  readonly maxAttempts: number | undefined // Reconnect attempts, undefined = retry forever
+  readonly resetAfterMs: number
+}
 
 /**
  * Finnhub provider configuration.
@@ -46,10 +88,11 @@ export interface FinnhubConfig {
   readonly _tag: "finnhub"
   readonly token: Redacted.Redacted
   readonly wsUrl: string
+  readonly reconnect?: ReconnectConfig
 }
 
 /**
- * Polygon provider configuration (placeholder for future implementation).
+ * Polygon provider configuration.
  *
  * @category Types
  * @since 0.3.0
@@ -58,6 +101,52 @@ export interface PolygonConfig {
   readonly _tag: "polygon"
   readonly apiKey: Redacted.Redacted
   readonly wsUrl: string
+  readonly reconnect?: ReconnectConfig
+}
+
+/**
+ * Recorded file formats understood by the replay provider.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export type ReplayFormat = "ndjson" | "csv"
+
+/**
+ * Replay provider configuration.
+ *
+ * `speed` is a multiplier over the recorded pace: 1 replays at the original
+ * pace, 10 ten times faster and `Infinity` as fast as possible.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export interface ReplayConfig {
+  readonly _tag: "replay"
+  readonly path: string
+  readonly speed: number
+  readonly format?: ReplayFormat // Inferred from the file extension when omitted
+}
+
+/**
+ * Simulated provider configuration.
+ *
+ * Every symbol follows its own path of `process` starting at `initialPrice`.
+ * Trades arrive as a Poisson process with `arrivalRate` trades per second and
+ * reach the client `latency.meanMs` (± normal `latency.jitterMs`) after they
+ * happen. A `seed` makes the generated market reproducible.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export interface SimulatedConfig {
+  readonly _tag: "simulated"
+  readonly process: Simulation.PriceProcess
+  readonly initialPrice: number
+  readonly arrivalRate: number
+  readonly volume: Simulation.VolumeDistribution
+  readonly latency: { readonly meanMs: number; readonly jitterMs: number }
+  readonly seed?: number
 }
 
 /**
@@ -66,7 +155,7 @@ export interface PolygonConfig {
  * @category Types
  * @since 0.3.0
  */
-export type ProviderConfig = FinnhubConfig | PolygonConfig
+export type ProviderConfig = FinnhubConfig | PolygonConfig | ReplayConfig | SimulatedConfig
 
 /**
  * Complete application configuration.
@@ -91,6 +180,145 @@ const parseSymbols = (symbolsStr: string): ReadonlyArray<string> =>
     .map((s) => s.trim())
     .filter((s) => s.length > 0)
 
+/**
+ * Parse a replay speed such as "1", "2.5", "10x" or "max".
+ *
+ * Returns `Option.none()` for anything that is not a positive multiplier.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as AppConfig from "./config/AppConfig"
+ *
+ * AppConfig.parseReplaySpeed("10x") // Option.some(10)
+ * AppConfig.parseReplaySpeed("max") // Option.some(Infinity)
+ */
+export const parseReplaySpeed = (input: string): Option.Option<number> => {
+  const normalized = input.trim().toLowerCase()
+  if (normalized === "max") return Option.some(Number.POSITIVE_INFINITY)
+  const multiplier = Number(normalized.endsWith("x") ? normalized.slice(0, -1) : normalized)
+  return normalized.length > 0 && multiplier > 0 ? Option.some(multiplier) : Option.none()
+}
+
+const durationUnits: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+}
+
+/**
+ * Parse a human duration such as "500ms", "30s", "5m", "1.5h" or "30 seconds"
+ * into milliseconds.
+ *
+ * Returns `Option.none()` for anything that is not a positive duration; a bare
+ * number is rejected because its unit would be ambiguous.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as AppConfig from "./config/AppConfig"
+ *
+ * AppConfig.parseDurationMs("30s") // Option.some(30000)
+ * AppConfig.parseDurationMs("5 minutes") // Option.some(300000)
+ */
+export const parseDurationMs = (input: string): Option.Option<number> => {
+  const normalized = input.trim().toLowerCase()
+  const short = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)$/.exec(normalized)
+  const millis = short
+    ? Option.some(Number(short[1]) * durationUnits[short[2]])
+    : Option.map(Duration.decodeUnknown(normalized), Duration.toMillis)
+  return Option.filter(millis, (ms) => ms > 0 && Number.isFinite(ms))
+}
+
+/**
+ * Parse a window shorthand into a validated WindowConfig:
+ * "50" is the last 50 trades, "30s" the last 30 seconds and "50/30s" both.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as AppConfig from "./config/AppConfig"
+ *
+ * AppConfig.parseWindowSpec("100/5m") // Effect<Hybrid { size: 100, durationMs: 300000 }>
+ */
+export const parseWindowSpec = (
+  spec: string
+): Effect.Effect<Statistics.WindowConfig, DomainError.InvalidWindowConfigError> => {
+  const [first, second] = spec.split("/").map((part) => part.trim())
+  const invalid = (reason: string) =>
+    Effect.fail(DomainError.InvalidWindowConfigError.make({ config: spec, reason }))
+  const duration = (part: string) =>
+    Option.match(parseDurationMs(part), {
+      onNone: () => invalid(`Invalid window duration: ${part}`),
+      onSome: Effect.succeed,
+    })
+  // Checked before the duration, so "-5" is a bad size rather than a bad duration
+  const isNumber = (part: string) => /^[+-]?\d+(?:\.\d+)?$/.test(part)
+  const size = (part: string) =>
+    !isNumber(part)
+      ? invalid(`Invalid window size: ${part}`)
+      : Number(part) <= 0
+        ? invalid(`Window size must be positive, got ${part}`)
+        : Effect.succeed(Number(part))
+
+  if (second !== undefined) {
+    return Effect.flatMap(Effect.zip(size(first), duration(second)), ([count, durationMs]) =>
+      Statistics.decodeWindowConfig({ _tag: "Hybrid", size: count, durationMs })
+    )
+  }
+  if (isNumber(first)) {
+    return Effect.flatMap(size(first), (count) =>
+      Statistics.decodeWindowConfig({ _tag: "EventBased", size: count })
+    )
+  }
+  return Effect.flatMap(duration(first), (durationMs) =>
+    Statistics.decodeWindowConfig({ _tag: "TimeBased", durationMs })
+  )
+}
+
+/**
+ * Default reconnect policy.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultReconnectConfig: ReconnectConfig = {
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  factor: 2,
+  maxAttempts: undefined,
+  resetAfterMs: 60_000,
+}
+
+/**
+ * Reconnect policy configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const reconnectConfig: Config.Config<ReconnectConfig> = Config.all({
+  initialDelayMs: Config.integer("RECONNECT_INITIAL_DELAY_MS").pipe(
+    Config.withDefault(defaultReconnectConfig.initialDelayMs)
+  ),
+  maxDelayMs: Config.integer("RECONNECT_MAX_DELAY_MS").pipe(
+    Config.withDefault(defaultReconnectConfig.maxDelayMs)
+  ),
+  factor: Config.number("RECONNECT_FACTOR").pipe(Config.withDefault(defaultReconnectConfig.factor)),
+  maxAttempts: Config.integer("RECONNECT_MAX_ATTEMPTS").pipe(
+    Config.option,
+    Config.map(Option.getOrUndefined)
+  ),
+  resetAfterMs: Config.integer("RECONNECT_RESET_AFTER_MS").pipe(
+    Config.withDefault(defaultReconnectConfig.resetAfterMs)
+  ),
+}).pipe(
+  Config.validate({
+    message: "Reconnect delays must be positive and RECONNECT_FACTOR at least 1",
+    validation: (c) => c.initialDelayMs > 0 && c.maxDelayMs >= c.initialDelayMs && c.factor >= 1,
+  })
+)
+
 /**
  * Finnhub provider configuration.
  *
@@ -101,10 +329,11 @@ export const finnhubConfig: Config.Config<FinnhubConfig> = Config.all({
   _tag: Config.succeed("finnhub" as const),
   token: Config.redacted("FINNHUB_TOKEN"),
   wsUrl: Config.string("FINNHUB_WS_URL").pipe(Config.withDefault("wss://ws.finnhub.io")),
+  reconnect: reconnectConfig,
 })
 
 /**
- * Polygon provider configuration (placeholder).
+ * Polygon provider configuration.
  *
  * @category Configuration
  * @since 0.3.0
@@ -112,13 +341,119 @@ export const finnhubConfig: Config.Config<FinnhubConfig> = Config.all({
 export const polygonConfig: Config.Config<PolygonConfig> = Config.all({
   _tag: Config.succeed("polygon" as const),
   apiKey: Config.redacted("POLYGON_API_KEY"),
-  wsUrl: Config.string("POLYGON_WS_URL").pipe(Config.withDefault("wss://socket.polygon.io")),
+  wsUrl: Config.string("POLYGON_WS_URL").pipe(Config.withDefault("wss://socket.polygon.io/stocks")),
+  reconnect: reconnectConfig,
 })
 
+/**
+ * Replay speed from REPLAY_SPEED, 1 (the recorded pace) when unset.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const replaySpeedConfig: Config.Config<number> = Config.string("REPLAY_SPEED").pipe(
+  Config.withDefault("1"),
+  Config.mapOrFail((speed) =>
+    Either.fromOption(parseReplaySpeed(speed), () =>
+      ConfigError.InvalidData(["REPLAY_SPEED"], `Invalid replay speed: ${speed}`)
+    )
+  )
+)
+
+/**
+ * Replay provider configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const replayConfig: Config.Config<ReplayConfig> = Config.all({
+  _tag: Config.succeed("replay" as const),
+  path: Config.string("REPLAY_FILE"),
+  speed: replaySpeedConfig,
+})
+
+/**
+ * Default simulated market: a GBM stock at 100 with five trades per second.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultSimulatedConfig: SimulatedConfig = {
+  _tag: "simulated",
+  process: Simulation.GBM.make({ drift: 0.05, volatility: 0.2 }),
+  initialPrice: 100,
+  arrivalRate: 5,
+  volume: Simulation.LogNormal.make({ median: 100, sigma: 0.8 }),
+  latency: { meanMs: 20, jitterMs: 5 },
+}
+
+const simNumber = (name: string, fallback: number) =>
+  Config.number(name).pipe(Config.withDefault(fallback))
+
+/**
+ * Simulated provider configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const simulatedConfig: Config.Config<SimulatedConfig> = Config.all({
+  process: Config.literal("gbm", "ou", "jump")("SIM_PROCESS").pipe(Config.withDefault("gbm")),
+  initialPrice: simNumber("SIM_INITIAL_PRICE", defaultSimulatedConfig.initialPrice),
+  drift: simNumber("SIM_DRIFT", 0.05),
+  volatility: simNumber("SIM_VOLATILITY", 0.2),
+  meanReversion: simNumber("SIM_MEAN_REVERSION", 5),
+  mean: Config.number("SIM_MEAN").pipe(Config.option),
+  jumpIntensity: simNumber("SIM_JUMP_INTENSITY", 50),
+  jumpMean: simNumber("SIM_JUMP_MEAN", 0),
+  jumpVolatility: simNumber("SIM_JUMP_VOLATILITY", 0.01),
+  arrivalRate: simNumber("SIM_ARRIVAL_RATE", defaultSimulatedConfig.arrivalRate),
+  volumeMedian: simNumber("SIM_VOLUME_MEDIAN", 100),
+  volumeSigma: simNumber("SIM_VOLUME_SIGMA", 0.8),
+  latencyMs: simNumber("SIM_LATENCY_MS", defaultSimulatedConfig.latency.meanMs),
+  latencyJitterMs: simNumber("SIM_LATENCY_JITTER_MS", defaultSimulatedConfig.latency.jitterMs),
+  seed: Config.integer("SIM_SEED").pipe(Config.option, Config.map(Option.getOrUndefined)),
+}).pipe(
+  Config.validate({
+    message: "SIM_INITIAL_PRICE and SIM_ARRIVAL_RATE must be positive, volatilities non-negative",
+    validation: (c) =>
+      c.initialPrice > 0 &&
+      c.arrivalRate > 0 &&
+      c.volatility >= 0 &&
+      c.jumpVolatility >= 0 &&
+      c.volumeMedian > 0,
+  }),
+  Config.map(
+    (c): SimulatedConfig => ({
+      _tag: "simulated",
+      process:
+        c.process === "ou"
+          ? Simulation.OrnsteinUhlenbeck.make({
+              meanReversion: c.meanReversion,
+              mean: Option.getOrElse(c.mean, () => c.initialPrice),
+              volatility: c.volatility,
+            })
+          : c.process === "jump"
+            ? Simulation.JumpDiffusion.make({
+                drift: c.drift,
+                volatility: c.volatility,
+                jumpIntensity: c.jumpIntensity,
+                jumpMean: c.jumpMean,
+                jumpVolatility: c.jumpVolatility,
+              })
+            : Simulation.GBM.make({ drift: c.drift, volatility: c.volatility }),
+      initialPrice: c.initialPrice,
+      arrivalRate: c.arrivalRate,
+      volume: Simulation.LogNormal.make({ median: c.volumeMedian, sigma: c.volumeSigma }),
+      latency: { meanMs: c.latencyMs, jitterMs: c.latencyJitterMs },
+      seed: c.seed,
+    })
+  )
+)
+
 /**
  * Provider configuration based on MARKET_DATA_PROVIDER env var.
  *
- * Dynamically selects between Finnhub and Polygon based on the MARKET_DATA_PROVIDER
+ * Dynamically selects between Finnhub, Polygon, replay and simulated based on the MARKET_DATA_PROVIDER
  * environment variable (defaults to "finnhub").
  *
  * @category Configuration
@@ -131,14 +466,20 @@ export const providerConfig: Config.Config<ProviderConfig> = Config.suspend(() =
     providerType,
     Config.zipWith(
       Config.all({
-        finnhub: finnhubConfig.pipe(Config.option),
-        polygon: polygonConfig.pipe(Config.option),
+        finnhub: finnhubConfig.pipe(Config.option, Config.map(Option.getOrUndefined)),
+        polygon: polygonConfig.pipe(Config.option, Config.map(Option.getOrUndefined)),
+        replay: replayConfig.pipe(Config.option, Config.map(Option.getOrUndefined)),
+        simulated: simulatedConfig.pipe(Config.option, Config.map(Option.getOrUndefined)),
       }),
-      (provider, { finnhub, polygon }) => {
+      (provider, { finnhub, polygon, replay, simulated }) => {
         if (provider === "finnhub" && finnhub) {
           return finnhub
         } else if (provider === "polygon" && polygon) {
           return polygon
+        } else if (provider === "replay" && replay) {
+          return replay
+        } else if (provider === "simulated" && simulated) {
+          return simulated
         } else if (finnhub) {
           return finnhub
         } else if (polygon) {
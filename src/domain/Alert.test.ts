@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test"
+import * as Alert from "./Alert"
+import * as Trigger from "./Trigger"
+import * as Either from "effect/Either"
+import * as Schema from "effect/Schema"
+
+describe("Alert", () => {
+  it("should fill known placeholders and leave unknown ones", () => {
+    expect(Alert.render("{symbol} at {price} ({unknown})", { symbol: "AAPL", price: "1.50" })).toBe(
+      "AAPL at 1.50 ({unknown})"
+    )
+  })
+
+  it("should default severity, message and cooldown when decoding rules", () => {
+    const condition = Trigger.compare(Trigger.price("AAPL"), ">", Trigger.constant(200))
+    const rule = Schema.decodeUnknownSync(Alert.Rule)({ id: "breakout", symbol: "AAPL", condition })
+
+    expect(rule).toEqual({
+      id: "breakout",
+      symbol: "AAPL",
+      condition,
+      severity: "warning",
+      message: "{symbol}: {condition}",
+      cooldownSeconds: 60,
+    })
+
+    const decode = Schema.decodeUnknownEither(Alert.Rule)
+    expect(Either.isLeft(decode({ id: "", symbol: "AAPL", condition }))).toBe(true)
+    expect(Either.isLeft(decode({ id: "x", symbol: "AAPL", condition, severity: "fatal" }))).toBe(
+      true
+    )
+    expect(Either.isLeft(decode({ id: "x", symbol: "AAPL", condition, cooldownSeconds: -1 }))).toBe(
+      true
+    )
+  })
+})
@@ -0,0 +1,123 @@
+import * as Schema from "effect/Schema"
+import * as Order from "effect/Order"
+import * as Trigger from "./Trigger"
+
+/**
+ * How urgent an alert is.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Severity = Schema.Literal("info", "warning", "critical")
+export type Severity = Schema.Schema.Type<typeof Severity>
+
+const ranks: Record<Severity, number> = { info: 0, warning: 1, critical: 2 }
+
+/**
+ * Order severities from info to critical.
+ *
+ * @category Orders
+ * @since 0.5.0
+ */
+export const SeverityOrder: Order.Order<Severity> = Order.mapInput(
+  Order.number,
+  (severity) => ranks[severity]
+)
+
+/**
+ * Predicate for alerts at or above a severity, e.g. for a sink that only
+ * delivers warnings and critical alerts.
+ *
+ * @category Predicates
+ * @since 0.5.0
+ */
+export const atLeast =
+  (min: Severity) =>
+  (alert: Alert): boolean =>
+    Order.greaterThanOrEqualTo(SeverityOrder)(alert.severity, min)
+
+/**
+ * User-defined alert rule.
+ *
+ * A rule fires when its condition starts to hold on a trade of its symbol. It
+ * then stays quiet until it is re-armed, which by default happens once the
+ * condition stops holding. A `rearm` condition adds hysteresis: a rule firing
+ * at `rsi < 30` with `rearm` set to `rsi > 35` does not flap while the RSI
+ * hovers around 30. After firing, a rule waits at least `cooldownSeconds`
+ * before it fires again.
+ *
+ * The message may use the placeholders `{rule}`, `{symbol}`, `{severity}`,
+ * `{price}` and `{condition}`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Alert from "@/domain/Alert"
+ * import * as Trigger from "@/domain/Trigger"
+ *
+ * const rule = Alert.Rule.make({
+ *   id: "aapl-oversold",
+ *   symbol: "AAPL",
+ *   condition: Trigger.compare(Trigger.value("rsi-14-AAPL"), "<", Trigger.constant(30)),
+ *   rearm: Trigger.compare(Trigger.value("rsi-14-AAPL"), ">", Trigger.constant(35)),
+ *   severity: "warning",
+ *   message: "{symbol} oversold at {price}",
+ *   cooldownSeconds: 300
+ * })
+ */
+export const Rule = Schema.Struct({
+  id: Schema.NonEmptyString,
+  symbol: Schema.NonEmptyString,
+  condition: Trigger.Condition,
+  rearm: Schema.optional(Trigger.Condition),
+  severity: Schema.optionalWith(Severity, { default: () => "warning" as const }),
+  message: Schema.optionalWith(Schema.String, { default: () => "{symbol}: {condition}" }),
+  cooldownSeconds: Schema.optionalWith(Schema.NonNegative, { default: () => 60 }),
+})
+
+export type Rule = Schema.Schema.Type<typeof Rule>
+
+/**
+ * Contents of a rules file, in JSON or YAML.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const RuleFile = Schema.Struct({
+  rules: Schema.Array(Rule),
+})
+
+export type RuleFile = Schema.Schema.Type<typeof RuleFile>
+
+/**
+ * A fired alert.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Alert = Schema.Struct({
+  rule: Schema.String,
+  symbol: Schema.String,
+  severity: Severity,
+  message: Schema.String,
+  condition: Schema.String,
+  price: Schema.Number,
+  timestamp: Schema.DateTimeUtc,
+})
+
+export type Alert = Schema.Schema.Type<typeof Alert>
+
+/**
+ * Fill the `{name}` placeholders of a message template. Unknown placeholders
+ * are left as they are.
+ *
+ * @category Formatting
+ * @since 0.5.0
+ * @example
+ * import * as Alert from "@/domain/Alert"
+ *
+ * Alert.render("{symbol} at {price}", { symbol: "AAPL", price: "101.50" })
+ * // "AAPL at 101.50"
+ */
+export const render = (template: string, values: Readonly<Record<string, string>>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder)
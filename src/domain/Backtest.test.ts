@@ -0,0 +1,205 @@
+import { describe, it, expect } from "bun:test"
+import * as Backtest from "./Backtest"
+import * as Consensus from "./Consensus"
+import type * as Indicator from "./Indicator"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as Duration from "effect/Duration"
+import {
+  mockTrade,
+  makeSymbol,
+  makePrice,
+  makeTimestamp,
+  mockBuySignal,
+  mockSellSignal,
+  mockHoldSignal,
+} from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+
+const trades = (prices: ReadonlyArray<number>, symbol = "AAPL") =>
+  prices.map((price, i) =>
+    mockTrade({
+      symbol: makeSymbol(symbol),
+      price: makePrice(price),
+      timestamp: makeTimestamp(start + i * 60_000),
+    })
+  )
+
+const event = (index: number, signal: Indicator.Signal, id = "rsi"): Backtest.Event => ({
+  index,
+  vote: { id, symbol: "AAPL", value: 50, signal },
+})
+
+const buy = (index: number) => event(index, mockBuySignal({ strength: 0.8, reason: "dip" }))
+const sell = (index: number) => event(index, mockSellSignal({ strength: 0.8, reason: "rip" }))
+const hold = (index: number) => event(index, mockHoldSignal())
+
+const config: Backtest.SimulationConfig = { ...Backtest.defaultSimulation, symbol: "AAPL" }
+
+describe("Backtest", () => {
+  describe("simulate", () => {
+    it("should open on a buy consensus and close on a sell consensus", () => {
+      const report = Backtest.simulate(config, trades([100, 100, 110, 120, 120]), [
+        buy(1),
+        hold(2),
+        sell(3),
+      ])
+
+      expect(report.trades).toHaveLength(1)
+      expect(report.trades[0]).toMatchObject({
+        side: "long",
+        quantity: 100,
+        entryPrice: 100,
+        entryTimestamp: start + 60_000,
+        entryReason: "Consensus buy (1 indicators): dip",
+        exitPrice: 120,
+        exitTimestamp: start + 180_000,
+        exitReason: "Consensus sell (1 indicators): rip",
+        pnl: 2000,
+        return: 0.2,
+      })
+      expect(report.equity.map((point) => point.equity)).toEqual([
+        10_000, 10_000, 11_000, 12_000, 12_000,
+      ])
+      expect(report.summary.finalEquity).toBe(12_000)
+      expect(report.summary.totalReturn).toBeCloseTo(0.2)
+    })
+
+    it("should ignore signals below the minimum strength", () => {
+      const weak = event(1, mockBuySignal({ strength: 0.4, reason: "weak" }))
+
+      expect(Backtest.simulate(config, trades([100, 100, 110]), [weak]).trades).toEqual([])
+    })
+
+    it("should only short when allowed, reversing on the opposite signal", () => {
+      const events = [sell(0), buy(2)]
+      const prices = [100, 90, 80, 100]
+
+      expect(Backtest.simulate(config, trades(prices), events).trades.map((t) => t.side)).toEqual([
+        "long",
+      ])
+
+      const report = Backtest.simulate({ ...config, allowShort: true }, trades(prices), events)
+      expect(report.trades.map((t) => [t.side, t.entryPrice, t.exitPrice, t.pnl])).toEqual([
+        ["short", 100, 80, 2000],
+        ["long", 80, 100, 3000],
+      ])
+      expect(report.trades[1]?.exitReason).toBe("End of data")
+      expect(report.summary.finalEquity).toBe(15_000)
+    })
+
+    it("should charge commission on both fills", () => {
+      const report = Backtest.simulate(
+        { ...config, commission: 0.001, positionSize: 0.5 },
+        trades([100, 100, 110]),
+        [buy(0), sell(2)]
+      )
+
+      // 50 shares: 5 on the way in, 5.5 on the way out
+      expect(report.trades[0]?.quantity).toBe(50)
+      expect(report.trades[0]?.pnl).toBeCloseTo(500 - 10.5)
+      expect(report.summary.finalEquity).toBeCloseTo(10_489.5)
+    })
+
+    it("should trade only its symbol, with other symbols feeding the votes", () => {
+      const mixed = [...trades([100]), ...trades([50], "MSFT"), ...trades([100, 105])].map(
+        (trade, i) => ({ ...trade, timestamp: makeTimestamp(start + i * 60_000) })
+      )
+
+      // The buy arrives with the MSFT trade and is acted on at the next AAPL trade
+      const report = Backtest.simulate(config, mixed, [buy(1)])
+      expect(report.trades[0]).toMatchObject({ entryPrice: 100, entryTimestamp: start + 120_000 })
+      expect(report.trades[0]?.exitPrice).toBe(105)
+    })
+
+    it("should keep one equity point per sample period", () => {
+      const report = Backtest.simulate(
+        { ...config, samplePeriod: Duration.minutes(2) },
+        trades([100, 100, 110, 120, 120]),
+        [buy(0)]
+      )
+
+      // Periods are aligned to the epoch: the first trade is alone in its period
+      expect(report.equity.map((point) => [point.timestamp, point.equity])).toEqual([
+        [start, 10_000],
+        [start + 120_000, 11_000],
+        [start + 240_000, 12_000],
+      ])
+    })
+
+    it("should combine votes with the configured strategy", () => {
+      const events = [buy(0), event(0, mockHoldSignal(), "macd"), event(1, mockBuySignal(), "macd")]
+      const report = Backtest.simulate(
+        { ...config, strategy: Consensus.unanimous(2) },
+        trades([100, 101, 102]),
+        events
+      )
+
+      expect(report.trades[0]?.entryPrice).toBe(101)
+    })
+  })
+
+  describe("summarize", () => {
+    it("should compute drawdown, win rate and profit factor", () => {
+      const closed = Backtest.simulate(
+        { ...config, allowShort: true },
+        trades([100, 120, 90, 90, 99]),
+        [buy(0), sell(1), buy(3)]
+      ).trades
+      const equity = [10_000, 12_000, 9_000, 9_900].map((value, i) => ({
+        timestamp: makeTimestamp(start + i * 60_000),
+        equity: value,
+      }))
+
+      const summary = Backtest.summarize(10_000, closed, equity)
+
+      expect(summary.maxDrawdown).toBeCloseTo(0.25)
+      expect(summary.totalReturn).toBeCloseTo(-0.01)
+      expect(summary.trades).toBe(3)
+      expect(summary.winRate).toBeCloseTo(1)
+      expect(Option.isNone(summary.profitFactor)).toBe(true)
+    })
+
+    it("should report the profit factor and risk-adjusted returns", () => {
+      const closed = Backtest.simulate(config, trades([100, 110, 110, 100, 100]), [
+        buy(0),
+        sell(1),
+        buy(2),
+        sell(3),
+      ]).trades
+      const equity = [100, 110, 99, 108.9].map((value, i) => ({
+        timestamp: makeTimestamp(start + i * 60_000),
+        equity: value,
+      }))
+
+      const summary = Backtest.summarize(100, closed, equity)
+
+      expect(closed.map((t) => t.pnl > 0)).toEqual([true, false])
+      expect(Option.getOrThrow(summary.profitFactor)).toBeCloseTo(1000 / 1000)
+      expect(summary.winRate).toBe(0.5)
+      // Returns of +10%, -10%, +10%
+      expect(summary.sharpe).toBeCloseTo(1 / 30 / Math.sqrt(0.04 / 3), 6)
+      expect(summary.sortino).toBeCloseTo(1 / 30 / Math.sqrt(0.01 / 3), 6)
+    })
+
+    it("should report zeros without returns", () => {
+      const summary = Backtest.summarize(10_000, [], [])
+
+      expect(summary).toMatchObject({ finalEquity: 10_000, sharpe: 0, sortino: 0, winRate: 0 })
+    })
+  })
+
+  it("should encode reports and format them for the terminal", () => {
+    const report = Backtest.simulate(config, trades([100, 110]), [buy(0)])
+
+    const encoded = JSON.parse(JSON.stringify(Schema.encodeSync(Backtest.Report)(report)))
+    expect(encoded.summary.profitFactor).toBeNull()
+    expect(Schema.decodeUnknownSync(Backtest.Report)(encoded)).toEqual(report)
+
+    const text = Backtest.format(report)
+    expect(text).toContain("Backtest AAPL: 1 trades")
+    expect(text).toContain("10000.00 -> 11000.00 (10.00%)")
+    expect(text).toContain("Profit factor: n/a")
+  })
+})
@@ -0,0 +1,367 @@
+import * as Schema from "effect/Schema"
+import * as Option from "effect/Option"
+import * as Duration from "effect/Duration"
+import * as DateTime from "effect/DateTime"
+import * as Trade from "./Trade"
+import * as Indicator from "./Indicator"
+import * as Consensus from "./Consensus"
+
+// ============================================================================
+// Report Schemas
+// ============================================================================
+
+/**
+ * Direction of a simulated position.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Side = Schema.Literal("long", "short")
+export type Side = Schema.Schema.Type<typeof Side>
+
+/**
+ * A closed round trip: the position opened on one consensus signal and closed
+ * on the opposite one, or at the end of the data. `pnl` is net of commission
+ * on both fills and `return` is `pnl` over the entry notional.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const ClosedTrade = Schema.Struct({
+  side: Side,
+  quantity: Schema.Number,
+  entryPrice: Schema.Number,
+  entryTimestamp: Trade.TimestampSchema,
+  entryReason: Schema.String,
+  exitPrice: Schema.Number,
+  exitTimestamp: Trade.TimestampSchema,
+  exitReason: Schema.String,
+  pnl: Schema.Number,
+  return: Schema.Number,
+})
+export type ClosedTrade = Schema.Schema.Type<typeof ClosedTrade>
+
+/**
+ * Equity at the last trade of a sample period.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const EquityPoint = Schema.Struct({
+  timestamp: Trade.TimestampSchema,
+  equity: Schema.Number,
+})
+export type EquityPoint = Schema.Schema.Type<typeof EquityPoint>
+
+/**
+ * Performance summary of a backtest.
+ *
+ * Returns and drawdown are fractions (0.05 is 5%). Sharpe and Sortino ratios
+ * are computed from the returns between equity points, per sample period and
+ * not annualized, with a zero risk-free rate. `profitFactor` is gross profit
+ * over gross loss, None without losing trades.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Summary = Schema.Struct({
+  initialEquity: Schema.Number,
+  finalEquity: Schema.Number,
+  totalReturn: Schema.Number,
+  sharpe: Schema.Number,
+  sortino: Schema.Number,
+  maxDrawdown: Schema.Number,
+  winRate: Schema.Number,
+  profitFactor: Schema.OptionFromNullOr(Schema.Number),
+  trades: Schema.NonNegativeInt,
+})
+export type Summary = Schema.Schema.Type<typeof Summary>
+
+/**
+ * Backtest report: the trade list, the equity curve and their summary.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Report = Schema.Struct({
+  symbol: Schema.String,
+  strategy: Consensus.Strategy,
+  trades: Schema.Array(ClosedTrade),
+  equity: Schema.Array(EquityPoint),
+  summary: Summary,
+})
+export type Report = Schema.Schema.Type<typeof Report>
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * How consensus signals become orders.
+ *
+ * Every signal goes through `strategy`. A position is opened when the
+ * consensus reaches `minStrength` on a side, sized at `positionSize` of the
+ * current equity, and closed when it reaches `minStrength` on the other side.
+ * Shorts are only opened with `allowShort`. `commission` is charged on the
+ * notional of every fill.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SimulationConfig {
+  readonly symbol: string
+  readonly strategy: Consensus.Strategy
+  readonly initialCash: number
+  readonly minStrength: number
+  readonly positionSize: number // Fraction of equity per position
+  readonly allowShort: boolean
+  readonly commission: number // Fraction of the notional per fill
+  readonly samplePeriod: Duration.DurationInput // Spacing of the equity curve
+}
+
+/**
+ * Default simulation: $10,000, long only, whole equity per position, no
+ * commission, weighted consensus of at least 0.5 and one-minute equity points.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultSimulation: Omit<SimulationConfig, "symbol"> = {
+  strategy: Consensus.weighted(),
+  initialCash: 10_000,
+  minStrength: 0.5,
+  positionSize: 1,
+  allowShort: false,
+  commission: 0,
+  samplePeriod: Duration.minutes(1),
+}
+
+/**
+ * An indicator's vote, cast after the trade at `index` of the replayed file.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Event {
+  readonly index: number
+  readonly vote: Consensus.Vote
+}
+
+interface Position {
+  readonly side: Side
+  readonly quantity: number
+  readonly entryPrice: number
+  readonly entryTimestamp: Trade.Timestamp
+  readonly entryReason: string
+  readonly entryFee: number
+}
+
+const reasonOf = (signal: Indicator.Signal): string => (signal._tag === "hold" ? "" : signal.reason)
+
+const mean = (values: ReadonlyArray<number>): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length
+
+/**
+ * Summarize a trade list and equity curve.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const summarize = (
+  initialEquity: number,
+  trades: ReadonlyArray<ClosedTrade>,
+  equity: ReadonlyArray<EquityPoint>
+): Summary => {
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1]!.equity : initialEquity
+  const returns = equity.slice(1).map((point, i) => point.equity / equity[i]!.equity - 1)
+
+  const average = returns.length > 0 ? mean(returns) : 0
+  const deviation =
+    returns.length > 1
+      ? Math.sqrt(returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / (returns.length - 1))
+      : 0
+  const downside = returns.length > 0 ? Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2))) : 0
+
+  let peak = initialEquity
+  let maxDrawdown = 0
+  for (const point of equity) {
+    peak = Math.max(peak, point.equity)
+    maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak)
+  }
+
+  const grossProfit = trades.filter((t) => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0)
+  const grossLoss = -trades.filter((t) => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0)
+
+  return {
+    initialEquity,
+    finalEquity,
+    totalReturn: finalEquity / initialEquity - 1,
+    sharpe: deviation > 0 ? average / deviation : 0,
+    sortino: downside > 0 ? average / downside : 0,
+    maxDrawdown,
+    winRate: trades.length > 0 ? trades.filter((t) => t.pnl > 0).length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? Option.some(grossProfit / grossLoss) : Option.none(),
+    trades: trades.length,
+  }
+}
+
+/**
+ * Replay trades and indicator votes through the simulated account.
+ *
+ * Events are applied in order of their trade index, each replacing its
+ * indicator's previous vote, and the consensus of the latest votes is acted
+ * on at every trade of `symbol` at that trade's price. Trades of other symbols
+ * only feed the indicators. A position still open after the last trade is
+ * closed at its price. Time is taken from the trades alone, so the same
+ * trades and events always give the same report.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const simulate = (
+  config: SimulationConfig,
+  trades: ReadonlyArray<Trade.TradeData>,
+  events: ReadonlyArray<Event>
+): Report => {
+  const period = Duration.toMillis(config.samplePeriod)
+  const votes = new Map<string, Consensus.Vote>()
+  const closed: Array<ClosedTrade> = []
+  const equity: Array<EquityPoint> = []
+
+  let cash = config.initialCash
+  let position = Option.none<Position>()
+  let last = Option.none<Trade.TradeData>()
+  let next = 0
+
+  const valueAt = (price: number) =>
+    cash +
+    Option.match(position, {
+      onNone: () => 0,
+      onSome: (p) => (p.side === "long" ? p.quantity * price : -p.quantity * price),
+    })
+
+  const record = (trade: Trade.TradeData) => {
+    const point = { timestamp: trade.timestamp, equity: valueAt(trade.price) }
+    const previous = equity[equity.length - 1]
+    if (
+      previous &&
+      Math.floor(previous.timestamp / period) === Math.floor(trade.timestamp / period)
+    ) {
+      equity[equity.length - 1] = point
+    } else {
+      equity.push(point)
+    }
+  }
+
+  const open = (side: Side, trade: Trade.TradeData, reason: string) => {
+    const quantity = (valueAt(trade.price) * config.positionSize) / trade.price
+    const notional = quantity * trade.price
+    const fee = notional * config.commission
+    cash += (side === "long" ? -notional : notional) - fee
+    position = Option.some({
+      side,
+      quantity,
+      entryPrice: trade.price,
+      entryTimestamp: trade.timestamp,
+      entryReason: reason,
+      entryFee: fee,
+    })
+  }
+
+  const close = (p: Position, trade: Trade.TradeData, reason: string) => {
+    const notional = p.quantity * trade.price
+    const fee = notional * config.commission
+    cash += (p.side === "long" ? notional : -notional) - fee
+    const gross = (trade.price - p.entryPrice) * p.quantity * (p.side === "long" ? 1 : -1)
+    const pnl = gross - p.entryFee - fee
+    closed.push({
+      side: p.side,
+      quantity: p.quantity,
+      entryPrice: p.entryPrice,
+      entryTimestamp: p.entryTimestamp,
+      entryReason: p.entryReason,
+      exitPrice: trade.price,
+      exitTimestamp: trade.timestamp,
+      exitReason: reason,
+      pnl,
+      return: pnl / (p.quantity * p.entryPrice),
+    })
+    position = Option.none()
+  }
+
+  trades.forEach((trade, index) => {
+    for (; next < events.length && events[next]!.index <= index; next++) {
+      votes.set(events[next]!.vote.id, events[next]!.vote)
+    }
+    if (trade.symbol !== config.symbol) {
+      return
+    }
+
+    const consensus = Consensus.aggregate(
+      config.strategy,
+      Array.from(votes.values()),
+      DateTime.unsafeMake(trade.timestamp)
+    )
+    const side: Option.Option<Side> =
+      consensus._tag !== "hold" && consensus.strength >= config.minStrength
+        ? Option.some(consensus._tag === "buy" ? "long" : "short")
+        : Option.none()
+
+    if (Option.isSome(side)) {
+      if (Option.isSome(position) && position.value.side !== side.value) {
+        close(position.value, trade, reasonOf(consensus))
+      }
+      if (Option.isNone(position) && (side.value === "long" || config.allowShort)) {
+        open(side.value, trade, reasonOf(consensus))
+      }
+    }
+
+    record(trade)
+    last = Option.some(trade)
+  })
+
+  if (Option.isSome(position) && Option.isSome(last)) {
+    close(position.value, last.value, "End of data")
+    record(last.value)
+  }
+
+  return {
+    symbol: config.symbol,
+    strategy: config.strategy,
+    trades: closed,
+    equity,
+    summary: summarize(config.initialCash, closed, equity),
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const percent = (value: number): string => `${(value * 100).toFixed(2)}%`
+
+const time = (timestamp: number): string => new Date(timestamp).toISOString()
+
+/**
+ * Format a report for the terminal: the summary, then one line per trade.
+ *
+ * @category Formatting
+ * @since 0.5.0
+ */
+export const format = (report: Report): string => {
+  const { summary } = report
+  const lines = [
+    `Backtest ${report.symbol}: ${summary.trades} trades`,
+    `  Equity:        ${summary.initialEquity.toFixed(2)} -> ${summary.finalEquity.toFixed(2)} (${percent(summary.totalReturn)})`,
+    `  Sharpe:        ${summary.sharpe.toFixed(3)}`,
+    `  Sortino:       ${summary.sortino.toFixed(3)}`,
+    `  Max drawdown:  ${percent(summary.maxDrawdown)}`,
+    `  Win rate:      ${percent(summary.winRate)}`,
+    `  Profit factor: ${Option.match(summary.profitFactor, { onNone: () => "n/a", onSome: (pf) => pf.toFixed(2) })}`,
+    ...report.trades.map(
+      (t) =>
+        `  ${t.side.padEnd(5)} ${time(t.entryTimestamp)} @ ${t.entryPrice.toFixed(2)} -> ${time(t.exitTimestamp)} @ ${t.exitPrice.toFixed(2)}  ${t.pnl.toFixed(2)} (${percent(t.return)})`
+    ),
+  ]
+  return lines.join("\n")
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "bun:test"
+import * as Bar from "./Bar"
+import type * as Trade from "./Trade"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { pipe } from "effect/Function"
+import { mockTrade, makeSymbol, makePrice, makeVolume, makeTimestamp } from "../test-utils/fixtures"
+
+const minute = 60_000
+// 2023-11-14T22:13:00Z, aligned to the minute
+const t0 = 1_699_999_980_000
+
+const trade = (offsetMs: number, price: number, volume = 100, symbol = "AAPL") =>
+  mockTrade({
+    symbol: makeSymbol(symbol),
+    price: makePrice(price),
+    volume: makeVolume(volume),
+    timestamp: makeTimestamp(t0 + offsetMs),
+  })
+
+const run = (
+  trades: ReadonlyArray<Trade.TradeData>,
+  spec: Bar.BarSpec,
+  options?: Bar.AggregateOptions
+) =>
+  Effect.runSync(
+    pipe(Stream.fromIterable(trades), Bar.aggregate(spec, options), Stream.runCollect)
+  ).pipe(Chunk.toReadonlyArray)
+
+describe("Bar", () => {
+  describe("time bars", () => {
+    it("should aggregate OHLCV and VWAP per interval", () => {
+      const bars = run(
+        [trade(0, 100, 100), trade(10_000, 102, 300), trade(20_000, 99, 100), trade(minute, 101)],
+        Bar.time("1 minute")
+      )
+
+      expect(bars.length).toBe(2)
+      const [first] = bars
+      expect(first.open).toBe(100 as Trade.Price)
+      expect(first.high).toBe(102 as Trade.Price)
+      expect(first.low).toBe(99 as Trade.Price)
+      expect(first.close).toBe(99 as Trade.Price)
+      expect(first.volume).toBe(500 as Trade.Volume)
+      expect(first.vwap).toBeCloseTo((100 * 100 + 102 * 300 + 99 * 100) / 500)
+      expect(first.tradeCount).toBe(3)
+      expect(first.start).toBe(t0 as Trade.Timestamp)
+      expect(first.end).toBe((t0 + minute) as Trade.Timestamp)
+    })
+
+    it("should emit a bar as soon as a later trade closes it", async () => {
+      const emitted = await Effect.runPromise(
+        pipe(
+          Stream.fromIterable([trade(0, 100), trade(minute + 1, 101)]),
+          Stream.concat(Stream.never),
+          Bar.aggregate(Bar.time("1 minute")),
+          Stream.take(1),
+          Stream.runCollect
+        )
+      )
+      expect(Chunk.size(emitted)).toBe(1)
+    })
+
+    it("should fill empty intervals at the previous close", () => {
+      const bars = run([trade(0, 100), trade(3 * minute, 105)], Bar.time("1 minute"))
+
+      expect(bars.map((bar) => bar.tradeCount)).toEqual([1, 0, 0, 1])
+      expect(bars.map((bar) => bar.start - t0)).toEqual([0, minute, 2 * minute, 3 * minute])
+      const empty = bars[1]
+      expect(Bar.isEmpty(empty)).toBe(true)
+      expect([empty.open, empty.high, empty.low, empty.close]).toEqual(
+        Array(4).fill(100 as Trade.Price)
+      )
+      expect(empty.volume).toBe(0 as Trade.Volume)
+    })
+
+    it("should skip empty intervals when filling is disabled", () => {
+      const bars = run([trade(0, 100), trade(3 * minute, 105)], Bar.time("1 minute"), {
+        fillEmpty: false,
+      })
+      expect(bars.map((bar) => bar.start - t0)).toEqual([0, 3 * minute])
+    })
+
+    it("should drop trades for bars that were already emitted", () => {
+      const bars = run(
+        [trade(0, 100), trade(minute, 101), trade(30_000, 500)],
+        Bar.time("1 minute")
+      )
+
+      expect(bars.length).toBe(2)
+      expect(bars[0].high).toBe(100 as Trade.Price)
+      expect(bars[0].tradeCount).toBe(1)
+    })
+
+    it("should merge late trades within the allowed lateness", () => {
+      const bars = run(
+        [trade(0, 100), trade(10_000, 102), trade(minute + 1_000, 101), trade(5_000, 90)],
+        Bar.time("1 minute"),
+        { allowedLateness: "2 seconds" }
+      )
+
+      const [first] = bars
+      expect(first.tradeCount).toBe(3)
+      expect(first.low).toBe(90 as Trade.Price)
+      // Open and close follow trade time, not arrival order
+      expect(first.open).toBe(100 as Trade.Price)
+      expect(first.close).toBe(102 as Trade.Price)
+    })
+
+    it("should aggregate every symbol separately", () => {
+      const bars = run(
+        [
+          trade(0, 100, 100, "AAPL"),
+          trade(1_000, 380, 100, "MSFT"),
+          trade(minute, 101, 100, "AAPL"),
+          trade(minute, 381, 100, "MSFT"),
+        ],
+        Bar.time("1 minute")
+      )
+
+      expect(bars.map((bar) => `${bar.symbol}@${bar.start - t0}:${bar.close}`)).toEqual([
+        "AAPL@0:100",
+        "MSFT@0:380",
+        "AAPL@60000:101",
+        "MSFT@60000:381",
+      ])
+    })
+  })
+
+  describe("threshold bars", () => {
+    const trades = [trade(0, 10, 100), trade(1, 11, 200), trade(2, 12, 300), trade(3, 13, 400)]
+
+    it("should close tick bars every count trades", () => {
+      const bars = run(trades, Bar.ticks(3))
+
+      expect(bars.map((bar) => bar.tradeCount)).toEqual([3, 1])
+      expect(bars[0].start).toBe(t0 as Trade.Timestamp)
+      expect(bars[0].end).toBe((t0 + 2) as Trade.Timestamp)
+    })
+
+    it("should close volume bars once the threshold is reached", () => {
+      const bars = run(trades, Bar.volume(250))
+      expect(bars.map((bar) => bar.volume)).toEqual([300, 300, 400] as Array<Trade.Volume>)
+    })
+
+    it("should close dollar bars on traded notional", () => {
+      const bars = run(trades, Bar.dollars(3_000))
+      // 1000 + 2200 = 3200, then 3600, then 5200
+      expect(bars.map((bar) => bar.tradeCount)).toEqual([2, 1, 1])
+    })
+  })
+
+  describe("BarSpec", () => {
+    it("should build time specs from durations", () => {
+      expect(Bar.time("5 minutes")).toEqual(Bar.TimeBars.make({ intervalMs: 5 * minute }))
+      expect(Bar.isBarSpec(Bar.ticks(100))).toBe(true)
+    })
+
+    it("should reject invalid specs", () => {
+      expect(() => Bar.ticks(0)).toThrow()
+      expect(() => Bar.volume(-1)).toThrow()
+    })
+  })
+})
@@ -0,0 +1,585 @@
+import * as Schema from "effect/Schema"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Option from "effect/Option"
+import * as Order from "effect/Order"
+import * as Duration from "effect/Duration"
+import * as Equivalence from "effect/Equivalence"
+import * as Predicate from "effect/Predicate"
+import { dual } from "effect/Function"
+import * as Trade from "./Trade"
+
+// ============================================================================
+// Bar Schema
+// ============================================================================
+
+/**
+ * Schema for an OHLCV bar (candle) aggregated from trades of one symbol.
+ *
+ * - `open` / `close`: prices of the earliest and latest trade by timestamp
+ * - `vwap`: volume-weighted average price of the bar's trades
+ * - `start` / `end`: for time bars the interval `[start, end)`, for tick,
+ *   volume and dollar bars the timestamps of the first and last trade
+ *
+ * A bar with `tradeCount` 0 is an empty interval filled at the previous close.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Bar from "./domain/Bar"
+ * import * as Schema from "effect/Schema"
+ *
+ * const bar = Schema.decodeSync(Bar.Bar)({
+ *   symbol: "AAPL",
+ *   open: 150,
+ *   high: 151,
+ *   low: 149.5,
+ *   close: 150.5,
+ *   volume: 1200,
+ *   vwap: 150.4,
+ *   tradeCount: 12,
+ *   start: 1_700_000_000_000,
+ *   end: 1_700_000_060_000
+ * })
+ */
+export const Bar = Schema.Struct({
+  symbol: Trade.SymbolSchema,
+  open: Trade.PriceSchema,
+  high: Trade.PriceSchema,
+  low: Trade.PriceSchema,
+  close: Trade.PriceSchema,
+  volume: Trade.VolumeSchema,
+  vwap: Trade.PriceSchema,
+  tradeCount: Schema.NonNegativeInt,
+  start: Trade.TimestampSchema,
+  end: Trade.TimestampSchema,
+})
+
+/**
+ * Type for Bar.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export type Bar = Schema.Schema.Type<typeof Bar>
+
+/**
+ * Type guard for Bar.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isBar = Schema.is(Bar)
+
+/**
+ * Structural equality for Bar.
+ *
+ * @category Equivalence
+ * @since 0.5.0
+ */
+export const BarEquivalence: Equivalence.Equivalence<Bar> = Equivalence.make(
+  (a, b) =>
+    a.symbol === b.symbol &&
+    a.start === b.start &&
+    a.end === b.end &&
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    a.volume === b.volume &&
+    a.tradeCount === b.tradeCount
+)
+
+/**
+ * Order by bar start.
+ *
+ * @category Orders
+ * @since 0.5.0
+ */
+export const OrderByStart: Order.Order<Bar> = Order.mapInput(Order.number, (bar) => bar.start)
+
+/**
+ * Check whether a bar covers an interval without trades.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isEmpty = (self: Bar): boolean => self.tradeCount === 0
+
+/**
+ * Check whether a bar closed above its open.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isUp = (self: Bar): boolean => self.close > self.open
+
+/**
+ * Price range (high - low) of a bar.
+ *
+ * @category Destructors
+ * @since 0.5.0
+ */
+export const range = (self: Bar): number => self.high - self.low
+
+/**
+ * Typical price (high + low + close) / 3 of a bar.
+ *
+ * @category Destructors
+ * @since 0.5.0
+ */
+export const typicalPrice = (self: Bar): number => (self.high + self.low + self.close) / 3
+
+// ============================================================================
+// Bar Specifications
+// ============================================================================
+
+/**
+ * Bar specification variants.
+ *
+ * - TimeBars: fixed intervals aligned to the epoch (UTC), e.g. every minute
+ * - TickBars: a bar every `count` trades
+ * - VolumeBars: a bar once the traded volume reaches `threshold`
+ * - DollarBars: a bar once the traded notional (price × volume) reaches `threshold`
+ *
+ * Threshold bars close on the trade that reaches the threshold; trades are
+ * never split across bars.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const TimeBars = Schema.TaggedStruct("TimeBars", {
+  intervalMs: Schema.Number.pipe(
+    Schema.int({ message: () => "Bar interval must be whole milliseconds" }),
+    Schema.positive({ message: () => "Bar interval must be positive" })
+  ),
+})
+
+export const TickBars = Schema.TaggedStruct("TickBars", {
+  count: Schema.Number.pipe(
+    Schema.int({ message: () => "Tick count must be an integer" }),
+    Schema.positive({ message: () => "Tick count must be positive" })
+  ),
+})
+
+export const VolumeBars = Schema.TaggedStruct("VolumeBars", {
+  threshold: Schema.Number.pipe(
+    Schema.positive({ message: () => "Volume threshold must be positive" })
+  ),
+})
+
+export const DollarBars = Schema.TaggedStruct("DollarBars", {
+  threshold: Schema.Number.pipe(
+    Schema.positive({ message: () => "Dollar threshold must be positive" })
+  ),
+})
+
+/**
+ * BarSpec union.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const BarSpec = Schema.Union(TimeBars, TickBars, VolumeBars, DollarBars)
+export type BarSpec = Schema.Schema.Type<typeof BarSpec>
+
+export type TimeBars = Schema.Schema.Type<typeof TimeBars>
+export type TickBars = Schema.Schema.Type<typeof TickBars>
+export type VolumeBars = Schema.Schema.Type<typeof VolumeBars>
+export type DollarBars = Schema.Schema.Type<typeof DollarBars>
+
+/**
+ * Type guard for BarSpec.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isBarSpec = Schema.is(BarSpec)
+
+/**
+ * Time bars of the given interval (e.g. "1 second", "5 minutes").
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Bar from "./domain/Bar"
+ *
+ * const minuteBars = Bar.time("1 minute")
+ */
+export const time = (interval: Duration.DurationInput): TimeBars =>
+  TimeBars.make({ intervalMs: Duration.toMillis(interval) })
+
+/**
+ * Tick bars of `count` trades.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const ticks = (count: number): TickBars => TickBars.make({ count })
+
+/**
+ * Volume bars of (at least) `threshold` traded units.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const volume = (threshold: number): VolumeBars => VolumeBars.make({ threshold })
+
+/**
+ * Dollar bars of (at least) `threshold` traded notional.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const dollars = (threshold: number): DollarBars => DollarBars.make({ threshold })
+
+/**
+ * Pattern match on BarSpec.
+ *
+ * @category Pattern Matching
+ * @since 0.5.0
+ * @example
+ * import * as Bar from "./domain/Bar"
+ *
+ * const label = Bar.matchSpec(spec, {
+ *   TimeBars: (s) => `${s.intervalMs}ms`,
+ *   TickBars: (s) => `${s.count} ticks`,
+ *   VolumeBars: (s) => `${s.threshold} shares`,
+ *   DollarBars: (s) => `$${s.threshold}`
+ * })
+ */
+export const matchSpec = <R>(
+  self: BarSpec,
+  cases: {
+    TimeBars: (spec: TimeBars) => R
+    TickBars: (spec: TickBars) => R
+    VolumeBars: (spec: VolumeBars) => R
+    DollarBars: (spec: DollarBars) => R
+  }
+): R => {
+  switch (self._tag) {
+    case "TimeBars":
+      return cases.TimeBars(self)
+    case "TickBars":
+      return cases.TickBars(self)
+    case "VolumeBars":
+      return cases.VolumeBars(self)
+    case "DollarBars":
+      return cases.DollarBars(self)
+  }
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Options for bar aggregation.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface AggregateOptions {
+  /**
+   * Time bars only: emit flat bars at the previous close for intervals without
+   * trades [default: true]
+   */
+  readonly fillEmpty?: boolean
+  /**
+   * Time bars only: how long a bar stays open for out-of-order trades after
+   * its interval ended, measured in trade time [default: 0]
+   */
+  readonly allowedLateness?: Duration.DurationInput
+}
+
+/**
+ * Running OHLCV totals of the bar being built.
+ */
+interface Accumulator {
+  readonly symbol: string
+  readonly open: number
+  readonly openedAt: number
+  readonly high: number
+  readonly low: number
+  readonly close: number
+  readonly closedAt: number
+  readonly volume: number
+  readonly notional: number
+  readonly tradeCount: number
+}
+
+/**
+ * Aggregation state of one symbol.
+ */
+interface SymbolState {
+  // Time bars: open buckets keyed by start. Threshold bars: the single bar at key 0
+  readonly buckets: ReadonlyMap<number, Accumulator>
+  // Time bars: end and close of the last emitted bar
+  readonly closedUntil: number | undefined
+  readonly lastClose: number | undefined
+  // Time bars: latest trade timestamp seen
+  readonly maxTimestamp: number
+}
+
+const emptyState: SymbolState = {
+  buckets: new Map(),
+  closedUntil: undefined,
+  lastClose: undefined,
+  maxTimestamp: 0,
+}
+
+const decodeBar = Schema.decodeSync(Bar)
+
+const accumulate = (self: Accumulator | undefined, trade: Trade.TradeData): Accumulator => {
+  if (self === undefined) {
+    return {
+      symbol: trade.symbol,
+      open: trade.price,
+      openedAt: trade.timestamp,
+      high: trade.price,
+      low: trade.price,
+      close: trade.price,
+      closedAt: trade.timestamp,
+      volume: trade.volume,
+      notional: trade.price * trade.volume,
+      tradeCount: 1,
+    }
+  }
+  // Out-of-order trades still leave open/close at the earliest/latest timestamp
+  const isFirst = trade.timestamp < self.openedAt
+  const isLast = trade.timestamp >= self.closedAt
+  return {
+    symbol: self.symbol,
+    open: isFirst ? trade.price : self.open,
+    openedAt: isFirst ? trade.timestamp : self.openedAt,
+    high: Math.max(self.high, trade.price),
+    low: Math.min(self.low, trade.price),
+    close: isLast ? trade.price : self.close,
+    closedAt: isLast ? trade.timestamp : self.closedAt,
+    volume: self.volume + trade.volume,
+    notional: self.notional + trade.price * trade.volume,
+    tradeCount: self.tradeCount + 1,
+  }
+}
+
+const toBar = (self: Accumulator, start: number, end: number): Bar =>
+  decodeBar({
+    symbol: self.symbol,
+    open: self.open,
+    high: self.high,
+    low: self.low,
+    close: self.close,
+    volume: self.volume,
+    // Zero-volume trades carry no weight, fall back to the close
+    vwap: self.volume > 0 ? self.notional / self.volume : self.close,
+    tradeCount: self.tradeCount,
+    start,
+    end,
+  })
+
+const emptyBar = (symbol: string, price: number, start: number, end: number): Bar =>
+  decodeBar({
+    symbol,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 0,
+    vwap: price,
+    tradeCount: 0,
+    start,
+    end,
+  })
+
+/**
+ * Emit the time bars of a symbol that end at or before `until`, in order,
+ * filling gaps between them when requested.
+ */
+const closeTimeBars = (
+  state: SymbolState,
+  symbol: string,
+  intervalMs: number,
+  until: number,
+  fillEmpty: boolean
+): [SymbolState, ReadonlyArray<Bar>] => {
+  const due = [...state.buckets.keys()]
+    .filter((start) => start + intervalMs <= until)
+    .sort((a, b) => a - b)
+  if (due.length === 0 && !(fillEmpty && state.closedUntil !== undefined)) {
+    return [state, []]
+  }
+
+  const bars: Array<Bar> = []
+  const buckets = new Map(state.buckets)
+  let closedUntil = state.closedUntil
+  let lastClose = state.lastClose
+
+  const fillTo = (start: number) => {
+    if (!fillEmpty || closedUntil === undefined || lastClose === undefined) return
+    for (let gap = closedUntil; gap < start; gap += intervalMs) {
+      bars.push(emptyBar(symbol, lastClose, gap, gap + intervalMs))
+    }
+  }
+
+  for (const start of due) {
+    fillTo(start)
+    const acc = buckets.get(start)!
+    buckets.delete(start)
+    bars.push(toBar(acc, start, start + intervalMs))
+    closedUntil = start + intervalMs
+    lastClose = acc.close
+  }
+  // Intervals that have fully elapsed without trades
+  fillTo(Math.floor(until / intervalMs) * intervalMs)
+  if (bars.length > 0) {
+    closedUntil = bars[bars.length - 1].end
+  }
+
+  return [{ ...state, buckets, closedUntil, lastClose }, bars]
+}
+
+/**
+ * Result of feeding one trade to a symbol's aggregation state.
+ */
+type Step = readonly [SymbolState, ReadonlyArray<Bar>, late: boolean]
+
+const pushTimeBar = (
+  state: SymbolState,
+  trade: Trade.TradeData,
+  intervalMs: number,
+  latenessMs: number,
+  fillEmpty: boolean
+): Step => {
+  const start = Math.floor(trade.timestamp / intervalMs) * intervalMs
+  if (state.closedUntil !== undefined && start < state.closedUntil) {
+    return [state, [], true]
+  }
+
+  const buckets = new Map(state.buckets).set(start, accumulate(state.buckets.get(start), trade))
+  const maxTimestamp = Math.max(state.maxTimestamp, trade.timestamp)
+  // A bar is final once no trade within the allowed lateness can still fall into it
+  const [next, bars] = closeTimeBars(
+    { ...state, buckets, maxTimestamp },
+    trade.symbol,
+    intervalMs,
+    Math.floor((maxTimestamp - latenessMs) / intervalMs) * intervalMs,
+    fillEmpty
+  )
+  return [next, bars, false]
+}
+
+const pushThresholdBar = (
+  state: SymbolState,
+  trade: Trade.TradeData,
+  measure: (acc: Accumulator) => number,
+  threshold: number
+): Step => {
+  const acc = accumulate(state.buckets.get(0), trade)
+  if (measure(acc) >= threshold) {
+    return [emptyState, [toThresholdBar(acc)], false]
+  }
+  return [{ ...state, buckets: new Map([[0, acc]]) }, [], false]
+}
+
+const toThresholdBar = (acc: Accumulator): Bar => toBar(acc, acc.openedAt, acc.closedAt)
+
+/**
+ * Aggregate a trade stream into OHLCV bars.
+ *
+ * Trades are grouped per symbol, so a multi-symbol stream yields interleaved
+ * bars of every symbol. Bars are emitted as soon as they are complete; the
+ * trailing, still-open bars are emitted when the trade stream ends.
+ *
+ * Time bars are driven by trade timestamps (event time): a bar closes once a
+ * trade at or after its end (plus `allowedLateness`) arrives. Intervals
+ * without trades become flat, zero-volume bars at the previous close unless
+ * `fillEmpty` is false. Trades that arrive after their bar was emitted are
+ * dropped and logged at debug level.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ * @example
+ * import * as Bar from "./domain/Bar"
+ * import * as Stream from "effect/Stream"
+ * import { pipe } from "effect/Function"
+ *
+ * const minuteBars = pipe(trades, Bar.aggregate(Bar.time("1 minute")))
+ *
+ * // Tolerate trades up to 2 seconds out of order, skip empty minutes
+ * const tolerant = pipe(
+ *   trades,
+ *   Bar.aggregate(Bar.time("1 minute"), { allowedLateness: "2 seconds", fillEmpty: false })
+ * )
+ *
+ * const dollarBars = pipe(trades, Bar.aggregate(Bar.dollars(1_000_000)))
+ */
+export const aggregate: {
+  (
+    spec: BarSpec,
+    options?: AggregateOptions
+  ): <E, R>(trades: Stream.Stream<Trade.TradeData, E, R>) => Stream.Stream<Bar, E, R>
+  <E, R>(
+    trades: Stream.Stream<Trade.TradeData, E, R>,
+    spec: BarSpec,
+    options?: AggregateOptions
+  ): Stream.Stream<Bar, E, R>
+} = dual(
+  (args) => Predicate.hasProperty(args[0], Stream.StreamTypeId),
+  <E, R>(
+    trades: Stream.Stream<Trade.TradeData, E, R>,
+    spec: BarSpec,
+    options: AggregateOptions = {}
+  ): Stream.Stream<Bar, E, R> => {
+    const fillEmpty = options.fillEmpty ?? true
+    const latenessMs = Duration.toMillis(options.allowedLateness ?? Duration.zero)
+
+    const push = (state: SymbolState, trade: Trade.TradeData): Step =>
+      matchSpec(spec, {
+        TimeBars: ({ intervalMs }) => pushTimeBar(state, trade, intervalMs, latenessMs, fillEmpty),
+        TickBars: ({ count }) => pushThresholdBar(state, trade, (acc) => acc.tradeCount, count),
+        VolumeBars: ({ threshold }) =>
+          pushThresholdBar(state, trade, (acc) => acc.volume, threshold),
+        DollarBars: ({ threshold }) =>
+          pushThresholdBar(state, trade, (acc) => acc.notional, threshold),
+      })
+
+    const flush = (symbol: string, state: SymbolState): ReadonlyArray<Bar> =>
+      matchSpec(spec, {
+        TimeBars: ({ intervalMs }) =>
+          closeTimeBars(state, symbol, intervalMs, Number.POSITIVE_INFINITY, false)[1],
+        TickBars: () => [...state.buckets.values()].map(toThresholdBar),
+        VolumeBars: () => [...state.buckets.values()].map(toThresholdBar),
+        DollarBars: () => [...state.buckets.values()].map(toThresholdBar),
+      })
+
+    return trades.pipe(
+      Stream.map(Option.some),
+      // End-of-stream marker to emit the bars still open
+      Stream.concat(Stream.succeed(Option.none<Trade.TradeData>())),
+      Stream.mapAccumEffect(
+        new Map<string, SymbolState>() as ReadonlyMap<string, SymbolState>,
+        (states, next) =>
+          Option.match(next, {
+            onNone: () =>
+              Effect.succeed([
+                new Map(),
+                [...states].flatMap(([symbol, state]) => flush(symbol, state)),
+              ] as const),
+            onSome: (trade) => {
+              const [state, bars, late] = push(states.get(trade.symbol) ?? emptyState, trade)
+              const result = [new Map(states).set(trade.symbol, state), bars] as const
+              return late
+                ? Effect.as(
+                    Effect.logDebug(
+                      `Bars: Dropping late ${trade.symbol} trade at ${trade.timestamp}`
+                    ),
+                    result
+                  )
+                : Effect.succeed(result)
+            },
+          })
+      ),
+      Stream.flattenIterables
+    )
+  }
+)
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test"
+import * as ConnectionStatus from "./ConnectionStatus"
+import * as DateTime from "effect/DateTime"
+
+describe("ConnectionStatus", () => {
+  const connecting = ConnectionStatus.Connecting.make({ attempt: 1 })
+  const open = ConnectionStatus.Open.make({ since: DateTime.unsafeNow() })
+  const reconnecting = ConnectionStatus.Reconnecting.make({
+    attempt: 2,
+    reason: "Connection closed (code 1006)",
+  })
+  const failed = ConnectionStatus.Failed.make({ attempts: 5, reason: "Socket Open error" })
+  const closed = ConnectionStatus.Closed.make({ reason: "End of replay" })
+
+  describe("Guards", () => {
+    it("should validate every variant with isConnectionStatus", () => {
+      expect(ConnectionStatus.isConnectionStatus(connecting)).toBe(true)
+      expect(ConnectionStatus.isConnectionStatus(open)).toBe(true)
+      expect(ConnectionStatus.isConnectionStatus(reconnecting)).toBe(true)
+      expect(ConnectionStatus.isConnectionStatus(failed)).toBe(true)
+      expect(ConnectionStatus.isConnectionStatus(closed)).toBe(true)
+    })
+
+    it("should reject unknown values", () => {
+      expect(ConnectionStatus.isConnectionStatus({ _tag: "Disconnected" })).toBe(false)
+    })
+
+    it("should refine Open and Failed", () => {
+      expect(ConnectionStatus.isOpen(open)).toBe(true)
+      expect(ConnectionStatus.isOpen(reconnecting)).toBe(false)
+      expect(ConnectionStatus.isFailed(failed)).toBe(true)
+      expect(ConnectionStatus.isFailed(connecting)).toBe(false)
+    })
+  })
+
+  describe("match", () => {
+    it("should dispatch on the tag", () => {
+      const tags = [connecting, open, reconnecting, failed, closed].map((status) =>
+        ConnectionStatus.match(status, {
+          Connecting: () => "c",
+          Open: () => "o",
+          Reconnecting: () => "r",
+          Failed: () => "f",
+          Closed: () => "x",
+        })
+      )
+      expect(tags).toEqual(["c", "o", "r", "f", "x"])
+    })
+  })
+
+  describe("ConnectionStatusEquivalence", () => {
+    it("should ignore the Open timestamp", () => {
+      const later = ConnectionStatus.Open.make({ since: DateTime.unsafeMake(0) })
+      expect(ConnectionStatus.ConnectionStatusEquivalence(open, later)).toBe(true)
+    })
+
+    it("should compare attempts and reasons", () => {
+      const other = ConnectionStatus.Reconnecting.make({ attempt: 3, reason: reconnecting.reason })
+      expect(ConnectionStatus.ConnectionStatusEquivalence(reconnecting, reconnecting)).toBe(true)
+      expect(ConnectionStatus.ConnectionStatusEquivalence(reconnecting, other)).toBe(false)
+      expect(ConnectionStatus.ConnectionStatusEquivalence(connecting, open)).toBe(false)
+    })
+  })
+
+  describe("toLabel", () => {
+    it("should describe each status", () => {
+      expect(ConnectionStatus.toLabel(connecting)).toBe("connecting")
+      expect(ConnectionStatus.toLabel(open)).toBe("open")
+      expect(ConnectionStatus.toLabel(reconnecting)).toContain("attempt 2")
+      expect(ConnectionStatus.toLabel(failed)).toContain("5 attempt(s)")
+      expect(ConnectionStatus.toLabel(closed)).toBe("closed: End of replay")
+    })
+  })
+})
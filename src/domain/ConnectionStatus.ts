@@ -0,0 +1,156 @@
+import * as Schema from "effect/Schema"
+import * as Equivalence from "effect/Equivalence"
+
+/**
+ * Connection lifecycle variants for streaming market data providers.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Connecting = Schema.TaggedStruct("Connecting", {
+  attempt: Schema.Number,
+})
+
+export const Open = Schema.TaggedStruct("Open", {
+  since: Schema.DateTimeUtcFromSelf,
+})
+
+export const Reconnecting = Schema.TaggedStruct("Reconnecting", {
+  attempt: Schema.Number,
+  reason: Schema.String,
+})
+
+export const Failed = Schema.TaggedStruct("Failed", {
+  attempts: Schema.Number,
+  reason: Schema.String,
+})
+
+export const Closed = Schema.TaggedStruct("Closed", {
+  reason: Schema.String,
+})
+
+/**
+ * ConnectionStatus union describing where a provider connection currently is.
+ *
+ * - Connecting: a connection attempt is in flight (`attempt` starts at 1)
+ * - Open: the socket is open and subscriptions have been sent
+ * - Reconnecting: the connection dropped and a retry is scheduled
+ * - Failed: the reconnect schedule is exhausted, no further attempts are made
+ * - Closed: the source ended normally (e.g. a replay reached the end of its file)
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as ConnectionStatus from "./domain/ConnectionStatus"
+ *
+ * const status = ConnectionStatus.Reconnecting.make({ attempt: 2, reason: "Connection closed" })
+ */
+export const ConnectionStatus = Schema.Union(Connecting, Open, Reconnecting, Failed, Closed)
+export type ConnectionStatus = Schema.Schema.Type<typeof ConnectionStatus>
+
+export type Connecting = Schema.Schema.Type<typeof Connecting>
+export type Open = Schema.Schema.Type<typeof Open>
+export type Reconnecting = Schema.Schema.Type<typeof Reconnecting>
+export type Failed = Schema.Schema.Type<typeof Failed>
+export type Closed = Schema.Schema.Type<typeof Closed>
+
+/**
+ * Type guard for ConnectionStatus.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isConnectionStatus = Schema.is(ConnectionStatus)
+
+/**
+ * Refine to Open status.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isOpen = (self: ConnectionStatus): self is Open => self._tag === "Open"
+
+/**
+ * Refine to Failed status.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isFailed = (self: ConnectionStatus): self is Failed => self._tag === "Failed"
+
+/**
+ * Structural equality for ConnectionStatus (ignores the Open timestamp).
+ *
+ * @category Equivalence
+ * @since 0.5.0
+ */
+export const ConnectionStatusEquivalence: Equivalence.Equivalence<ConnectionStatus> =
+  Equivalence.make((a, b) => {
+    switch (a._tag) {
+      case "Connecting":
+        return b._tag === "Connecting" && a.attempt === b.attempt
+      case "Open":
+        return b._tag === "Open"
+      case "Reconnecting":
+        return b._tag === "Reconnecting" && a.attempt === b.attempt && a.reason === b.reason
+      case "Failed":
+        return b._tag === "Failed" && a.attempts === b.attempts && a.reason === b.reason
+      case "Closed":
+        return b._tag === "Closed" && a.reason === b.reason
+    }
+  })
+
+/**
+ * Pattern match on ConnectionStatus.
+ *
+ * @category Pattern Matching
+ * @since 0.5.0
+ * @example
+ * import * as ConnectionStatus from "./domain/ConnectionStatus"
+ *
+ * const label = ConnectionStatus.match(status, {
+ *   Connecting: (s) => `connecting (#${s.attempt})`,
+ *   Open: () => "live",
+ *   Reconnecting: (s) => `reconnecting after ${s.reason}`,
+ *   Failed: (s) => `gave up after ${s.attempts} attempts`,
+ *   Closed: (s) => `ended: ${s.reason}`
+ * })
+ */
+export const match = <R>(
+  self: ConnectionStatus,
+  cases: {
+    Connecting: (status: Connecting) => R
+    Open: (status: Open) => R
+    Reconnecting: (status: Reconnecting) => R
+    Failed: (status: Failed) => R
+    Closed: (status: Closed) => R
+  }
+): R => {
+  switch (self._tag) {
+    case "Connecting":
+      return cases.Connecting(self)
+    case "Open":
+      return cases.Open(self)
+    case "Reconnecting":
+      return cases.Reconnecting(self)
+    case "Failed":
+      return cases.Failed(self)
+    case "Closed":
+      return cases.Closed(self)
+  }
+}
+
+/**
+ * Short human-readable label for logs and the UI header.
+ *
+ * @category Destructors
+ * @since 0.5.0
+ */
+export const toLabel = (self: ConnectionStatus): string =>
+  match(self, {
+    Connecting: (s) => (s.attempt > 1 ? `connecting (attempt ${s.attempt})` : "connecting"),
+    Open: () => "open",
+    Reconnecting: (s) => `reconnecting (attempt ${s.attempt}): ${s.reason}`,
+    Failed: (s) => `failed after ${s.attempts} attempt(s): ${s.reason}`,
+    Closed: (s) => `closed: ${s.reason}`,
+  })
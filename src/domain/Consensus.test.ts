@@ -0,0 +1,151 @@
+import { describe, it, expect } from "bun:test"
+import * as Consensus from "./Consensus"
+import type * as Indicator from "./Indicator"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { mockBuySignal, mockSellSignal, mockHoldSignal } from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+const now = DateTime.unsafeMake(start)
+const at = (seconds: number) => DateTime.unsafeMake(start + seconds * 1000)
+
+const vote = (id: string, signal: Indicator.Signal, value = 50): Consensus.Vote => ({
+  id,
+  symbol: "AAPL",
+  value,
+  signal,
+})
+
+const buy = (id: string, strength: number, seconds = 0) =>
+  vote(id, mockBuySignal({ strength, reason: `${id} buy`, timestamp: at(seconds) }))
+
+const sell = (id: string, strength: number, seconds = 0) =>
+  vote(id, mockSellSignal({ strength, reason: `${id} sell`, timestamp: at(seconds) }))
+
+const hold = (id: string, seconds = 0) => vote(id, mockHoldSignal({ timestamp: at(seconds) }))
+
+describe("Consensus", () => {
+  describe("weighted", () => {
+    it("should keep the original equal-weight vote by default", () => {
+      const signal = Consensus.aggregate(
+        Consensus.weighted(),
+        [buy("rsi", 0.8), buy("macd", 0.6), hold("bb")],
+        now
+      )
+
+      expect(signal._tag).toBe("buy")
+      expect(signal._tag === "buy" && signal.strength).toBeCloseTo(1.4 / 3)
+      expect(signal._tag === "buy" && signal.reason).toBe(
+        "Consensus buy (2 indicators): rsi buy, macd buy"
+      )
+    })
+
+    it("should hold below the threshold", () => {
+      const signal = Consensus.aggregate(
+        Consensus.weighted(),
+        [buy("rsi", 0.5), hold("macd"), hold("bb"), hold("vwap")],
+        now
+      )
+
+      expect(signal._tag).toBe("hold")
+    })
+
+    it("should weight votes by indicator id", () => {
+      const votes = [buy("rsi", 0.6), sell("macd", 0.8)]
+
+      expect(Consensus.aggregate(Consensus.weighted(), votes, now)._tag).toBe("sell")
+      expect(Consensus.aggregate(Consensus.weighted({ rsi: 3 }), votes, now)._tag).toBe("buy")
+    })
+
+    it("should hold without votes, timestamped now", () => {
+      expect(Consensus.aggregate(Consensus.weighted(), [], now)).toEqual(
+        mockHoldSignal({ timestamp: now })
+      )
+    })
+  })
+
+  describe("unanimous", () => {
+    it("should need every vote on the same side", () => {
+      const signal = Consensus.aggregate(
+        Consensus.unanimous(2),
+        [sell("rsi", 0.9), sell("macd", 0.6)],
+        now
+      )
+
+      expect(signal._tag).toBe("sell")
+      expect(signal._tag === "sell" && signal.strength).toBe(0.6)
+      expect(
+        Consensus.aggregate(Consensus.unanimous(), [sell("rsi", 0.9), hold("macd")], now)._tag
+      ).toBe("hold")
+    })
+
+    it("should need at least minVotes votes", () => {
+      expect(Consensus.aggregate(Consensus.unanimous(2), [buy("rsi", 0.9)], now)._tag).toBe("hold")
+    })
+  })
+
+  describe("majority", () => {
+    it("should need a quorum that outnumbers the other side", () => {
+      const votes = [buy("rsi", 0.8), buy("macd", 0.4), sell("bb", 0.9), hold("vwap")]
+
+      const signal = Consensus.aggregate(Consensus.majority(2), votes, now)
+      expect(signal._tag).toBe("buy")
+      expect(signal._tag === "buy" && signal.strength).toBeCloseTo(0.6)
+      expect(signal._tag === "buy" && signal.reason).toBe(
+        "Majority buy (2 of 4 indicators): rsi buy, macd buy"
+      )
+      expect(Consensus.aggregate(Consensus.majority(3), votes, now)._tag).toBe("hold")
+      expect(
+        Consensus.aggregate(Consensus.majority(1), [buy("rsi", 0.8), sell("bb", 0.9)], now)._tag
+      ).toBe("hold")
+    })
+  })
+
+  describe("decayed", () => {
+    it("should favour recent signals", () => {
+      // The buy is three half-lives old, so worth an eighth of the fresh sell
+      const votes = [buy("rsi", 0.9, 0), sell("macd", 0.5, 30)]
+
+      const signal = Consensus.aggregate(Consensus.decayed(10), votes, at(30))
+      expect(signal._tag).toBe("sell")
+      expect(signal.timestamp).toEqual(at(30))
+      expect(Consensus.aggregate(Consensus.weighted(), votes, at(30))._tag).toBe("buy")
+    })
+  })
+
+  describe("veto", () => {
+    const adx = (value: number) => vote("adx", mockHoldSignal({ timestamp: now }), value)
+    const strategy = Consensus.veto(Consensus.majority(1), [
+      { indicator: "adx", operator: ">", threshold: 25, blocks: ["rsi"] },
+    ])
+
+    it("should drop blocked votes while the veto holds", () => {
+      const votes = [buy("rsi", 0.9), sell("macd", 0.4)]
+
+      expect(Consensus.aggregate(strategy, [adx(30), ...votes], now)._tag).toBe("sell")
+      expect(Consensus.aggregate(strategy, [adx(20), ...votes], now)._tag).toBe("hold")
+      expect(Consensus.aggregate(strategy, [adx(20), buy("rsi", 0.9)], now)._tag).toBe("buy")
+    })
+
+    it("should hold everything when a veto blocks nothing in particular", () => {
+      const holdAll = Consensus.veto(Consensus.weighted(), [
+        { indicator: "adx", operator: ">", threshold: 25, blocks: [] },
+      ])
+
+      expect(Consensus.aggregate(holdAll, [adx(30), buy("rsi", 0.9)], now)._tag).toBe("hold")
+    })
+  })
+
+  it("should decode strategies", () => {
+    const strategy = Schema.decodeUnknownSync(Consensus.Strategy)({
+      _tag: "veto",
+      vetoes: [{ indicator: "adx-14-AAPL", operator: ">", threshold: 25, blocks: [] }],
+      strategy: { _tag: "decayed", halfLifeSeconds: 60, threshold: 0.3 },
+    })
+
+    expect(Consensus.isStrategy(strategy)).toBe(true)
+    expect(() =>
+      Schema.decodeUnknownSync(Consensus.Strategy)({ _tag: "majority", quorum: 0 })
+    ).toThrow()
+  })
+})
@@ -0,0 +1,410 @@
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import * as Array from "effect/Array"
+import * as Option from "effect/Option"
+import { pipe } from "effect/Function"
+import * as Indicator from "./Indicator"
+import * as Trigger from "./Trigger"
+
+/**
+ * One indicator's say in a consensus: its latest signal and headline value.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Vote {
+  readonly id: string
+  readonly symbol: string
+  readonly value: number
+  readonly signal: Indicator.Signal
+}
+
+/**
+ * Vote of an indicator state and the signal it produced.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const vote = (state: Indicator.IndicatorState, signal: Indicator.Signal): Vote => ({
+  id: state.id,
+  symbol: state.symbol,
+  value: state.value,
+  signal,
+})
+
+/**
+ * Tombstone of an indicator that stopped running, whose last vote no longer
+ * counts in its symbol's consensus.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Withdrawal {
+  readonly _tag: "withdrawal"
+  readonly id: string
+  readonly symbol: string
+}
+
+/**
+ * What a continuous consensus follows: new votes and withdrawn indicators.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type Ballot = Vote | Withdrawal
+
+/**
+ * Withdrawal of an indicator's vote.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const withdraw = (id: string, symbol: string): Withdrawal => ({
+  _tag: "withdrawal",
+  id,
+  symbol,
+})
+
+/**
+ * Type guard for Withdrawal.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isWithdrawal = (ballot: Ballot): ballot is Withdrawal => "_tag" in ballot
+
+/**
+ * Rule blocking votes while an indicator's value is in a regime, e.g. a strong
+ * trend (ADX above 25) blocking mean reversion indicators. With no `blocks` the
+ * whole consensus is held.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const VetoRule = Schema.Struct({
+  indicator: Schema.String,
+  operator: Trigger.Operator,
+  threshold: Schema.Number,
+  blocks: Schema.Array(Schema.String),
+})
+export type VetoRule = Schema.Schema.Type<typeof VetoRule>
+
+/**
+ * Contents of a veto rules file, in JSON or YAML.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const VetoFile = Schema.Struct({
+  vetoes: Schema.Array(VetoRule),
+})
+
+export type VetoFile = Schema.Schema.Type<typeof VetoFile>
+
+/**
+ * How votes are combined into a consensus signal.
+ *
+ * - `weighted` sums strengths, each vote weighted by its indicator id (1 by
+ *   default), and takes the stronger side once it exceeds `threshold` of the
+ *   total weight
+ * - `unanimous` needs at least `minVotes` votes, all on the same side
+ * - `majority` needs at least `quorum` votes on a side, outnumbering the other
+ * - `decayed` is `weighted` with each vote's weight halving every
+ *   `halfLifeSeconds` of its signal's age
+ * - `veto` applies its veto rules, then combines the remaining votes with
+ *   `strategy`
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type Strategy = Weighted | Unanimous | Majority | Decayed | Veto
+
+export interface Weighted {
+  readonly _tag: "weighted"
+  readonly weights: Readonly<Record<string, number>>
+  readonly threshold: number
+}
+
+export interface Unanimous {
+  readonly _tag: "unanimous"
+  readonly minVotes: number
+}
+
+export interface Majority {
+  readonly _tag: "majority"
+  readonly quorum: number
+}
+
+export interface Decayed {
+  readonly _tag: "decayed"
+  readonly halfLifeSeconds: number
+  readonly threshold: number
+}
+
+export interface Veto {
+  readonly _tag: "veto"
+  readonly vetoes: ReadonlyArray<VetoRule>
+  readonly strategy: Strategy
+}
+
+/**
+ * Strategy variants.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Weighted = Schema.TaggedStruct("weighted", {
+  weights: Schema.Record({ key: Schema.String, value: Schema.NonNegative }),
+  threshold: Schema.NonNegative,
+})
+
+export const Unanimous = Schema.TaggedStruct("unanimous", {
+  minVotes: Schema.Int.pipe(Schema.positive()),
+})
+
+export const Majority = Schema.TaggedStruct("majority", {
+  quorum: Schema.Int.pipe(Schema.positive()),
+})
+
+export const Decayed = Schema.TaggedStruct("decayed", {
+  halfLifeSeconds: Schema.Positive,
+  threshold: Schema.NonNegative,
+})
+
+export const Veto = Schema.TaggedStruct("veto", {
+  vetoes: Schema.Array(VetoRule),
+  strategy: Schema.suspend((): Schema.Schema<Strategy> => Strategy),
+})
+
+/**
+ * Strategy union.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Consensus from "@/domain/Consensus"
+ * import * as Schema from "effect/Schema"
+ *
+ * const strategy = Schema.decodeUnknownSync(Consensus.Strategy)({
+ *   _tag: "majority",
+ *   quorum: 2
+ * })
+ */
+export const Strategy: Schema.Schema<Strategy> = Schema.Union(
+  Weighted,
+  Unanimous,
+  Majority,
+  Decayed,
+  Veto
+)
+
+/**
+ * Type guard for Strategy.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isStrategy = Schema.is(Strategy)
+
+/**
+ * Strategy constructors.
+ *
+ * `weighted()` with no arguments is the aggregator's original vote: equal
+ * weights and a 0.3 threshold.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Consensus from "@/domain/Consensus"
+ *
+ * // RSI and Bollinger Bands only count while ADX says there is no trend
+ * const strategy = Consensus.veto(Consensus.majority(2), [
+ *   { indicator: "adx-14-AAPL", operator: ">", threshold: 25, blocks: ["rsi-14-AAPL", "bb-20-AAPL"] }
+ * ])
+ */
+export const weighted = (
+  weights: Readonly<Record<string, number>> = {},
+  threshold: number = 0.3
+): Strategy => ({ _tag: "weighted", weights, threshold })
+
+export const unanimous = (minVotes: number = 1): Strategy => ({ _tag: "unanimous", minVotes })
+
+export const majority = (quorum: number): Strategy => ({ _tag: "majority", quorum })
+
+export const decayed = (halfLifeSeconds: number, threshold: number = 0.3): Strategy => ({
+  _tag: "decayed",
+  halfLifeSeconds,
+  threshold,
+})
+
+export const veto = (strategy: Strategy, vetoes: ReadonlyArray<VetoRule>): Strategy => ({
+  _tag: "veto",
+  vetoes,
+  strategy,
+})
+
+type Side = "buy" | "sell"
+
+const sideOf = (signal: Indicator.Signal): Option.Option<Side> =>
+  signal._tag === "hold" ? Option.none() : Option.some(signal._tag)
+
+const strengthOf = (signal: Indicator.Signal): number =>
+  signal._tag === "hold" ? 0 : signal.strength
+
+const reasonsOf = (votes: ReadonlyArray<Vote>): ReadonlyArray<string> =>
+  Array.filterMap(votes, ({ signal }) =>
+    signal._tag === "hold" ? Option.none() : Option.some(signal.reason)
+  )
+
+const decide = (
+  side: Side,
+  strength: number,
+  timestamp: DateTime.Utc,
+  reason: string
+): Indicator.Signal =>
+  side === "buy"
+    ? Indicator.Buy.make({ _tag: "buy", strength, timestamp, reason })
+    : Indicator.Sell.make({ _tag: "sell", strength, timestamp, reason })
+
+const hold = (timestamp: DateTime.Utc): Indicator.Signal =>
+  Indicator.Hold.make({ _tag: "hold", timestamp })
+
+/**
+ * Weighted vote shared by `weighted` and `decayed`.
+ */
+const tally = (
+  votes: ReadonlyArray<Vote>,
+  weightOf: (vote: Vote) => number,
+  threshold: number,
+  timestamp: DateTime.Utc
+): Indicator.Signal => {
+  const score = (side: Side) =>
+    votes
+      .filter((vote) => vote.signal._tag === side)
+      .reduce((sum, vote) => sum + weightOf(vote) * strengthOf(vote.signal), 0)
+  const total = votes.reduce((sum, vote) => sum + weightOf(vote), 0)
+  const buy = score("buy")
+  const sell = score("sell")
+  const reasons = reasonsOf(votes)
+  const winner: Option.Option<Side> =
+    buy > sell && buy > total * threshold
+      ? Option.some("buy")
+      : sell > buy && sell > total * threshold
+        ? Option.some("sell")
+        : Option.none()
+
+  return Option.match(winner, {
+    onNone: () => hold(timestamp),
+    onSome: (side) =>
+      decide(
+        side,
+        Math.min(1, (side === "buy" ? buy : sell) / total),
+        timestamp,
+        `Consensus ${side} (${reasons.length} indicators): ${reasons.join(", ")}`
+      ),
+  })
+}
+
+const isVetoed = (votes: ReadonlyArray<Vote>, rule: VetoRule): boolean =>
+  votes.some(
+    (vote) => vote.id === rule.indicator && Trigger.holds(vote.value, rule.operator, rule.threshold)
+  )
+
+const combine = (
+  strategy: Strategy,
+  votes: ReadonlyArray<Vote>,
+  now: DateTime.Utc,
+  timestamp: DateTime.Utc
+): Indicator.Signal => {
+  switch (strategy._tag) {
+    case "weighted":
+      return tally(votes, (vote) => strategy.weights[vote.id] ?? 1, strategy.threshold, timestamp)
+    case "decayed": {
+      const weightOf = (vote: Vote) => {
+        const age = Math.max(0, DateTime.distance(vote.signal.timestamp, now)) / 1000
+        return Math.pow(0.5, age / strategy.halfLifeSeconds)
+      }
+      return tally(votes, weightOf, strategy.threshold, timestamp)
+    }
+    case "unanimous": {
+      const sides = Array.dedupe(votes.map((vote) => vote.signal._tag))
+      const side =
+        sides.length === 1
+          ? Option.flatMap(Array.head(votes), (v) => sideOf(v.signal))
+          : Option.none()
+      return pipe(
+        side,
+        Option.filter(() => votes.length >= strategy.minVotes),
+        Option.match({
+          onNone: () => hold(timestamp),
+          onSome: (side) =>
+            decide(
+              side,
+              Math.min(...votes.map((vote) => strengthOf(vote.signal))),
+              timestamp,
+              `Unanimous ${side} (${votes.length} indicators): ${reasonsOf(votes).join(", ")}`
+            ),
+        })
+      )
+    }
+    case "majority": {
+      const buys = votes.filter((vote) => vote.signal._tag === "buy")
+      const sells = votes.filter((vote) => vote.signal._tag === "sell")
+      const [side, winners] =
+        buys.length > sells.length ? (["buy", buys] as const) : (["sell", sells] as const)
+      if (winners.length < strategy.quorum || buys.length === sells.length) {
+        return hold(timestamp)
+      }
+      const strength =
+        winners.reduce((sum, vote) => sum + strengthOf(vote.signal), 0) / winners.length
+      return decide(
+        side,
+        strength,
+        timestamp,
+        `Majority ${side} (${winners.length} of ${votes.length} indicators): ${reasonsOf(winners).join(", ")}`
+      )
+    }
+    case "veto": {
+      const active = strategy.vetoes.filter((rule) => isVetoed(votes, rule))
+      if (active.some((rule) => rule.blocks.length === 0)) {
+        return hold(timestamp)
+      }
+      const blocked = new Set(active.flatMap((rule) => rule.blocks))
+      return combine(
+        strategy.strategy,
+        votes.filter((vote) => !blocked.has(vote.id)),
+        now,
+        timestamp
+      )
+    }
+  }
+}
+
+/**
+ * Combine votes into a consensus signal with a strategy.
+ *
+ * The consensus is timestamped with the newest vote's signal, or `now` when
+ * there are no votes. `now` is also what `decayed` measures signal ages
+ * against. Without a clear winner the consensus is a hold.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ * @example
+ * import * as Consensus from "@/domain/Consensus"
+ * import * as DateTime from "effect/DateTime"
+ *
+ * const signal = Consensus.aggregate(Consensus.unanimous(2), votes, DateTime.unsafeNow())
+ */
+export const aggregate = (
+  strategy: Strategy,
+  votes: ReadonlyArray<Vote>,
+  now: DateTime.Utc
+): Indicator.Signal => {
+  const timestamp = pipe(
+    votes.map((vote) => vote.signal),
+    Array.sort(Indicator.OrderByTimestamp),
+    Array.last,
+    Option.match({ onNone: () => now, onSome: (signal) => signal.timestamp })
+  )
+  return combine(strategy, votes, now, timestamp)
+}
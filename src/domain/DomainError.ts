@@ -18,7 +18,7 @@ import * as Data from "effect/Data"
  * @category Errors
  * @example
  * ```typescript
- * const error = new DomainErrorEnum.ValidationError({
+ * const error = DomainErrorEnum.ValidationError({
  *   field: "price",
  *   value: -10,
  *   constraint: "non-negative",
@@ -42,7 +42,7 @@ export type ValidationError = Schema.Schema.Type<typeof ValidationError>
  * @category Errors
  * @example
  * ```typescript
- * const error = new DomainErrorEnum.InvalidTradeError({
+ * const error = DomainErrorEnum.InvalidTradeError({
  *   tradeData: rawData,
  *   reason: "Missing required field: symbol",
  *   validationErrors: []
@@ -64,7 +64,7 @@ export type InvalidTradeError = Schema.Schema.Type<typeof InvalidTradeError>
  * @category Errors
  * @example
  * ```typescript
- * const error = new DomainErrorEnum.InsufficientDataError({
+ * const error = DomainErrorEnum.InsufficientDataError({
  *   symbol: "AAPL",
  *   required: 10,
  *   actual: 3
@@ -86,7 +86,7 @@ export type InsufficientDataError = Schema.Schema.Type<typeof InsufficientDataEr
  * @category Errors
  * @example
  * ```typescript
- * const error = new DomainErrorEnum.InvalidWindowConfigError({
+ * const error = DomainErrorEnum.InvalidWindowConfigError({
  *   config: { _tag: "EventBased", size: -5 },
  *   reason: "Window size must be positive"
  * })
@@ -168,7 +168,7 @@ export const matchDomainError = <R>(
  * @example
  * ```typescript
  * // Create validation error
- * const error = new DomainErrorEnum.ValidationError({
+ * const error = DomainErrorEnum.ValidationError({
  *   field: "price",
  *   value: -10,
  *   constraint: "non-negative",
@@ -176,16 +176,18 @@ export const matchDomainError = <R>(
  * })
  *
  * // Create insufficient data error
- * const dataError = new DomainErrorEnum.InsufficientDataError({
+ * const dataError = DomainErrorEnum.InsufficientDataError({
  *   symbol: "AAPL",
  *   required: 5,
  *   actual: 2
  * })
  * ```
  */
-export class DomainErrorEnum extends Data.taggedEnum<{
+export type DomainErrorEnum = Data.TaggedEnum<{
   ValidationError: { field: string; value: unknown; constraint: string; message: string }
   InvalidTradeError: { tradeData: unknown; reason: string; validationErrors: ValidationError[] }
   InsufficientDataError: { symbol: string; required: number; actual: number }
   InvalidWindowConfigError: { config: unknown; reason: string }
-}>() {}
+}>
+
+export const DomainErrorEnum = Data.taggedEnum<DomainErrorEnum>()
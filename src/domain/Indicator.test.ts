@@ -1,6 +1,9 @@
 import { describe, it, expect } from "bun:test"
 import * as Indicator from "./Indicator"
 import * as DateTime from "effect/DateTime"
+import * as Schema from "effect/Schema"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
 import * as Array from "effect/Array"
 import { pipe } from "effect/Function"
 import {
@@ -432,6 +435,85 @@ describe("Indicator", () => {
     })
   })
 
+  describe("Indicator Outputs", () => {
+    const BandsOutput = Schema.Struct({
+      period: Schema.Number,
+      upperBand: Schema.Number.pipe(Indicator.label("Upper")),
+      lowerBand: Schema.Number.pipe(Indicator.label("Lower")),
+      position: Schema.Literal("above", "inside", "below").pipe(Indicator.label("Position")),
+    })
+    const BandsState = Indicator.stateSchema(BandsOutput)
+    const metadata = { period: 20, upperBand: 104.2, lowerBand: 95.8, position: "inside" as const }
+
+    describe("stateSchema", () => {
+      it("should validate the outputs of a state", () => {
+        const state = mockIndicatorState({ metadata })
+
+        expect(Schema.is(BandsState)(state)).toBe(true)
+        expect(
+          Schema.is(BandsState)({ ...state, metadata: { ...metadata, upperBand: "104" } })
+        ).toBe(false)
+      })
+
+      it("should keep typed states valid as untyped IndicatorState", () => {
+        const state = BandsState.make({ ...mockIndicatorState(), metadata })
+
+        expect(state.metadata.upperBand).toBe(104.2)
+        expect(Indicator.isIndicatorState(state)).toBe(true)
+      })
+    })
+
+    describe("outputFields", () => {
+      it("should list labelled fields in declaration order", () => {
+        expect(Indicator.outputFields(BandsOutput, metadata)).toEqual([
+          { key: "upperBand", label: "Upper", value: 104.2 },
+          { key: "lowerBand", label: "Lower", value: 95.8 },
+          { key: "position", label: "Position", value: "inside" },
+        ])
+      })
+
+      it("should list nothing for an output without labels", () => {
+        const output = Schema.Struct({ period: Schema.Number })
+        expect(Indicator.outputFields(output, { period: 14 })).toEqual([])
+      })
+    })
+
+    describe("toAny", () => {
+      const state = { ...mockIndicatorState(), metadata }
+      const bands: Indicator.Indicator<typeof BandsOutput.Type> = {
+        id: "bb-20",
+        name: "Bands",
+        output: BandsOutput,
+        process: () => Stream.make(state),
+        signal: (state) =>
+          Effect.succeed(
+            mockBuySignal({ reason: `${state.metadata.position} ${state.metadata.upperBand}` })
+          ),
+        checkTrigger: (state, condition) =>
+          Effect.succeed(state.metadata.position === "inside" && condition._tag === "priceAbove"),
+      }
+
+      it("should read each state with the indicator's signal, fields and trigger check", () => {
+        const readings = Effect.runSync(
+          Stream.runCollect(Indicator.toAny(bands).process(Stream.empty))
+        )
+        const [reading] = Array.fromIterable(readings)
+
+        expect(reading?.state).toBe(state)
+        expect(reading?.signal).toMatchObject({ _tag: "buy", reason: "inside 104.2" })
+        expect(reading?.fields.map((field) => field.key)).toEqual([
+          "upperBand",
+          "lowerBand",
+          "position",
+        ])
+        const check = (condition: Indicator.TriggerCondition) =>
+          Effect.runSync(reading!.checkTrigger(condition))
+        expect(check(Indicator.PriceAbove.make({ threshold: 0 }))).toBe(true)
+        expect(check(Indicator.PriceBelow.make({ threshold: 0 }))).toBe(false)
+      })
+    })
+  })
+
   describe("IndicatorConfig", () => {
     describe("isIndicatorConfig", () => {
       it("should validate correct IndicatorConfig", () => {
@@ -5,6 +5,8 @@ import * as Stream from "effect/Stream"
 import * as Order from "effect/Order"
 import * as Equivalence from "effect/Equivalence"
 import * as DateTime from "effect/DateTime"
+import * as Option from "effect/Option"
+import * as SchemaAST from "effect/SchemaAST"
 import { dual } from "effect/Function"
 import type * as Trade from "./Trade"
 
@@ -257,6 +259,9 @@ export const CrossOver = Schema.TaggedStruct("crossOver", {
 /**
  * TriggerCondition union for alert conditions.
  *
+ * These are checked by a single indicator's `checkTrigger`. `Trigger.Condition`
+ * combines them with conditions on other indicators' values.
+ *
  * @category Schemas
  * @since 0.1.0
  * @example
@@ -327,9 +332,23 @@ export const matchCondition = <R>(
   }
 }
 
+/**
+ * Named outputs an indicator publishes alongside its headline value.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type IndicatorOutput = { readonly [key: string]: unknown }
+
 /**
  * Indicator metadata and state.
  *
+ * This schema validates any indicator's state with its outputs left untyped;
+ * use `stateSchema` for the state of one indicator.
+ *
+ * `lastUpdate` is market time: the timestamp of the trade that produced the
+ * state, or the end of the bar for bar-based indicators.
+ *
  * @category Schemas
  * @since 0.1.0
  */
@@ -342,7 +361,34 @@ export const IndicatorState = Schema.Struct({
   metadata: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
 })
 
-export type IndicatorState = Schema.Schema.Type<typeof IndicatorState>
+/**
+ * State of an indicator whose outputs are typed by `Output`.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface IndicatorState<Output extends IndicatorOutput = IndicatorOutput>
+  extends Omit<Schema.Schema.Type<typeof IndicatorState>, "metadata"> {
+  readonly metadata: Output
+}
+
+/**
+ * Schema of the state of an indicator with the given output schema.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Indicator from "@/domain/Indicator"
+ * import * as Schema from "effect/Schema"
+ *
+ * const RSIOutput = Schema.Struct({ avgGain: Schema.Number, avgLoss: Schema.Number })
+ * const RSIState = Indicator.stateSchema(RSIOutput)
+ *
+ * const decoded = Schema.decodeUnknownSync(RSIState)(json)
+ * decoded.metadata.avgGain // number
+ */
+export const stateSchema = <Output extends IndicatorOutput>(output: Schema.Schema<Output>) =>
+  Schema.Struct({ ...IndicatorState.fields, metadata: output })
 
 /**
  * Type guard for IndicatorState.
@@ -368,24 +414,92 @@ export const isIndicatorState = Schema.is(IndicatorState)
  * )
  */
 export const updateValue: {
-  (value: number, timestamp: DateTime.DateTime): (self: IndicatorState) => IndicatorState
-  (self: IndicatorState, value: number, timestamp: DateTime.DateTime): IndicatorState
+  (value: number, timestamp: DateTime.DateTime): <S extends IndicatorState>(self: S) => S
+  <S extends IndicatorState>(self: S, value: number, timestamp: DateTime.DateTime): S
 } = dual(3, (self: IndicatorState, value: number, timestamp: DateTime.DateTime) => ({
   ...self,
   value,
   lastUpdate: timestamp,
 }))
 
+/**
+ * Annotation key marking an output field for display, with its label as value.
+ *
+ * @category Annotations
+ * @since 0.5.0
+ */
+export const LabelAnnotationId: unique symbol = Symbol.for("cli-stock/Indicator/Label")
+
+/**
+ * Mark an output field for display under the given label.
+ *
+ * Unlabelled fields are still part of the state, but are left out by
+ * `outputFields`.
+ *
+ * @category Annotations
+ * @since 0.5.0
+ * @example
+ * import * as Indicator from "@/domain/Indicator"
+ * import * as Schema from "effect/Schema"
+ *
+ * const BollingerOutput = Schema.Struct({
+ *   upperBand: Schema.Number.pipe(Indicator.label("Upper")),
+ *   lowerBand: Schema.Number.pipe(Indicator.label("Lower")),
+ *   stdDev: Schema.Number
+ * })
+ */
+export const label =
+  (text: string) =>
+  <S extends Schema.Annotable.All>(self: S): Schema.Annotable.Self<S> =>
+    Schema.annotations(self, { [LabelAnnotationId]: text })
+
+/**
+ * Labelled output field with its current value.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface OutputField {
+  readonly key: string
+  readonly label: string
+  readonly value: unknown
+}
+
+/**
+ * List the labelled fields of an output schema with their values in `metadata`,
+ * in the order the schema declares them.
+ *
+ * @category Destructors
+ * @since 0.5.0
+ * @example
+ * import * as Indicator from "@/domain/Indicator"
+ *
+ * Indicator.outputFields(bollinger.output, state.metadata)
+ * // [{ key: "upperBand", label: "Upper", value: 104.2 }, ...]
+ */
+export const outputFields = <Output extends IndicatorOutput>(
+  output: Schema.Schema<Output>,
+  metadata: Output
+): ReadonlyArray<OutputField> =>
+  SchemaAST.getPropertySignatures(output.ast).flatMap((property) => {
+    const key = String(property.name)
+    return Option.match(SchemaAST.getAnnotation<string>(property.type, LabelAnnotationId), {
+      onNone: () => [],
+      onSome: (label) => [{ key, label, value: metadata[key] }],
+    })
+  })
+
 /**
  * Base interface for all indicators.
  *
  * Every indicator must implement this interface to process trades
- * and generate signals/state updates.
+ * and generate signals/state updates. `Output` types the outputs each state
+ * carries in `metadata`, described at runtime by the `output` schema.
  *
  * @category Interfaces
  * @since 0.1.0
  */
-export interface Indicator {
+export interface Indicator<Output extends IndicatorOutput = IndicatorOutput> {
   /**
    * Unique identifier for the indicator instance.
    */
@@ -396,27 +510,114 @@ export interface Indicator {
    */
   readonly name: string
 
+  /**
+   * Schema of the outputs in every emitted state's `metadata`.
+   */
+  readonly output: Schema.Schema<Output>
+
   /**
    * Process a stream of trades and emit indicator states.
    */
   readonly process: (
     trades: Stream.Stream<Trade.TradeData, never, never>
-  ) => Stream.Stream<IndicatorState, never, never>
+  ) => Stream.Stream<IndicatorState<Output>, never, never>
 
   /**
    * Generate trading signals based on current state.
    */
-  readonly signal: (state: IndicatorState) => Effect.Effect<Signal, never, never>
+  readonly signal: (state: IndicatorState<Output>) => Effect.Effect<Signal, never, never>
 
   /**
    * Check if a trigger condition is met.
    */
   readonly checkTrigger: (
-    state: IndicatorState,
+    state: IndicatorState<Output>,
     condition: TriggerCondition
   ) => Effect.Effect<boolean, never, never>
 }
 
+/**
+ * A state of an indicator together with the signal it produced, the labelled
+ * outputs to display and a trigger check against it.
+ *
+ * The indicator that emitted the state fills these in, so whoever holds a
+ * reading never has to know the state's output type.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Reading {
+  readonly state: IndicatorState
+  readonly signal: Signal
+  readonly fields: ReadonlyArray<OutputField>
+  readonly checkTrigger: (condition: TriggerCondition) => Effect.Effect<boolean, never, never>
+}
+
+/**
+ * Read a state of an indicator: its signal, its labelled outputs and a
+ * trigger check bound to it.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Indicator from "@/domain/Indicator"
+ * import * as Stream from "effect/Stream"
+ *
+ * const readings = Stream.mapEffect(rsi.process(trades), (state) => Indicator.read(rsi, state))
+ */
+export const read = <Output extends IndicatorOutput>(
+  indicator: Indicator<Output>,
+  state: IndicatorState<Output>
+): Effect.Effect<Reading, never, never> =>
+  Effect.map(indicator.signal(state), (signal) => ({
+    state,
+    signal,
+    fields: outputFields(indicator.output, state.metadata),
+    checkTrigger: (condition) => indicator.checkTrigger(state, condition),
+  }))
+
+/**
+ * An indicator with its output type hidden, as held by the registry and the
+ * runner.
+ *
+ * Outputs differ per indicator, so collections of indicators cannot share one
+ * `Output`. Instead of states, `process` emits readings, whose signal, fields
+ * and trigger check the indicator worked out from its own typed state.
+ *
+ * @category Interfaces
+ * @since 0.5.0
+ */
+export interface AnyIndicator {
+  readonly id: string
+  readonly name: string
+  readonly process: (
+    trades: Stream.Stream<Trade.TradeData, never, never>
+  ) => Stream.Stream<Reading, never, never>
+}
+
+/**
+ * Hide the output type of an indicator, to hold it next to indicators with
+ * other outputs.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Indicator from "@/domain/Indicator"
+ *
+ * const indicators: ReadonlyArray<Indicator.AnyIndicator> = [
+ *   Indicator.toAny(rsi),
+ *   Indicator.toAny(bollinger)
+ * ]
+ */
+export const toAny = <Output extends IndicatorOutput>(
+  indicator: Indicator<Output>
+): AnyIndicator => ({
+  id: indicator.id,
+  name: indicator.name,
+  process: (trades) =>
+    Stream.mapEffect(indicator.process(trades), (state) => read(indicator, state)),
+})
+
 /**
  * Configuration for indicators.
  *
@@ -469,7 +670,7 @@ export const isIndicatorConfig = Schema.is(IndicatorConfig)
  *   checkTrigger: (state, condition) => ...
  * })
  */
-export type IndicatorTag<Id extends string> = Context.Tag<Id, Indicator>
+export type IndicatorTag<Id extends string> = Context.Tag<Id, AnyIndicator>
 
 /**
  * Helper to create an indicator context tag.
@@ -482,4 +683,4 @@ export type IndicatorTag<Id extends string> = Context.Tag<Id, Indicator>
  * const RSITag = Indicator.makeIndicatorTag("@indicators/RSI")
  */
 export const makeIndicatorTag = <Id extends string>(id: Id): IndicatorTag<Id> =>
-  Context.GenericTag<Id, Indicator>(id)
+  Context.GenericTag<Id, AnyIndicator>(id)
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test"
+import * as Simulation from "./Simulation"
+import * as Effect from "effect/Effect"
+import * as Random from "effect/Random"
+
+const seeded = <A>(effect: Effect.Effect<A>, seed = 42): A =>
+  Effect.runSync(effect.pipe(Effect.withRandom(Random.make(seed))))
+
+const mean = (values: ReadonlyArray<number>): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length
+
+describe("Simulation", () => {
+  const gbm = Simulation.GBM.make({ drift: 0.1, volatility: 0.2 })
+  const ou = Simulation.OrnsteinUhlenbeck.make({ meanReversion: 2, mean: 50, volatility: 5 })
+  const jump = Simulation.JumpDiffusion.make({
+    drift: 0.1,
+    volatility: 0.2,
+    jumpIntensity: 5,
+    jumpMean: -0.05,
+    jumpVolatility: 0.1,
+  })
+
+  describe("Guards", () => {
+    it("should validate price processes", () => {
+      expect(Simulation.isPriceProcess(gbm)).toBe(true)
+      expect(Simulation.isPriceProcess(ou)).toBe(true)
+      expect(Simulation.isPriceProcess({ _tag: "GBM", drift: 0, volatility: -1 })).toBe(false)
+    })
+  })
+
+  describe("step", () => {
+    it("should follow the deterministic path without volatility", () => {
+      const flatGbm = Simulation.GBM.make({ drift: 0.1, volatility: 0 })
+      const flatOu = Simulation.OrnsteinUhlenbeck.make({
+        meanReversion: 2,
+        mean: 50,
+        volatility: 0,
+      })
+
+      expect(seeded(Simulation.step(flatGbm, 100, 1))).toBeCloseTo(100 * Math.exp(0.1), 10)
+      expect(seeded(Simulation.step(flatOu, 100, 1))).toBeCloseTo(
+        Simulation.expectedPrice(flatOu, 100, 1),
+        10
+      )
+    })
+
+    it("should leave the price unchanged for non-positive dt", () => {
+      expect(seeded(Simulation.step(gbm, 100, 0))).toBe(100)
+    })
+
+    it("should be reproducible with the same seed", () => {
+      expect(seeded(Simulation.step(jump, 100, 0.5), 7)).toBe(
+        seeded(Simulation.step(jump, 100, 0.5), 7)
+      )
+      expect(seeded(Simulation.step(jump, 100, 0.5), 7)).not.toBe(
+        seeded(Simulation.step(jump, 100, 0.5), 8)
+      )
+    })
+
+    it("should converge to the expected price on average", () => {
+      const paths = 4000
+      for (const process of [gbm, ou, jump]) {
+        const prices = seeded(Effect.replicateEffect(Simulation.step(process, 100, 0.25), paths))
+        const expected = Simulation.expectedPrice(process, 100, 0.25)
+        expect(Math.abs(mean(prices) - expected) / expected).toBeLessThan(0.02)
+      }
+    })
+
+    it("should never produce negative prices", () => {
+      const wild = Simulation.OrnsteinUhlenbeck.make({ meanReversion: 0, mean: 0, volatility: 50 })
+      const prices = seeded(Effect.replicateEffect(Simulation.step(wild, 1, 1), 500))
+      expect(Math.min(...prices)).toBeGreaterThanOrEqual(0)
+    })
+  })
+
+  describe("Samplers", () => {
+    it("should sample exponential inter-arrival times with mean 1 / rate", () => {
+      const samples = seeded(Effect.replicateEffect(Simulation.exponential(4), 5000))
+      expect(mean(samples)).toBeCloseTo(0.25, 1)
+    })
+
+    it("should sample Poisson counts with the given mean", () => {
+      const samples = seeded(Effect.replicateEffect(Simulation.poisson(0.5), 5000))
+      expect(mean(samples)).toBeCloseTo(0.5, 1)
+    })
+
+    it("should sample volumes within their distribution", () => {
+      const constant = seeded(Simulation.sampleVolume(Simulation.Constant.make({ size: 10 })))
+      const uniform = seeded(
+        Effect.replicateEffect(
+          Simulation.sampleVolume(Simulation.Uniform.make({ min: 5, max: 8 })),
+          200
+        )
+      )
+      const logNormal = seeded(
+        Effect.replicateEffect(
+          Simulation.sampleVolume(Simulation.LogNormal.make({ median: 100, sigma: 1.5 })),
+          200
+        )
+      )
+
+      expect(constant).toBe(10)
+      expect(Math.min(...uniform)).toBe(5)
+      expect(Math.max(...uniform)).toBe(8)
+      expect(uniform.every(Number.isInteger)).toBe(true)
+      expect(Math.min(...logNormal)).toBeGreaterThanOrEqual(1)
+    })
+  })
+})
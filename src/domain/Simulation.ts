@@ -0,0 +1,271 @@
+import * as Schema from "effect/Schema"
+import * as Effect from "effect/Effect"
+import * as Random from "effect/Random"
+
+/**
+ * Milliseconds in a (calendar) year, the time unit of price process parameters.
+ *
+ * @category Constants
+ * @since 0.5.0
+ */
+export const MILLIS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Price Processes
+// ============================================================================
+
+/**
+ * Price process variants for synthetic markets.
+ *
+ * Parameters are annualized (drift and volatility per year, rates per year)
+ * and `dt` is always expressed in years.
+ *
+ * - GBM: geometric Brownian motion `dS = μS dt + σS dW`
+ * - OrnsteinUhlenbeck: mean-reverting `dX = κ(θ - X) dt + σ dW` on the price level
+ * - JumpDiffusion: Merton jump-diffusion, GBM plus Poisson jumps with
+ *   normally distributed log sizes, compensated so `drift` is still the expected return
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const GBM = Schema.TaggedStruct("GBM", {
+  drift: Schema.Number,
+  volatility: Schema.NonNegative,
+})
+
+export const OrnsteinUhlenbeck = Schema.TaggedStruct("OrnsteinUhlenbeck", {
+  meanReversion: Schema.NonNegative,
+  mean: Schema.Number,
+  volatility: Schema.NonNegative,
+})
+
+export const JumpDiffusion = Schema.TaggedStruct("JumpDiffusion", {
+  drift: Schema.Number,
+  volatility: Schema.NonNegative,
+  jumpIntensity: Schema.NonNegative,
+  jumpMean: Schema.Number,
+  jumpVolatility: Schema.NonNegative,
+})
+
+/**
+ * PriceProcess union.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Simulation from "./domain/Simulation"
+ *
+ * const process = Simulation.GBM.make({ drift: 0.05, volatility: 0.2 })
+ */
+export const PriceProcess = Schema.Union(GBM, OrnsteinUhlenbeck, JumpDiffusion)
+export type PriceProcess = Schema.Schema.Type<typeof PriceProcess>
+
+export type GBM = Schema.Schema.Type<typeof GBM>
+export type OrnsteinUhlenbeck = Schema.Schema.Type<typeof OrnsteinUhlenbeck>
+export type JumpDiffusion = Schema.Schema.Type<typeof JumpDiffusion>
+
+/**
+ * Type guard for PriceProcess.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isPriceProcess = Schema.is(PriceProcess)
+
+/**
+ * Pattern match on PriceProcess.
+ *
+ * @category Pattern Matching
+ * @since 0.5.0
+ */
+export const matchProcess = <R>(
+  self: PriceProcess,
+  cases: {
+    GBM: (process: GBM) => R
+    OrnsteinUhlenbeck: (process: OrnsteinUhlenbeck) => R
+    JumpDiffusion: (process: JumpDiffusion) => R
+  }
+): R => {
+  switch (self._tag) {
+    case "GBM":
+      return cases.GBM(self)
+    case "OrnsteinUhlenbeck":
+      return cases.OrnsteinUhlenbeck(self)
+    case "JumpDiffusion":
+      return cases.JumpDiffusion(self)
+  }
+}
+
+// ============================================================================
+// Volume Distributions
+// ============================================================================
+
+/**
+ * Trade size distributions.
+ *
+ * - Constant: every trade has the same size
+ * - Uniform: integer sizes drawn uniformly from `[min, max]`
+ * - LogNormal: heavy-tailed sizes around `median` with log standard deviation `sigma`
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Constant = Schema.TaggedStruct("Constant", {
+  size: Schema.Positive,
+})
+
+export const Uniform = Schema.TaggedStruct("Uniform", {
+  min: Schema.Positive,
+  max: Schema.Positive,
+})
+
+export const LogNormal = Schema.TaggedStruct("LogNormal", {
+  median: Schema.Positive,
+  sigma: Schema.NonNegative,
+})
+
+export const VolumeDistribution = Schema.Union(Constant, Uniform, LogNormal)
+export type VolumeDistribution = Schema.Schema.Type<typeof VolumeDistribution>
+
+export type Constant = Schema.Schema.Type<typeof Constant>
+export type Uniform = Schema.Schema.Type<typeof Uniform>
+export type LogNormal = Schema.Schema.Type<typeof LogNormal>
+
+// ============================================================================
+// Samplers
+// ============================================================================
+
+/**
+ * Sample a standard normal variate (Box-Muller) from the Random service.
+ *
+ * @category Samplers
+ * @since 0.5.0
+ */
+export const standardNormal: Effect.Effect<number> = Effect.gen(function* () {
+  // 1 - u keeps the logarithm finite when Random.next returns 0
+  const u1 = 1 - (yield* Random.next)
+  const u2 = yield* Random.next
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+})
+
+/**
+ * Sample an exponential variate with the given rate (mean `1 / rate`).
+ *
+ * Inter-arrival times of a Poisson process with intensity `rate`.
+ *
+ * @category Samplers
+ * @since 0.5.0
+ */
+export const exponential = (rate: number): Effect.Effect<number> =>
+  Effect.map(Random.next, (u) => -Math.log(1 - u) / rate)
+
+/**
+ * Sample a Poisson-distributed count with the given mean (Knuth's algorithm).
+ *
+ * Intended for the small means of per-step jump counts.
+ *
+ * @category Samplers
+ * @since 0.5.0
+ */
+export const poisson = (mean: number): Effect.Effect<number> =>
+  Effect.gen(function* () {
+    const limit = Math.exp(-mean)
+    let count = 0
+    let product = yield* Random.next
+    while (product > limit) {
+      count++
+      product *= yield* Random.next
+    }
+    return count
+  })
+
+/**
+ * Sample a trade size from a VolumeDistribution (always at least 1).
+ *
+ * @category Samplers
+ * @since 0.5.0
+ */
+export const sampleVolume = (distribution: VolumeDistribution): Effect.Effect<number> => {
+  switch (distribution._tag) {
+    case "Constant":
+      return Effect.succeed(distribution.size)
+    case "Uniform":
+      return Random.nextIntBetween(Math.ceil(distribution.min), Math.floor(distribution.max) + 1)
+    case "LogNormal":
+      return Effect.map(standardNormal, (z) =>
+        Math.max(1, Math.round(distribution.median * Math.exp(distribution.sigma * z)))
+      )
+  }
+}
+
+/**
+ * Advance a price by `dt` years under a price process.
+ *
+ * GBM and jump-diffusion use their exact log-normal transitions and
+ * Ornstein-Uhlenbeck its exact Gaussian transition, so the result does not
+ * depend on how finely time is sliced. Prices never go below zero.
+ *
+ * @category Samplers
+ * @since 0.5.0
+ * @example
+ * import * as Simulation from "./domain/Simulation"
+ * import * as Effect from "effect/Effect"
+ * import * as Random from "effect/Random"
+ *
+ * // One trading day of a 20% volatility stock, reproducible with a seed
+ * const next = Simulation.step(Simulation.GBM.make({ drift: 0.05, volatility: 0.2 }), 100, 1 / 252)
+ * const price = Effect.runSync(next.pipe(Effect.withRandom(Random.make(42))))
+ */
+export const step = (process: PriceProcess, price: number, dt: number): Effect.Effect<number> =>
+  Effect.gen(function* () {
+    if (dt <= 0) return price
+    const z = yield* standardNormal
+
+    switch (process._tag) {
+      case "GBM": {
+        const { drift, volatility } = process
+        return price * Math.exp((drift - volatility ** 2 / 2) * dt + volatility * Math.sqrt(dt) * z)
+      }
+      case "OrnsteinUhlenbeck": {
+        const { meanReversion, mean, volatility } = process
+        if (meanReversion === 0) {
+          return Math.max(0, price + volatility * Math.sqrt(dt) * z)
+        }
+        const decay = Math.exp(-meanReversion * dt)
+        const deviation = volatility * Math.sqrt((1 - decay ** 2) / (2 * meanReversion))
+        return Math.max(0, mean + (price - mean) * decay + deviation * z)
+      }
+      case "JumpDiffusion": {
+        const { drift, volatility, jumpIntensity, jumpMean, jumpVolatility } = process
+        // Expected relative jump size, used to compensate the drift
+        const compensator = Math.exp(jumpMean + jumpVolatility ** 2 / 2) - 1
+        const jumps = yield* poisson(jumpIntensity * dt)
+        let logJump = 0
+        for (let i = 0; i < jumps; i++) {
+          logJump += jumpMean + jumpVolatility * (yield* standardNormal)
+        }
+        return (
+          price *
+          Math.exp(
+            (drift - volatility ** 2 / 2 - jumpIntensity * compensator) * dt +
+              volatility * Math.sqrt(dt) * z +
+              logJump
+          )
+        )
+      }
+    }
+  })
+
+/**
+ * Expected price after `dt` years, the ground truth a simulation converges to.
+ *
+ * @category Destructors
+ * @since 0.5.0
+ */
+export const expectedPrice = (process: PriceProcess, price: number, dt: number): number =>
+  matchProcess(process, {
+    GBM: ({ drift }) => price * Math.exp(drift * dt),
+    OrnsteinUhlenbeck: ({ meanReversion, mean }) =>
+      mean + (price - mean) * Math.exp(-meanReversion * dt),
+    JumpDiffusion: ({ drift }) => price * Math.exp(drift * dt),
+  })
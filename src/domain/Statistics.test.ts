@@ -1,5 +1,6 @@
 import { describe, it, expect } from "bun:test"
 import * as Statistics from "./Statistics"
+import * as Effect from "effect/Effect"
 import { mockStats } from "../test-utils/fixtures"
 
 describe("Statistics", () => {
@@ -64,6 +65,23 @@ describe("Statistics", () => {
     })
   })
 
+  describe("decodeWindowConfig", () => {
+    it("should accept a valid config", async () => {
+      const config = await Effect.runPromise(
+        Statistics.decodeWindowConfig({ _tag: "Hybrid", size: 50, durationMs: 30_000 })
+      )
+      expect(config).toEqual({ _tag: "Hybrid", size: 50, durationMs: 30_000 } as Statistics.Hybrid)
+    })
+
+    it("should fail with InvalidWindowConfigError and the schema message", async () => {
+      const error = await Effect.runPromise(
+        Effect.flip(Statistics.decodeWindowConfig({ _tag: "EventBased", size: -5 }))
+      )
+      expect(error._tag).toBe("InvalidWindowConfigError")
+      expect(error.reason).toContain("Window size must be positive")
+    })
+  })
+
   describe("emptyStats", () => {
     it("should create empty stats with default EventBased window", () => {
       const stats = Statistics.emptyStats()
@@ -467,6 +485,103 @@ describe("Statistics", () => {
     })
   })
 
+  describe("Rolling window", () => {
+    // Reference implementation over the explicit window
+    const naive = (prices: ReadonlyArray<number>) => {
+      const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length
+      const variance = prices.reduce((sum, p) => sum + (p - mean) ** 2, 0) / prices.length
+      return {
+        mean,
+        stdDev: Math.sqrt(variance),
+        min: Math.min(...prices),
+        max: Math.max(...prices),
+      }
+    }
+
+    it("should keep every metric window-correct after evictions", () => {
+      let stats = Statistics.emptyStats({ _tag: "EventBased", size: 7 })
+      const baseTime = 1_700_000_000_000
+      const prices: Array<number> = []
+
+      for (let i = 0; i < 200; i++) {
+        const price = 100 + 10 * Math.sin(i / 3) + (i % 5)
+        prices.push(price)
+        stats = Statistics.updateStats(stats, price, 10 + (i % 3), baseTime + i * 1000)
+
+        const window = prices.slice(-7)
+        const expected = naive(window)
+        expect(stats.recentPrices).toEqual(window)
+        expect(Statistics.calculateMean(stats)).toBeCloseTo(expected.mean, 9)
+        expect(Statistics.calculateStdDev(stats)).toBeCloseTo(expected.stdDev, 9)
+        expect(Statistics.getMin(stats)).toBe(expected.min)
+        expect(Statistics.getMax(stats)).toBe(expected.max)
+        expect(stats.sum).toBeCloseTo(
+          window.reduce((sum, p) => sum + p, 0),
+          9
+        )
+      }
+
+      expect(stats.count).toBe(200)
+    })
+
+    it("should compute VWAP over the window only", () => {
+      let stats = Statistics.emptyStats({ _tag: "EventBased", size: 2 })
+      stats = Statistics.updateStats(stats, 100, 1000, 1)
+      stats = Statistics.updateStats(stats, 110, 100, 2)
+      stats = Statistics.updateStats(stats, 120, 100, 3)
+
+      expect(Statistics.calculateVWAP(stats)).toBe(115)
+    })
+
+    it("should evict by time and recover min/max from the remaining points", () => {
+      let stats = Statistics.emptyStats({ _tag: "TimeBased", durationMs: 5000 })
+      stats = Statistics.updateStats(stats, 200, 100, 1_000)
+      stats = Statistics.updateStats(stats, 50, 100, 2_000)
+      stats = Statistics.updateStats(stats, 100, 100, 4_000)
+      stats = Statistics.updateStats(stats, 120, 100, 7_500)
+
+      expect(stats.recentPrices).toEqual([100, 120])
+      expect(Statistics.getMin(stats)).toBe(100)
+      expect(Statistics.getMax(stats)).toBe(120)
+      expect(Statistics.calculateMomentum(stats)).toBeCloseTo(20, 9)
+    })
+
+    it("should fork the window when an older Stats is updated again", () => {
+      const base = mockStats([100, 110], { _tag: "EventBased", size: 3 })
+      const up = Statistics.updateStats(base, 200, 100, Date.now() + 10_000)
+      const down = Statistics.updateStats(base, 50, 100, Date.now() + 10_000)
+
+      expect(up.recentPrices).toEqual([100, 110, 200])
+      expect(down.recentPrices).toEqual([100, 110, 50])
+      expect(Statistics.getMax(up)).toBe(200)
+      expect(Statistics.getMin(down)).toBe(50)
+    })
+
+    it("should leave an older Stats unchanged by later updates", () => {
+      const baseTime = 1_700_000_000_000
+      let stats = Statistics.emptyStats({ _tag: "EventBased", size: 3 })
+      for (const [i, price] of [100, 101, 102].entries()) {
+        stats = Statistics.updateStats(stats, price, 100, baseTime + i * 1000)
+      }
+      const snapshot = stats
+      const metrics = Statistics.calculateTradingMetrics(snapshot)
+
+      for (let i = 3; i < 40; i++) {
+        stats = Statistics.updateStats(stats, 100 + i, 100, baseTime + i * 1000)
+      }
+
+      expect(stats.recentPrices).toEqual([137, 138, 139])
+      expect(snapshot.recentPrices).toEqual([100, 101, 102])
+      expect(snapshot.pricePoints.map((point) => point.timestamp)).toEqual([
+        baseTime,
+        baseTime + 1000,
+        baseTime + 2000,
+      ])
+      expect(Statistics.calculateTradingMetrics(snapshot)).toEqual(metrics)
+      expect(Statistics.calculateMomentum(snapshot)).toBeCloseTo(2, 9)
+    })
+  })
+
   describe("Edge Cases", () => {
     it("should handle very large prices", () => {
       const stats = mockStats([1000000, 1000100, 1000200])
@@ -1,12 +1,11 @@
 import * as Schema from "effect/Schema"
-import { ParseError } from "effect/ParseResult"
+import { ArrayFormatter, ParseError } from "effect/ParseResult"
 import * as Brand from "effect/Brand"
 import * as Equivalence from "effect/Equivalence"
 import * as Effect from "effect/Effect"
 import { dual } from "effect/Function"
-import * as Array from "effect/Array"
-import { pipe } from "effect/Function"
 import * as Duration from "effect/Duration"
+import * as DomainError from "./DomainError"
 
 /**
  * Duration constant for one trading year (252 trading days).
@@ -227,12 +226,39 @@ export const makeTimeBased = (durationMs: number): Effect.Effect<TimeBased, Pars
  *   const stats = Statistics.emptyStats(config)
  * })
  */
-export const makeHybrid = (
-  size: number,
-  durationMs: number
-): Effect.Effect<Hybrid, ParseError> =>
+export const makeHybrid = (size: number, durationMs: number): Effect.Effect<Hybrid, ParseError> =>
   Schema.decode(Hybrid)({ _tag: "Hybrid", size, durationMs })
 
+/**
+ * Validate an untrusted window configuration with WindowConfigSchema.
+ *
+ * Failures are reported as InvalidWindowConfigError carrying the schema's
+ * messages (e.g. "Window size must be positive").
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Statistics from "./domain/Statistics"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Statistics.decodeWindowConfig({ _tag: "TimeBased", durationMs: 30_000 }).pipe(
+ *   Effect.catchTag("InvalidWindowConfigError", (error) => Effect.die(error.reason))
+ * )
+ */
+export const decodeWindowConfig = (
+  input: unknown
+): Effect.Effect<WindowConfig, DomainError.InvalidWindowConfigError> =>
+  Schema.decodeUnknown(WindowConfigSchema)(input).pipe(
+    Effect.mapError((error) =>
+      DomainError.InvalidWindowConfigError.make({
+        config: input,
+        reason: ArrayFormatter.formatErrorSync(error)
+          .map((issue) => issue.message)
+          .join(", "),
+      })
+    )
+  )
+
 /**
  * Pattern match on WindowConfig.
  *
@@ -320,7 +346,188 @@ export const TradeStatistics = Schema.Struct({
 export type TradeStatistics = Schema.Schema.Type<typeof TradeStatistics>
 
 /**
- * Internal Stats type used for incremental computation.
+ * Growable ring buffer addressed by absolute sequence numbers.
+ *
+ * Supports O(1) push, pop from either end and random access, which is all the
+ * monotonic min/max deques need.
+ */
+class RingBuffer<A> {
+  private items: Array<A | undefined>
+  private mask: number
+  head = 0 // Sequence number of the front item
+  tail = 0 // Sequence number one past the back item
+
+  constructor(capacity = 16) {
+    this.items = new globalThis.Array(capacity)
+    this.mask = capacity - 1
+  }
+
+  get size(): number {
+    return this.tail - this.head
+  }
+
+  at(seq: number): A {
+    return this.items[seq & this.mask] as A
+  }
+
+  front(): A {
+    return this.at(this.head)
+  }
+
+  back(): A {
+    return this.at(this.tail - 1)
+  }
+
+  push(item: A): void {
+    if (this.size === this.items.length) {
+      // Double the capacity, keeping every item at its sequence slot
+      const items = new globalThis.Array<A | undefined>(this.items.length * 2)
+      const mask = items.length - 1
+      for (let seq = this.head; seq < this.tail; seq++) {
+        items[seq & mask] = this.at(seq)
+      }
+      this.items = items
+      this.mask = mask
+    }
+    this.items[this.tail & this.mask] = item
+    this.tail++
+  }
+
+  shift(): A {
+    const item = this.front()
+    this.head++
+    return item
+  }
+
+  pop(): A {
+    this.tail--
+    return this.at(this.tail)
+  }
+}
+
+/**
+ * Append-only log of price points addressed by absolute sequence numbers.
+ *
+ * Points are never overwritten: evicting one only advances `head`, and once
+ * more points have been evicted than are live, the live ones are moved to a
+ * fresh array before the next push (amortized O(1)). An array handed to a
+ * Stats is never written below its current length again, so every Stats keeps
+ * reading the window it was created with.
+ */
+class PointLog {
+  items: Array<PricePoint> = []
+  offset = 0 // Sequence number of items[0]
+  head = 0 // Sequence number of the front point
+  tail = 0 // Sequence number one past the back point
+
+  get size(): number {
+    return this.tail - this.head
+  }
+
+  at(seq: number): PricePoint {
+    return this.items[seq - this.offset]!
+  }
+
+  front(): PricePoint {
+    return this.at(this.head)
+  }
+
+  back(): PricePoint {
+    return this.at(this.tail - 1)
+  }
+
+  push(point: PricePoint): void {
+    const evicted = this.head - this.offset
+    if (evicted >= 16 && evicted > this.size) {
+      this.items = this.items.slice(evicted)
+      this.offset = this.head
+    }
+    this.items.push(point)
+    this.tail++
+  }
+
+  shift(): PricePoint {
+    const point = this.front()
+    this.head++
+    return point
+  }
+}
+
+/**
+ * Mutable state of a rolling window: the price points plus monotonic deques
+ * holding the sequence numbers of the window minimum and maximum candidates.
+ */
+interface RollingBuffer {
+  readonly points: PointLog
+  readonly minDeque: RingBuffer<number> // Prices increasing from front to back
+  readonly maxDeque: RingBuffer<number> // Prices decreasing from front to back
+}
+
+const makeBuffer = (): RollingBuffer => ({
+  points: new PointLog(),
+  minDeque: new RingBuffer(),
+  maxDeque: new RingBuffer(),
+})
+
+/**
+ * Rolling window view of a Stats value: the `[start, end)` index range of its
+ * price points in an array that is only ever appended to, plus the buffer that
+ * the next update of the window may continue.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export interface RollingWindow {
+  readonly buffer: RollingBuffer
+  readonly points: ReadonlyArray<PricePoint>
+  readonly start: number
+  readonly end: number
+}
+
+/**
+ * Window view of the current state of a buffer.
+ */
+const windowOf = (buffer: RollingBuffer): RollingWindow => {
+  const { items, offset, head, tail } = buffer.points
+  return { buffer, points: items, start: head - offset, end: tail - offset }
+}
+
+/**
+ * Window aggregates maintained incrementally, one add and one remove per point.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export interface RollingMoments {
+  readonly mean: number // Welford running mean of prices
+  readonly m2: number // Welford sum of squared deviations from the mean
+  readonly volume: number // Sum of volumes
+  readonly notional: number // Sum of price × volume
+  readonly returnSum: number // Sum of log returns between consecutive points
+  readonly returnSumSquares: number // Sum of squared log returns
+  readonly evictions: number // Points removed since the sums were last recomputed
+}
+
+const emptyMoments: RollingMoments = {
+  mean: 0,
+  m2: 0,
+  volume: 0,
+  notional: 0,
+  returnSum: 0,
+  returnSumSquares: 0,
+  evictions: 0,
+}
+
+/**
+ * Stats type used for incremental computation.
+ *
+ * Every window metric is maintained in constant time per trade: Welford's
+ * algorithm for mean and variance, rolling sums for VWAP and returns, and
+ * monotonic deques for the window minimum and maximum.
+ *
+ * `count` is the number of trades seen since the stats were created, all other
+ * fields describe the current window. `recentPrices` and `pricePoints` are
+ * materialized on access from the rolling window.
  *
  * @category Types
  * @since 0.1.0
@@ -335,6 +542,28 @@ export interface Stats {
   readonly pricePoints: ReadonlyArray<PricePoint>
   readonly windowConfig: WindowConfig
   readonly lastUpdateTime: number
+  readonly moments: RollingMoments
+  readonly window: RollingWindow
+}
+
+/**
+ * Build a Stats value whose point arrays are read lazily from its window.
+ */
+const makeStats = (fields: Omit<Stats, "recentPrices" | "pricePoints">): Stats => {
+  let points: ReadonlyArray<PricePoint> | undefined
+  const getPoints = () =>
+    (points ??= fields.window.points.slice(fields.window.start, fields.window.end))
+  let prices: ReadonlyArray<number> | undefined
+
+  return {
+    ...fields,
+    get pricePoints() {
+      return getPoints()
+    },
+    get recentPrices() {
+      return (prices ??= getPoints().map((point) => point.price))
+    },
+  }
 }
 
 /**
@@ -347,17 +576,18 @@ export interface Stats {
  *
  * const stats = Statistics.emptyStats()
  */
-export const emptyStats = (windowConfig?: WindowConfig): Stats => ({
-  count: 0,
-  sum: 0,
-  sumSquares: 0,
-  min: Infinity,
-  max: -Infinity,
-  recentPrices: [],
-  pricePoints: [],
-  windowConfig: windowConfig ?? { _tag: "EventBased", size: 20 },
-  lastUpdateTime: 0,
-})
+export const emptyStats = (windowConfig?: WindowConfig): Stats =>
+  makeStats({
+    count: 0,
+    sum: 0,
+    sumSquares: 0,
+    min: Infinity,
+    max: -Infinity,
+    windowConfig: windowConfig ?? { _tag: "EventBased", size: 20 },
+    lastUpdateTime: 0,
+    moments: emptyMoments,
+    window: windowOf(makeBuffer()),
+  })
 
 /**
  * Identity value for Stats.
@@ -368,25 +598,134 @@ export const emptyStats = (windowConfig?: WindowConfig): Stats => ({
 export const zero: Stats = emptyStats()
 
 /**
- * Filter price points within time window.
+ * Number of price points in the current window.
  *
- * @category Utilities
- * @since 0.2.0
+ * @category Destructors
+ * @since 0.5.0
  */
-const filterByTimeWindow = (
-  points: ReadonlyArray<PricePoint>,
-  durationMs: number,
-  currentTime: number
-): ReadonlyArray<PricePoint> => {
-  const cutoff = currentTime - durationMs
-  return pipe(
-    points,
-    Array.filter((p) => p.timestamp >= cutoff)
-  )
+export const windowLength = (self: Stats): number => self.window.end - self.window.start
+
+/**
+ * Log return between two prices, 0 when either is not positive.
+ */
+const logReturn = (from: number, to: number): number =>
+  from > 0 && to > 0 ? Math.log(to / from) : 0
+
+/**
+ * Buffer owned by the latest Stats of a window.
+ *
+ * Stats are meant to be threaded linearly (each update consumes the previous
+ * value). Updating an older Stats again forks its window into a fresh buffer,
+ * so branching stays correct at O(n) cost. Either way the points of existing
+ * Stats are left untouched.
+ */
+const ownBuffer = (self: Stats): RollingBuffer => {
+  const { buffer, points, start, end } = self.window
+  const log = buffer.points
+  if (log.items === points && log.head - log.offset === start && log.tail - log.offset === end) {
+    return buffer
+  }
+  const fork = makeBuffer()
+  for (let i = start; i < end; i++) {
+    pushPoint(fork, points[i]!)
+  }
+  return fork
+}
+
+const pushPoint = (buffer: RollingBuffer, point: PricePoint): void => {
+  const { points, minDeque, maxDeque } = buffer
+  const seq = points.tail
+  points.push(point)
+  while (minDeque.size > 0 && points.at(minDeque.back()).price >= point.price) minDeque.pop()
+  minDeque.push(seq)
+  while (maxDeque.size > 0 && points.at(maxDeque.back()).price <= point.price) maxDeque.pop()
+  maxDeque.push(seq)
+}
+
+const shiftPoint = (buffer: RollingBuffer): PricePoint => {
+  const { points, minDeque, maxDeque } = buffer
+  const seq = points.head
+  if (minDeque.size > 0 && minDeque.front() === seq) minDeque.shift()
+  if (maxDeque.size > 0 && maxDeque.front() === seq) maxDeque.shift()
+  return points.shift()
 }
 
+const addMoments = (
+  self: RollingMoments,
+  point: PricePoint,
+  previous: PricePoint | undefined,
+  n: number // Window length including the point
+): RollingMoments => {
+  const delta = point.price - self.mean
+  const mean = self.mean + delta / n
+  const r = previous === undefined ? 0 : logReturn(previous.price, point.price)
+  return {
+    mean,
+    m2: self.m2 + delta * (point.price - mean),
+    volume: self.volume + point.volume,
+    notional: self.notional + point.price * point.volume,
+    returnSum: self.returnSum + r,
+    returnSumSquares: self.returnSumSquares + r * r,
+    evictions: self.evictions,
+  }
+}
+
+const removeMoments = (
+  self: RollingMoments,
+  point: PricePoint,
+  next: PricePoint | undefined,
+  n: number // Window length after removing the point
+): RollingMoments => {
+  if (n === 0) return { ...emptyMoments, evictions: self.evictions + 1 }
+  const mean = self.mean + (self.mean - point.price) / n
+  const r = next === undefined ? 0 : logReturn(point.price, next.price)
+  return {
+    mean,
+    m2: Math.max(0, self.m2 - (point.price - self.mean) * (point.price - mean)),
+    volume: self.volume - point.volume,
+    notional: self.notional - point.price * point.volume,
+    returnSum: self.returnSum - r,
+    returnSumSquares: Math.max(0, self.returnSumSquares - r * r),
+    evictions: self.evictions + 1,
+  }
+}
+
+/**
+ * Recompute the moments from the window points.
+ *
+ * Removing values from running sums accumulates floating point error, so the
+ * sums are rebuilt once per window length of evictions (amortized O(1)).
+ */
+const resyncMoments = (points: PointLog): RollingMoments => {
+  let moments = emptyMoments
+  for (let seq = points.head; seq < points.tail; seq++) {
+    moments = addMoments(
+      moments,
+      points.at(seq),
+      seq > points.head ? points.at(seq - 1) : undefined,
+      seq - points.head + 1
+    )
+  }
+  return moments
+}
+
+/**
+ * Whether the front point of a window must be evicted under a window config.
+ */
+const isExpired = (config: WindowConfig, points: PointLog, timestamp: number): boolean =>
+  matchWindowConfig(config, {
+    EventBased: ({ size }) => points.size > size,
+    TimeBased: ({ durationMs }) => points.front().timestamp < timestamp - durationMs,
+    Hybrid: ({ size, durationMs }) =>
+      points.size > size || points.front().timestamp < timestamp - durationMs,
+  })
+
 /**
- * Update stats with a new price value (enhanced with time-based windows).
+ * Update stats with a new price value.
+ *
+ * Runs in amortized constant time regardless of the window size: the point is
+ * appended to the rolling window, expired points are evicted from its front
+ * and every aggregate is adjusted for the added and removed points only.
  *
  * @category Combinators
  * @since 0.2.0
@@ -403,55 +742,46 @@ export const updateStats: {
   (price: number, volume: number, timestamp: number): (self: Stats) => Stats
   (self: Stats, price: number, volume: number, timestamp: number): Stats
 } = dual(4, (self: Stats, price: number, volume: number, timestamp: number): Stats => {
-  const pricePoint: PricePoint = { price, volume, timestamp }
-  const newPricePoints = [...self.pricePoints, pricePoint]
-
-  // Apply window configuration
-  const { filteredPoints, filteredPrices } = (() => {
-    switch (self.windowConfig._tag) {
-      case "EventBased":
-        const eventFiltered = newPricePoints.slice(-self.windowConfig.size)
-        return {
-          filteredPoints: eventFiltered,
-          filteredPrices: eventFiltered.map((p) => p.price),
-        }
-
-      case "TimeBased":
-        const timeFiltered = filterByTimeWindow(
-          newPricePoints,
-          self.windowConfig.durationMs,
-          timestamp
-        )
-        return {
-          filteredPoints: timeFiltered,
-          filteredPrices: timeFiltered.map((p) => p.price),
-        }
-
-      case "Hybrid": {
-        const { size, durationMs } = self.windowConfig
-        const hybridFiltered = pipe(
-          filterByTimeWindow(newPricePoints, durationMs, timestamp),
-          (points) => points.slice(-size)
-        )
-        return {
-          filteredPoints: hybridFiltered,
-          filteredPrices: hybridFiltered.map((p) => p.price),
-        }
-      }
-    }
-  })()
+  const buffer = ownBuffer(self)
+  const { points } = buffer
+  const point: PricePoint = { price, volume, timestamp }
 
-  return {
+  const previous = points.size > 0 ? points.back() : undefined
+  pushPoint(buffer, point)
+  let moments = addMoments(self.moments, point, previous, points.size)
+  let sum = self.sum + price
+  let sumSquares = self.sumSquares + price * price
+
+  while (points.size > 0 && isExpired(self.windowConfig, points, timestamp)) {
+    const expired = shiftPoint(buffer)
+    moments = removeMoments(
+      moments,
+      expired,
+      points.size > 0 ? points.front() : undefined,
+      points.size
+    )
+    sum -= expired.price
+    sumSquares -= expired.price * expired.price
+  }
+
+  if (moments.evictions > 0 && moments.evictions >= points.size) {
+    moments = resyncMoments(points)
+    sum = moments.mean * points.size
+    sumSquares = moments.m2 + points.size * moments.mean * moments.mean
+  }
+
+  const empty = points.size === 0
+  return makeStats({
     count: self.count + 1,
-    sum: self.sum + price,
-    sumSquares: self.sumSquares + price * price,
-    min: Math.min(self.min, price),
-    max: Math.max(self.max, price),
-    recentPrices: filteredPrices,
-    pricePoints: filteredPoints,
+    sum,
+    sumSquares,
+    min: empty ? Infinity : points.at(buffer.minDeque.front()).price,
+    max: empty ? -Infinity : points.at(buffer.maxDeque.front()).price,
     windowConfig: self.windowConfig,
     lastUpdateTime: timestamp,
-  }
+    moments,
+    window: windowOf(buffer),
+  })
 })
 
 /**
@@ -464,15 +794,8 @@ export const updateStats: {
  *
  * const mean = Statistics.calculateMean(stats)
  */
-export const calculateMean = (stats: Stats): number => {
-  const prices = stats.recentPrices
-  if (prices.length === 0) return 0
-  return pipe(
-    prices,
-    Array.reduce(0, (sum, p) => sum + p),
-    (sum) => sum / prices.length
-  )
-}
+export const calculateMean = (stats: Stats): number =>
+  windowLength(stats) === 0 ? 0 : stats.moments.mean
 
 /**
  * Calculate standard deviation from recent prices.
@@ -485,17 +808,17 @@ export const calculateMean = (stats: Stats): number => {
  * const stdDev = Statistics.calculateStdDev(stats)
  */
 export const calculateStdDev = (stats: Stats): number => {
-  const prices = stats.recentPrices
-  if (prices.length === 0) return 0
-  const mean = calculateMean(stats)
-  return pipe(
-    prices,
-    Array.reduce(0, (sum, p) => sum + Math.pow(p - mean, 2)),
-    (sum) => sum / prices.length,
-    Math.sqrt
-  )
+  const n = windowLength(stats)
+  if (n === 0) return 0
+  return Math.sqrt(stats.moments.m2 / n)
 }
 
+/**
+ * Oldest price point of the window (undefined when empty).
+ */
+const firstPoint = (stats: Stats): PricePoint | undefined =>
+  windowLength(stats) === 0 ? undefined : stats.window.points[stats.window.start]
+
 /**
  * Calculate annualized volatility (assuming 252 trading days, 6.5 hour trading day).
  *
@@ -507,32 +830,16 @@ export const calculateStdDev = (stats: Stats): number => {
  * const vol = Statistics.calculateVolatility(stats) // Returns as percentage
  */
 export const calculateVolatility = (stats: Stats): number => {
-  if (stats.pricePoints.length < 2) return 0
-
-  // Calculate returns manually by iterating consecutive pairs
-  const returns: number[] = []
-  for (let i = 1; i < stats.pricePoints.length; i++) {
-    const prev = stats.pricePoints[i - 1]
-    const curr = stats.pricePoints[i]
-    returns.push(Math.log(curr.price / prev.price))
-  }
+  const n = windowLength(stats) - 1 // Returns between consecutive points
+  const first = firstPoint(stats)
+  if (n < 1 || first === undefined) return 0
 
-  if (returns.length === 0) return 0
-
-  const meanReturn = pipe(
-    returns,
-    Array.reduce(0, (sum, r) => sum + r),
-    (sum) => sum / returns.length
-  )
-
-  const variance = pipe(
-    returns,
-    Array.reduce(0, (sum, r) => sum + Math.pow(r - meanReturn, 2)),
-    (sum) => sum / returns.length
-  )
+  const { returnSum, returnSumSquares } = stats.moments
+  const meanReturn = returnSum / n
+  const variance = Math.max(0, returnSumSquares / n - meanReturn * meanReturn)
 
   // Annualize based on time window
-  const timeSpanMs = stats.lastUpdateTime - stats.pricePoints[0].timestamp
+  const timeSpanMs = stats.lastUpdateTime - first.timestamp
   const timeSpanYears = timeSpanMs / TRADING_YEAR_MS
 
   if (timeSpanYears <= 0) return 0
@@ -552,10 +859,10 @@ export const calculateVolatility = (stats: Stats): number => {
  * const momentum = Statistics.calculateMomentum(stats) // Returns as percentage
  */
 export const calculateMomentum = (stats: Stats): number => {
-  if (stats.pricePoints.length < 2) return 0
-  const first = stats.pricePoints[0].price
-  const last = stats.pricePoints[stats.pricePoints.length - 1].price
-  return ((last - first) / first) * 100
+  const first = firstPoint(stats)
+  if (windowLength(stats) < 2 || first === undefined) return 0
+  const last = stats.window.points[stats.window.end - 1]!.price
+  return ((last - first.price) / first.price) * 100
 }
 
 /**
@@ -569,12 +876,13 @@ export const calculateMomentum = (stats: Stats): number => {
  * const velocity = Statistics.calculateTradeVelocity(stats)
  */
 export const calculateTradeVelocity = (stats: Stats): number => {
-  if (stats.pricePoints.length < 2) return 0
-  const timeSpanMs = stats.lastUpdateTime - stats.pricePoints[0].timestamp
+  const first = firstPoint(stats)
+  if (windowLength(stats) < 2 || first === undefined) return 0
+  const timeSpanMs = stats.lastUpdateTime - first.timestamp
   if (timeSpanMs <= 0) return 0
   // Trades per second: count / timespan
   const msPerSecond = Duration.toMillis(Duration.seconds(1))
-  return (stats.pricePoints.length / timeSpanMs) * msPerSecond
+  return (windowLength(stats) / timeSpanMs) * msPerSecond
 }
 
 /**
@@ -588,17 +896,8 @@ export const calculateTradeVelocity = (stats: Stats): number => {
  * const vwap = Statistics.calculateVWAP(stats)
  */
 export const calculateVWAP = (stats: Stats): number => {
-  if (stats.pricePoints.length === 0) return 0
-
-  const { totalPV, totalV } = pipe(
-    stats.pricePoints,
-    Array.reduce({ totalPV: 0, totalV: 0 }, (acc, p) => ({
-      totalPV: acc.totalPV + p.price * p.volume,
-      totalV: acc.totalV + p.volume,
-    }))
-  )
-
-  return totalV > 0 ? totalPV / totalV : 0
+  const { volume, notional } = stats.moments
+  return windowLength(stats) > 0 && volume > 0 ? notional / volume : 0
 }
 
 /**
@@ -613,7 +912,7 @@ export const calculateVWAP = (stats: Stats): number => {
  * const spread = Statistics.calculateSpreadApprox(stats) // Returns as percentage
  */
 export const calculateSpreadApprox = (stats: Stats): number => {
-  if (stats.recentPrices.length < 2) return 0
+  if (windowLength(stats) < 2) return 0
   const min = getMin(stats)
   const max = getMax(stats)
   const mid = (min + max) / 2
@@ -644,8 +943,7 @@ export const calculateTradingMetrics = (stats: Stats): TradingMetrics => ({
  * @category Destructors
  * @since 0.1.0
  */
-export const getMin = (stats: Stats): number =>
-  stats.recentPrices.length > 0 ? Math.min(...stats.recentPrices) : 0
+export const getMin = (stats: Stats): number => (windowLength(stats) > 0 ? stats.min : 0)
 
 /**
  * Get maximum price from recent prices.
@@ -653,8 +951,7 @@ export const getMin = (stats: Stats): number =>
  * @category Destructors
  * @since 0.1.0
  */
-export const getMax = (stats: Stats): number =>
-  stats.recentPrices.length > 0 ? Math.max(...stats.recentPrices) : 0
+export const getMax = (stats: Stats): number => (windowLength(stats) > 0 ? stats.max : 0)
 
 /**
  * Convert Stats to TradeStatistics for a given symbol.
@@ -678,7 +975,7 @@ export const toTradeStatistics: {
     min: getMin(self),
     max: getMax(self),
     count: self.count,
-    recentPrices: [...self.recentPrices],
+    recentPrices: self.recentPrices,
   })
 )
 
@@ -729,7 +1026,7 @@ export const TradeStatisticsEquivalence: Equivalence.Equivalence<TradeStatistics
 export const hasSufficientData =
   (minCount: number) =>
   (self: Stats): boolean =>
-    self.recentPrices.length >= minCount
+    windowLength(self) >= minCount
 
 /**
  * Predicate to check if statistics are empty.
@@ -737,7 +1034,7 @@ export const hasSufficientData =
  * @category Predicates
  * @since 0.1.0
  */
-export const isEmpty = (self: Stats): boolean => self.recentPrices.length === 0
+export const isEmpty = (self: Stats): boolean => windowLength(self) === 0
 
 /**
  * Predicate to check if statistics are at capacity (for event-based windows).
@@ -748,4 +1045,4 @@ export const isEmpty = (self: Stats): boolean => self.recentPrices.length === 0
 export const isAtCapacity =
   (windowSize: number) =>
   (self: Stats): boolean =>
-    self.recentPrices.length === windowSize
+    windowLength(self) === windowSize
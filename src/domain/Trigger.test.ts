@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test"
+import * as Trigger from "./Trigger"
+import * as Indicator from "./Indicator"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+
+const values: Record<string, number> = { "rsi-14": 25, vwap: 101, price: 102 }
+
+/**
+ * Environment over fixed values where `check` holds for "flag" only.
+ */
+const environment = (now: number, overrides: Record<string, number> = {}): Trigger.Environment => ({
+  now,
+  resolve: (operand) => {
+    const all = { ...values, ...overrides }
+    switch (operand._tag) {
+      case "constant":
+        return Option.some(operand.value)
+      case "value":
+      case "field":
+        return Option.fromNullable(all[operand.indicator])
+      case "price":
+        return Option.fromNullable(all.price)
+    }
+  },
+  check: (indicator) => Effect.succeed(indicator === "flag"),
+})
+
+const run = (condition: Trigger.Condition, env: Trigger.Environment, memory?: Trigger.Memory) =>
+  Effect.runSync(Trigger.evaluate(condition, env, memory))
+
+/**
+ * Evaluate a condition once per step, threading the memory through.
+ */
+const runSteps = (
+  condition: Trigger.Condition,
+  steps: ReadonlyArray<readonly [number, Record<string, number>]>
+) =>
+  steps.reduce(
+    (acc, [now, overrides]) => {
+      const next = run(condition, environment(now, overrides), acc.memory)
+      return { results: [...acc.results, next.result], memory: next.memory }
+    },
+    { results: [] as ReadonlyArray<boolean>, memory: Trigger.emptyMemory }
+  ).results
+
+const oversold = Trigger.compare(Trigger.value("rsi-14"), "<", Trigger.constant(30))
+const aboveVwap = Trigger.compare(Trigger.price("AAPL"), ">", Trigger.value("vwap"))
+const priceAbove = Indicator.PriceAbove.make({ _tag: "priceAbove", threshold: 100 })
+
+describe("Trigger", () => {
+  it("should compare operands and combine them with and, or and not", () => {
+    const env = environment(0)
+    expect(run(Trigger.and(oversold, aboveVwap), env).result).toBe(true)
+    expect(run(Trigger.and(oversold, Trigger.not(aboveVwap)), env).result).toBe(false)
+    expect(run(Trigger.or(Trigger.not(oversold), aboveVwap), env).result).toBe(true)
+    expect(run(Trigger.and(), env).result).toBe(true)
+    expect(run(Trigger.or(), env).result).toBe(false)
+    expect(
+      run(Trigger.compare(Trigger.value("rsi-14"), "<=", Trigger.constant(25)), env).result
+    ).toBe(true)
+  })
+
+  it("should not hold when an operand cannot be resolved", () => {
+    const missing = Trigger.compare(Trigger.value("macd"), ">", Trigger.constant(0))
+    expect(run(missing, environment(0)).result).toBe(false)
+    expect(run(Trigger.not(missing), environment(0)).result).toBe(true)
+  })
+
+  it("should hand check leaves to the named indicator", () => {
+    expect(run(Trigger.check("flag", priceAbove), environment(0)).result).toBe(true)
+    expect(run(Trigger.check("other", priceAbove), environment(0)).result).toBe(false)
+  })
+
+  it("should keep a condition true within a duration after it last held", () => {
+    const recently = Trigger.withinDuration(oversold, 60)
+    expect(
+      runSteps(recently, [
+        [0, { "rsi-14": 50 }],
+        [10_000, {}],
+        [40_000, { "rsi-14": 50 }],
+        [70_000, { "rsi-14": 50 }],
+        [80_000, { "rsi-14": 50 }],
+      ])
+    ).toEqual([false, true, true, true, false])
+  })
+
+  it("should fire a sequence only when the second condition follows the first in time", () => {
+    const dipThenRecover = Trigger.sequence(oversold, aboveVwap, 30)
+    expect(
+      runSteps(dipThenRecover, [
+        [0, { price: 90 }],
+        [10_000, { "rsi-14": 50 }],
+        [20_000, { "rsi-14": 50, price: 90 }],
+        [50_000, { "rsi-14": 50 }],
+      ])
+    ).toEqual([false, true, false, false])
+
+    // Both holding at the first evaluation is not a sequence yet
+    expect(runSteps(dipThenRecover, [[0, {}]])).toEqual([false])
+  })
+
+  it("should round-trip through JSON, format as an expression and list its indicators", () => {
+    const condition = Trigger.or(
+      Trigger.and(oversold, aboveVwap),
+      Trigger.sequence(Trigger.check("flag", priceAbove), Trigger.not(oversold), 30),
+      Trigger.withinDuration(
+        Trigger.compare(Trigger.field("bb", "upper"), ">=", Trigger.constant(1)),
+        5
+      )
+    )
+    const json = JSON.parse(JSON.stringify(Schema.encodeSync(Trigger.Condition)(condition)))
+
+    expect(Schema.decodeUnknownSync(Trigger.Condition)(json)).toEqual(condition)
+    expect(Trigger.isCondition({ _tag: "not", condition: { _tag: "unknown" } })).toBe(false)
+    expect(Trigger.isCondition(Trigger.withinDuration(oversold, 0))).toBe(false)
+    expect(Trigger.format(condition)).toBe(
+      "(rsi-14 < 30 AND price(AAPL) > vwap) OR (flag price above 100 THEN NOT rsi-14 < 30 WITHIN 30s) OR bb.upper >= 1 WITHIN 5s"
+    )
+    expect(Trigger.indicators(condition)).toEqual(["rsi-14", "vwap", "flag", "bb"])
+  })
+})
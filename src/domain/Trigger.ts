@@ -0,0 +1,514 @@
+import * as Schema from "effect/Schema"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
+import { pipe } from "effect/Function"
+import * as Indicator from "./Indicator"
+
+/**
+ * Operands a comparison reads: a constant, another indicator's headline value
+ * or one of its numeric outputs, or the latest price of a symbol.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Constant = Schema.TaggedStruct("constant", {
+  value: Schema.Number,
+})
+
+export const Value = Schema.TaggedStruct("value", {
+  indicator: Schema.String,
+})
+
+export const Field = Schema.TaggedStruct("field", {
+  indicator: Schema.String,
+  field: Schema.String,
+})
+
+export const Price = Schema.TaggedStruct("price", {
+  symbol: Schema.String,
+})
+
+/**
+ * Operand union for comparisons.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Operand = Schema.Union(Constant, Value, Field, Price)
+export type Operand = Schema.Schema.Type<typeof Operand>
+
+export type Constant = Schema.Schema.Type<typeof Constant>
+export type Value = Schema.Schema.Type<typeof Value>
+export type Field = Schema.Schema.Type<typeof Field>
+export type Price = Schema.Schema.Type<typeof Price>
+
+/**
+ * Comparison operators.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Operator = Schema.Literal("<", "<=", ">", ">=")
+export type Operator = Schema.Schema.Type<typeof Operator>
+
+/**
+ * Composable trigger condition.
+ *
+ * Leaves either hand a flat `Indicator.TriggerCondition` to the indicator it
+ * names (`check`) or compare two operands (`compare`). `and`, `or` and `not`
+ * combine conditions, `withinDuration` holds for `seconds` after its condition
+ * last held, and `sequence` holds when `then` holds and `first` held at an
+ * earlier evaluation no more than `seconds` before.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type Condition = Check | Compare | And | Or | Not | WithinDuration | Sequence
+
+export interface Check {
+  readonly _tag: "check"
+  readonly indicator: string
+  readonly condition: Indicator.TriggerCondition
+}
+
+export interface Compare {
+  readonly _tag: "compare"
+  readonly left: Operand
+  readonly operator: Operator
+  readonly right: Operand
+}
+
+export interface And {
+  readonly _tag: "and"
+  readonly conditions: ReadonlyArray<Condition>
+}
+
+export interface Or {
+  readonly _tag: "or"
+  readonly conditions: ReadonlyArray<Condition>
+}
+
+export interface Not {
+  readonly _tag: "not"
+  readonly condition: Condition
+}
+
+export interface WithinDuration {
+  readonly _tag: "withinDuration"
+  readonly condition: Condition
+  readonly seconds: number
+}
+
+export interface Sequence {
+  readonly _tag: "sequence"
+  readonly first: Condition
+  readonly then: Condition
+  readonly seconds: number
+}
+
+const suspended = Schema.suspend((): Schema.Schema<Condition> => Condition)
+
+/**
+ * Condition variants.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Check = Schema.TaggedStruct("check", {
+  indicator: Schema.String,
+  condition: Indicator.TriggerCondition,
+})
+
+export const Compare = Schema.TaggedStruct("compare", {
+  left: Operand,
+  operator: Operator,
+  right: Operand,
+})
+
+export const And = Schema.TaggedStruct("and", {
+  conditions: Schema.Array(suspended),
+})
+
+export const Or = Schema.TaggedStruct("or", {
+  conditions: Schema.Array(suspended),
+})
+
+export const Not = Schema.TaggedStruct("not", {
+  condition: suspended,
+})
+
+export const WithinDuration = Schema.TaggedStruct("withinDuration", {
+  condition: suspended,
+  seconds: Schema.Positive,
+})
+
+export const Sequence = Schema.TaggedStruct("sequence", {
+  first: suspended,
+  then: suspended,
+  seconds: Schema.Positive,
+})
+
+/**
+ * Condition union. Encodes to plain JSON, so rules can be stored and decoded.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ * @example
+ * import * as Trigger from "@/domain/Trigger"
+ * import * as Schema from "effect/Schema"
+ *
+ * const condition = Schema.decodeUnknownSync(Trigger.Condition)({
+ *   _tag: "compare",
+ *   left: { _tag: "value", indicator: "rsi-14-AAPL" },
+ *   operator: "<",
+ *   right: { _tag: "constant", value: 30 }
+ * })
+ */
+export const Condition: Schema.Schema<Condition> = Schema.Union(
+  Check,
+  Compare,
+  And,
+  Or,
+  Not,
+  WithinDuration,
+  Sequence
+)
+
+/**
+ * Type guard for Condition.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isCondition = Schema.is(Condition)
+
+/**
+ * Operand constructors.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const constant = (value: number): Operand => ({ _tag: "constant", value })
+
+export const value = (indicator: string): Operand => ({ _tag: "value", indicator })
+
+export const field = (indicator: string, field: string): Operand => ({
+  _tag: "field",
+  indicator,
+  field,
+})
+
+export const price = (symbol: string): Operand => ({ _tag: "price", symbol })
+
+/**
+ * Condition constructors.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as Trigger from "@/domain/Trigger"
+ *
+ * // rsi-14 < 30 AND price > vwap
+ * const condition = Trigger.and(
+ *   Trigger.compare(Trigger.value("rsi-14-AAPL"), "<", Trigger.constant(30)),
+ *   Trigger.compare(Trigger.price("AAPL"), ">", Trigger.value("vwap-daily-AAPL"))
+ * )
+ */
+export const check = (indicator: string, condition: Indicator.TriggerCondition): Condition => ({
+  _tag: "check",
+  indicator,
+  condition,
+})
+
+export const compare = (left: Operand, operator: Operator, right: Operand): Condition => ({
+  _tag: "compare",
+  left,
+  operator,
+  right,
+})
+
+export const and = (...conditions: ReadonlyArray<Condition>): Condition => ({
+  _tag: "and",
+  conditions,
+})
+
+export const or = (...conditions: ReadonlyArray<Condition>): Condition => ({
+  _tag: "or",
+  conditions,
+})
+
+export const not = (condition: Condition): Condition => ({ _tag: "not", condition })
+
+export const withinDuration = (condition: Condition, seconds: number): Condition => ({
+  _tag: "withinDuration",
+  condition,
+  seconds,
+})
+
+export const sequence = (first: Condition, then: Condition, seconds: number): Condition => ({
+  _tag: "sequence",
+  first,
+  then,
+  seconds,
+})
+
+/**
+ * Pattern match on Condition.
+ *
+ * @category Pattern Matching
+ * @since 0.5.0
+ */
+export const match = <R>(
+  self: Condition,
+  cases: {
+    check: (condition: Check) => R
+    compare: (condition: Compare) => R
+    and: (condition: And) => R
+    or: (condition: Or) => R
+    not: (condition: Not) => R
+    withinDuration: (condition: WithinDuration) => R
+    sequence: (condition: Sequence) => R
+  }
+): R => {
+  switch (self._tag) {
+    case "check":
+      return cases.check(self)
+    case "compare":
+      return cases.compare(self)
+    case "and":
+      return cases.and(self)
+    case "or":
+      return cases.or(self)
+    case "not":
+      return cases.not(self)
+    case "withinDuration":
+      return cases.withinDuration(self)
+    case "sequence":
+      return cases.sequence(self)
+  }
+}
+
+const formatOperand = (operand: Operand): string => {
+  switch (operand._tag) {
+    case "constant":
+      return String(operand.value)
+    case "value":
+      return operand.indicator
+    case "field":
+      return `${operand.indicator}.${operand.field}`
+    case "price":
+      return `price(${operand.symbol})`
+  }
+}
+
+const formatLeaf = (condition: Indicator.TriggerCondition): string =>
+  Indicator.matchCondition(condition, {
+    priceAbove: (c) => `price above ${c.threshold}`,
+    priceBelow: (c) => `price below ${c.threshold}`,
+    volumeAbove: (c) => `volume above ${c.threshold}`,
+    volatilityAbove: (c) => `volatility above ${c.threshold}`,
+    crossOver: (c) => `${c.fastPeriod} crossed ${c.slowPeriod}`,
+  })
+
+/**
+ * Render a condition as a one-line expression, e.g.
+ * `rsi-14-AAPL < 30 AND price(AAPL) > vwap-daily-AAPL`.
+ *
+ * @category Formatting
+ * @since 0.5.0
+ */
+export const format = (self: Condition): string => {
+  const nested = (condition: Condition) =>
+    condition._tag === "and" || condition._tag === "or" || condition._tag === "sequence"
+      ? `(${format(condition)})`
+      : format(condition)
+
+  return match(self, {
+    check: (c) => `${c.indicator} ${formatLeaf(c.condition)}`,
+    compare: (c) => `${formatOperand(c.left)} ${c.operator} ${formatOperand(c.right)}`,
+    and: (c) => c.conditions.map(nested).join(" AND "),
+    or: (c) => c.conditions.map(nested).join(" OR "),
+    not: (c) => `NOT ${nested(c.condition)}`,
+    withinDuration: (c) => `${nested(c.condition)} WITHIN ${c.seconds}s`,
+    sequence: (c) => `${nested(c.first)} THEN ${nested(c.then)} WITHIN ${c.seconds}s`,
+  })
+}
+
+/**
+ * Ids of the indicators a condition reads, through `check` leaves or `value`
+ * and `field` operands, each listed once.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const indicators = (self: Condition): ReadonlyArray<string> => {
+  const ofOperand = (operand: Operand): ReadonlyArray<string> =>
+    operand._tag === "value" || operand._tag === "field" ? [operand.indicator] : []
+  const ids: ReadonlyArray<string> = match(self, {
+    check: (c) => [c.indicator],
+    compare: (c) => [...ofOperand(c.left), ...ofOperand(c.right)],
+    and: (c) => c.conditions.flatMap(indicators),
+    or: (c) => c.conditions.flatMap(indicators),
+    not: (c) => indicators(c.condition),
+    withinDuration: (c) => indicators(c.condition),
+    sequence: (c) => [...indicators(c.first), ...indicators(c.then)],
+  })
+  return Array.from(new Set(ids))
+}
+
+/**
+ * When each time-aware node of a condition last saw its inner condition hold,
+ * in epoch milliseconds, keyed by the node's position in the tree.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type Memory = ReadonlyMap<string, number>
+
+/**
+ * Memory of a condition that has not been evaluated yet.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const emptyMemory: Memory = new Map()
+
+/**
+ * What a condition is evaluated against: the current time, a way to resolve
+ * operands and a way to hand flat conditions to the indicator they name.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Environment {
+  readonly now: number // Epoch milliseconds
+  readonly resolve: (operand: Operand) => Option.Option<number>
+  readonly check: (
+    indicator: string,
+    condition: Indicator.TriggerCondition
+  ) => Effect.Effect<boolean>
+}
+
+/**
+ * Result of one evaluation, with the memory to pass to the next one.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Evaluation {
+  readonly result: boolean
+  readonly memory: Memory
+}
+
+/**
+ * Whether `left operator right` holds.
+ *
+ * @category Predicates
+ * @since 0.5.0
+ */
+export const holds = (left: number, operator: Operator, right: number): boolean => {
+  switch (operator) {
+    case "<":
+      return left < right
+    case "<=":
+      return left <= right
+    case ">":
+      return left > right
+    case ">=":
+      return left >= right
+  }
+}
+
+const recent = (memory: Memory, path: string, now: number, seconds: number): boolean =>
+  Option.exists(Option.fromNullable(memory.get(path)), (at) => now - at <= seconds * 1000)
+
+const remember = (memory: Memory, path: string, now: number): Memory =>
+  new Map(memory).set(path, now)
+
+const evaluateAt = (
+  self: Condition,
+  path: string,
+  environment: Environment,
+  memory: Memory
+): Effect.Effect<Evaluation> => {
+  // Every child is evaluated, even once the result is known, so the
+  // time-aware nodes below keep their memory up to date
+  const all = (conditions: ReadonlyArray<Condition>) =>
+    Effect.reduce(
+      conditions.map((condition, i) => [condition, i] as const),
+      { results: [] as ReadonlyArray<boolean>, memory },
+      (acc, [condition, i]) =>
+        Effect.map(evaluateAt(condition, `${path}.${i}`, environment, acc.memory), (next) => ({
+          results: [...acc.results, next.result],
+          memory: next.memory,
+        }))
+    )
+
+  return match(self, {
+    check: (c) =>
+      Effect.map(environment.check(c.indicator, c.condition), (result) => ({ result, memory })),
+    compare: (c) =>
+      Effect.succeed({
+        result: pipe(
+          Option.all([environment.resolve(c.left), environment.resolve(c.right)]),
+          Option.exists(([left, right]) => holds(left, c.operator, right))
+        ),
+        memory,
+      }),
+    and: (c) =>
+      Effect.map(all(c.conditions), (acc) => ({
+        result: acc.results.every(Boolean),
+        memory: acc.memory,
+      })),
+    or: (c) =>
+      Effect.map(all(c.conditions), (acc) => ({
+        result: acc.results.some(Boolean),
+        memory: acc.memory,
+      })),
+    not: (c) =>
+      Effect.map(evaluateAt(c.condition, `${path}.0`, environment, memory), (inner) => ({
+        result: !inner.result,
+        memory: inner.memory,
+      })),
+    withinDuration: (c) =>
+      Effect.map(evaluateAt(c.condition, `${path}.0`, environment, memory), (inner) => {
+        const next = inner.result ? remember(inner.memory, path, environment.now) : inner.memory
+        return { result: recent(next, path, environment.now, c.seconds), memory: next }
+      }),
+    sequence: (c) =>
+      Effect.map(all([c.first, c.then]), (acc) => {
+        const [first, then] = acc.results
+        // Only an earlier evaluation of `first` counts, so read before recording
+        const result = then && recent(acc.memory, path, environment.now, c.seconds)
+        return {
+          result,
+          memory: first ? remember(acc.memory, path, environment.now) : acc.memory,
+        }
+      }),
+  })
+}
+
+/**
+ * Evaluate a condition once.
+ *
+ * Comparisons with an operand that cannot be resolved, e.g. an indicator that
+ * has not produced a reading yet, do not hold. Pass the returned memory to the
+ * next evaluation of the same condition so `withinDuration` and `sequence` can
+ * look back in time.
+ *
+ * @category Evaluation
+ * @since 0.5.0
+ * @example
+ * import * as Trigger from "@/domain/Trigger"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const first = yield* Trigger.evaluate(condition, environment)
+ *   const second = yield* Trigger.evaluate(condition, laterEnvironment, first.memory)
+ * })
+ */
+export const evaluate = (
+  self: Condition,
+  environment: Environment,
+  memory: Memory = emptyMemory
+): Effect.Effect<Evaluation> => evaluateAt(self, "", environment, memory)
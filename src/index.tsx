@@ -1,28 +1,101 @@
 #!/usr/bin/env bun
 
 import { BunContext, BunRuntime } from "@effect/platform-bun"
-import * as Socket from "@effect/platform/Socket"
 import * as Cli from "@effect/cli"
 import * as Effect from "effect/Effect"
 import * as Layer from "effect/Layer"
 import * as Array from "effect/Array"
+import * as Option from "effect/Option"
+import * as HashMap from "effect/HashMap"
+import * as Config from "effect/Config"
+import * as Console from "effect/Console"
+import type * as ConfigError from "effect/ConfigError"
 import * as Redacted from "effect/Redacted"
+import * as Schema from "effect/Schema"
 import { pipe } from "effect/Function"
 import { render } from "@opentui/react"
 import * as MainLive from "./layers/MainLive"
+import * as RecordLive from "./layers/RecordLive"
+import * as SinksLive from "./layers/SinksLive"
 import * as WebSocketPublisher from "./services/WebSocketPublisher"
 import * as StatsCollector from "./services/StatsCollector"
+import * as IndicatorRunner from "./services/IndicatorRunner"
+import * as AlertEngine from "./services/AlertEngine"
+import * as SignalAlerts from "./services/SignalAlerts"
+import * as TradeRecorder from "./services/TradeRecorder"
+import * as Backtester from "./services/Backtester"
+import * as IndicatorRegistry from "./indicators/IndicatorRegistry"
+import * as TerminalSink from "./sinks/TerminalSink"
+import * as WebhookSink from "./sinks/WebhookSink"
 import * as UIState from "./ui/state/UIState"
-import * as Statistics from "./domain/Statistics"
-import * as FinnhubProvider from "./providers/FinnhubProvider"
+import * as DomainError from "./domain/DomainError"
+import * as Backtest from "./domain/Backtest"
+import * as Consensus from "./domain/Consensus"
+import * as ProviderLive from "./layers/ProviderLive"
+import * as AppConfig from "./config/AppConfig"
 import { App } from "./ui/components/App"
 
+/**
+ * Default WebSocket URL per streaming provider.
+ */
+const defaultWsUrls: Record<Exclude<AppConfig.ProviderType, "replay" | "simulated">, string> = {
+  finnhub: "wss://ws.finnhub.io",
+  polygon: "wss://socket.polygon.io/stocks",
+}
+
 /**
  * CLI option definitions.
  */
+const providerOption = Cli.Options.choice("provider", [
+  "finnhub",
+  "polygon",
+  "replay",
+  "simulated",
+]).pipe(
+  Cli.Options.withAlias("p"),
+  Cli.Options.withDefault("finnhub" as const),
+  Cli.Options.withDescription("Market data provider (default: finnhub)")
+)
+
 const tokenOption = Cli.Options.text("token").pipe(
   Cli.Options.withAlias("t"),
-  Cli.Options.withDescription("Your Finnhub.io API token")
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Your Finnhub.io API token, or Polygon.io API key with --provider polygon " +
+      "(default: FINNHUB_TOKEN or POLYGON_API_KEY)"
+  )
+)
+
+const fileOption = Cli.Options.file("file", { exists: "yes" }).pipe(
+  Cli.Options.withAlias("f"),
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Recorded NDJSON/CSV session to replay with --provider replay (default: REPLAY_FILE)"
+  )
+)
+
+const speedOption = Cli.Options.text("speed").pipe(
+  Cli.Options.mapEffect((speed) =>
+    Option.match(AppConfig.parseReplaySpeed(speed), {
+      onNone: () =>
+        Effect.fail(
+          Cli.ValidationError.invalidValue(Cli.HelpDoc.p(`Invalid replay speed: ${speed}`))
+        ),
+      onSome: Effect.succeed,
+    })
+  ),
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Replay speed: 1 for the recorded pace, e.g. 10x for ten times faster, or max " +
+      "(default: REPLAY_SPEED or 1)"
+  )
+)
+
+const seedOption = Cli.Options.integer("seed").pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Seed for a reproducible market with --provider simulated (default: SIM_SEED or random)"
+  )
 )
 
 const symbolOption = Cli.Options.text("symbol").pipe(
@@ -35,8 +108,10 @@ const symbolOption = Cli.Options.text("symbol").pipe(
 
 const wsUrlOption = Cli.Options.text("url").pipe(
   Cli.Options.withAlias("u"),
-  Cli.Options.withDefault("wss://ws.finnhub.io"),
-  Cli.Options.withDescription("WebSocket URL (default: wss://ws.finnhub.io)")
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "WebSocket URL (default: wss://ws.finnhub.io, or wss://socket.polygon.io/stocks for Polygon)"
+  )
 )
 
 const maxTradesOption = Cli.Options.integer("max-trades").pipe(
@@ -44,11 +119,229 @@ const maxTradesOption = Cli.Options.integer("max-trades").pipe(
   Cli.Options.withDescription("Maximum number of trades to display (default: 20)")
 )
 
+const windowModeOption = Cli.Options.choice("window-mode", ["event", "time", "hybrid"]).pipe(
+  Cli.Options.withDefault("event" as const),
+  Cli.Options.withDescription(
+    "Statistics window: last --window-size trades (event), last --window-duration (time), " +
+      "or both limits at once (hybrid) (default: event)"
+  )
+)
+
 const windowSizeOption = Cli.Options.integer("window-size").pipe(
   Cli.Options.withDefault(20),
   Cli.Options.withDescription("Window size for statistics (default: 20 trades)")
 )
 
+const windowDurationOption = Cli.Options.text("window-duration").pipe(
+  Cli.Options.withDefault("30s"),
+  Cli.Options.withDescription(
+    "Window duration for time and hybrid windows, e.g. 30s, 5m, 1h (default: 30s)"
+  )
+)
+
+const symbolWindowOption = Cli.Options.keyValueMap("symbol-window").pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Per-symbol window overriding the window options: SYMBOL=50 (trades), SYMBOL=30s " +
+      "(duration) or SYMBOL=50/30s (hybrid), e.g. --symbol-window BINANCE:BTCUSDT=30s"
+  )
+)
+
+/**
+ * Report an invalid window configuration as a CLI validation error.
+ */
+const invalidWindow = (error: DomainError.InvalidWindowConfigError) =>
+  Cli.ValidationError.invalidValue(
+    Cli.HelpDoc.p(`Invalid window configuration ${JSON.stringify(error.config)}: ${error.reason}`)
+  )
+
+/**
+ * Statistics window from --window-mode, --window-size and --window-duration,
+ * validated through WindowConfigSchema.
+ */
+const windowOptions = Cli.Options.all({
+  mode: windowModeOption,
+  size: windowSizeOption,
+  duration: windowDurationOption,
+}).pipe(
+  Cli.Options.mapEffect(({ mode, size, duration }) => {
+    const spec = mode === "event" ? `${size}` : mode === "time" ? duration : `${size}/${duration}`
+    return Effect.mapError(AppConfig.parseWindowSpec(spec), invalidWindow)
+  })
+)
+
+/**
+ * Per-symbol window overrides from --symbol-window.
+ */
+const symbolWindowsOption = symbolWindowOption.pipe(
+  Cli.Options.mapEffect((entries) =>
+    Effect.forEach(
+      Option.match(entries, { onNone: () => [], onSome: HashMap.toEntries }),
+      ([symbol, spec]) =>
+        Effect.map(AppConfig.parseWindowSpec(spec), (window) => [symbol, window] as const)
+    ).pipe(
+      Effect.map((windows) => new Map(windows)),
+      Effect.mapError(invalidWindow)
+    )
+  )
+)
+
+const alertsOption = Cli.Options.file("alerts", { exists: "yes" }).pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "JSON or YAML file of alert rules, e.g. --alerts rules.yaml (default: no alerts)"
+  )
+)
+
+const severities = ["info", "warning", "critical"] as const
+
+const signalAlertsOption = Cli.Options.choice("signal-alerts", severities).pipe(
+  Cli.Options.withDefault("warning" as const),
+  Cli.Options.withDescription(
+    "Severity of the alerts raised for strong buy/sell signals (default: warning)"
+  )
+)
+
+const terminalAlertsOption = Cli.Options.choice("terminal-alerts", [...severities, "off"]).pipe(
+  Cli.Options.withDefault("warning" as const),
+  Cli.Options.withDescription("Lowest severity flashed in the TUI, or off (default: warning)")
+)
+
+const bellOption = Cli.Options.boolean("bell").pipe(
+  Cli.Options.withDefault(true),
+  Cli.Options.withDescription("Ring the terminal bell for flashed alerts (default: true)")
+)
+
+const desktopNotifyOption = Cli.Options.choice("desktop-notify", severities).pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Send alerts of this severity and above with notify-send (default: off)"
+  )
+)
+
+const webhookOption = Cli.Options.text("webhook").pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription("POST alerts as JSON to this URL (default: off)")
+)
+
+const webhookSeverityOption = Cli.Options.choice("webhook-severity", severities).pipe(
+  Cli.Options.withDefault("warning" as const),
+  Cli.Options.withDescription("Lowest severity posted to --webhook (default: warning)")
+)
+
+const alertLogOption = Cli.Options.text("alert-log").pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription("Append alerts as JSON lines to this file (default: off)")
+)
+
+const alertLogSeverityOption = Cli.Options.choice("alert-log-severity", severities).pipe(
+  Cli.Options.withDefault("info" as const),
+  Cli.Options.withDescription("Lowest severity written to --alert-log (default: info)")
+)
+
+/**
+ * Alert sinks from --terminal-alerts, --bell, --desktop-notify, --webhook and
+ * --alert-log, each with its own lowest severity.
+ */
+const sinksOptions = Cli.Options.all({
+  terminal: terminalAlertsOption,
+  bell: bellOption,
+  desktop: desktopNotifyOption,
+  webhook: webhookOption,
+  webhookSeverity: webhookSeverityOption,
+  log: alertLogOption,
+  logSeverity: alertLogSeverityOption,
+}).pipe(
+  Cli.Options.map(
+    ({
+      terminal,
+      bell,
+      desktop,
+      webhook,
+      webhookSeverity,
+      log,
+      logSeverity,
+    }): SinksLive.SinksConfig => ({
+      terminal:
+        terminal === "off"
+          ? Option.none()
+          : Option.some({ ...TerminalSink.defaultConfig, minSeverity: terminal, bell }),
+      desktop: Option.map(desktop, (minSeverity) => ({ minSeverity })),
+      webhook: Option.map(webhook, (url) => ({
+        ...WebhookSink.defaultRetry,
+        url,
+        minSeverity: webhookSeverity,
+      })),
+      log: Option.map(log, (path) => ({ path, minSeverity: logSeverity })),
+    })
+  )
+)
+
+/**
+ * Consensus strategy of the SignalAggregator, shared by the TUI and backtest.
+ */
+const strategyOption = Cli.Options.choice("strategy", [
+  "weighted",
+  "unanimous",
+  "majority",
+  "decayed",
+]).pipe(
+  Cli.Options.withDefault("weighted" as const),
+  Cli.Options.withDescription(
+    "How indicator signals combine: weighted, unanimous, majority or decayed (default: weighted)"
+  )
+)
+
+const votesOption = Cli.Options.integer("votes").pipe(
+  Cli.Options.withDefault(2),
+  Cli.Options.withDescription("Votes needed by the unanimous and majority strategies (default: 2)")
+)
+
+const halfLifeOption = Cli.Options.integer("half-life").pipe(
+  Cli.Options.withDefault(300),
+  Cli.Options.withDescription("Signal half-life in seconds for the decayed strategy (default: 300)")
+)
+
+const vetoesOption = Cli.Options.file("vetoes", { exists: "yes" }).pipe(
+  Cli.Options.optional,
+  Cli.Options.withDescription(
+    "Veto rules file (JSON or YAML) applied before the --strategy vote (default: none)"
+  )
+)
+
+const consensusOptions = Cli.Options.all({
+  strategy: strategyOption,
+  votes: votesOption,
+  halfLife: halfLifeOption,
+  vetoes: vetoesOption,
+})
+
+interface ConsensusArgs {
+  readonly strategy: "weighted" | "unanimous" | "majority" | "decayed"
+  readonly votes: number
+  readonly halfLife: number
+  readonly vetoes: Option.Option<string>
+}
+
+/**
+ * Build the consensus strategy from the strategy options, wrapping it in a
+ * veto strategy when --vetoes names a rules file.
+ */
+const loadStrategy = ({ strategy, votes, halfLife, vetoes }: ConsensusArgs) => {
+  const vote = {
+    weighted: () => Consensus.weighted(),
+    unanimous: () => Consensus.unanimous(votes),
+    majority: () => Consensus.majority(votes),
+    decayed: () => Consensus.decayed(halfLife),
+  }[strategy]()
+
+  return Option.match(vetoes, {
+    onNone: () => Effect.succeed(vote),
+    onSome: (path) =>
+      Effect.map(IndicatorRegistry.loadVetoes(path), (rules) => Consensus.veto(vote, rules)),
+  })
+}
+
 const enhancedMetricsOption = Cli.Options.boolean("enhanced-metrics").pipe(
   Cli.Options.withDefault(true),
   Cli.Options.withDescription("Show enhanced trading metrics (default: true)")
@@ -58,7 +351,8 @@ const enhancedMetricsOption = Cli.Options.boolean("enhanced-metrics").pipe(
  * Main command handler that orchestrates the application.
  *
  * This handler:
- * 1. Starts background services (WebSocketPublisher, StatsCollector)
+ * 1. Starts background services (WebSocketPublisher, StatsCollector, IndicatorRunner,
+ *    AlertEngine, SignalAlerts); the alert sinks run with the app layer
  * 2. Gets the UI state atom (which auto-updates from streams)
  * 3. Renders OpenTUI App component with the atom
  * 4. Blocks until user exits (Ctrl+C)
@@ -67,11 +361,17 @@ const createCommandHandler = Effect.gen(function* () {
   const config = yield* UIState.UIStateConfig
   const webSocketPublisher = yield* WebSocketPublisher.WebSocketPublisher
   const statsCollector = yield* StatsCollector.StatsCollector
+  const indicatorRunner = yield* IndicatorRunner.IndicatorRunner
+  const alertEngine = yield* AlertEngine.AlertEngine
+  const signalAlerts = yield* SignalAlerts.SignalAlerts
   const uiStateAtom = yield* UIState.UIStateAtom
 
   // Fork background services
   yield* Effect.forkScoped(webSocketPublisher.start)
   yield* Effect.forkScoped(statsCollector.start)
+  yield* Effect.forkScoped(indicatorRunner.start)
+  yield* Effect.forkScoped(alertEngine.start)
+  yield* Effect.forkScoped(signalAlerts.start)
 
   // Render OpenTUI App with reactive Atom (atom handles its own updates from streams)
   yield* Effect.sync(() => {
@@ -82,39 +382,130 @@ const createCommandHandler = Effect.gen(function* () {
   yield* Effect.never
 })
 
+/**
+ * Split the --symbol option into a list of symbols.
+ */
+const parseSymbolList = (symbol: string): ReadonlyArray<string> =>
+  pipe(
+    symbol.split(","),
+    Array.map((s) => s.trim()),
+    Array.filter((s) => s.length > 0)
+  )
+
+/**
+ * Provider selection shared by every command.
+ */
+const providerOptions = {
+  provider: providerOption,
+  token: tokenOption,
+  file: fileOption,
+  speed: speedOption,
+  seed: seedOption,
+  url: wsUrlOption,
+}
+
+interface ProviderArgs {
+  readonly provider: AppConfig.ProviderType
+  readonly token: Option.Option<string>
+  readonly file: Option.Option<string>
+  readonly speed: Option.Option<number>
+  readonly seed: Option.Option<number>
+  readonly url: Option.Option<string>
+}
+
+/**
+ * CLI arguments take precedence over the environment.
+ */
+const fromCli = <A,>(value: Option.Option<A>, fallback: Config.Config<A>): Config.Config<A> =>
+  Option.match(value, { onNone: () => fallback, onSome: Config.succeed })
+
+/**
+ * Resolve the provider configuration from the provider options.
+ *
+ * Missing credentials, files and speeds fall back to their environment variables; the
+ * reconnect policy comes from RECONNECT_* and the simulated market from SIM_*.
+ */
+const loadProviderConfig = ({
+  provider,
+  token,
+  file,
+  speed,
+  seed,
+  url,
+}: ProviderArgs): Effect.Effect<AppConfig.ProviderConfig, ConfigError.ConfigError> => {
+  switch (provider) {
+    case "replay":
+      return Config.all({
+        _tag: Config.succeed("replay" as const),
+        path: fromCli(file, Config.string("REPLAY_FILE")),
+        speed: fromCli(speed, AppConfig.replaySpeedConfig),
+      })
+    case "simulated":
+      return Effect.map(
+        AppConfig.simulatedConfig,
+        (config): AppConfig.ProviderConfig => ({
+          ...config,
+          seed: Option.getOrElse(seed, () => config.seed),
+        })
+      )
+    case "finnhub":
+    case "polygon":
+      return Effect.map(
+        Config.all({
+          secret: fromCli(
+            Option.map(token, Redacted.make),
+            Config.redacted(provider === "polygon" ? "POLYGON_API_KEY" : "FINNHUB_TOKEN")
+          ),
+          reconnect: AppConfig.reconnectConfig,
+        }),
+        ({ secret, reconnect }): AppConfig.ProviderConfig => {
+          const wsUrl = Option.getOrElse(url, () => defaultWsUrls[provider])
+          return provider === "polygon"
+            ? { _tag: "polygon", apiKey: secret, wsUrl, reconnect }
+            : { _tag: "finnhub", token: secret, wsUrl, reconnect }
+        }
+      )
+  }
+}
+
+/**
+ * Build the MarketDataProvider layer from the provider options, picking the
+ * implementation from the provider config's _tag.
+ */
+const makeProviderLayer = (args: ProviderArgs) =>
+  Layer.unwrapEffect(Effect.map(loadProviderConfig(args), ProviderLive.fromConfig))
+
 /**
  * Create the CLI command with proper layer composition.
  */
 const command = Cli.Command.make(
   "finnhub-trades",
   {
-    token: tokenOption,
+    ...providerOptions,
     symbol: symbolOption,
-    url: wsUrlOption,
     maxTrades: maxTradesOption,
-    windowSize: windowSizeOption,
+    windowConfig: windowOptions,
+    symbolWindows: symbolWindowsOption,
     enhancedMetrics: enhancedMetricsOption,
+    alerts: alertsOption,
+    signalAlerts: signalAlertsOption,
+    sinks: sinksOptions,
+    consensus: consensusOptions,
   },
-  ({ token, symbol, url, maxTrades, windowSize, enhancedMetrics }) => {
+  ({
+    symbol,
+    maxTrades,
+    windowConfig,
+    symbolWindows,
+    enhancedMetrics,
+    alerts,
+    signalAlerts,
+    sinks,
+    consensus,
+    ...providerArgs
+  }) => {
     // Parse symbols for configuration
-    const symbolList = pipe(
-      symbol.split(","),
-      Array.map((s) => s.trim()),
-      Array.filter((s) => s.length > 0)
-    )
-
-    // Create window configuration (event-based)
-    const windowConfig: Statistics.WindowConfig = {
-      _tag: "EventBased",
-      size: windowSize,
-    }
-
-    // Create Finnhub provider configuration
-    const finnhubConfig = Layer.succeed(FinnhubProvider.FinnhubConfigTag, {
-      _tag: "finnhub" as const,
-      token: Redacted.make(token),
-      wsUrl: url,
-    })
+    const symbolList = parseSymbolList(symbol)
 
     // Create WebSocketPublisher configuration
     const webSocketPublisherConfig = Layer.succeed(WebSocketPublisher.WebSocketPublisherConfig, {
@@ -124,35 +515,64 @@ const command = Cli.Command.make(
     const statsCollectorConfig = Layer.succeed(StatsCollector.StatsCollectorConfig, {
       symbols: symbolList,
       windowConfig,
+      symbolWindows,
       displayInterval: 5,
       showEnhancedMetrics: enhancedMetrics,
     })
 
+    const indicatorRunnerConfig = Layer.succeed(IndicatorRunner.IndicatorRunnerConfig, {
+      ...IndicatorRunner.defaultConfig,
+      symbols: symbolList,
+    })
+
+    // Rules are loaded and validated before anything starts
+    const alertEngineConfig = Layer.effect(
+      AlertEngine.AlertEngineConfig,
+      Effect.map(
+        Option.match(alerts, {
+          onNone: () => Effect.succeed([]),
+          onSome: AlertEngine.loadRules,
+        }),
+        (rules) => ({ ...AlertEngine.defaultConfig, rules })
+      )
+    )
+
+    // Veto rules are loaded and validated before anything starts too
+    const signalAggregatorConfig = Layer.effect(
+      IndicatorRegistry.SignalAggregatorConfig,
+      Effect.map(loadStrategy(consensus), (strategy) => ({ strategy }))
+    )
+
+    const signalAlertsConfig = Layer.succeed(SignalAlerts.SignalAlertsConfig, {
+      ...SignalAlerts.defaultConfig,
+      severity: signalAlerts,
+    })
+
+    const sinksConfig = Layer.succeed(SinksLive.SinksConfig, sinks)
+
     const uiStateConfig = Layer.succeed(UIState.UIStateConfig, {
       symbols: symbolList,
       maxTrades,
       showEnhancedMetrics: enhancedMetrics,
     })
 
-    // Combine configuration layers
-    const configLayer = Layer.mergeAll(
-      finnhubConfig,
-      webSocketPublisherConfig,
-      statsCollectorConfig,
-      uiStateConfig
-    )
-
     // Compose the full application layer by providing all dependencies
-    // First provide FinnhubConfig to FinnhubProviderLive, along with WebSocketConstructor
-    const finnhubLayer = Layer.provide(
-      FinnhubProvider.FinnhubProviderLive,
-      Layer.mergeAll(finnhubConfig, Socket.layerWebSocketConstructorGlobal)
-    )
+    const providerLayer = makeProviderLayer(providerArgs)
 
     // Then merge all dependency layers and provide to MainLive
     const appLayer = Layer.provideMerge(
       MainLive.MainLive,
-      Layer.mergeAll(finnhubLayer, webSocketPublisherConfig, statsCollectorConfig, uiStateConfig)
+      Layer.mergeAll(
+        providerLayer,
+        webSocketPublisherConfig,
+        statsCollectorConfig,
+        indicatorRunnerConfig,
+        signalAggregatorConfig,
+        alertEngineConfig,
+        signalAlertsConfig,
+        sinksConfig,
+        uiStateConfig
+      )
     )
 
     // Run the command handler with all layers
@@ -161,13 +581,178 @@ const command = Cli.Command.make(
 )
 
 /**
- * Create the CLI app.
+ * `record` subcommand options.
  */
-const cli = Cli.Command.run(command, {
-  name: "Finnhub Trades CLI",
-  version: "2.0.0",
+const outputOption = Cli.Options.text("output").pipe(
+  Cli.Options.withAlias("o"),
+  Cli.Options.withDefault(TradeRecorder.defaultConfig.directory),
+  Cli.Options.withDescription(
+    `Directory for recorded sessions (default: ${TradeRecorder.defaultConfig.directory})`
+  )
+)
+
+const gzipOption = Cli.Options.boolean("gzip").pipe(
+  Cli.Options.withAlias("z"),
+  Cli.Options.withDescription("Gzip-compress recorded files")
+)
+
+/**
+ * Headless recording handler.
+ *
+ * Streams trades from the provider into TradePubSub and records them until
+ * interrupted (Ctrl+C), flushing buffered trades on exit.
+ */
+const recordHandler = Effect.gen(function* () {
+  const webSocketPublisher = yield* WebSocketPublisher.WebSocketPublisher
+  const recorder = yield* TradeRecorder.TradeRecorder
+  const config = yield* TradeRecorder.TradeRecorderConfig
+
+  yield* Effect.forkScoped(webSocketPublisher.start)
+  yield* Console.log(`Recording trades to ${config.directory}, press Ctrl+C to stop`)
+
+  // Runs until interrupted, failing only if trades cannot be written
+  yield* recorder.start
 })
 
+/**
+ * Record a session to NDJSON files without the TUI.
+ */
+const recordCommand = Cli.Command.make(
+  "record",
+  {
+    ...providerOptions,
+    symbol: symbolOption,
+    output: outputOption,
+    gzip: gzipOption,
+  },
+  ({ symbol, output, gzip, ...providerArgs }) => {
+    const webSocketPublisherConfig = Layer.succeed(WebSocketPublisher.WebSocketPublisherConfig, {
+      symbols: parseSymbolList(symbol),
+    })
+
+    const recorderConfig = Layer.succeed(TradeRecorder.TradeRecorderConfig, {
+      ...TradeRecorder.defaultConfig,
+      directory: output,
+      compress: gzip,
+    })
+
+    const recordLayer = Layer.provideMerge(
+      RecordLive.RecordLive,
+      Layer.mergeAll(makeProviderLayer(providerArgs), webSocketPublisherConfig, recorderConfig)
+    )
+
+    return Effect.scoped(recordHandler).pipe(Effect.provide(recordLayer))
+  }
+).pipe(Cli.Command.withDescription("Record trades to rotating NDJSON files without the TUI"))
+
+/**
+ * `backtest` subcommand options.
+ */
+const recordingOption = Cli.Options.file("file", { exists: "yes" }).pipe(
+  Cli.Options.withAlias("f"),
+  Cli.Options.withDescription("Recorded NDJSON or CSV session (.gz supported) to backtest")
+)
+
+const cashOption = Cli.Options.float("cash").pipe(
+  Cli.Options.withDefault(Backtest.defaultSimulation.initialCash),
+  Cli.Options.withDescription(`Starting cash (default: ${Backtest.defaultSimulation.initialCash})`)
+)
+
+const minStrengthOption = Cli.Options.float("min-strength").pipe(
+  Cli.Options.withDefault(Backtest.defaultSimulation.minStrength),
+  Cli.Options.withDescription(
+    `Consensus strength needed to open or close a position (default: ${Backtest.defaultSimulation.minStrength})`
+  )
+)
+
+const positionSizeOption = Cli.Options.float("position-size").pipe(
+  Cli.Options.withDefault(Backtest.defaultSimulation.positionSize),
+  Cli.Options.withDescription("Fraction of equity put in each position (default: 1)")
+)
+
+const shortOption = Cli.Options.boolean("short").pipe(
+  Cli.Options.withDescription("Open short positions on sell signals")
+)
+
+const commissionOption = Cli.Options.float("commission").pipe(
+  Cli.Options.withDefault(Backtest.defaultSimulation.commission),
+  Cli.Options.withDescription("Commission per fill as a fraction of its notional (default: 0)")
+)
+
+const jsonOption = Cli.Options.boolean("json").pipe(
+  Cli.Options.withDescription("Print the full report (trades and equity curve) as JSON")
+)
+
+/**
+ * Backtest handler: runs the backtest and prints its report.
+ */
+const backtestHandler = (path: string, json: boolean) =>
+  Effect.gen(function* () {
+    const backtester = yield* Backtester.Backtester
+    const report = yield* backtester.run(path)
+
+    yield* Console.log(
+      json
+        ? JSON.stringify(Schema.encodeSync(Backtest.Report)(report), null, 2)
+        : Backtest.format(report)
+    )
+  })
+
+/**
+ * Backtest the indicator suite over a recorded session, one report per symbol.
+ */
+const backtestCommand = Cli.Command.make(
+  "backtest",
+  {
+    file: recordingOption,
+    symbol: symbolOption,
+    consensus: consensusOptions,
+    cash: cashOption,
+    minStrength: minStrengthOption,
+    positionSize: positionSizeOption,
+    short: shortOption,
+    commission: commissionOption,
+    json: jsonOption,
+  },
+  ({ file, symbol, consensus, cash, minStrength, positionSize, short, commission, json }) =>
+    Effect.flatMap(loadStrategy(consensus), (strategy) =>
+      Effect.forEach(
+        parseSymbolList(symbol),
+        (symbol) =>
+          backtestHandler(file, json).pipe(
+            Effect.provide(
+              Backtester.BacktesterLive.pipe(
+                Layer.provide(
+                  Layer.succeed(Backtester.BacktesterConfig, {
+                    ...Backtester.defaultConfig,
+                    symbol,
+                    strategy,
+                    initialCash: cash,
+                    minStrength,
+                    positionSize,
+                    allowShort: short,
+                    commission,
+                  })
+                )
+              )
+            )
+          ),
+        { discard: true }
+      )
+    )
+).pipe(Cli.Command.withDescription("Backtest the indicators' signals over a recorded session"))
+
+/**
+ * Create the CLI app.
+ */
+const cli = Cli.Command.run(
+  command.pipe(Cli.Command.withSubcommands([recordCommand, backtestCommand])),
+  {
+    name: "Finnhub Trades CLI",
+    version: "2.0.0",
+  }
+)
+
 /**
  * Run the app with Bun runtime.
  */
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test"
+import * as ADX from "./ADX"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades, mockBuySignal } from "../test-utils/fixtures"
+
+const adx = ADX.make({
+  id: "adx-3-1m",
+  symbol: "AAPL",
+  period: 3,
+  trendThreshold: 25,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(adx.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), adx.signal))
+
+// Higher highs and higher lows on every bar
+const uptrend = Array.from({ length: 8 }, (_, i) => ({
+  high: 101 + i,
+  low: 99 + i,
+  close: 100.5 + i,
+}))
+const downtrend = uptrend.map((bar) => ({
+  high: 200 - bar.low,
+  low: 200 - bar.high,
+  close: 200 - bar.close,
+}))
+// Alternates between two overlapping ranges
+const choppy = Array.from({ length: 8 }, (_, i) =>
+  i % 2 === 0 ? { high: 101, low: 99, close: 100 } : { high: 102, low: 100, close: 101 }
+)
+
+describe("ADX", () => {
+  it("should emit once 2 × period bars have closed", () => {
+    expect(states(uptrend).length).toBe(3)
+  })
+
+  it("should measure a one-directional trend at full strength", () => {
+    const last = states(uptrend).at(-1)!
+
+    expect(last.value).toBeCloseTo(100)
+    expect(last.metadata["minusDI"]).toBe(0)
+    expect(last.metadata["plusDI"]).toBeGreaterThan(0)
+    expect(last.metadata).toMatchObject({ trending: true, direction: "up" })
+  })
+
+  it("should follow the dominant DI once ADX exceeds the trend threshold", () => {
+    expect(signals(uptrend).every(Indicator.isBuy)).toBe(true)
+    expect(signals(downtrend).every(Indicator.isSell)).toBe(true)
+  })
+
+  it("should hold without a strong trend", () => {
+    const result = states(choppy)
+
+    expect(result.every((state) => state.value < 25)).toBe(true)
+    expect(signals(choppy).every(Indicator.isHold)).toBe(true)
+  })
+
+  it("should gate signals while trending", () => {
+    const buy = mockBuySignal()
+
+    expect(Indicator.isHold(ADX.gate(buy, states(uptrend).at(-1)!))).toBe(true)
+    expect(ADX.gate(buy, states(choppy).at(-1)!)).toBe(buy)
+  })
+})
@@ -0,0 +1,351 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as ATR from "./ATR"
+
+/**
+ * ADX (Average Directional Index) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface ADXConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Default 14 bars
+  readonly trendThreshold: number // ADX above which a trend counts as strong, default 25
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for ADX indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const ADXConfig = Context.GenericTag<ADXConfig>("@indicators/config/ADX")
+
+/**
+ * Outputs of the ADX indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const ADXOutput = Schema.Struct({
+  period: Schema.Number,
+  plusDI: Schema.Number.pipe(Indicator.label("+DI")),
+  minusDI: Schema.Number.pipe(Indicator.label("-DI")),
+  dx: Schema.Number,
+  previousAdx: Schema.Number,
+  trendThreshold: Schema.Number,
+  trending: Schema.Boolean,
+  direction: Schema.Literal("up", "down", "none").pipe(Indicator.label("Trend")),
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type ADXOutput = Schema.Schema.Type<typeof ADXOutput>
+
+const State = Indicator.stateSchema(ADXOutput)
+
+/**
+ * ADX/DMI indicator service.
+ *
+ * Rolls trades into bars and compares how far each bar extends above and
+ * below the previous one. +DI and −DI are the Wilder-smoothed upward and
+ * downward movements as a percentage of the ATR, and ADX is the Wilder
+ * average of their normalized spread (DX). ADX measures trend strength from 0
+ * to 100 regardless of direction; the DIs give the direction. Emits ADX as
+ * `value`, with +DI, −DI and DX in `metadata`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as ADX from "@/indicators/ADX"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const adx = yield* ADX.ADXIndicator
+ *   yield* Stream.runForEach(adx.process(tradeStream), (state) =>
+ *     Console.log(
+ *       `ADX ${state.value.toFixed(2)} +DI ${state.metadata.plusDI} -DI ${state.metadata.minusDI}`
+ *     )
+ *   )
+ * })
+ */
+export class ADXIndicator extends Context.Tag("@indicators/ADX")<
+  ADXIndicator,
+  Indicator.Indicator<ADXOutput>
+>() {}
+
+/**
+ * Wilder-smoothed true range and directional movements.
+ */
+interface Smoothed {
+  readonly tr: number
+  readonly plusDM: number
+  readonly minusDM: number
+}
+
+/**
+ * Internal state for ADX calculation.
+ */
+interface ADXState {
+  readonly previousBar: Option.Option<Bar.Bar>
+  readonly movements: ReadonlyArray<Smoothed>
+  readonly smoothed: Option.Option<Smoothed>
+  readonly dxValues: ReadonlyArray<number>
+  readonly adx: Option.Option<number>
+}
+
+/**
+ * Arithmetic mean of a non-empty array.
+ */
+const mean = (values: ReadonlyArray<number>): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length
+
+/**
+ * Directional movement from one bar to the next: only the larger of the
+ * upward and downward extensions counts, and only if it is positive.
+ */
+const directionalMovement = (previous: Bar.Bar, bar: Bar.Bar): Smoothed => {
+  const upMove = bar.high - previous.high
+  const downMove = previous.low - bar.low
+  return {
+    tr: ATR.trueRange(bar, Option.some(previous.close)),
+    plusDM: upMove > downMove && upMove > 0 ? upMove : 0,
+    minusDM: downMove > upMove && downMove > 0 ? downMove : 0,
+  }
+}
+
+/**
+ * Check whether an ADX state reports a trend above its threshold.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isTrending = (state: Indicator.IndicatorState<ADXOutput>): boolean =>
+  state.value > state.metadata.trendThreshold
+
+/**
+ * Hold back a mean-reversion signal, e.g. from RSI or Bollinger Bands, while
+ * the ADX of the same symbol reports a strong trend. Oversold and overbought
+ * readings tend to persist in trends, so fading them there loses money.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ * @example
+ * import * as ADX from "@/indicators/ADX"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const signal = yield* rsi.signal(rsiState)
+ *   // Hold while ADX is above its trend threshold
+ *   return ADX.gate(signal, adxState)
+ * })
+ */
+export const gate = (
+  signal: Indicator.Signal,
+  adx: Indicator.IndicatorState<ADXOutput>
+): Indicator.Signal =>
+  Indicator.isHold(signal) || !isTrending(adx)
+    ? signal
+    : Indicator.Hold.make({
+        _tag: "hold",
+        timestamp: signal.timestamp,
+      })
+
+/**
+ * Create an ADX indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The DIs need `period + 1` bars and ADX averages `period` DX values
+ * on top, so the first state is emitted once `2 × period` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: ADXConfig): Indicator.Indicator<ADXOutput> => ({
+  id: config.id,
+  name: "ADX",
+  output: ADXOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<ADXState, Bar.Bar, Indicator.IndicatorState<ADXOutput> | null>(
+        {
+          previousBar: Option.none(),
+          movements: [],
+          smoothed: Option.none(),
+          dxValues: [],
+          adx: Option.none(),
+        },
+        (state, bar) => {
+          if (Option.isNone(state.previousBar)) {
+            return [{ ...state, previousBar: Option.some(bar) }, null]
+          }
+
+          const movement = directionalMovement(state.previousBar.value, bar)
+          const movements = [...state.movements, movement].slice(-config.period)
+
+          // Seeded with the mean of the first `period` movements
+          const smoothed = Option.match(state.smoothed, {
+            onNone: () =>
+              movements.length >= config.period
+                ? Option.some({
+                    tr: mean(movements.map((m) => m.tr)),
+                    plusDM: mean(movements.map((m) => m.plusDM)),
+                    minusDM: mean(movements.map((m) => m.minusDM)),
+                  })
+                : Option.none(),
+            onSome: (previous) =>
+              Option.some({
+                tr: ATR.wilderStep(previous.tr, movement.tr, config.period),
+                plusDM: ATR.wilderStep(previous.plusDM, movement.plusDM, config.period),
+                minusDM: ATR.wilderStep(previous.minusDM, movement.minusDM, config.period),
+              }),
+          })
+
+          if (Option.isNone(smoothed)) {
+            return [{ ...state, previousBar: Option.some(bar), movements }, null]
+          }
+
+          const { tr, plusDM, minusDM } = smoothed.value
+          const plusDI = tr === 0 ? 0 : (plusDM / tr) * 100
+          const minusDI = tr === 0 ? 0 : (minusDM / tr) * 100
+          const diSum = plusDI + minusDI
+          const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100
+
+          const dxValues = [...state.dxValues, dx].slice(-config.period)
+          const adx = Option.match(state.adx, {
+            onNone: () =>
+              dxValues.length >= config.period ? Option.some(mean(dxValues)) : Option.none(),
+            onSome: (previous) => Option.some(ATR.wilderStep(previous, dx, config.period)),
+          })
+
+          const newState: ADXState = {
+            previousBar: Option.some(bar),
+            movements,
+            smoothed,
+            dxValues,
+            adx,
+          }
+
+          if (Option.isNone(adx)) {
+            return [newState, null]
+          }
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "ADX",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: adx.value,
+              metadata: {
+                period: config.period,
+                plusDI,
+                minusDI,
+                dx,
+                previousAdx: Option.getOrElse(state.adx, () => adx.value),
+                trendThreshold: config.trendThreshold,
+                trending: adx.value > config.trendThreshold,
+                direction: plusDI > minusDI ? "up" : plusDI < minusDI ? "down" : "none",
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<ADXOutput>) =>
+    Effect.gen(function* () {
+      const adx = state.value
+      const plusDI = state.metadata.plusDI
+      const minusDI = state.metadata.minusDI
+      const threshold = state.metadata.trendThreshold
+      const timestamp = state.lastUpdate
+
+      // Weak trends give no signal; strong ones follow the dominant DI
+      const strength = Math.min(1, adx / (2 * threshold))
+      const reason = `ADX ${adx.toFixed(2)} above ${threshold} with +DI ${plusDI.toFixed(2)}, -DI ${minusDI.toFixed(2)}`
+
+      if (isTrending(state) && plusDI > minusDI) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Strong uptrend: ${reason}`,
+        })
+      } else if (isTrending(state) && minusDI > plusDI) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Strong downtrend: ${reason}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<ADXOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the ADX indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as ADX from "@/indicators/ADX"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(ADX.ADXConfig, {
+ *   id: "adx-14-1m",
+ *   symbol: "AAPL",
+ *   period: 14,
+ *   trendThreshold: 25,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(ADX.ADXIndicatorLive, config)
+ */
+export const ADXIndicatorLive = Layer.effect(ADXIndicator, Effect.map(ADXConfig, make))
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test"
+import * as ATR from "./ATR"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const atr = ATR.make({
+  id: "atr-3-1m",
+  symbol: "AAPL",
+  period: 3,
+  bars: Bar.time("1 minute"),
+  breakoutMultiplier: 2,
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(atr.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), atr.signal))
+
+// Five quiet bars with a range of 1
+const quiet = Array.from({ length: 5 }, () => ({ high: 101, low: 100, close: 100.5 }))
+
+describe("ATR", () => {
+  it("should take gaps from the previous close into the true range", () => {
+    const bar = Schema.decodeSync(Bar.Bar)({
+      symbol: "AAPL",
+      open: 100,
+      high: 102,
+      low: 100,
+      close: 101,
+      volume: 100,
+      vwap: 101,
+      tradeCount: 3,
+      start: 1_700_000_040_000,
+      end: 1_700_000_100_000,
+    })
+
+    expect(ATR.trueRange(bar, Option.none())).toBe(2)
+    expect(ATR.trueRange(bar, Option.some(101))).toBe(2)
+    expect(ATR.trueRange(bar, Option.some(95))).toBe(7)
+    expect(ATR.trueRange(bar, Option.some(104))).toBe(4)
+  })
+
+  it("should seed with the mean true range, then apply Wilder smoothing", () => {
+    const result = states([
+      { high: 102, low: 100, close: 101 },
+      { high: 104, low: 101, close: 103 },
+      { high: 103, low: 99, close: 100 },
+      { high: 108, low: 102, close: 107 },
+    ])
+
+    // True ranges 2, 3, 4 and, gapping up from 100, 8
+    expect(result.map((state) => state.metadata["trueRange"])).toEqual([4, 8])
+    expect(result[0].value).toBeCloseTo(3)
+    expect(result[1].value).toBeCloseTo((3 * 2 + 8) / 3)
+    expect(result[1].metadata["atrPercent"]).toBeCloseTo(((3 * 2 + 8) / 3 / 107) * 100)
+  })
+
+  it("should signal a breakout when a bar travels several ATRs", () => {
+    const up = signals([...quiet, { high: 104, low: 100.5, close: 104 }])
+    const down = signals([...quiet, { high: 100.5, low: 97, close: 97 }])
+
+    expect(up.slice(0, -1).every(Indicator.isHold)).toBe(true)
+    expect(Indicator.isBuy(up.at(-1)!)).toBe(true)
+    const last = down.at(-1)!
+    expect(Indicator.isSell(last) && last.reason).toContain("Downside")
+  })
+
+  it("should compare volatilityAbove to the ATR as a percentage of the close", () => {
+    const last = states(quiet).at(-1)!
+    const check = (threshold: number) =>
+      Effect.runSync(atr.checkTrigger(last, Indicator.VolatilityAbove.make({ threshold })))
+
+    expect(last.metadata["atrPercent"]).toBeCloseTo((1 / 100.5) * 100)
+    expect(check(0.5)).toBe(true)
+    expect(check(1.5)).toBe(false)
+  })
+})
@@ -0,0 +1,267 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * ATR (Average True Range) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface ATRConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Default 14 bars
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+  readonly breakoutMultiplier: number // True range / ATR that counts as a breakout, default 2
+}
+
+/**
+ * Configuration service for ATR indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const ATRConfig = Context.GenericTag<ATRConfig>("@indicators/config/ATR")
+
+/**
+ * Outputs of the ATR indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const ATROutput = Schema.Struct({
+  period: Schema.Number,
+  trueRange: Schema.Number.pipe(Indicator.label("TR")),
+  atrPercent: Schema.Number.pipe(Indicator.label("ATR%")),
+  previousAtr: Schema.Number,
+  previousClose: Schema.Number,
+  breakoutMultiplier: Schema.Number,
+  high: Schema.Number,
+  low: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type ATROutput = Schema.Schema.Type<typeof ATROutput>
+
+const State = Indicator.stateSchema(ATROutput)
+
+/**
+ * ATR indicator service.
+ *
+ * Rolls trades into bars and measures how far price travels per bar, gaps
+ * included. Emits the Wilder-smoothed ATR as `value`, with the bar's true
+ * range and the ATR as a percentage of its close in `metadata`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as ATR from "@/indicators/ATR"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const atr = yield* ATR.ATRIndicator
+ *   yield* Stream.runForEach(atr.process(tradeStream), (state) =>
+ *     Console.log(`ATR ${state.value.toFixed(4)} (${state.metadata.atrPercent}%)`)
+ *   )
+ * })
+ */
+export class ATRIndicator extends Context.Tag("@indicators/ATR")<
+  ATRIndicator,
+  Indicator.Indicator<ATROutput>
+>() {}
+
+/**
+ * Internal state for ATR calculation.
+ */
+interface ATRState {
+  readonly trueRanges: ReadonlyArray<number>
+  readonly atr: Option.Option<number>
+  readonly previousClose: Option.Option<number>
+}
+
+/**
+ * True range of a bar: the largest of its high - low range and the gaps from
+ * the previous close to its high and low. The first bar has no previous close
+ * and uses its range.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as ATR from "@/indicators/ATR"
+ * import * as Option from "effect/Option"
+ *
+ * // Gapped up from 95: the gap counts
+ * ATR.trueRange({ ...bar, high: 102, low: 100 }, Option.some(95)) // 7
+ */
+export const trueRange = (bar: Bar.Bar, previousClose: Option.Option<number>): number =>
+  Option.match(previousClose, {
+    onNone: () => Bar.range(bar),
+    onSome: (close) =>
+      Math.max(Bar.range(bar), Math.abs(bar.high - close), Math.abs(bar.low - close)),
+  })
+
+/**
+ * One step of Wilder's smoothing, an EMA with alpha = 1 / period.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const wilderStep = (previous: number, value: number, period: number): number =>
+  (previous * (period - 1) + value) / period
+
+/**
+ * Create an ATR indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The ATR is seeded with the mean of the first `period` true ranges,
+ * so the first state is emitted once `period` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: ATRConfig): Indicator.Indicator<ATROutput> => ({
+  id: config.id,
+  name: "ATR",
+  output: ATROutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<ATRState, Bar.Bar, Indicator.IndicatorState<ATROutput> | null>(
+        { trueRanges: [], atr: Option.none(), previousClose: Option.none() },
+        (state, bar) => {
+          const tr = trueRange(bar, state.previousClose)
+          const trueRanges = [...state.trueRanges, tr].slice(-config.period)
+
+          const atr = Option.match(state.atr, {
+            onNone: () =>
+              trueRanges.length >= config.period
+                ? Option.some(trueRanges.reduce((sum, r) => sum + r, 0) / config.period)
+                : Option.none(),
+            onSome: (previous) => Option.some(wilderStep(previous, tr, config.period)),
+          })
+
+          const newState: ATRState = { trueRanges, atr, previousClose: Option.some(bar.close) }
+
+          return Option.match(atr, {
+            onNone: () => [newState, null],
+            onSome: (value) => [
+              newState,
+              State.make({
+                id: config.id,
+                name: "ATR",
+                symbol: config.symbol,
+                lastUpdate: DateTime.unsafeMake(bar.end),
+                value,
+                metadata: {
+                  period: config.period,
+                  trueRange: tr,
+                  atrPercent: bar.close === 0 ? 0 : (value / bar.close) * 100,
+                  // The first ATR has nothing before it to break out of
+                  previousAtr: Option.getOrElse(state.atr, () => value),
+                  previousClose: Option.getOrElse(state.previousClose, () => bar.open),
+                  breakoutMultiplier: config.breakoutMultiplier,
+                  high: bar.high,
+                  low: bar.low,
+                  barStart: bar.start,
+                  barEnd: bar.end,
+                  currentPrice: bar.close,
+                },
+              }),
+            ],
+          })
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<ATROutput>) =>
+    Effect.gen(function* () {
+      const tr = state.metadata.trueRange
+      const previousAtr = state.metadata.previousAtr
+      const multiplier = state.metadata.breakoutMultiplier
+      const close = state.metadata.currentPrice
+      const previousClose = state.metadata.previousClose
+      const timestamp = state.lastUpdate
+
+      // A bar travelling several ATRs is a breakout in the direction it closed
+      const expansion = previousAtr > 0 ? tr / previousAtr : 0
+      const strength = Math.min(1, expansion / (2 * multiplier))
+      const reason = `True range ${tr.toFixed(4)} is ${expansion.toFixed(2)}x ATR ${previousAtr.toFixed(4)}`
+
+      if (expansion >= multiplier && close > previousClose) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Upside range breakout: ${reason}`,
+        })
+      } else if (expansion >= multiplier && close < previousClose) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Downside range breakout: ${reason}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<ATROutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const atrPercent = state.metadata.atrPercent
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => atrPercent > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the ATR indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as ATR from "@/indicators/ATR"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(ATR.ATRConfig, {
+ *   id: "atr-14-1m",
+ *   symbol: "AAPL",
+ *   period: 14,
+ *   bars: Bar.time("1 minute"),
+ *   breakoutMultiplier: 2
+ * })
+ *
+ * const MainLive = Layer.provide(ATR.ATRIndicatorLive, config)
+ */
+export const ATRIndicatorLive = Layer.effect(ATRIndicator, Effect.map(ATRConfig, make))
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test"
+import * as AD from "./AccumulationDistribution"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const ad = AD.make({
+  id: "ad-2-1m",
+  symbol: "AAPL",
+  period: 2,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(ad.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+describe("Accumulation/Distribution", () => {
+  it("should weigh each bar's volume by where it closed in its range", () => {
+    const result = states([
+      { high: 102, low: 100, close: 102, volume: 300 },
+      { high: 102, low: 100, close: 100, volume: 600 },
+      { high: 102, low: 100, close: 101, volume: 300 },
+      { high: 102, low: 100, close: 101.5, volume: 600 },
+    ])
+
+    expect(result.map((state) => state.value)).toEqual([-300, 0])
+    expect(result.map((state) => state.metadata["moneyFlowMultiplier"])).toEqual([0, 0.5])
+  })
+
+  it("should signal sell when price rises while bars close near their lows", () => {
+    const signals = Effect.runSync(
+      Effect.forEach(
+        states([
+          { high: 101, low: 100, close: 100 },
+          { high: 102, low: 101, close: 101 },
+          { high: 103, low: 102, close: 102 },
+        ]),
+        ad.signal
+      )
+    )
+
+    expect(signals.length).toBe(1)
+    expect(Indicator.isSell(signals[0]) && signals[0].reason).toContain("Distribution")
+  })
+
+  it("should signal buy when price falls while bars close near their highs", () => {
+    const signals = Effect.runSync(
+      Effect.forEach(
+        states([
+          { high: 103, low: 102, close: 103 },
+          { high: 102, low: 101, close: 102 },
+          { high: 101, low: 100, close: 101 },
+        ]),
+        ad.signal
+      )
+    )
+
+    expect(Indicator.isBuy(signals[0]) && signals[0].reason).toContain("Accumulation")
+  })
+
+  it("should check volumeAbove against the latest bar's volume", () => {
+    const last = states([
+      { high: 101, low: 100, close: 100.5 },
+      { high: 101, low: 100, close: 100.5 },
+      { high: 101, low: 100, close: 100.5, volume: 900 },
+    ]).at(-1)!
+
+    expect(
+      Effect.runSync(ad.checkTrigger(last, Indicator.VolumeAbove.make({ threshold: 600 })))
+    ).toBe(true)
+    expect(
+      Effect.runSync(ad.checkTrigger(last, Indicator.VolumeAbove.make({ threshold: 900 })))
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,240 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as OBV from "./OBV"
+
+/**
+ * Chaikin Accumulation/Distribution line configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface AccumulationDistributionConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Divergence lookback in bars, default 20
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Accumulation/Distribution indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const AccumulationDistributionConfig = Context.GenericTag<AccumulationDistributionConfig>(
+  "@indicators/config/AccumulationDistribution"
+)
+
+/**
+ * Outputs of the Accumulation/Distribution indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const AccumulationDistributionOutput = Schema.Struct({
+  period: Schema.Number,
+  moneyFlowMultiplier: Schema.Number.pipe(Indicator.label("MFM")),
+  moneyFlowVolume: Schema.Number,
+  adChange: Schema.Number.pipe(Indicator.label("Chg")),
+  priceChange: Schema.Number,
+  divergence: OBV.Divergence.pipe(Indicator.label("Divergence")),
+  currentVolume: Schema.Number,
+  currentPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+})
+
+export type AccumulationDistributionOutput = Schema.Schema.Type<
+  typeof AccumulationDistributionOutput
+>
+
+const State = Indicator.stateSchema(AccumulationDistributionOutput)
+
+/**
+ * Chaikin Accumulation/Distribution indicator service.
+ *
+ * Rolls trades into bars and weighs each bar's volume by where it closed in
+ * its range: +1 at the high, -1 at the low (the money flow multiplier). The
+ * running total of this money flow volume is the A/D line, emitted as
+ * `value`. Signals come from divergences between the A/D line and price over
+ * the last `period` bars.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as AD from "@/indicators/AccumulationDistribution"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const ad = yield* AD.AccumulationDistributionIndicator
+ *   yield* Stream.runForEach(ad.process(tradeStream), (state) =>
+ *     Console.log(`A/D ${state.value.toFixed(0)} (${state.metadata.divergence})`)
+ *   )
+ * })
+ */
+export class AccumulationDistributionIndicator extends Context.Tag(
+  "@indicators/AccumulationDistribution"
+)<AccumulationDistributionIndicator, Indicator.Indicator<AccumulationDistributionOutput>>() {}
+
+/**
+ * Internal state for A/D calculation.
+ */
+interface AccumulationDistributionState {
+  readonly ad: number
+  readonly points: ReadonlyArray<OBV.FlowPoint>
+}
+
+/**
+ * Money flow multiplier of a bar, from -1 (closed at the low) to +1 (closed
+ * at the high). A bar without range counts as neutral.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const moneyFlowMultiplier = (bar: Bar.Bar): number =>
+  bar.high === bar.low ? 0 : (bar.close - bar.low - (bar.high - bar.close)) / Bar.range(bar)
+
+/**
+ * Create an Accumulation/Distribution indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. States are emitted once `period + 1` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (
+  config: AccumulationDistributionConfig
+): Indicator.Indicator<AccumulationDistributionOutput> => ({
+  id: config.id,
+  name: "A/D",
+  output: AccumulationDistributionOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<
+        AccumulationDistributionState,
+        Bar.Bar,
+        Indicator.IndicatorState<AccumulationDistributionOutput> | null
+      >({ ad: 0, points: [] }, (state, bar) => {
+        const multiplier = moneyFlowMultiplier(bar)
+        const moneyFlowVolume = multiplier * bar.volume
+        const ad = state.ad + moneyFlowVolume
+        const points = [...state.points, { close: bar.close, flow: ad }].slice(-config.period - 1)
+        const newState: AccumulationDistributionState = { ad, points }
+
+        if (points.length <= config.period) {
+          return [newState, null]
+        }
+
+        return [
+          newState,
+          State.make({
+            id: config.id,
+            name: "A/D",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(bar.end),
+            value: ad,
+            metadata: {
+              period: config.period,
+              moneyFlowMultiplier: multiplier,
+              moneyFlowVolume,
+              adChange: ad - points[0].flow,
+              priceChange: bar.close - points[0].close,
+              divergence: OBV.divergence(points),
+              currentVolume: bar.volume,
+              currentPrice: bar.close,
+              barStart: bar.start,
+              barEnd: bar.end,
+            },
+          }),
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<AccumulationDistributionOutput>) =>
+    Effect.gen(function* () {
+      const adChange = state.metadata.adChange
+      const priceChange = state.metadata.priceChange
+      const period = state.metadata.period
+      const timestamp = state.lastUpdate
+
+      switch (state.metadata.divergence) {
+        case "bullish":
+          return Indicator.Buy.make({
+            _tag: "buy",
+            strength: 0.6,
+            timestamp,
+            reason: `Accumulation while price fell over ${period} bars: price ${priceChange.toFixed(2)}, A/D +${adChange.toFixed(0)}`,
+          })
+        case "bearish":
+          return Indicator.Sell.make({
+            _tag: "sell",
+            strength: 0.6,
+            timestamp,
+            reason: `Distribution while price rose over ${period} bars: price +${priceChange.toFixed(2)}, A/D ${adChange.toFixed(0)}`,
+          })
+        case "none":
+          return Indicator.Hold.make({
+            _tag: "hold",
+            timestamp,
+          })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<AccumulationDistributionOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const currentVolume = state.metadata.currentVolume
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volumeAbove: (c) => currentVolume > c.threshold,
+        crossOver: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Accumulation/Distribution indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as AD from "@/indicators/AccumulationDistribution"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(AD.AccumulationDistributionConfig, {
+ *   id: "ad-20-1m",
+ *   symbol: "AAPL",
+ *   period: 20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(AD.AccumulationDistributionIndicatorLive, config)
+ */
+export const AccumulationDistributionIndicatorLive = Layer.effect(
+  AccumulationDistributionIndicator,
+  Effect.map(AccumulationDistributionConfig, make)
+)
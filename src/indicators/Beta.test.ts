@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test"
+import * as Beta from "./Beta"
+import * as Correlation from "./Correlation"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockAlignedTrades } from "../test-utils/fixtures"
+
+const beta = Beta.make({
+  id: "beta-4-AAPL-SPY",
+  symbol: "AAPL",
+  benchmark: "SPY",
+  period: 4,
+  bars: Bar.time("1 minute"),
+})
+
+const correlation = Correlation.make({
+  id: "corr-4-AAPL-MSFT",
+  symbol: "AAPL",
+  other: "MSFT",
+  period: 4,
+  bars: Bar.time("1 minute"),
+})
+
+const spy = [100, 101, 100, 102, 101]
+// Moves twice as far as SPY every bar
+const aapl = spy
+  .slice(1)
+  .reduce((closes, close, i) => [...closes, closes[i] * (1 + 2 * (close / spy[i] - 1))], [200])
+// Mirrors SPY's moves
+const msft = spy.map((close) => 300 - close)
+
+const states = <A extends Indicator.IndicatorOutput>(
+  indicator: Indicator.Indicator<A>,
+  prices: Record<string, ReadonlyArray<number>>
+) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(
+      Stream.runCollect(indicator.process(Stream.fromIterable(mockAlignedTrades(prices))))
+    )
+  )
+
+describe("Beta", () => {
+  it("should regress the symbol's returns on the benchmark's", () => {
+    const result = states(beta, { AAPL: aapl, SPY: spy })
+
+    expect(result.length).toBe(1)
+    expect(result[0].value).toBeCloseTo(2, 10)
+    expect(result[0].metadata).toMatchObject({
+      benchmark: "SPY",
+      benchmarkPrice: 101,
+      currentPrice: aapl[4],
+    })
+    expect(result[0].metadata.correlation).toBeCloseTo(1, 10)
+  })
+
+  it("should ignore trades of unrelated symbols", () => {
+    expect(states(beta, { AAPL: aapl, SPY: spy, MSFT: msft })[0].value).toBeCloseTo(2, 10)
+  })
+
+  it("should describe rather than signal", () => {
+    const [state] = states(beta, { AAPL: aapl, SPY: spy })
+    expect(Effect.runSync(beta.signal(state))._tag).toBe("hold")
+  })
+})
+
+describe("Correlation", () => {
+  it("should correlate the returns of both symbols", () => {
+    expect(states(correlation, { AAPL: aapl, MSFT: spy })[0].value).toBeCloseTo(1, 10)
+    expect(states(correlation, { AAPL: spy, MSFT: msft })[0].value).toBeCloseTo(-1, 3)
+  })
+})
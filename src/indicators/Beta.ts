@@ -0,0 +1,196 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import type * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as CrossSymbol from "./CrossSymbol"
+
+/**
+ * Rolling beta indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface BetaConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly benchmark: string // Symbol standing in for the market, e.g. "SPY"
+  readonly period: number // Returns in the window, default 20
+  readonly bars: Bar.TimeBars // Interval both symbols are aligned on
+}
+
+/**
+ * Configuration service for Beta indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const BetaConfig = Context.GenericTag<BetaConfig>("@indicators/config/Beta")
+
+/**
+ * Outputs of the Beta indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const BetaOutput = Schema.Struct({
+  period: Schema.Number,
+  benchmark: Schema.String.pipe(Indicator.label("vs")),
+  correlation: Schema.Number.pipe(Indicator.label("Corr")),
+  benchmarkPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type BetaOutput = Schema.Schema.Type<typeof BetaOutput>
+
+const State = Indicator.stateSchema(BetaOutput)
+
+/**
+ * Rolling beta indicator service.
+ *
+ * Aligns the bars of `symbol` and `benchmark` and regresses the last `period`
+ * bar returns of the symbol on the benchmark's. The slope is emitted as
+ * `value`: a beta of 1.5 means the symbol has moved 1.5% for every 1% of the
+ * benchmark. Like Correlation it reads the trades of both symbols and only
+ * ever holds.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Beta from "@/indicators/Beta"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const beta = yield* Beta.BetaIndicator
+ *   yield* Stream.runForEach(beta.process(tradeStream), (state) =>
+ *     Console.log(`Beta vs ${state.metadata.benchmark}: ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class BetaIndicator extends Context.Tag("@indicators/Beta")<
+  BetaIndicator,
+  Indicator.Indicator<BetaOutput>
+>() {}
+
+/**
+ * Internal state for Beta calculation.
+ */
+interface BetaState {
+  readonly closes: ReadonlyArray<number>
+  readonly benchmarkCloses: ReadonlyArray<number>
+}
+
+/**
+ * Create a Beta indicator instance from its configuration.
+ *
+ * States are emitted once `period + 1` aligned bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: BetaConfig): Indicator.Indicator<BetaOutput> => ({
+  id: config.id,
+  name: "Beta",
+  output: BetaOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      CrossSymbol.align([config.symbol, config.benchmark], config.bars),
+      Stream.mapAccum<
+        BetaState,
+        CrossSymbol.AlignedBar,
+        Indicator.IndicatorState<BetaOutput> | null
+      >({ closes: [], benchmarkCloses: [] }, (state, row) => {
+        const [close, benchmarkClose] = row.closes
+        const newState: BetaState = {
+          closes: [...state.closes, close].slice(-(config.period + 1)),
+          benchmarkCloses: [...state.benchmarkCloses, benchmarkClose].slice(-(config.period + 1)),
+        }
+
+        if (newState.closes.length <= config.period) {
+          return [newState, null]
+        }
+
+        const returns = CrossSymbol.returns(newState.closes)
+        const benchmarkReturns = CrossSymbol.returns(newState.benchmarkCloses)
+
+        return [
+          newState,
+          State.make({
+            id: config.id,
+            name: "Beta",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(row.end),
+            value: CrossSymbol.slope(returns, benchmarkReturns),
+            metadata: {
+              period: config.period,
+              benchmark: config.benchmark,
+              correlation: CrossSymbol.correlation(returns, benchmarkReturns),
+              benchmarkPrice: benchmarkClose,
+              barStart: row.start,
+              barEnd: row.end,
+              currentPrice: close,
+            },
+          }),
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<BetaOutput>) =>
+    Effect.succeed(
+      Indicator.Hold.make({
+        _tag: "hold",
+        timestamp: state.lastUpdate,
+      })
+    ),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<BetaOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Beta indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Beta from "@/indicators/Beta"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Beta.BetaConfig, {
+ *   id: "beta-20-AAPL-SPY",
+ *   symbol: "AAPL",
+ *   benchmark: "SPY",
+ *   period: 20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Beta.BetaIndicatorLive, config)
+ */
+export const BetaIndicatorLive = Layer.effect(BetaIndicator, Effect.map(BetaConfig, make))
@@ -4,6 +4,7 @@ import * as Stream from "effect/Stream"
 import * as Layer from "effect/Layer"
 import * as Array from "effect/Array"
 import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
 import * as DateTime from "effect/DateTime"
 import { pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
@@ -32,6 +33,28 @@ export const BollingerBandsConfig = Context.GenericTag<BollingerBandsConfig>(
   "@indicators/config/BollingerBands"
 )
 
+/**
+ * Outputs of the Bollinger Bands indicator. The middle band is also emitted as
+ * `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const BollingerBandsOutput = Schema.Struct({
+  period: Schema.Number,
+  upperBand: Schema.Number.pipe(Indicator.label("Upper")),
+  middleBand: Schema.Number.pipe(Indicator.label("Middle")),
+  lowerBand: Schema.Number.pipe(Indicator.label("Lower")),
+  stdDev: Schema.Number,
+  bandwidth: Schema.Number.pipe(Indicator.label("BW%")),
+  percentB: Schema.Number.pipe(Indicator.label("%B")),
+  currentPrice: Schema.Number,
+})
+
+export type BollingerBandsOutput = Schema.Schema.Type<typeof BollingerBandsOutput>
+
+const State = Indicator.stateSchema(BollingerBandsOutput)
+
 /**
  * Bollinger Bands indicator service.
  *
@@ -52,8 +75,8 @@ export const BollingerBandsConfig = Context.GenericTag<BollingerBandsConfig>(
  *   yield* Stream.runForEach(states, (state) =>
  *     Effect.gen(function* () {
  *       const signal = yield* bb.signal(state)
- *       const upper = state.metadata["upperBand"] as number
- *       const lower = state.metadata["lowerBand"] as number
+ *       const upper = state.metadata.upperBand
+ *       const lower = state.metadata.lowerBand
  *       yield* Console.log(`BB: ${lower.toFixed(2)} < ${state.value.toFixed(2)} < ${upper.toFixed(2)}`)
  *     })
  *   )
@@ -61,7 +84,7 @@ export const BollingerBandsConfig = Context.GenericTag<BollingerBandsConfig>(
  */
 export class BollingerBandsIndicator extends Context.Tag("@indicators/BollingerBands")<
   BollingerBandsIndicator,
-  Indicator.Indicator
+  Indicator.Indicator<BollingerBandsOutput>
 >() {}
 
 /**
@@ -103,6 +126,152 @@ const calculateSMA = (prices: ReadonlyArray<number>): number => {
   )
 }
 
+/**
+ * Bands around the mean of a price window.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Bands {
+  readonly upper: number
+  readonly middle: number
+  readonly lower: number
+  readonly stdDev: number
+  readonly bandwidth: number // Band width as a percentage of the middle band
+}
+
+/**
+ * Bollinger Bands of a price window: its SMA plus and minus
+ * `stdDevMultiplier` standard deviations.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as BB from "@/indicators/BollingerBands"
+ *
+ * BB.bands([98, 100, 102], 2).bandwidth // ~6.53
+ */
+export const bands = (prices: ReadonlyArray<number>, stdDevMultiplier: number): Bands => {
+  const middle = calculateSMA(prices)
+  const stdDev = calculateStdDev(prices, middle)
+  const upper = middle + stdDev * stdDevMultiplier
+  const lower = middle - stdDev * stdDevMultiplier
+  return { upper, middle, lower, stdDev, bandwidth: ((upper - lower) / middle) * 100 }
+}
+
+/**
+ * Create a Bollinger Bands indicator instance from its configuration.
+ *
+ * States are emitted once `period` prices were seen, with the bands
+ * `stdDevMultiplier` standard deviations around their mean.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: BollingerBandsConfig): Indicator.Indicator<BollingerBandsOutput> => ({
+  id: config.id,
+  name: "Bollinger Bands",
+  output: BollingerBandsOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<
+        BBState,
+        Trade.TradeData,
+        Indicator.IndicatorState<BollingerBandsOutput> | null
+      >({ prices: [] }, (state, trade) => {
+        const newPrices = [...state.prices, trade.price].slice(-config.period)
+        const newState = { prices: newPrices }
+
+        if (newPrices.length >= config.period) {
+          const { upper, middle, lower, stdDev, bandwidth } = bands(
+            newPrices,
+            config.stdDevMultiplier
+          )
+
+          // Calculate %B (position within bands)
+          const percentB = (trade.price - lower) / (upper - lower)
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "Bollinger Bands",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(trade.timestamp),
+              value: middle,
+              metadata: {
+                period: config.period,
+                upperBand: upper,
+                middleBand: middle,
+                lowerBand: lower,
+                stdDev,
+                bandwidth,
+                percentB,
+                currentPrice: trade.price,
+              },
+            }),
+          ]
+        }
+
+        return [newState, null]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<BollingerBandsOutput>) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const upperBand = state.metadata.upperBand
+      const lowerBand = state.metadata.lowerBand
+      const percentB = state.metadata.percentB
+      const timestamp = state.lastUpdate
+
+      if (currentPrice <= lowerBand) {
+        // Price at or below lower band - oversold, potential buy
+        const strength = Math.min(1, Math.abs(percentB))
+        return Indicator.Buy.make({
+          strength,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} at/below lower band ${lowerBand.toFixed(2)}`,
+        })
+      } else if (currentPrice >= upperBand) {
+        // Price at or above upper band - overbought, potential sell
+        const strength = Math.min(1, percentB)
+        return Indicator.Sell.make({
+          _tag: "sell" as const,
+          strength,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} at/above upper band ${upperBand.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold" as const,
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<BollingerBandsOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const bandwidth = state.metadata.bandwidth
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => bandwidth > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
 /**
  * Layer that provides the Bollinger Bands indicator service.
  *
@@ -123,108 +292,5 @@ const calculateSMA = (prices: ReadonlyArray<number>): number => {
  */
 export const BollingerBandsIndicatorLive = Layer.effect(
   BollingerBandsIndicator,
-  Effect.gen(function* () {
-    const config = yield* BollingerBandsConfig
-
-    return BollingerBandsIndicator.of({
-      id: config.id,
-      name: "Bollinger Bands",
-
-      process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
-        pipe(
-          trades,
-          Stream.filter((t) => t.symbol === config.symbol),
-          Stream.mapAccum<BBState, Trade.TradeData, Indicator.IndicatorState | null>(
-            { prices: [] },
-            (state, trade) => {
-              const newPrices = [...state.prices, trade.price].slice(-config.period)
-              const newState = { prices: newPrices }
-
-              if (newPrices.length >= config.period) {
-                const sma = calculateSMA(newPrices)
-                const stdDev = calculateStdDev(newPrices, sma)
-                const upperBand = sma + stdDev * config.stdDevMultiplier
-                const lowerBand = sma - stdDev * config.stdDevMultiplier
-
-                // Calculate bandwidth as percentage
-                const bandwidth = ((upperBand - lowerBand) / sma) * 100
-
-                // Calculate %B (position within bands)
-                const percentB = (trade.price - lowerBand) / (upperBand - lowerBand)
-
-                return [
-                  newState,
-                  Indicator.IndicatorState.make({
-                    id: config.id,
-                    name: "Bollinger Bands",
-                    symbol: config.symbol,
-                    lastUpdate: DateTime.unsafeNow(),
-                    value: sma,
-                    metadata: {
-                      period: config.period,
-                      upperBand,
-                      lowerBand,
-                      stdDev,
-                      bandwidth,
-                      percentB,
-                      currentPrice: trade.price,
-                    },
-                  }),
-                ]
-              }
-
-              return [newState, null]
-            }
-          ),
-          Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
-        ),
-
-      signal: (state: Indicator.IndicatorState) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const upperBand = state.metadata["upperBand"] as number
-          const lowerBand = state.metadata["lowerBand"] as number
-          const percentB = state.metadata["percentB"] as number
-          const timestamp = state.lastUpdate
-
-          if (currentPrice <= lowerBand) {
-            // Price at or below lower band - oversold, potential buy
-            const strength = Math.min(1, Math.abs(percentB))
-            return Indicator.Buy.make({
-              strength,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} at/below lower band ${lowerBand.toFixed(2)}`,
-            })
-          } else if (currentPrice >= upperBand) {
-            // Price at or above upper band - overbought, potential sell
-            const strength = Math.min(1, percentB)
-            return Indicator.Sell.make({
-              _tag: "sell" as const,
-              strength,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} at/above upper band ${upperBand.toFixed(2)}`,
-            })
-          } else {
-            return Indicator.Hold.make({
-              _tag: "hold" as const,
-              timestamp,
-            })
-          }
-        }),
-
-      checkTrigger: (state: Indicator.IndicatorState, condition: Indicator.TriggerCondition) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const bandwidth = state.metadata["bandwidth"] as number
-
-          return Indicator.matchCondition(condition, {
-            priceAbove: (c) => currentPrice > c.threshold,
-            priceBelow: (c) => currentPrice < c.threshold,
-            volatilityAbove: (c) => bandwidth > c.threshold,
-            crossOver: () => false,
-            volumeAbove: () => false,
-          })
-        }),
-    })
-  })
+  Effect.map(BollingerBandsConfig, make)
 )
@@ -0,0 +1,199 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import type * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as CrossSymbol from "./CrossSymbol"
+
+/**
+ * Rolling correlation indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface CorrelationConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly other: string // Symbol whose returns are compared with `symbol`'s
+  readonly period: number // Returns in the window, default 20
+  readonly bars: Bar.TimeBars // Interval both symbols are aligned on
+}
+
+/**
+ * Configuration service for Correlation indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const CorrelationConfig = Context.GenericTag<CorrelationConfig>(
+  "@indicators/config/Correlation"
+)
+
+/**
+ * Outputs of the Correlation indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const CorrelationOutput = Schema.Struct({
+  period: Schema.Number,
+  other: Schema.String.pipe(Indicator.label("vs")),
+  otherPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type CorrelationOutput = Schema.Schema.Type<typeof CorrelationOutput>
+
+const State = Indicator.stateSchema(CorrelationOutput)
+
+/**
+ * Rolling correlation indicator service.
+ *
+ * Aligns the bars of `symbol` and `other` and emits the Pearson correlation of
+ * their last `period` bar returns as `value`, from -1 (moving opposite ways)
+ * to 1 (moving together). Unlike single-symbol indicators it reads the trades
+ * of both symbols, so it must be fed the unfiltered trade stream. It describes
+ * a relationship rather than a trade, so it only ever holds.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Correlation from "@/indicators/Correlation"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const correlation = yield* Correlation.CorrelationIndicator
+ *   yield* Stream.runForEach(correlation.process(tradeStream), (state) =>
+ *     Console.log(`AAPL/MSFT correlation ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class CorrelationIndicator extends Context.Tag("@indicators/Correlation")<
+  CorrelationIndicator,
+  Indicator.Indicator<CorrelationOutput>
+>() {}
+
+/**
+ * Internal state for Correlation calculation.
+ */
+interface CorrelationState {
+  readonly closes: ReadonlyArray<number>
+  readonly otherCloses: ReadonlyArray<number>
+}
+
+/**
+ * Create a Correlation indicator instance from its configuration.
+ *
+ * States are emitted once `period + 1` aligned bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: CorrelationConfig): Indicator.Indicator<CorrelationOutput> => ({
+  id: config.id,
+  name: "Correlation",
+  output: CorrelationOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      CrossSymbol.align([config.symbol, config.other], config.bars),
+      Stream.mapAccum<
+        CorrelationState,
+        CrossSymbol.AlignedBar,
+        Indicator.IndicatorState<CorrelationOutput> | null
+      >({ closes: [], otherCloses: [] }, (state, row) => {
+        const [close, otherClose] = row.closes
+        const newState: CorrelationState = {
+          closes: [...state.closes, close].slice(-(config.period + 1)),
+          otherCloses: [...state.otherCloses, otherClose].slice(-(config.period + 1)),
+        }
+
+        if (newState.closes.length <= config.period) {
+          return [newState, null]
+        }
+
+        return [
+          newState,
+          State.make({
+            id: config.id,
+            name: "Correlation",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(row.end),
+            value: CrossSymbol.correlation(
+              CrossSymbol.returns(newState.closes),
+              CrossSymbol.returns(newState.otherCloses)
+            ),
+            metadata: {
+              period: config.period,
+              other: config.other,
+              otherPrice: otherClose,
+              barStart: row.start,
+              barEnd: row.end,
+              currentPrice: close,
+            },
+          }),
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<CorrelationOutput>) =>
+    Effect.succeed(
+      Indicator.Hold.make({
+        _tag: "hold",
+        timestamp: state.lastUpdate,
+      })
+    ),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<CorrelationOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Correlation indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Correlation from "@/indicators/Correlation"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Correlation.CorrelationConfig, {
+ *   id: "corr-20-AAPL-MSFT",
+ *   symbol: "AAPL",
+ *   other: "MSFT",
+ *   period: 20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Correlation.CorrelationIndicatorLive, config)
+ */
+export const CorrelationIndicatorLive = Layer.effect(
+  CorrelationIndicator,
+  Effect.map(CorrelationConfig, make)
+)
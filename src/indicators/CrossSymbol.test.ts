@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test"
+import * as CrossSymbol from "./CrossSymbol"
+import * as Bar from "../domain/Bar"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { pipe } from "effect/Function"
+import type * as Trade from "../domain/Trade"
+import {
+  mockAlignedTrades,
+  mockTrade,
+  makeSymbol,
+  makePrice,
+  makeTimestamp,
+} from "../test-utils/fixtures"
+
+const align = (trades: ReadonlyArray<Trade.TradeData>) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(
+      Stream.runCollect(
+        pipe(Stream.fromIterable(trades), CrossSymbol.align(["AAPL", "MSFT"], Bar.time("1 minute")))
+      )
+    )
+  )
+
+const trade = (symbol: string, price: number, minute: number) =>
+  mockTrade({
+    symbol: makeSymbol(symbol),
+    price: makePrice(price),
+    timestamp: makeTimestamp(1_700_000_040_000 + minute * 60_000 + 1_000),
+  })
+
+describe("CrossSymbol", () => {
+  it("should line up the closes of every symbol by bar", () => {
+    const rows = align(mockAlignedTrades({ AAPL: [1, 2, 3], MSFT: [10, 20, 30], SPY: [5, 5, 5] }))
+
+    expect(rows.map((row) => row.closes)).toEqual([
+      [1, 10],
+      [2, 20],
+      [3, 30],
+    ])
+    expect(rows[1].start - rows[0].start).toBe(60_000)
+    expect(rows[0].end).toBe(rows[1].start)
+  })
+
+  it("should carry a quiet symbol's close and skip bars before its first trade", () => {
+    const rows = align([
+      trade("AAPL", 1, 0),
+      trade("AAPL", 2, 1),
+      trade("MSFT", 20, 1),
+      trade("AAPL", 3, 2),
+      trade("AAPL", 4, 3),
+      trade("MSFT", 40, 3),
+    ])
+
+    expect(rows.map((row) => row.closes)).toEqual([
+      [2, 20],
+      [3, 20],
+      [4, 40],
+    ])
+  })
+
+  it("should compute returns, correlation, slope and z-score", () => {
+    const [up, down] = CrossSymbol.returns([100, 110, 99])
+    expect(up).toBeCloseTo(0.1, 10)
+    expect(down).toBeCloseTo(-0.1, 10)
+    expect(CrossSymbol.correlation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10)
+    expect(CrossSymbol.correlation([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1, 10)
+    expect(CrossSymbol.correlation([1, 2, 3], [5, 5, 5])).toBe(0)
+    expect(CrossSymbol.slope([2, 4, 6], [1, 2, 3])).toBeCloseTo(2, 10)
+    expect(CrossSymbol.slope([2, 4, 6], [1, 1, 1])).toBe(0)
+    expect(CrossSymbol.zScore([1, 2, 3])).toBeCloseTo(1 / Math.sqrt(2 / 3), 10)
+  })
+})
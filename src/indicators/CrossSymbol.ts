@@ -0,0 +1,123 @@
+import * as Stream from "effect/Stream"
+import * as Option from "effect/Option"
+import { pipe } from "effect/Function"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Closes of several symbols over the same time bar.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface AlignedBar {
+  readonly start: number
+  readonly end: number
+  // In the order the symbols were given to `align`
+  readonly closes: ReadonlyArray<number>
+}
+
+/**
+ * Time bars seen for some but not yet all symbols, keyed by bar start.
+ */
+type Pending = ReadonlyMap<number, ReadonlyMap<string, number>>
+
+/**
+ * Roll the trades of several symbols into time bars and line them up by bar
+ * start.
+ *
+ * Each symbol's bars close on its own trades, so a row is emitted once the
+ * slowest symbol has closed that interval. Intervals without trades are
+ * filled at the previous close, so quiet symbols do not stall the others;
+ * rows that can no longer complete (before a symbol's first trade) are
+ * dropped.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ * @example
+ * import * as CrossSymbol from "@/indicators/CrossSymbol"
+ * import * as Bar from "@/domain/Bar"
+ * import { pipe } from "effect/Function"
+ *
+ * const rows = pipe(trades, CrossSymbol.align(["AAPL", "MSFT"], Bar.time("1 minute")))
+ */
+export const align =
+  (symbols: ReadonlyArray<string>, bars: Bar.TimeBars) =>
+  <E, R>(trades: Stream.Stream<Trade.TradeData, E, R>): Stream.Stream<AlignedBar, E, R> =>
+    pipe(
+      trades,
+      Stream.filter((t) => symbols.includes(t.symbol)),
+      Bar.aggregate(bars),
+      Stream.mapAccum<Pending, Bar.Bar, AlignedBar | null>(new Map(), (pending, bar) => {
+        const row = new Map(pending.get(bar.start)).set(bar.symbol, bar.close)
+
+        if (row.size < symbols.length) {
+          return [new Map(pending).set(bar.start, row), null]
+        }
+
+        return [
+          new Map([...pending].filter(([start]) => start > bar.start)),
+          { start: bar.start, end: bar.end, closes: symbols.map((symbol) => row.get(symbol)!) },
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    )
+
+/**
+ * Simple returns between consecutive closes.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const returns = (closes: ReadonlyArray<number>): ReadonlyArray<number> =>
+  closes.slice(1).map((close, i) => (closes[i] === 0 ? 0 : close / closes[i] - 1))
+
+const mean = (values: ReadonlyArray<number>): number =>
+  values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length
+
+/**
+ * Population covariance of two equally long series.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const covariance = (xs: ReadonlyArray<number>, ys: ReadonlyArray<number>): number => {
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+  return mean(xs.map((x, i) => (x - meanX) * (ys[i] - meanY)))
+}
+
+/**
+ * Pearson correlation of two equally long series, 0 if either is flat.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const correlation = (xs: ReadonlyArray<number>, ys: ReadonlyArray<number>): number => {
+  const denominator = Math.sqrt(covariance(xs, xs) * covariance(ys, ys))
+  return denominator === 0 ? 0 : covariance(xs, ys) / denominator
+}
+
+/**
+ * Least-squares slope of `ys` regressed on `xs`, 0 if `xs` is flat. On
+ * returns this is beta, on prices the hedge ratio of a pair.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const slope = (ys: ReadonlyArray<number>, xs: ReadonlyArray<number>): number => {
+  const variance = covariance(xs, xs)
+  return variance === 0 ? 0 : covariance(xs, ys) / variance
+}
+
+/**
+ * Standard deviations the last value lies from the mean of the series, 0 if
+ * the series is flat.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const zScore = (values: ReadonlyArray<number>): number => {
+  const stdDev = Math.sqrt(covariance(values, values))
+  return stdDev === 0 ? 0 : (values[values.length - 1] - mean(values)) / stdDev
+}
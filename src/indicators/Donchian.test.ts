@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test"
+import * as Donchian from "./Donchian"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const donchian = Donchian.make({
+  id: "donchian-3-1m",
+  symbol: "AAPL",
+  period: 3,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(donchian.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), donchian.signal))
+
+const bars = [
+  { high: 102, low: 100, close: 101 },
+  { high: 104, low: 101, close: 103 },
+  { high: 103, low: 99, close: 100 },
+  // Breaks the 104 high
+  { high: 108, low: 102, close: 107 },
+  { high: 107, low: 100, close: 101 },
+  // Breaks the 99 low
+  { high: 100, low: 96, close: 97 },
+]
+
+describe("Donchian", () => {
+  it("should emit once period + 1 bars have closed", () => {
+    expect(states(bars.slice(0, 3)).length).toBe(0)
+    expect(states(bars).length).toBe(3)
+  })
+
+  it("should span the high and low of the bars before the current one", () => {
+    const first = states(bars)[0]
+
+    expect(first.value).toBe(101.5)
+    expect(first.metadata).toMatchObject({
+      upperBand: 104,
+      middleBand: 101.5,
+      lowerBand: 99,
+      high: 108,
+      low: 102,
+      currentPrice: 107,
+    })
+    expect(first.metadata.width).toBeCloseTo((5 / 101.5) * 100, 10)
+  })
+
+  it("should signal closes beyond the channel as breakouts", () => {
+    const result = signals(bars)
+
+    expect(result.map((s) => s._tag)).toEqual(["buy", "hold", "sell"])
+    // 3 above a channel 5 wide
+    expect(Indicator.getStrength(result[0])).toBeCloseTo(0.8, 10)
+    expect(Indicator.isSell(result[2]) && result[2].reason).toContain("3-bar low")
+  })
+})
@@ -0,0 +1,229 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Donchian Channels indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface DonchianConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Channel lookback in bars, default 20
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Donchian indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const DonchianConfig = Context.GenericTag<DonchianConfig>("@indicators/config/Donchian")
+
+/**
+ * Outputs of the Donchian Channels indicator. The middle line is also emitted
+ * as `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const DonchianOutput = Schema.Struct({
+  period: Schema.Number,
+  upperBand: Schema.Number.pipe(Indicator.label("Upper")),
+  middleBand: Schema.Number,
+  lowerBand: Schema.Number.pipe(Indicator.label("Lower")),
+  width: Schema.Number.pipe(Indicator.label("Width%")),
+  high: Schema.Number,
+  low: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type DonchianOutput = Schema.Schema.Type<typeof DonchianOutput>
+
+const State = Indicator.stateSchema(DonchianOutput)
+
+/**
+ * Donchian Channels indicator service.
+ *
+ * Rolls trades into bars and tracks the highest high and lowest low of the
+ * `period` bars before the current one. A close beyond the channel is a new
+ * `period`-bar high or low, the classic channel breakout: buy above the upper
+ * band, sell below the lower one.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Donchian from "@/indicators/Donchian"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const donchian = yield* Donchian.DonchianIndicator
+ *   yield* Stream.runForEach(donchian.process(tradeStream), (state) =>
+ *     Console.log(`DC ${state.metadata.lowerBand} - ${state.metadata.upperBand}`)
+ *   )
+ * })
+ */
+export class DonchianIndicator extends Context.Tag("@indicators/Donchian")<
+  DonchianIndicator,
+  Indicator.Indicator<DonchianOutput>
+>() {}
+
+/**
+ * Internal state for Donchian calculation.
+ */
+interface DonchianState {
+  readonly highs: ReadonlyArray<number>
+  readonly lows: ReadonlyArray<number>
+}
+
+/**
+ * Create a Donchian Channels indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The channel excludes the current bar so that it can break out, so
+ * states are emitted once `period + 1` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: DonchianConfig): Indicator.Indicator<DonchianOutput> => ({
+  id: config.id,
+  name: "Donchian",
+  output: DonchianOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<DonchianState, Bar.Bar, Indicator.IndicatorState<DonchianOutput> | null>(
+        { highs: [], lows: [] },
+        (state, bar) => {
+          const newState: DonchianState = {
+            highs: [...state.highs, bar.high].slice(-config.period),
+            lows: [...state.lows, bar.low].slice(-config.period),
+          }
+
+          if (state.highs.length < config.period) {
+            return [newState, null]
+          }
+
+          const upper = Math.max(...state.highs)
+          const lower = Math.min(...state.lows)
+          const middle = (upper + lower) / 2
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "Donchian",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: middle,
+              metadata: {
+                period: config.period,
+                upperBand: upper,
+                middleBand: middle,
+                lowerBand: lower,
+                width: middle === 0 ? 0 : ((upper - lower) / middle) * 100,
+                high: bar.high,
+                low: bar.low,
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<DonchianOutput>) =>
+    Effect.gen(function* () {
+      const { currentPrice, upperBand, lowerBand, period } = state.metadata
+      const timestamp = state.lastUpdate
+
+      // Half strength at the band, full strength a whole channel width beyond it
+      const range = upperBand - lowerBand
+      const strength = (distance: number) =>
+        Math.min(1, 0.5 + (range > 0 ? distance / range : 0) / 2)
+
+      if (currentPrice > upperBand) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: strength(currentPrice - upperBand),
+          timestamp,
+          reason: `Close ${currentPrice.toFixed(2)} broke above the ${period}-bar high ${upperBand.toFixed(2)}`,
+        })
+      } else if (currentPrice < lowerBand) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: strength(lowerBand - currentPrice),
+          timestamp,
+          reason: `Close ${currentPrice.toFixed(2)} broke below the ${period}-bar low ${lowerBand.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<DonchianOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const width = state.metadata.width
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => width > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Donchian Channels indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Donchian from "@/indicators/Donchian"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Donchian.DonchianConfig, {
+ *   id: "donchian-20-1m",
+ *   symbol: "AAPL",
+ *   period: 20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Donchian.DonchianIndicatorLive, config)
+ */
+export const DonchianIndicatorLive = Layer.effect(
+  DonchianIndicator,
+  Effect.map(DonchianConfig, make)
+)
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test"
+import * as Ichimoku from "./Ichimoku"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const ichimoku = Ichimoku.make({
+  id: "ichimoku-2-3-4",
+  symbol: "AAPL",
+  tenkanPeriod: 2,
+  kijunPeriod: 3,
+  senkouBPeriod: 4,
+  displacement: 2,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(ichimoku.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), ichimoku.signal))
+
+const uptrend = Array.from({ length: 8 }, (_, i) => ({
+  high: 101 + i,
+  low: 99 + i,
+  close: 100 + i,
+}))
+// Falls for 8 bars, then rallies for 8
+const valley = [
+  ...Array.from({ length: 8 }, (_, i) => ({
+    high: 121 - 2 * i,
+    low: 119 - 2 * i,
+    close: 120 - 2 * i,
+  })),
+  ...Array.from({ length: 8 }, (_, i) => ({
+    high: 109 + 2 * i,
+    low: 107 + 2 * i,
+    close: 108 + 2 * i,
+  })),
+]
+const peak = valley.map((bar) => ({
+  high: 240 - bar.low,
+  low: 240 - bar.high,
+  close: 240 - bar.close,
+}))
+
+describe("Ichimoku", () => {
+  it("should emit once senkouBPeriod + displacement bars have closed", () => {
+    expect(states(uptrend).length).toBe(3)
+  })
+
+  it("should derive every line from high/low midpoints", () => {
+    const last = states(uptrend).at(-1)!
+
+    expect(last.value).toBe(106)
+    expect(last.metadata).toMatchObject({
+      tenkanSen: 106.5,
+      kijunSen: 106,
+      leadingSpanA: 106.25,
+      leadingSpanB: 105.5,
+      // Projected two bars ago
+      senkouSpanA: 104.25,
+      senkouSpanB: 103.5,
+      chikouSpan: 107,
+      chikouReference: 105,
+      cloudPosition: "above",
+      cloudColor: "bullish",
+    })
+  })
+
+  it("should classify price against the cloud", () => {
+    expect(Ichimoku.cloudPosition(110, 105, 100)).toBe("above")
+    expect(Ichimoku.cloudPosition(102, 105, 100)).toBe("inside")
+    expect(Ichimoku.cloudPosition(102, 100, 105)).toBe("inside")
+    expect(Ichimoku.cloudPosition(95, 100, 105)).toBe("below")
+  })
+
+  it("should signal on TK crosses, weighted by the cloud position", () => {
+    const bullish = signals(valley)
+    const bearish = signals(peak)
+
+    expect(bullish.filter(Indicator.isBuy).length).toBe(1)
+    expect(bullish.some(Indicator.isSell)).toBe(false)
+    expect(bearish.filter(Indicator.isSell).length).toBe(1)
+    expect(bearish.some(Indicator.isBuy)).toBe(false)
+
+    const buy = bullish.find(Indicator.isBuy)!
+    const position = buy.reason.match(/price (\w+) the cloud/)![1]
+    expect(buy.strength).toBe(position === "above" ? 0.9 : position === "inside" ? 0.6 : 0.3)
+  })
+
+  it("should trigger crossOver on its own Tenkan/Kijun periods only", () => {
+    const own = Indicator.CrossOver.make({ fastPeriod: 2, slowPeriod: 3 })
+    const other = Indicator.CrossOver.make({ fastPeriod: 9, slowPeriod: 26 })
+    const results = Effect.runSync(
+      Effect.forEach(states(valley), (state) =>
+        Effect.all([ichimoku.checkTrigger(state, own), ichimoku.checkTrigger(state, other)])
+      )
+    )
+
+    expect(results.filter(([hit]) => hit).length).toBe(1)
+    expect(results.some(([, hit]) => hit)).toBe(false)
+  })
+})
@@ -0,0 +1,351 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Ichimoku Cloud (Ichimoku Kinko Hyo) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface IchimokuConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly tenkanPeriod: number // Conversion line lookback in bars, default 9
+  readonly kijunPeriod: number // Base line lookback in bars, default 26
+  readonly senkouBPeriod: number // Leading span B lookback in bars, default 52
+  readonly displacement: number // Bars the cloud is shifted ahead and Chikou behind, default 26
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Ichimoku indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const IchimokuConfig = Context.GenericTag<IchimokuConfig>("@indicators/config/Ichimoku")
+
+/**
+ * Where the price sits relative to the cloud.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const CloudPosition = Schema.Literal("above", "inside", "below")
+
+export type CloudPosition = Schema.Schema.Type<typeof CloudPosition>
+
+/**
+ * Outputs of the Ichimoku indicator. Kijun-sen is also emitted as `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const IchimokuOutput = Schema.Struct({
+  period: Schema.Number,
+  tenkanPeriod: Schema.Number,
+  kijunPeriod: Schema.Number,
+  senkouBPeriod: Schema.Number,
+  displacement: Schema.Number,
+  tenkanSen: Schema.Number.pipe(Indicator.label("Tenkan")),
+  kijunSen: Schema.Number,
+  senkouSpanA: Schema.Number.pipe(Indicator.label("Span A")),
+  senkouSpanB: Schema.Number.pipe(Indicator.label("Span B")),
+  leadingSpanA: Schema.Number,
+  leadingSpanB: Schema.Number,
+  chikouSpan: Schema.Number,
+  chikouReference: Schema.Number,
+  cloudPosition: CloudPosition.pipe(Indicator.label("Cloud")),
+  cloudColor: Schema.Literal("bullish", "bearish"),
+  previousTkSpread: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type IchimokuOutput = Schema.Schema.Type<typeof IchimokuOutput>
+
+const State = Indicator.stateSchema(IchimokuOutput)
+
+/**
+ * Ichimoku indicator service.
+ *
+ * Rolls trades into bars and derives five lines from midpoints of the
+ * highest high and lowest low over different lookbacks:
+ *
+ * - Tenkan-sen (conversion line): midpoint over `tenkanPeriod` bars
+ * - Kijun-sen (base line): midpoint over `kijunPeriod` bars
+ * - Senkou Span A: mean of Tenkan-sen and Kijun-sen, plotted `displacement`
+ *   bars ahead
+ * - Senkou Span B: midpoint over `senkouBPeriod` bars, plotted
+ *   `displacement` bars ahead
+ * - Chikou Span: the close, plotted `displacement` bars behind
+ *
+ * The spans bound the cloud. Emits Kijun-sen as `value`; every line, the
+ * cloud under the current bar and the price's position relative to it are in
+ * `metadata`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Ichimoku from "@/indicators/Ichimoku"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const ichimoku = yield* Ichimoku.IchimokuIndicator
+ *   yield* Stream.runForEach(ichimoku.process(tradeStream), (state) =>
+ *     Console.log(`Price ${state.metadata.cloudPosition} the cloud`)
+ *   )
+ * })
+ */
+export class IchimokuIndicator extends Context.Tag("@indicators/Ichimoku")<
+  IchimokuIndicator,
+  Indicator.Indicator<IchimokuOutput>
+>() {}
+
+/**
+ * Leading spans computed on one bar.
+ */
+interface Spans {
+  readonly senkouA: number
+  readonly senkouB: number
+}
+
+/**
+ * Internal state for Ichimoku calculation.
+ */
+interface IchimokuState {
+  readonly highs: ReadonlyArray<number>
+  readonly lows: ReadonlyArray<number>
+  readonly closes: ReadonlyArray<number>
+  readonly spans: ReadonlyArray<Spans>
+  readonly previousTkSpread: Option.Option<number>
+}
+
+/**
+ * Midpoint of the highest high and lowest low of the last `period` bars.
+ */
+const midpoint = (
+  highs: ReadonlyArray<number>,
+  lows: ReadonlyArray<number>,
+  period: number
+): number => (Math.max(...highs.slice(-period)) + Math.min(...lows.slice(-period))) / 2
+
+/**
+ * Classify a price against the cloud bounded by two spans.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const cloudPosition = (price: number, senkouA: number, senkouB: number): CloudPosition =>
+  price > Math.max(senkouA, senkouB)
+    ? "above"
+    : price < Math.min(senkouA, senkouB)
+      ? "below"
+      : "inside"
+
+/**
+ * Which way Tenkan-sen crossed Kijun-sen between two updates.
+ */
+const tkCross = (previousSpread: number, spread: number): "above" | "below" | "none" => {
+  if (previousSpread <= 0 && spread > 0) return "above"
+  if (previousSpread >= 0 && spread < 0) return "below"
+  return "none"
+}
+
+/**
+ * Signal strength of a TK cross: strongest on the cloud's side of the trend,
+ * weakest against it.
+ */
+const crossStrength = (position: CloudPosition, direction: "above" | "below"): number =>
+  position === "inside" ? 0.6 : (position === "above") === (direction === "above") ? 0.9 : 0.3
+
+/**
+ * Create an Ichimoku indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The cloud under the current bar was projected `displacement` bars
+ * ago, so states are emitted once `senkouBPeriod + displacement` bars have
+ * closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: IchimokuConfig): Indicator.Indicator<IchimokuOutput> => ({
+  id: config.id,
+  name: "Ichimoku",
+  output: IchimokuOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<IchimokuState, Bar.Bar, Indicator.IndicatorState<IchimokuOutput> | null>(
+        { highs: [], lows: [], closes: [], spans: [], previousTkSpread: Option.none() },
+        (state, bar) => {
+          const lookback = Math.max(config.tenkanPeriod, config.kijunPeriod, config.senkouBPeriod)
+          const highs = [...state.highs, bar.high].slice(-lookback)
+          const lows = [...state.lows, bar.low].slice(-lookback)
+          const closes = [...state.closes, bar.close].slice(-config.displacement - 1)
+
+          if (highs.length < lookback) {
+            return [{ ...state, highs, lows, closes }, null]
+          }
+
+          const tenkan = midpoint(highs, lows, config.tenkanPeriod)
+          const kijun = midpoint(highs, lows, config.kijunPeriod)
+          const leading: Spans = {
+            senkouA: (tenkan + kijun) / 2,
+            senkouB: midpoint(highs, lows, config.senkouBPeriod),
+          }
+          const spans = [...state.spans, leading].slice(-config.displacement - 1)
+          const tkSpread = tenkan - kijun
+
+          const newState: IchimokuState = {
+            highs,
+            lows,
+            closes,
+            spans,
+            previousTkSpread: Option.some(tkSpread),
+          }
+
+          // The spans projected onto this bar were computed `displacement` bars ago
+          if (spans.length <= config.displacement) {
+            return [newState, null]
+          }
+
+          const cloud = spans[0]
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "Ichimoku",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: kijun,
+              metadata: {
+                period: config.kijunPeriod,
+                tenkanPeriod: config.tenkanPeriod,
+                kijunPeriod: config.kijunPeriod,
+                senkouBPeriod: config.senkouBPeriod,
+                displacement: config.displacement,
+                tenkanSen: tenkan,
+                kijunSen: kijun,
+                // Cloud under the current bar
+                senkouSpanA: cloud.senkouA,
+                senkouSpanB: cloud.senkouB,
+                // Cloud `displacement` bars ahead
+                leadingSpanA: leading.senkouA,
+                leadingSpanB: leading.senkouB,
+                // The close, compared to the close it is plotted against
+                chikouSpan: bar.close,
+                chikouReference: closes[0],
+                cloudPosition: cloudPosition(bar.close, cloud.senkouA, cloud.senkouB),
+                cloudColor: leading.senkouA >= leading.senkouB ? "bullish" : "bearish",
+                // Without a previous update nothing can have crossed
+                previousTkSpread: Option.getOrElse(state.previousTkSpread, () => tkSpread),
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<IchimokuOutput>) =>
+    Effect.gen(function* () {
+      const tenkan = state.metadata.tenkanSen
+      const kijun = state.metadata.kijunSen
+      const position = state.metadata.cloudPosition
+      const cross = tkCross(state.metadata.previousTkSpread, tenkan - kijun)
+      const timestamp = state.lastUpdate
+      const lines = `Tenkan ${tenkan.toFixed(2)}, Kijun ${kijun.toFixed(2)}, price ${position} the cloud`
+
+      if (cross === "above") {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: crossStrength(position, cross),
+          timestamp,
+          reason: `Tenkan-sen crossed above Kijun-sen (${lines})`,
+        })
+      } else if (cross === "below") {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: crossStrength(position, cross),
+          timestamp,
+          reason: `Tenkan-sen crossed below Kijun-sen (${lines})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<IchimokuOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        // Bullish TK cross of this Ichimoku's conversion and base lines
+        crossOver: (c) =>
+          c.fastPeriod === config.tenkanPeriod &&
+          c.slowPeriod === config.kijunPeriod &&
+          tkCross(
+            state.metadata.previousTkSpread,
+            state.metadata.tenkanSen - state.metadata.kijunSen
+          ) === "above",
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Ichimoku indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Ichimoku from "@/indicators/Ichimoku"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Ichimoku.IchimokuConfig, {
+ *   id: "ichimoku-9-26-52-1m",
+ *   symbol: "AAPL",
+ *   tenkanPeriod: 9,
+ *   kijunPeriod: 26,
+ *   senkouBPeriod: 52,
+ *   displacement: 26,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Ichimoku.IchimokuIndicatorLive, config)
+ */
+export const IchimokuIndicatorLive = Layer.effect(
+  IchimokuIndicator,
+  Effect.map(IchimokuConfig, make)
+)
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "bun:test"
+import * as IndicatorFactory from "./IndicatorFactory"
+import * as IndicatorRegistry from "./IndicatorRegistry"
+import type * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Either from "effect/Either"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as HashMap from "effect/HashMap"
+import { mockTrade, makeSymbol, makePrice, makeTimestamp } from "../test-utils/fixtures"
+
+const config = (
+  name: string,
+  period: number,
+  params: Record<string, unknown> = {}
+): Indicator.IndicatorConfig => ({
+  id: `${name}-${period}`,
+  name,
+  symbol: "AAPL",
+  period,
+  params,
+})
+
+const trades = Array.from({ length: 30 }, (_, i) =>
+  mockTrade({
+    symbol: makeSymbol("AAPL"),
+    price: makePrice(100 + i),
+    timestamp: makeTimestamp(1_700_000_000_000 + i * 1_000),
+  })
+)
+
+const lastState = (indicator: Indicator.AnyIndicator) =>
+  Effect.runSync(
+    Stream.runLast(
+      Stream.map(indicator.process(Stream.fromIterable(trades)), (reading) => reading.state)
+    )
+  )
+
+const failure = (config: Indicator.IndicatorConfig) =>
+  Either.match(Effect.runSync(Effect.either(IndicatorFactory.make(config))), {
+    onLeft: (error) => error,
+    onRight: () => {
+      throw new Error("expected an IndicatorConfigError")
+    },
+  })
+
+describe("IndicatorFactory", () => {
+  it("should build several instances of the same indicator", () => {
+    const [sma, ema, slow] = Effect.runSync(
+      Effect.all([
+        IndicatorFactory.make(config("SMA", 20)),
+        IndicatorFactory.make(config("EMA", 12)),
+        IndicatorFactory.make(config("SMA", 5)),
+      ])
+    )
+
+    expect([sma.id, ema.id, slow.id]).toEqual(["SMA-20", "EMA-12", "SMA-5"])
+    expect([sma.name, ema.name, slow.name]).toEqual(["SMA", "EMA", "SMA"])
+
+    const smaState = lastState(sma)
+    const fastState = lastState(slow)
+    expect(smaState._tag === "Some" && smaState.value.value).toBeCloseTo(119.5)
+    expect(fastState._tag === "Some" && fastState.value.value).toBeCloseTo(127)
+  })
+
+  it("should resolve names regardless of case and punctuation", () => {
+    const names = [
+      "Bollinger Bands",
+      "bollinger-bands",
+      "vwap",
+      "Williams %R",
+      "Accumulation/Distribution",
+      "Parabolic SAR",
+      "Super Trend",
+      "Volume Profile",
+    ]
+    const built = Effect.runSync(
+      Effect.forEach(names, (name) => IndicatorFactory.make(config(name, 20)))
+    )
+    expect(built.map((indicator) => indicator.name)).toEqual([
+      "Bollinger Bands",
+      "Bollinger Bands",
+      "VWAP",
+      "Williams %R",
+      "A/D",
+      "Parabolic SAR",
+      "SuperTrend",
+      "Volume Profile",
+    ])
+  })
+
+  it("should resolve the documented aliases only", () => {
+    const aliases = ["Moving Average", "BB", "stoch", "WillR", "PSAR", "A/D"]
+    const built = Effect.runSync(
+      Effect.forEach(aliases, (name) => IndicatorFactory.make(config(name, 20)))
+    )
+    expect(built.map((indicator) => indicator.name)).toEqual([
+      "SMA",
+      "Bollinger Bands",
+      "Stochastic",
+      "Williams %R",
+      "Parabolic SAR",
+      "A/D",
+    ])
+
+    expect(failure(config("DMI", 14)).reason).toContain("Unknown indicator")
+    expect(failure(config("Keltner Channels", 20)).reason).toContain("Unknown indicator")
+  })
+
+  it("should apply params over the defaults", () => {
+    const rsi = Effect.runSync(IndicatorFactory.make(config("RSI", 14, { oversold: 20 })))
+    const state = lastState(rsi)
+    expect(state._tag === "Some" && state.value.metadata).toMatchObject({
+      oversold: 20,
+      overbought: 70,
+    })
+
+    const ma = Effect.runSync(
+      IndicatorFactory.make(config("Moving Average", 10, { type: "exponential" }))
+    )
+    expect(ma.name).toBe("EMA")
+
+    const macd = Effect.runSync(IndicatorFactory.make(config("MACD", 8, { fastPeriod: 3 })))
+    const macdState = lastState(macd)
+    expect(macdState._tag === "Some" && macdState.value.metadata).toMatchObject({
+      fastPeriod: 3,
+      slowPeriod: 8,
+      signalPeriod: 9,
+    })
+  })
+
+  it("should reject unknown indicators, invalid periods and invalid params", () => {
+    expect(failure(config("Fibonacci", 12)).reason).toContain("Unknown indicator")
+    expect(failure(config("MACD", 12)).reason).toContain("below the slow period")
+    expect(failure(config("Ichimoku", 9)).reason).toContain("tenkan < kijun <= senkou B")
+    expect(failure(config("PSAR", 20, { accelerationStart: 0.3 })).reason).toContain(
+      "at or below its max"
+    )
+    expect(failure(config("SMA", 0)).reason).toContain("positive integer")
+    expect(failure(config("SMA", 2.5)).reason).toContain("positive integer")
+
+    const error = failure(config("Volatility", 20, { method: "garch" }))
+    expect(error._tag).toBe("IndicatorConfigError")
+    expect(error.reason).toContain("method")
+
+    const bars = failure(config("ATR", 14, { bars: { _tag: "TimeBars", intervalMs: -1 } }))
+    expect(bars.reason).toContain("Bar interval must be positive")
+  })
+
+  it("should build cross-symbol indicators from a second symbol param", () => {
+    const [correlation, beta, pairs] = Effect.runSync(
+      Effect.all([
+        IndicatorFactory.make(config("Correlation", 20, { other: "MSFT" })),
+        IndicatorFactory.make(config("Beta", 20, { benchmark: "SPY" })),
+        IndicatorFactory.make(config("Pairs", 20, { other: "MSFT", threshold: 1.5 })),
+      ])
+    )
+    expect([correlation.name, beta.name, pairs.name]).toEqual(["Correlation", "Beta", "Pairs"])
+
+    expect(failure(config("Pairs", 20)).reason).toContain("other")
+    expect(failure(config("Beta", 20, { benchmark: "AAPL" })).reason).toContain(
+      "second symbol other than AAPL"
+    )
+    expect(
+      failure(config("Correlation", 20, { other: "MSFT", bars: { _tag: "TickBars", count: 10 } }))
+        .reason
+    ).toContain("bars")
+  })
+})
+
+describe("IndicatorRegistry", () => {
+  it("should add, replace and remove instances built from configs", async () => {
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const registry = yield* IndicatorRegistry.IndicatorRegistry
+        yield* registry.add(config("SMA", 20))
+        yield* registry.add(config("EMA", 12))
+        yield* registry.add(config("SMA", 20, { type: "exponential" }))
+        const afterAdd = yield* registry.list()
+        const replaced = yield* registry.get("SMA-20")
+
+        yield* registry.remove("EMA-12")
+        const latest = yield* Stream.runHead(registry.changes)
+        const invalid = yield* Effect.either(registry.add(config("SMA", -1)))
+
+        return { afterAdd, replaced, latest, invalid, final: yield* registry.list() }
+      }).pipe(Effect.provide(IndicatorRegistry.IndicatorRegistryLive))
+    )
+
+    expect([...result.afterAdd].sort()).toEqual(["EMA-12", "SMA-20"])
+    expect(result.replaced.name).toBe("EMA")
+    expect(
+      result.latest._tag === "Some" && Chunk.fromIterable(HashMap.keys(result.latest.value))
+    ).toEqual(Chunk.make("SMA-20"))
+    expect(Either.isLeft(result.invalid)).toBe(true)
+    expect(result.final).toEqual(["SMA-20"])
+  })
+})
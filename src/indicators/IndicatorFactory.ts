@@ -0,0 +1,505 @@
+/**
+ * Builds indicators from an IndicatorConfig.
+ *
+ * Every indicator module exports a `make` constructor that turns its own
+ * config into an independent instance, next to a `...Live` layer that reads
+ * the single `...Config` service and so provides one instance per context. The factory builds through `make`, so any number of instances of
+ * the same indicator can run side by side.
+ *
+ * @module IndicatorFactory
+ * @since 0.5.0
+ */
+import * as Data from "effect/Data"
+import * as Effect from "effect/Effect"
+import * as Schema from "effect/Schema"
+import * as ParseResult from "effect/ParseResult"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import * as MA from "./MovingAverage"
+import * as MACD from "./MACD"
+import * as RSI from "./RSI"
+import * as BB from "./BollingerBands"
+import * as VWAP from "./VWAP"
+import * as Vol from "./Volatility"
+import * as ATR from "./ATR"
+import * as Stochastic from "./Stochastic"
+import * as WilliamsR from "./WilliamsR"
+import * as ADX from "./ADX"
+import * as OBV from "./OBV"
+import * as AD from "./AccumulationDistribution"
+import * as MFI from "./MFI"
+import * as Ichimoku from "./Ichimoku"
+import * as Keltner from "./Keltner"
+import * as Donchian from "./Donchian"
+import * as Squeeze from "./Squeeze"
+import * as ParabolicSAR from "./ParabolicSAR"
+import * as SuperTrend from "./SuperTrend"
+import * as Correlation from "./Correlation"
+import * as Beta from "./Beta"
+import * as Pairs from "./Pairs"
+import * as VolumeProfile from "./VolumeProfile"
+
+/**
+ * Error raised when an IndicatorConfig names an unknown indicator or carries
+ * invalid params.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class IndicatorConfigError extends Data.TaggedError("IndicatorConfigError")<{
+  readonly config: Indicator.IndicatorConfig
+  readonly reason: string
+}> {}
+
+/**
+ * Params accepted by each indicator kind. Every param is optional and falls
+ * back to the indicator's usual default.
+ */
+const bars = Schema.optionalWith(Bar.BarSpec, { default: () => Bar.time("1 minute") })
+
+const MovingAverageParams = Schema.Struct({
+  type: Schema.optional(Schema.Literal("simple", "exponential")),
+})
+
+const MACDParams = Schema.Struct({
+  fastPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 12 }),
+  signalPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 9 }),
+})
+
+const RSIParams = Schema.Struct({
+  oversold: Schema.optionalWith(Schema.Number, { default: () => 30 }),
+  overbought: Schema.optionalWith(Schema.Number, { default: () => 70 }),
+})
+
+const BollingerBandsParams = Schema.Struct({
+  stdDevMultiplier: Schema.optionalWith(Schema.Positive, { default: () => 2 }),
+})
+
+const VWAPParams = Schema.Struct({
+  resetDaily: Schema.optionalWith(Schema.Boolean, { default: () => true }),
+})
+
+const VolatilityParams = Schema.Struct({
+  method: Schema.optionalWith(Schema.Literal("stdDev", "atr", "parkinson"), {
+    default: () => "stdDev" as const,
+  }),
+  highVolatilityThreshold: Schema.optionalWith(Schema.Positive, { default: () => 30 }),
+  bars,
+})
+
+const ATRParams = Schema.Struct({
+  breakoutMultiplier: Schema.optionalWith(Schema.Positive, { default: () => 2 }),
+  bars,
+})
+
+const StochasticParams = Schema.Struct({
+  dPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 3 }),
+  oversold: Schema.optionalWith(Schema.Number, { default: () => 20 }),
+  overbought: Schema.optionalWith(Schema.Number, { default: () => 80 }),
+  bars,
+})
+
+const WilliamsRParams = Schema.Struct({
+  oversold: Schema.optionalWith(Schema.Number, { default: () => -80 }),
+  overbought: Schema.optionalWith(Schema.Number, { default: () => -20 }),
+  bars,
+})
+
+const ADXParams = Schema.Struct({
+  trendThreshold: Schema.optionalWith(Schema.Positive, { default: () => 25 }),
+  bars,
+})
+
+const VolumeFlowParams = Schema.Struct({
+  bars,
+})
+
+const MFIParams = Schema.Struct({
+  oversold: Schema.optionalWith(Schema.Number, { default: () => 20 }),
+  overbought: Schema.optionalWith(Schema.Number, { default: () => 80 }),
+  bars,
+})
+
+const IchimokuParams = Schema.Struct({
+  tenkanPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 9 }),
+  senkouBPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 52 }),
+  displacement: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 26 }),
+  bars,
+})
+
+const KeltnerParams = Schema.Struct({
+  atrPeriod: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { default: () => 10 }),
+  multiplier: Schema.optionalWith(Schema.Positive, { default: () => 2 }),
+  bars,
+})
+
+const DonchianParams = Schema.Struct({
+  bars,
+})
+
+const SqueezeParams = Schema.Struct({
+  bbMultiplier: Schema.optionalWith(Schema.Positive, { default: () => 2 }),
+  kcMultiplier: Schema.optionalWith(Schema.Positive, { default: () => 1.5 }),
+  bars,
+})
+
+const ParabolicSARParams = Schema.Struct({
+  accelerationStart: Schema.optionalWith(Schema.Positive, { default: () => 0.02 }),
+  accelerationStep: Schema.optionalWith(Schema.Positive, { default: () => 0.02 }),
+  accelerationMax: Schema.optionalWith(Schema.Positive, { default: () => 0.2 }),
+  bars,
+})
+
+const SuperTrendParams = Schema.Struct({
+  multiplier: Schema.optionalWith(Schema.Positive, { default: () => 3 }),
+  bars,
+})
+
+// Cross-symbol indicators align their symbols on time bars
+const timeBars = Schema.optionalWith(Bar.TimeBars, { default: () => Bar.time("1 minute") })
+
+const CorrelationParams = Schema.Struct({
+  other: Schema.NonEmptyString,
+  bars: timeBars,
+})
+
+const BetaParams = Schema.Struct({
+  benchmark: Schema.NonEmptyString,
+  bars: timeBars,
+})
+
+const PairsParams = Schema.Struct({
+  other: Schema.NonEmptyString,
+  threshold: Schema.optionalWith(Schema.Positive, { default: () => 2 }),
+  bars: timeBars,
+})
+
+const VolumeProfileParams = Schema.Struct({
+  tickSize: Schema.optionalWith(Schema.Positive, { default: () => 0.1 }),
+  valueAreaPercent: Schema.optionalWith(
+    Schema.Number.pipe(Schema.greaterThan(0), Schema.lessThanOrEqualTo(100)),
+    { default: () => 70 }
+  ),
+  resetDaily: Schema.optionalWith(Schema.Boolean, { default: () => true }),
+})
+
+/**
+ * Decode a config's params, reporting every issue in an IndicatorConfigError.
+ */
+const decodeParams = <A, I>(schema: Schema.Schema<A, I>, config: Indicator.IndicatorConfig) =>
+  Schema.decodeUnknown(schema)(config.params).pipe(
+    Effect.mapError(
+      (error) =>
+        new IndicatorConfigError({
+          config,
+          reason: ParseResult.ArrayFormatter.formatErrorSync(error)
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", "),
+        })
+    )
+  )
+
+/**
+ * Fields shared by every indicator's own configuration.
+ */
+const common = (config: Indicator.IndicatorConfig) => ({
+  id: config.id,
+  symbol: config.symbol,
+  period: config.period,
+})
+
+/**
+ * Check that a cross-symbol indicator's second symbol is not its own.
+ */
+const secondSymbol = (config: Indicator.IndicatorConfig, other: string) =>
+  other === config.symbol
+    ? Effect.fail(
+        new IndicatorConfigError({
+          config,
+          reason: `${config.name} needs a second symbol other than ${config.symbol}`,
+        })
+      )
+    : Effect.void
+
+/**
+ * Hide the output type of the indicators a builder makes.
+ */
+const builder =
+  <Output extends Indicator.IndicatorOutput>(
+    build: (
+      config: Indicator.IndicatorConfig
+    ) => Effect.Effect<Indicator.Indicator<Output>, IndicatorConfigError>
+  ) =>
+  (config: Indicator.IndicatorConfig) =>
+    Effect.map(build(config), Indicator.toAny)
+
+/**
+ * Builders keyed by normalized indicator name.
+ */
+const builders: Record<
+  string,
+  (config: Indicator.IndicatorConfig) => Effect.Effect<Indicator.AnyIndicator, IndicatorConfigError>
+> = {
+  sma: builder((config) =>
+    Effect.map(decodeParams(MovingAverageParams, config), (params) =>
+      MA.make({ ...common(config), type: params.type ?? "simple" })
+    )
+  ),
+  ema: builder((config) =>
+    Effect.map(decodeParams(MovingAverageParams, config), (params) =>
+      MA.make({ ...common(config), type: params.type ?? "exponential" })
+    )
+  ),
+  // The config's period is the slow EMA period
+  macd: builder((config) =>
+    Effect.flatMap(decodeParams(MACDParams, config), (params) =>
+      params.fastPeriod < config.period
+        ? Effect.succeed(
+            MACD.make({
+              id: config.id,
+              symbol: config.symbol,
+              fastPeriod: params.fastPeriod,
+              slowPeriod: config.period,
+              signalPeriod: params.signalPeriod,
+            })
+          )
+        : Effect.fail(
+            new IndicatorConfigError({
+              config,
+              reason: `MACD fast period ${params.fastPeriod} must be below the slow period ${config.period}`,
+            })
+          )
+    )
+  ),
+  rsi: builder((config) =>
+    Effect.map(decodeParams(RSIParams, config), (params) =>
+      RSI.make({ ...common(config), ...params })
+    )
+  ),
+  bollingerbands: builder((config) =>
+    Effect.map(decodeParams(BollingerBandsParams, config), (params) =>
+      BB.make({ ...common(config), ...params })
+    )
+  ),
+  vwap: builder((config) =>
+    Effect.map(decodeParams(VWAPParams, config), (params) =>
+      VWAP.make({ id: config.id, symbol: config.symbol, ...params })
+    )
+  ),
+  volatility: builder((config) =>
+    Effect.map(decodeParams(VolatilityParams, config), (params) =>
+      Vol.make({ ...common(config), ...params })
+    )
+  ),
+  atr: builder((config) =>
+    Effect.map(decodeParams(ATRParams, config), (params) =>
+      ATR.make({ ...common(config), ...params })
+    )
+  ),
+  stochastic: builder((config) =>
+    Effect.map(decodeParams(StochasticParams, config), (params) =>
+      Stochastic.make({ ...common(config), ...params })
+    )
+  ),
+  williamsr: builder((config) =>
+    Effect.map(decodeParams(WilliamsRParams, config), (params) =>
+      WilliamsR.make({ ...common(config), ...params })
+    )
+  ),
+  adx: builder((config) =>
+    Effect.map(decodeParams(ADXParams, config), (params) =>
+      ADX.make({ ...common(config), ...params })
+    )
+  ),
+  // For OBV and A/D the period is the divergence lookback
+  obv: builder((config) =>
+    Effect.map(decodeParams(VolumeFlowParams, config), (params) =>
+      OBV.make({ ...common(config), ...params })
+    )
+  ),
+  accumulationdistribution: builder((config) =>
+    Effect.map(decodeParams(VolumeFlowParams, config), (params) =>
+      AD.make({ ...common(config), ...params })
+    )
+  ),
+  mfi: builder((config) =>
+    Effect.map(decodeParams(MFIParams, config), (params) =>
+      MFI.make({ ...common(config), ...params })
+    )
+  ),
+  // The config's period is the Kijun-sen (base line) period
+  ichimoku: builder((config) =>
+    Effect.flatMap(decodeParams(IchimokuParams, config), (params) =>
+      params.tenkanPeriod < config.period && config.period <= params.senkouBPeriod
+        ? Effect.succeed(
+            Ichimoku.make({
+              id: config.id,
+              symbol: config.symbol,
+              tenkanPeriod: params.tenkanPeriod,
+              kijunPeriod: config.period,
+              senkouBPeriod: params.senkouBPeriod,
+              displacement: params.displacement,
+              bars: params.bars,
+            })
+          )
+        : Effect.fail(
+            new IndicatorConfigError({
+              config,
+              reason: `Ichimoku periods must satisfy tenkan < kijun <= senkou B, got ${params.tenkanPeriod}, ${config.period}, ${params.senkouBPeriod}`,
+            })
+          )
+    )
+  ),
+  // The config's period is the EMA period
+  keltner: builder((config) =>
+    Effect.map(decodeParams(KeltnerParams, config), (params) =>
+      Keltner.make({ ...common(config), ...params })
+    )
+  ),
+  donchian: builder((config) =>
+    Effect.map(decodeParams(DonchianParams, config), (params) =>
+      Donchian.make({ ...common(config), ...params })
+    )
+  ),
+  squeeze: builder((config) =>
+    Effect.map(decodeParams(SqueezeParams, config), (params) =>
+      Squeeze.make({ ...common(config), ...params })
+    )
+  ),
+  // The config's period is ignored, the acceleration factor sets the pace
+  parabolicsar: builder((config) =>
+    Effect.flatMap(decodeParams(ParabolicSARParams, config), (params) =>
+      params.accelerationStart <= params.accelerationMax
+        ? Effect.succeed(ParabolicSAR.make({ ...common(config), ...params }))
+        : Effect.fail(
+            new IndicatorConfigError({
+              config,
+              reason: `Parabolic SAR acceleration must start at or below its max, got ${params.accelerationStart} > ${params.accelerationMax}`,
+            })
+          )
+    )
+  ),
+  // The config's period is the ATR period
+  supertrend: builder((config) =>
+    Effect.map(decodeParams(SuperTrendParams, config), (params) =>
+      SuperTrend.make({ ...common(config), ...params })
+    )
+  ),
+  // Cross-symbol: the config's symbol is the first leg, period counts returns
+  correlation: builder((config) =>
+    decodeParams(CorrelationParams, config).pipe(
+      Effect.tap((params) => secondSymbol(config, params.other)),
+      Effect.map((params) => Correlation.make({ ...common(config), ...params }))
+    )
+  ),
+  beta: builder((config) =>
+    decodeParams(BetaParams, config).pipe(
+      Effect.tap((params) => secondSymbol(config, params.benchmark)),
+      Effect.map((params) => Beta.make({ ...common(config), ...params }))
+    )
+  ),
+  // The config's period is the window the hedge ratio and z-score are fitted over
+  pairs: builder((config) =>
+    decodeParams(PairsParams, config).pipe(
+      Effect.tap((params) => secondSymbol(config, params.other)),
+      Effect.map((params) => Pairs.make({ ...common(config), ...params }))
+    )
+  ),
+  volumeprofile: builder((config) =>
+    Effect.map(decodeParams(VolumeProfileParams, config), (params) =>
+      VolumeProfile.make({ ...common(config), ...params })
+    )
+  ),
+}
+
+/**
+ * The few names accepted besides the builders' own: "Moving Average" for SMA,
+ * the common abbreviations BB, Stoch, WillR and PSAR, and A/D, the
+ * Accumulation/Distribution line's display name.
+ */
+const aliases: Record<string, string> = {
+  movingaverage: "sma",
+  bb: "bollingerbands",
+  stoch: "stochastic",
+  willr: "williamsr",
+  psar: "parabolicsar",
+  ad: "accumulationdistribution",
+}
+
+/**
+ * Normalize an indicator name: "Bollinger Bands", "bollinger-bands" and
+ * "BB" all name the same indicator.
+ */
+const normalize = (name: string): string => {
+  const key = name.toLowerCase().replace(/[^a-z]/g, "")
+  return aliases[key] ?? key
+}
+
+/**
+ * Indicator names understood by `make`.
+ *
+ * @category Constants
+ * @since 0.5.0
+ */
+export const kinds: ReadonlyArray<string> = Object.keys(builders)
+
+/**
+ * Build an indicator instance from an IndicatorConfig.
+ *
+ * The config's `name` picks the indicator (case and punctuation are ignored,
+ * so "SMA", "EMA", "MACD", "RSI", "Bollinger Bands", "VWAP", "Volatility",
+ * "ATR", "Stochastic", "Williams %R", "ADX", "OBV", "Accumulation
+ * Distribution", "MFI", "Ichimoku", "Keltner", "Donchian", "Squeeze",
+ * "Parabolic SAR", "SuperTrend", "Correlation", "Beta", "Pairs" and "Volume
+ * Profile" all work, as do the aliases "Moving Average", "BB", "Stoch",
+ * "WillR", "PSAR" and "A/D"),
+ * `period` sets its lookback (the slow EMA for MACD, the Kijun-sen for
+ * Ichimoku, the EMA for Keltner, the ATR for SuperTrend, returns for
+ * Correlation and Beta, bars for the other bar-based indicators, the
+ * divergence window for OBV and A/D, ignored by VWAP, Parabolic SAR and Volume
+ * Profile) and
+ * `params` carries the indicator-specific settings. Bar-based indicators take
+ * a `bars` BarSpec param, one-minute time bars by default; the cross-symbol
+ * ones (Correlation, Beta, Pairs) take time bars only, plus the second symbol
+ * as `other` (`benchmark` for Beta). Any number of instances can be made, as
+ * long as their ids differ.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorFactory from "@/indicators/IndicatorFactory"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.all([
+ *   IndicatorFactory.make({ id: "sma-20", name: "SMA", symbol: "AAPL", period: 20, params: {} }),
+ *   IndicatorFactory.make({ id: "ema-12", name: "EMA", symbol: "AAPL", period: 12, params: {} }),
+ *   IndicatorFactory.make({
+ *     id: "rsi-14",
+ *     name: "RSI",
+ *     symbol: "AAPL",
+ *     period: 14,
+ *     params: { oversold: 25, overbought: 75 }
+ *   })
+ * ])
+ */
+export const make = (
+  config: Indicator.IndicatorConfig
+): Effect.Effect<Indicator.AnyIndicator, IndicatorConfigError> => {
+  if (!Number.isInteger(config.period) || config.period <= 0) {
+    return Effect.fail(
+      new IndicatorConfigError({
+        config,
+        reason: `Period must be a positive integer, got ${config.period}`,
+      })
+    )
+  }
+  const build = builders[normalize(config.name)]
+  return build
+    ? build(config)
+    : Effect.fail(
+        new IndicatorConfigError({
+          config,
+          reason: `Unknown indicator "${config.name}", expected one of ${kinds.join(", ")}`,
+        })
+      )
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect } from "bun:test"
+import * as IndicatorRegistry from "./IndicatorRegistry"
+import * as IndicatorFactory from "./IndicatorFactory"
+import * as ReplayProvider from "../providers/ReplayProvider"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import * as Consensus from "../domain/Consensus"
+import * as Bar from "../domain/Bar"
+import type * as Indicator from "../domain/Indicator"
+import type * as Trade from "../domain/Trade"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as DateTime from "effect/DateTime"
+import * as Option from "effect/Option"
+import * as Either from "effect/Either"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as BunFileSystem from "@effect/platform-bun/BunFileSystem"
+import { mockBuySignal, mockSellSignal, mockHoldSignal } from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+const at = (seconds: number) => DateTime.unsafeMake(start + seconds * 1000)
+
+const vote = (id: string, symbol: string, signal: Indicator.Signal): Consensus.Vote => ({
+  id,
+  symbol,
+  value: 50,
+  signal,
+})
+
+const withStrategy = (strategy: Consensus.Strategy) =>
+  IndicatorRegistry.SignalAggregatorLive.pipe(
+    Layer.provide(Layer.succeed(IndicatorRegistry.SignalAggregatorConfig, { strategy }))
+  )
+
+/**
+ * Replay a recorded rally at the given speed through SMA(5) and through an
+ * RSI(14) that only sees its first minute, and return the last consensus of
+ * their votes.
+ */
+const replayedConsensus = (speed: number, strategy: Consensus.Strategy) => {
+  const recording = Array.from({ length: 95 }, (_, i) =>
+    JSON.stringify({
+      symbol: "AAPL",
+      price: 100 * Math.pow(1.02, i),
+      volume: 100,
+      timestamp: start + i * 1000,
+      receivedAt: start + i * 1000,
+      latency: 0,
+    })
+  ).join("\n")
+  const replay = ReplayProvider.ReplayProviderLive.pipe(
+    Layer.provide(
+      Layer.succeed(ReplayProvider.ReplayConfigTag, {
+        _tag: "replay",
+        path: "session.ndjson",
+        speed,
+      })
+    ),
+    Layer.provide(
+      FileSystem.layerNoop({
+        stream: () => Stream.make(new TextEncoder().encode(recording)),
+      })
+    )
+  )
+
+  return Effect.gen(function* () {
+    const provider = yield* MarketDataProvider.MarketDataProvider
+    const aggregator = yield* IndicatorRegistry.SignalAggregator
+    const sma = yield* IndicatorFactory.make({
+      id: "sma-5-AAPL",
+      name: "SMA",
+      symbol: "AAPL",
+      period: 5,
+      params: {},
+    })
+    const rsi = yield* IndicatorFactory.make({
+      id: "rsi-14-AAPL",
+      name: "RSI",
+      symbol: "AAPL",
+      period: 14,
+      params: {},
+    })
+    const [all, first] = yield* Stream.broadcast(provider.subscribe(["AAPL"]), 2, 256)
+    const votesOf = (indicator: Indicator.AnyIndicator, trades: Stream.Stream<Trade.TradeData>) =>
+      trades.pipe(
+        indicator.process,
+        Stream.map((reading) => Consensus.vote(reading.state, reading.signal))
+      )
+    const votes = Stream.merge(
+      votesOf(sma, all),
+      votesOf(
+        rsi,
+        Stream.takeWhile(first, (trade) => trade.timestamp < start + 60_000)
+      )
+    )
+    return yield* Stream.runLast(aggregator.consensus("AAPL", votes))
+  }).pipe(Effect.scoped, Effect.provide(Layer.merge(replay, withStrategy(strategy))))
+}
+
+describe("SignalAggregator", () => {
+  it("should aggregate with the default weighted vote", async () => {
+    const program = Effect.gen(function* () {
+      const aggregator = yield* IndicatorRegistry.SignalAggregator
+      return yield* aggregator.aggregate([
+        vote("rsi", "AAPL", mockSellSignal({ strength: 0.9, timestamp: at(0) })),
+        vote("macd", "AAPL", mockSellSignal({ strength: 0.5, timestamp: at(1) })),
+      ])
+    }).pipe(Effect.provide(IndicatorRegistry.SignalAggregatorLiveDefault))
+
+    const signal = await Effect.runPromise(program)
+
+    expect(signal._tag).toBe("sell")
+    expect(signal.timestamp).toEqual(at(1))
+  })
+
+  it("should emit a consensus per vote from each indicator's latest vote", async () => {
+    const votes = Stream.make(
+      vote("rsi", "AAPL", mockBuySignal({ strength: 0.8, timestamp: at(0) })),
+      vote("rsi", "MSFT", mockSellSignal({ strength: 0.9, timestamp: at(1) })),
+      vote("macd", "AAPL", mockBuySignal({ strength: 0.6, timestamp: at(2) })),
+      vote("rsi", "AAPL", mockHoldSignal({ timestamp: at(3) })),
+      vote("macd", "AAPL", mockSellSignal({ strength: 0.7, timestamp: at(4) }))
+    )
+
+    const program = Effect.gen(function* () {
+      const aggregator = yield* IndicatorRegistry.SignalAggregator
+      return yield* Stream.runCollect(aggregator.consensus("AAPL", votes))
+    }).pipe(Effect.provide(withStrategy(Consensus.unanimous(2))))
+
+    const signals = Chunk.toReadonlyArray(await Effect.runPromise(program))
+
+    // One vote is not enough, then both buy, then RSI holds, then they disagree
+    expect(signals.map((signal) => signal._tag)).toEqual(["hold", "buy", "hold", "hold"])
+    expect(signals.map((signal) => signal.timestamp)).toEqual([at(0), at(2), at(3), at(4)])
+  })
+
+  it("should drop a withdrawn indicator's vote from the consensus", async () => {
+    const ballots = Stream.fromIterable<Consensus.Ballot>([
+      vote("rsi", "AAPL", mockBuySignal({ strength: 0.8, timestamp: at(0) })),
+      vote("adx", "AAPL", mockSellSignal({ strength: 0.6, timestamp: at(1) })),
+      Consensus.withdraw("macd", "AAPL"),
+      Consensus.withdraw("adx", "AAPL"),
+      Consensus.withdraw("rsi", "AAPL"),
+    ])
+
+    const program = Effect.gen(function* () {
+      const aggregator = yield* IndicatorRegistry.SignalAggregator
+      return yield* Stream.runCollect(aggregator.consensus("AAPL", ballots))
+    }).pipe(Effect.provide(withStrategy(Consensus.unanimous())))
+
+    const signals = Chunk.toReadonlyArray(await Effect.runPromise(program))
+
+    // Withdrawing an indicator that never voted changes nothing
+    expect(signals.map((signal) => signal._tag)).toEqual(["buy", "hold", "buy", "hold"])
+    expect(signals.map((signal) => signal.timestamp)).toEqual([at(0), at(1), at(0), at(0)])
+  })
+
+  it("should decay votes by trade time, giving a replay the same consensus at any speed", async () => {
+    // RSI's overbought sell is 35 recorded seconds old by SMA's last buy
+    const strategy = Consensus.decayed(1)
+    const [instant, paced] = await Effect.runPromise(
+      Effect.all([
+        replayedConsensus(Number.POSITIVE_INFINITY, strategy),
+        replayedConsensus(100, strategy),
+      ])
+    )
+
+    expect(paced).toEqual(instant)
+    expect(Option.map(instant, (signal) => signal._tag)).toEqual(Option.some("buy"))
+  })
+
+  it("should load JSON and YAML veto rules and reject invalid ones", async () => {
+    const veto: Consensus.VetoRule = {
+      indicator: "adx-14-AAPL",
+      operator: ">",
+      threshold: 25,
+      blocks: ["rsi-14-AAPL"],
+    }
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem.FileSystem
+          const directory = yield* fs.makeTempDirectoryScoped()
+          const write = (name: string, content: string) =>
+            Effect.as(fs.writeFileString(`${directory}/${name}`, content), `${directory}/${name}`)
+          const load = (path: string) => Effect.either(IndicatorRegistry.loadVetoes(path))
+
+          const json = yield* write("vetoes.json", JSON.stringify({ vetoes: [veto] }))
+          const yaml = yield* write(
+            "vetoes.yml",
+            [
+              "vetoes:",
+              "  - indicator: adx-14-AAPL",
+              "    operator: '>'",
+              "    threshold: 25",
+              "    blocks: [rsi-14-AAPL]",
+            ].join("\n")
+          )
+          const invalid = yield* write(
+            "invalid.json",
+            JSON.stringify({ vetoes: [{ ...veto, operator: "~" }] })
+          )
+
+          return {
+            json: yield* load(json),
+            yaml: yield* load(yaml),
+            invalid: yield* load(invalid),
+            missing: yield* load(`${directory}/missing.json`),
+          }
+        })
+      ).pipe(Effect.provide(BunFileSystem.layer))
+    )
+
+    expect(result.json).toEqual(Either.right([veto]))
+    expect(result.yaml).toEqual(Either.right([veto]))
+    expect(Either.isLeft(result.invalid) && result.invalid.left.reason).toContain(
+      "vetoes.0.operator"
+    )
+    expect(Either.isLeft(result.missing) && result.missing.left._tag).toBe("VetoRulesError")
+  })
+})
@@ -3,17 +3,27 @@ import * as Effect from "effect/Effect"
 import * as Layer from "effect/Layer"
 import * as Array from "effect/Array"
 import * as HashMap from "effect/HashMap"
-import * as Ref from "effect/Ref"
+import * as Stream from "effect/Stream"
+import * as SubscriptionRef from "effect/SubscriptionRef"
 import * as Option from "effect/Option"
 import * as DateTime from "effect/DateTime"
-import { pipe } from "effect/Function"
+import * as Data from "effect/Data"
+import * as Schema from "effect/Schema"
+import * as ParseResult from "effect/ParseResult"
+import * as FileSystem from "@effect/platform/FileSystem"
+import { identity, pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
+import * as Consensus from "../domain/Consensus"
+import * as IndicatorFactory from "./IndicatorFactory"
 
 /**
  * Registry for managing multiple indicator instances.
  *
  * Provides a centralized way to register, lookup, and manage
- * indicator services dynamically.
+ * indicator services dynamically. `add` builds instances from
+ * IndicatorConfig values through the IndicatorFactory, and `changes` lets
+ * consumers such as the IndicatorRunner follow additions and removals at
+ * runtime.
  *
  * @category Services
  * @since 0.1.0
@@ -24,17 +34,23 @@ import * as Indicator from "../domain/Indicator"
  * const program = Effect.gen(function* () {
  *   const registry = yield* IndicatorRegistry.IndicatorRegistry
  *   yield* registry.register("rsi-AAPL", rsiIndicator)
+ *   yield* registry.add({ id: "ema-12-AAPL", name: "EMA", symbol: "AAPL", period: 12, params: {} })
  *   const indicator = yield* registry.get("rsi-AAPL")
+ *   yield* registry.remove("ema-12-AAPL")
  * })
  */
 export class IndicatorRegistry extends Context.Tag("@indicators/IndicatorRegistry")<
   IndicatorRegistry,
   {
-    readonly register: (id: string, indicator: Indicator.Indicator) => Effect.Effect<void>
-    readonly get: (id: string) => Effect.Effect<Indicator.Indicator, Error>
-    readonly getAll: () => Effect.Effect<ReadonlyArray<Indicator.Indicator>>
+    readonly register: (id: string, indicator: Indicator.AnyIndicator) => Effect.Effect<void>
+    readonly add: (
+      config: Indicator.IndicatorConfig
+    ) => Effect.Effect<Indicator.AnyIndicator, IndicatorFactory.IndicatorConfigError>
+    readonly get: (id: string) => Effect.Effect<Indicator.AnyIndicator, Error>
+    readonly getAll: () => Effect.Effect<ReadonlyArray<Indicator.AnyIndicator>>
     readonly remove: (id: string) => Effect.Effect<void>
     readonly list: () => Effect.Effect<ReadonlyArray<string>>
+    readonly changes: Stream.Stream<HashMap.HashMap<string, Indicator.AnyIndicator>>
   }
 >() {}
 
@@ -55,17 +71,24 @@ export class IndicatorRegistry extends Context.Tag("@indicators/IndicatorRegistr
 export const IndicatorRegistryLive = Layer.effect(
   IndicatorRegistry,
   Effect.gen(function* () {
-    const registryRef = yield* Ref.make<HashMap.HashMap<string, Indicator.Indicator>>(
-      HashMap.empty()
-    )
+    const registryRef = yield* SubscriptionRef.make<
+      HashMap.HashMap<string, Indicator.AnyIndicator>
+    >(HashMap.empty())
+
+    const register = (id: string, indicator: Indicator.AnyIndicator) =>
+      SubscriptionRef.update(registryRef, (registry) => HashMap.set(registry, id, indicator))
 
     return IndicatorRegistry.of({
-      register: (id: string, indicator: Indicator.Indicator) =>
-        Ref.update(registryRef, (registry) => HashMap.set(registry, id, indicator)),
+      register,
+
+      add: (config: Indicator.IndicatorConfig) =>
+        IndicatorFactory.make(config).pipe(
+          Effect.tap((indicator) => register(indicator.id, indicator))
+        ),
 
       get: (id: string) =>
         Effect.gen(function* () {
-          const registry = yield* Ref.get(registryRef)
+          const registry = yield* SubscriptionRef.get(registryRef)
           const maybeIndicator = HashMap.get(registry, id)
 
           if (Option.isNone(maybeIndicator)) {
@@ -77,17 +100,20 @@ export const IndicatorRegistryLive = Layer.effect(
 
       getAll: () =>
         Effect.gen(function* () {
-          const registry = yield* Ref.get(registryRef)
+          const registry = yield* SubscriptionRef.get(registryRef)
           return Array.fromIterable(HashMap.values(registry))
         }),
 
-      remove: (id: string) => Ref.update(registryRef, (registry) => HashMap.remove(registry, id)),
+      remove: (id: string) =>
+        SubscriptionRef.update(registryRef, (registry) => HashMap.remove(registry, id)),
 
       list: () =>
         Effect.gen(function* () {
-          const registry = yield* Ref.get(registryRef)
+          const registry = yield* SubscriptionRef.get(registryRef)
           return Array.fromIterable(HashMap.keys(registry))
         }),
+
+      changes: registryRef.changes,
     })
   })
 )
@@ -95,115 +121,209 @@ export const IndicatorRegistryLive = Layer.effect(
 /**
  * Signal aggregator service.
  *
- * Combines signals from multiple indicators to produce
- * a consensus signal.
+ * Combines the votes of multiple indicators into a consensus signal with the
+ * configured `Consensus.Strategy`, either once with `aggregate` or
+ * continuously for a symbol with `consensus`, which keeps the latest vote of
+ * each indicator and emits the consensus after every new vote. A withdrawal
+ * drops an indicator's vote, e.g. once it is removed from the registry, and
+ * emits the consensus of the remaining votes.
  *
  * @category Services
  * @since 0.1.0
  * @example
  * import * as IndicatorRegistry from "@/indicators/IndicatorRegistry"
  * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
  *
  * const program = Effect.gen(function* () {
  *   const aggregator = yield* IndicatorRegistry.SignalAggregator
- *   const consensus = yield* aggregator.aggregate([signal1, signal2, signal3])
+ *   const consensus = yield* aggregator.aggregate([vote1, vote2, vote3])
+ *   const signals = aggregator.consensus("AAPL", voteStream)
  * })
  */
 export class SignalAggregator extends Context.Tag("@indicators/SignalAggregator")<
   SignalAggregator,
   {
-    readonly aggregate: (
-      signals: ReadonlyArray<Indicator.Signal>
-    ) => Effect.Effect<Indicator.Signal>
+    readonly aggregate: (votes: ReadonlyArray<Consensus.Vote>) => Effect.Effect<Indicator.Signal>
+    readonly consensus: <E, R>(
+      symbol: string,
+      ballots: Stream.Stream<Consensus.Ballot, E, R>
+    ) => Stream.Stream<Indicator.Signal, E, R>
   }
 >() {}
 
 /**
- * Layer that provides the SignalAggregator service.
+ * Configuration for the SignalAggregator.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SignalAggregatorConfig {
+  readonly strategy: Consensus.Strategy
+}
+
+/**
+ * Configuration service for the SignalAggregator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const SignalAggregatorConfig = Context.GenericTag<SignalAggregatorConfig>(
+  "@indicators/SignalAggregatorConfig"
+)
+
+/**
+ * Default configuration: weighted voting with equal weights and a 0.3
+ * threshold.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultAggregatorConfig: SignalAggregatorConfig = {
+  strategy: Consensus.weighted(),
+}
+
+/**
+ * Error raised when a veto rules file cannot be read or is invalid.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class VetoRulesError extends Data.TaggedError("VetoRulesError")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+/**
+ * Load and validate veto rules from a JSON or YAML file of the form
+ * `{ vetoes: [...] }`. Files ending in `.yaml` or `.yml` are read as YAML,
+ * anything else as JSON.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorRegistry from "@/indicators/IndicatorRegistry"
+ * import * as Consensus from "@/domain/Consensus"
+ * import * as Effect from "effect/Effect"
+ *
+ * // vetoes.yaml
+ * // vetoes:
+ * //   - indicator: adx-14-AAPL
+ * //     operator: ">"
+ * //     threshold: 25
+ * //     blocks: [rsi-14-AAPL, bb-20-2-AAPL]
+ * const strategy = Effect.map(IndicatorRegistry.loadVetoes("vetoes.yaml"), (vetoes) =>
+ *   Consensus.veto(Consensus.weighted(), vetoes)
+ * )
+ */
+export const loadVetoes = (
+  path: string
+): Effect.Effect<ReadonlyArray<Consensus.VetoRule>, VetoRulesError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const text = yield* Effect.mapError(
+      fs.readFileString(path),
+      (error) => new VetoRulesError({ path, reason: error.message })
+    )
+    const raw = yield* Effect.try({
+      try: (): unknown => (/\.ya?ml$/i.test(path) ? Bun.YAML.parse(text) : JSON.parse(text)),
+      catch: (error) =>
+        new VetoRulesError({
+          path,
+          reason: error instanceof Error ? error.message : String(error),
+        }),
+    })
+    const file = yield* Effect.mapError(
+      Schema.decodeUnknown(Consensus.VetoFile)(raw),
+      (error) =>
+        new VetoRulesError({
+          path,
+          reason: ParseResult.ArrayFormatter.formatErrorSync(error)
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", "),
+        })
+    )
+    return file.vetoes
+  })
+
+/**
+ * Layer that provides the SignalAggregator service with the configured
+ * strategy.
  *
- * Uses weighted voting to produce consensus signals.
+ * `aggregate` measures signal ages against the clock; `consensus` against the
+ * newest vote. Signals are stamped with the time of the trade they follow, so
+ * a replayed stream gets the same consensus at any speed as it did live.
  *
  * @category Layers
  * @since 0.1.0
  * @example
  * import * as IndicatorRegistry from "@/indicators/IndicatorRegistry"
+ * import * as Consensus from "@/domain/Consensus"
  * import * as Layer from "effect/Layer"
  *
- * const MainLive = Layer.provide(
- *   myProgram,
- *   IndicatorRegistry.SignalAggregatorLive
+ * const AggregatorLive = IndicatorRegistry.SignalAggregatorLive.pipe(
+ *   Layer.provide(
+ *     Layer.succeed(IndicatorRegistry.SignalAggregatorConfig, {
+ *       strategy: Consensus.majority(3)
+ *     })
+ *   )
  * )
  */
-export const SignalAggregatorLive = Layer.succeed(
+export const SignalAggregatorLive = Layer.effect(
   SignalAggregator,
-  SignalAggregator.of({
-    aggregate: (signals: ReadonlyArray<Indicator.Signal>) =>
-      Effect.gen(function* () {
-        if (signals.length === 0) {
-          return Indicator.Hold.make({
-            _tag: "hold",
-            timestamp: DateTime.unsafeNow(),
-          })
-        }
-
-        // Count votes weighted by strength
-        let buyScore = 0
-        let sellScore = 0
-        let holdCount = 0
-
-        const reasons: string[] = []
-
-        for (const signal of signals) {
-          if (Indicator.isBuy(signal)) {
-            buyScore += signal.strength
-            reasons.push(signal.reason)
-          } else if (Indicator.isSell(signal)) {
-            sellScore += signal.strength
-            reasons.push(signal.reason)
-          } else {
-            holdCount++
-          }
-        }
-
-        // Get latest timestamp
-        const latestSignal = pipe(signals, Array.sort(Indicator.OrderByTimestamp), Array.last)
-
-        const timestamp = Option.isSome(latestSignal)
-          ? latestSignal.value.timestamp
-          : DateTime.unsafeNow()
-
-        // Decide consensus
-        const totalSignals = signals.length
-
-        if (buyScore > sellScore && buyScore > totalSignals * 0.3) {
-          // Majority buy
-          const strength = Math.min(1, buyScore / totalSignals)
-          return Indicator.Buy.make({
-            _tag: "buy",
-            strength,
-            timestamp,
-            reason: `Consensus buy (${reasons.length} indicators): ${reasons.join(", ")}`,
-          })
-        } else if (sellScore > buyScore && sellScore > totalSignals * 0.3) {
-          // Majority sell
-          const strength = Math.min(1, sellScore / totalSignals)
-          return Indicator.Sell.make({
-            _tag: "sell",
-            strength,
-            timestamp,
-            reason: `Consensus sell (${reasons.length} indicators): ${reasons.join(", ")}`,
-          })
-        } else {
-          // Hold or mixed signals
-          return Indicator.Hold.make({
-            _tag: "hold",
-            timestamp,
-          })
-        }
-      }),
+  Effect.map(SignalAggregatorConfig, ({ strategy }) => {
+    // Consensus of the latest votes as of the newest of them, whichever
+    // indicator's fiber delivered it last
+    const current = (latest: ReadonlyMap<string, Consensus.Vote>, time: DateTime.Utc) => {
+      const votes = Array.fromIterable(latest.values())
+      const newest = Array.reduce(votes, time, (newest, { signal }) =>
+        DateTime.max(newest, signal.timestamp)
+      )
+      return Consensus.aggregate(strategy, votes, newest)
+    }
+
+    return SignalAggregator.of({
+      aggregate: (votes) =>
+        Effect.map(DateTime.now, (now) => Consensus.aggregate(strategy, votes, now)),
+
+      consensus: (symbol, ballots) =>
+        ballots.pipe(
+          Stream.filter((ballot) => ballot.symbol === symbol),
+          Stream.mapAccum(
+            new Map<string, Consensus.Vote>(),
+            (
+              latest,
+              ballot
+            ): readonly [Map<string, Consensus.Vote>, Option.Option<Indicator.Signal>] => {
+              if (Consensus.isWithdrawal(ballot)) {
+                const withdrawn = latest.get(ballot.id)
+                if (withdrawn === undefined) {
+                  return [latest, Option.none()]
+                }
+                const next = new Map(latest)
+                next.delete(ballot.id)
+                return [next, Option.some(current(next, withdrawn.signal.timestamp))]
+              }
+              const next = new Map(latest).set(ballot.id, ballot)
+              return [next, Option.some(current(next, ballot.signal.timestamp))]
+            }
+          ),
+          Stream.filterMap(identity)
+        ),
+    })
   })
 )
 
+/**
+ * SignalAggregator layer with the default configuration.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const SignalAggregatorLiveDefault = SignalAggregatorLive.pipe(
+  Layer.provide(Layer.succeed(SignalAggregatorConfig, defaultAggregatorConfig))
+)
+
 /**
  * Helper to create a layer that combines multiple indicator layers.
  *
@@ -225,4 +345,4 @@ export const SignalAggregatorLive = Layer.succeed(
 export const combineIndicators = <R, E>(
   indicatorLayers: Layer.Layer<R, E, never>
 ): Layer.Layer<R | IndicatorRegistry | SignalAggregator, E, never> =>
-  Layer.mergeAll(indicatorLayers, IndicatorRegistryLive, SignalAggregatorLive)
+  Layer.mergeAll(indicatorLayers, IndicatorRegistryLive, SignalAggregatorLiveDefault)
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "bun:test"
+import * as Keltner from "./Keltner"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const keltner = (period: number, atrPeriod: number, multiplier: number) =>
+  Keltner.make({
+    id: `keltner-${period}-${atrPeriod}-${multiplier}`,
+    symbol: "AAPL",
+    period,
+    atrPeriod,
+    multiplier,
+    bars: Bar.time("1 minute"),
+  })
+
+const states = (indicator: ReturnType<typeof keltner>, bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(indicator.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (
+  indicator: ReturnType<typeof keltner>,
+  bars: Parameters<typeof mockBarTrades>[0]
+) => Effect.runSync(Effect.forEach(states(indicator, bars), indicator.signal))
+
+// Five quiet bars with a range of 1
+const quiet = Array.from({ length: 5 }, () => ({ high: 101, low: 100, close: 100.5 }))
+
+describe("Keltner", () => {
+  it("should center the bands on the EMA, ATR multiples apart", () => {
+    const result = states(keltner(3, 3, 2), [
+      { high: 102, low: 100, close: 101 },
+      { high: 104, low: 101, close: 103 },
+      { high: 103, low: 99, close: 100 },
+      { high: 108, low: 102, close: 107 },
+    ])
+
+    expect(result.length).toBe(2)
+    // Seeded with the mean close and the mean of the true ranges 2, 3 and 4
+    expect(result[0].value).toBeCloseTo(101.3333, 4)
+    expect(result[0].metadata.atr).toBeCloseTo(3, 10)
+    expect(result[0].metadata.upperBand).toBeCloseTo(107.3333, 4)
+    expect(result[0].metadata.lowerBand).toBeCloseTo(95.3333, 4)
+    expect(result[0].metadata.bandwidth).toBeCloseTo((12 / 101.3333) * 100, 3)
+    // EMA (alpha 0.5) and Wilder ATR after a gap up from 100 to a high of 108
+    expect(result[1].value).toBeCloseTo(104.1667, 4)
+    expect(result[1].metadata.atr).toBeCloseTo(4.6667, 4)
+    expect(result[1].metadata.upperBand).toBeCloseTo(113.5, 4)
+  })
+
+  it("should wait for the longer of the EMA and ATR periods", () => {
+    expect(states(keltner(3, 5, 2), [...quiet, ...quiet]).length).toBe(6)
+  })
+
+  it("should signal closes beyond the bands as breakouts", () => {
+    const up = signals(keltner(5, 5, 1), [...quiet, { high: 106, low: 101, close: 105.5 }])
+    const down = signals(keltner(5, 5, 1), [...quiet, { high: 100, low: 95, close: 95.5 }])
+
+    expect(up.map((s) => s._tag)).toEqual(["hold", "buy"])
+    expect(down.map((s) => s._tag)).toEqual(["hold", "sell"])
+    // 1.43 above the band with an ATR of 1.9
+    expect(Indicator.getStrength(up[1])).toBeCloseTo(0.5 + 1.4333 / 1.9 / 2, 3)
+  })
+
+  it("should trigger volatilityAbove on the bandwidth", () => {
+    const indicator = keltner(3, 3, 2)
+    const last = states(indicator, quiet).at(-1)!
+    const check = (threshold: number) =>
+      Effect.runSync(indicator.checkTrigger(last, Indicator.VolatilityAbove.make({ threshold })))
+
+    // Bands 2 ATRs of 1 around 100.5
+    expect(check(3.9)).toBe(true)
+    expect(check(4)).toBe(false)
+  })
+})
@@ -0,0 +1,308 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as ATR from "./ATR"
+import * as MA from "./MovingAverage"
+
+/**
+ * Keltner Channels indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface KeltnerConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // EMA period in bars, default 20
+  readonly atrPeriod: number // ATR period in bars, default 10
+  readonly multiplier: number // ATRs between the middle line and each band, default 2
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Keltner indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const KeltnerConfig = Context.GenericTag<KeltnerConfig>("@indicators/config/Keltner")
+
+/**
+ * Outputs of the Keltner Channels indicator. The middle line is also emitted
+ * as `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const KeltnerOutput = Schema.Struct({
+  period: Schema.Number,
+  atrPeriod: Schema.Number,
+  multiplier: Schema.Number,
+  upperBand: Schema.Number.pipe(Indicator.label("Upper")),
+  middleBand: Schema.Number,
+  lowerBand: Schema.Number.pipe(Indicator.label("Lower")),
+  atr: Schema.Number.pipe(Indicator.label("ATR")),
+  bandwidth: Schema.Number.pipe(Indicator.label("BW%")),
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type KeltnerOutput = Schema.Schema.Type<typeof KeltnerOutput>
+
+const State = Indicator.stateSchema(KeltnerOutput)
+
+/**
+ * Keltner Channels indicator service.
+ *
+ * Rolls trades into bars and draws bands `multiplier` ATRs above and below an
+ * EMA of the closes. A close outside the channel is a volatility breakout in
+ * its direction: buy above the upper band, sell below the lower one.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Keltner from "@/indicators/Keltner"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const keltner = yield* Keltner.KeltnerIndicator
+ *   yield* Stream.runForEach(keltner.process(tradeStream), (state) =>
+ *     Console.log(`KC ${state.metadata.lowerBand} - ${state.metadata.upperBand}`)
+ *   )
+ * })
+ */
+export class KeltnerIndicator extends Context.Tag("@indicators/Keltner")<
+  KeltnerIndicator,
+  Indicator.Indicator<KeltnerOutput>
+>() {}
+
+/**
+ * Running EMA and ATR behind a Keltner Channel.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface ChannelState {
+  readonly closes: ReadonlyArray<number>
+  readonly trueRanges: ReadonlyArray<number>
+  readonly ema: Option.Option<number>
+  readonly atr: Option.Option<number>
+  readonly previousClose: Option.Option<number>
+}
+
+/**
+ * Keltner Channel around the EMA of the closes.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Channel {
+  readonly upper: number
+  readonly middle: number
+  readonly lower: number
+  readonly atr: number
+}
+
+/**
+ * Channel state before the first bar.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const emptyChannel: ChannelState = {
+  closes: [],
+  trueRanges: [],
+  ema: Option.none(),
+  atr: Option.none(),
+  previousClose: Option.none(),
+}
+
+/**
+ * Mean of a full window, or nothing while the window is still filling.
+ */
+const seed = (values: ReadonlyArray<number>, period: number): Option.Option<number> =>
+  values.length >= period
+    ? Option.some(values.reduce((sum, v) => sum + v, 0) / period)
+    : Option.none()
+
+/**
+ * Advance the EMA and ATR behind a channel by one bar. Both are seeded with
+ * the mean of their first `period` values; the ATR then uses Wilder smoothing.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const updateChannel = (
+  state: ChannelState,
+  bar: Bar.Bar,
+  periods: { readonly period: number; readonly atrPeriod: number }
+): ChannelState => {
+  const tr = ATR.trueRange(bar, state.previousClose)
+  const closes = [...state.closes, bar.close].slice(-periods.period)
+  const trueRanges = [...state.trueRanges, tr].slice(-periods.atrPeriod)
+
+  return {
+    closes,
+    trueRanges,
+    ema: Option.match(state.ema, {
+      onNone: () => seed(closes, periods.period),
+      onSome: (previous) => Option.some(MA.emaStep(previous, bar.close, periods.period)),
+    }),
+    atr: Option.match(state.atr, {
+      onNone: () => seed(trueRanges, periods.atrPeriod),
+      onSome: (previous) => Option.some(ATR.wilderStep(previous, tr, periods.atrPeriod)),
+    }),
+    previousClose: Option.some(bar.close),
+  }
+}
+
+/**
+ * The channel `multiplier` ATRs around the EMA, once both are seeded.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const channel = (state: ChannelState, multiplier: number): Option.Option<Channel> =>
+  Option.map(Option.all([state.ema, state.atr]), ([middle, atr]) => ({
+    upper: middle + atr * multiplier,
+    middle,
+    lower: middle - atr * multiplier,
+    atr,
+  }))
+
+/**
+ * Create a Keltner Channels indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. States are emitted once `max(period, atrPeriod)` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: KeltnerConfig): Indicator.Indicator<KeltnerOutput> => ({
+  id: config.id,
+  name: "Keltner",
+  output: KeltnerOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<ChannelState, Bar.Bar, Indicator.IndicatorState<KeltnerOutput> | null>(
+        emptyChannel,
+        (state, bar) => {
+          const newState = updateChannel(state, bar, config)
+
+          return Option.match(channel(newState, config.multiplier), {
+            onNone: () => [newState, null],
+            onSome: ({ upper, middle, lower, atr }) => [
+              newState,
+              State.make({
+                id: config.id,
+                name: "Keltner",
+                symbol: config.symbol,
+                lastUpdate: DateTime.unsafeMake(bar.end),
+                value: middle,
+                metadata: {
+                  period: config.period,
+                  atrPeriod: config.atrPeriod,
+                  multiplier: config.multiplier,
+                  upperBand: upper,
+                  middleBand: middle,
+                  lowerBand: lower,
+                  atr,
+                  bandwidth: middle === 0 ? 0 : ((upper - lower) / middle) * 100,
+                  barStart: bar.start,
+                  barEnd: bar.end,
+                  currentPrice: bar.close,
+                },
+              }),
+            ],
+          })
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<KeltnerOutput>) =>
+    Effect.gen(function* () {
+      const { currentPrice, upperBand, lowerBand, atr } = state.metadata
+      const timestamp = state.lastUpdate
+
+      // Half strength at the band, full strength one ATR beyond it
+      const strength = (distance: number) => Math.min(1, 0.5 + (atr > 0 ? distance / atr : 0) / 2)
+
+      if (currentPrice > upperBand) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: strength(currentPrice - upperBand),
+          timestamp,
+          reason: `Close ${currentPrice.toFixed(2)} broke above upper Keltner band ${upperBand.toFixed(2)}`,
+        })
+      } else if (currentPrice < lowerBand) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: strength(lowerBand - currentPrice),
+          timestamp,
+          reason: `Close ${currentPrice.toFixed(2)} broke below lower Keltner band ${lowerBand.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<KeltnerOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const bandwidth = state.metadata.bandwidth
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => bandwidth > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Keltner Channels indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Keltner from "@/indicators/Keltner"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Keltner.KeltnerConfig, {
+ *   id: "keltner-20-10-2-1m",
+ *   symbol: "AAPL",
+ *   period: 20,
+ *   atrPeriod: 10,
+ *   multiplier: 2,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Keltner.KeltnerIndicatorLive, config)
+ */
+export const KeltnerIndicatorLive = Layer.effect(KeltnerIndicator, Effect.map(KeltnerConfig, make))
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test"
+import * as MACD from "./MACD"
+import * as MA from "./MovingAverage"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockTrade, makeSymbol, makePrice, makeTimestamp } from "../test-utils/fixtures"
+
+const config: MACD.MACDConfig = {
+  id: "macd-3-6-3",
+  symbol: "AAPL",
+  fastPeriod: 3,
+  slowPeriod: 6,
+  signalPeriod: 3,
+}
+
+const macd = MACD.make(config)
+
+const trades = (prices: ReadonlyArray<number>) =>
+  prices.map((price, i) =>
+    mockTrade({
+      symbol: makeSymbol("AAPL"),
+      price: makePrice(price),
+      timestamp: makeTimestamp(1_700_000_000_000 + i * 1_000),
+    })
+  )
+
+const states = (prices: ReadonlyArray<number>) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(macd.process(Stream.fromIterable(trades(prices)))))
+  )
+
+const signals = (prices: ReadonlyArray<number>) =>
+  Effect.runSync(Effect.forEach(states(prices), macd.signal))
+
+// Falls for 12 trades, then rallies for 12
+const valley = [
+  ...Array.from({ length: 12 }, (_, i) => 120 - i),
+  ...Array.from({ length: 12 }, (_, i) => 109 + i * 2),
+]
+// Rallies for 12 trades, then falls for 12
+const peak = valley.map((price) => 230 - price)
+
+describe("MACD", () => {
+  it("should emit once the signal line has warmed up", () => {
+    const prices = Array.from({ length: 10 }, (_, i) => 100 + i)
+    // slowPeriod + signalPeriod - 1 = 8 prices before the first state
+    expect(states(prices).length).toBe(3)
+  })
+
+  it("should compute the MACD line, signal line and histogram from the EMAs", () => {
+    const prices = [100, 102, 101, 105, 107, 104, 108, 110, 109, 112]
+    const last = states(prices).at(-1)!
+
+    const fast = prices.reduce((ema, price) => MA.emaStep(ema, price, 3))
+    const slow = prices.reduce((ema, price) => MA.emaStep(ema, price, 6))
+    const line = prices.map((_, i) => {
+      const seen = prices.slice(0, i + 1)
+      return (
+        seen.reduce((ema, price) => MA.emaStep(ema, price, 3)) -
+        seen.reduce((ema, price) => MA.emaStep(ema, price, 6))
+      )
+    })
+    const signalLine = line.slice(5).reduce((ema, value) => MA.emaStep(ema, value, 3))
+
+    expect(last.value).toBeCloseTo(fast - slow)
+    expect(last.metadata["signalLine"]).toBeCloseTo(signalLine)
+    expect(last.metadata["histogram"]).toBeCloseTo(fast - slow - signalLine)
+  })
+
+  it("should signal buy when MACD crosses above its signal line and zero", () => {
+    const found = signals(valley).filter(Indicator.isBuy)
+
+    expect(found.length).toBeGreaterThan(0)
+    expect(found.some((signal) => signal.reason.includes("crossed above signal line"))).toBe(true)
+    expect(found.some((signal) => signal.reason.includes("crossed above zero"))).toBe(true)
+    expect(signals(valley).some(Indicator.isSell)).toBe(false)
+  })
+
+  it("should signal sell on the bearish crossovers", () => {
+    const found = signals(peak).filter(Indicator.isSell)
+
+    expect(found.length).toBeGreaterThan(0)
+    expect(found.every((signal) => signal.reason.includes("below"))).toBe(true)
+    expect(signals(peak).some(Indicator.isBuy)).toBe(false)
+  })
+
+  it("should hold between crossovers", () => {
+    const steady = Array.from({ length: 20 }, (_, i) => 100 + i)
+    expect(signals(steady).every(Indicator.isHold)).toBe(true)
+  })
+
+  it("should trigger crossOver only when its fast EMA crosses above its slow EMA", () => {
+    const golden = Indicator.CrossOver.make({ fastPeriod: 3, slowPeriod: 6 })
+    const other = Indicator.CrossOver.make({ fastPeriod: 12, slowPeriod: 26 })
+
+    const results = Effect.runSync(
+      Effect.forEach(states(valley), (state) =>
+        Effect.all({
+          golden: macd.checkTrigger(state, golden),
+          other: macd.checkTrigger(state, other),
+          crossed: Effect.succeed(
+            (state.metadata["previousMacd"] as number) <= 0 && state.value > 0
+          ),
+        })
+      )
+    )
+
+    expect(results.filter((r) => r.golden).length).toBe(1)
+    expect(results.every((r) => r.golden === r.crossed)).toBe(true)
+    expect(results.some((r) => r.other)).toBe(false)
+  })
+})
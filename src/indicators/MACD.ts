@@ -0,0 +1,270 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import type * as Trade from "../domain/Trade"
+import * as MA from "./MovingAverage"
+
+/**
+ * MACD (Moving Average Convergence Divergence) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface MACDConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly fastPeriod: number // Default 12
+  readonly slowPeriod: number // Default 26
+  readonly signalPeriod: number // Default 9
+}
+
+/**
+ * Configuration service for MACD indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const MACDConfig = Context.GenericTag<MACDConfig>("@indicators/config/MACD")
+
+/**
+ * Outputs of the MACD indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const MACDOutput = Schema.Struct({
+  fastPeriod: Schema.Number,
+  slowPeriod: Schema.Number,
+  signalPeriod: Schema.Number,
+  fastEma: Schema.Number,
+  slowEma: Schema.Number,
+  signalLine: Schema.Number.pipe(Indicator.label("Signal")),
+  histogram: Schema.Number.pipe(Indicator.label("Hist")),
+  previousMacd: Schema.Number,
+  previousHistogram: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type MACDOutput = Schema.Schema.Type<typeof MACDOutput>
+
+const State = Indicator.stateSchema(MACDOutput)
+
+/**
+ * MACD indicator service.
+ *
+ * The MACD line is the fast EMA minus the slow EMA, the signal line is an EMA
+ * of the MACD line and the histogram is their difference. Emits the MACD line
+ * as `value`, with the signal line and histogram in `metadata`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as MACD from "@/indicators/MACD"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const macd = yield* MACD.MACDIndicator
+ *   yield* Stream.runForEach(macd.process(tradeStream), (state) =>
+ *     Console.log(`MACD ${state.value} signal ${state.metadata.signalLine}`)
+ *   )
+ * })
+ */
+export class MACDIndicator extends Context.Tag("@indicators/MACD")<
+  MACDIndicator,
+  Indicator.Indicator<MACDOutput>
+>() {}
+
+/**
+ * Internal state for MACD calculation.
+ */
+interface MACDState {
+  readonly count: number
+  readonly fastEma: number
+  readonly slowEma: number
+  readonly signalLine: number
+  readonly previous: Option.Option<{ readonly macd: number; readonly signalLine: number }>
+}
+
+/**
+ * Which way a line crossed another between two updates.
+ */
+const crossing = (previousDifference: number, difference: number): "above" | "below" | "none" => {
+  if (previousDifference <= 0 && difference > 0) return "above"
+  if (previousDifference >= 0 && difference < 0) return "below"
+  return "none"
+}
+
+/**
+ * Create a MACD indicator instance from its configuration.
+ *
+ * The EMAs are seeded with the first price. The MACD line exists once
+ * `slowPeriod` prices were seen, and states are emitted once its signal line
+ * has `signalPeriod` values behind it.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: MACDConfig): Indicator.Indicator<MACDOutput> => ({
+  id: config.id,
+  name: "MACD",
+  output: MACDOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<MACDState, Trade.TradeData, Indicator.IndicatorState<MACDOutput> | null>(
+        { count: 0, fastEma: 0, slowEma: 0, signalLine: 0, previous: Option.none() },
+        (state, trade) => {
+          const count = state.count + 1
+          const fastEma =
+            count === 1 ? trade.price : MA.emaStep(state.fastEma, trade.price, config.fastPeriod)
+          const slowEma =
+            count === 1 ? trade.price : MA.emaStep(state.slowEma, trade.price, config.slowPeriod)
+          const macd = fastEma - slowEma
+
+          // The signal line starts with the first complete MACD value
+          const macdCount = count - config.slowPeriod + 1
+          const signalLine =
+            macdCount <= 1 ? macd : MA.emaStep(state.signalLine, macd, config.signalPeriod)
+
+          const ready = macdCount >= config.signalPeriod
+          const newState: MACDState = {
+            count,
+            fastEma,
+            slowEma,
+            signalLine,
+            previous: ready ? Option.some({ macd, signalLine }) : Option.none(),
+          }
+
+          if (!ready) {
+            return [newState, null]
+          }
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "MACD",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(trade.timestamp),
+              value: macd,
+              metadata: {
+                fastPeriod: config.fastPeriod,
+                slowPeriod: config.slowPeriod,
+                signalPeriod: config.signalPeriod,
+                fastEma,
+                slowEma,
+                signalLine,
+                histogram: macd - signalLine,
+                // Without a previous update nothing can have crossed
+                previousMacd: Option.getOrElse(
+                  Option.map(state.previous, (p) => p.macd),
+                  () => macd
+                ),
+                previousHistogram: Option.getOrElse(
+                  Option.map(state.previous, (p) => p.macd - p.signalLine),
+                  () => macd - signalLine
+                ),
+                currentPrice: trade.price,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<MACDOutput>) =>
+    Effect.gen(function* () {
+      const macd = state.value
+      const histogram = state.metadata.histogram
+      const signalCross = crossing(state.metadata.previousHistogram, histogram)
+      const zeroCross = crossing(state.metadata.previousMacd, macd)
+      const timestamp = state.lastUpdate
+
+      const reasons = (direction: "above" | "below") =>
+        [
+          signalCross === direction ? `MACD crossed ${direction} signal line` : null,
+          zeroCross === direction ? `MACD crossed ${direction} zero` : null,
+        ].filter((reason) => reason !== null)
+
+      // A signal-line crossover confirmed by a zero-line crossover is strongest
+      const strength = (found: ReadonlyArray<string>) =>
+        found.length === 2 ? 0.9 : signalCross !== "none" ? 0.7 : 0.5
+
+      const bullish = reasons("above")
+      const bearish = reasons("below")
+
+      if (bullish.length > 0 && bearish.length === 0) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: strength(bullish),
+          timestamp,
+          reason: `${bullish.join(", ")} (MACD ${macd.toFixed(4)}, histogram ${histogram.toFixed(4)})`,
+        })
+      } else if (bearish.length > 0 && bullish.length === 0) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: strength(bearish),
+          timestamp,
+          reason: `${bearish.join(", ")} (MACD ${macd.toFixed(4)}, histogram ${histogram.toFixed(4)})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<MACDOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        // Golden cross of this MACD's EMAs: the fast EMA moved above the slow
+        // EMA on this update, i.e. the MACD line crossed above zero
+        crossOver: (c) =>
+          c.fastPeriod === config.fastPeriod &&
+          c.slowPeriod === config.slowPeriod &&
+          crossing(state.metadata.previousMacd, state.value) === "above",
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the MACD indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as MACD from "@/indicators/MACD"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(MACD.MACDConfig, {
+ *   id: "macd-12-26-9",
+ *   symbol: "AAPL",
+ *   fastPeriod: 12,
+ *   slowPeriod: 26,
+ *   signalPeriod: 9
+ * })
+ *
+ * const MainLive = Layer.provide(MACD.MACDIndicatorLive, config)
+ */
+export const MACDIndicatorLive = Layer.effect(MACDIndicator, Effect.map(MACDConfig, make))
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "bun:test"
+import * as MFI from "./MFI"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const mfi = MFI.make({
+  id: "mfi-3-1m",
+  symbol: "AAPL",
+  period: 3,
+  oversold: 20,
+  overbought: 80,
+  bars: Bar.time("1 minute"),
+})
+
+// Typical price (high + low + close) / 3 equals the close
+const bar = (close: number, volume = 300) => ({ high: close + 1, low: close - 1, close, volume })
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(mfi.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), mfi.signal))
+
+describe("MFI", () => {
+  it("should compare money flow on rising and falling typical prices", () => {
+    const result = states([bar(100), bar(101), bar(100, 600), bar(102)])
+    const positive = 101 * 300 + 102 * 300
+    const negative = 100 * 600
+
+    // period + 1 bars before the first state
+    expect(result.length).toBe(1)
+    expect(result[0].metadata).toMatchObject({ positiveFlow: positive, negativeFlow: negative })
+    expect(result[0].value).toBeCloseTo(100 - 100 / (1 + positive / negative))
+  })
+
+  it("should signal sell when overbought and buy when oversold", () => {
+    const rising = [bar(100), bar(101), bar(102), bar(103), bar(104)]
+    const falling = rising.map((b) => bar(200 - b.close))
+
+    expect(states(rising).map((state) => state.value)).toEqual([100, 100])
+    expect(signals(rising).every(Indicator.isSell)).toBe(true)
+    expect(states(falling).map((state) => state.value)).toEqual([0, 0])
+    expect(signals(falling).every(Indicator.isBuy)).toBe(true)
+  })
+
+  it("should hold between the thresholds", () => {
+    expect(signals([bar(100), bar(101), bar(100), bar(101)]).every(Indicator.isHold)).toBe(true)
+  })
+
+  it("should check volumeAbove against the latest bar's volume", () => {
+    const last = states([bar(100), bar(101), bar(100), bar(101, 1200)]).at(-1)!
+    const check = (threshold: number) =>
+      Effect.runSync(mfi.checkTrigger(last, Indicator.VolumeAbove.make({ threshold })))
+
+    expect(check(1000)).toBe(true)
+    expect(check(1500)).toBe(false)
+  })
+})
@@ -0,0 +1,262 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * MFI (Money Flow Index) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface MFIConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Lookback in bars, default 14
+  readonly oversold: number // Default 20
+  readonly overbought: number // Default 80
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for MFI indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const MFIConfig = Context.GenericTag<MFIConfig>("@indicators/config/MFI")
+
+/**
+ * Outputs of the MFI indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const MFIOutput = Schema.Struct({
+  period: Schema.Number,
+  positiveFlow: Schema.Number.pipe(Indicator.label("+Flow")),
+  negativeFlow: Schema.Number.pipe(Indicator.label("-Flow")),
+  typicalPrice: Schema.Number,
+  oversold: Schema.Number,
+  overbought: Schema.Number,
+  currentVolume: Schema.Number,
+  currentPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+})
+
+export type MFIOutput = Schema.Schema.Type<typeof MFIOutput>
+
+const State = Indicator.stateSchema(MFIOutput)
+
+/**
+ * MFI indicator service.
+ *
+ * A volume-weighted RSI: rolls trades into bars and compares the money flow
+ * (typical price × volume) of bars whose typical price rose with that of bars
+ * whose typical price fell over the last `period` bars. Values range from
+ * 0-100, with <20 indicating oversold and >80 overbought.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as MFI from "@/indicators/MFI"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const mfi = yield* MFI.MFIIndicator
+ *   yield* Stream.runForEach(mfi.process(tradeStream), (state) =>
+ *     Console.log(`MFI ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class MFIIndicator extends Context.Tag("@indicators/MFI")<
+  MFIIndicator,
+  Indicator.Indicator<MFIOutput>
+>() {}
+
+/**
+ * Money flow of one bar, on the side its typical price moved to.
+ */
+interface MoneyFlow {
+  readonly positive: number
+  readonly negative: number
+}
+
+/**
+ * Internal state for MFI calculation.
+ */
+interface MFIState {
+  readonly previousTypicalPrice: Option.Option<number>
+  readonly flows: ReadonlyArray<MoneyFlow>
+}
+
+/**
+ * Calculate MFI from positive and negative money flow.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const calculateMFI = (positive: number, negative: number): number => {
+  if (negative === 0) return positive === 0 ? 50 : 100
+  return 100 - 100 / (1 + positive / negative)
+}
+
+/**
+ * Create a MFI indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The first bar only sets the reference typical price, so states
+ * are emitted once `period + 1` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: MFIConfig): Indicator.Indicator<MFIOutput> => ({
+  id: config.id,
+  name: "MFI",
+  output: MFIOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<MFIState, Bar.Bar, Indicator.IndicatorState<MFIOutput> | null>(
+        { previousTypicalPrice: Option.none(), flows: [] },
+        (state, bar) => {
+          const typicalPrice = Bar.typicalPrice(bar)
+          const newState: MFIState = {
+            previousTypicalPrice: Option.some(typicalPrice),
+            flows: state.flows,
+          }
+
+          if (Option.isNone(state.previousTypicalPrice)) {
+            return [newState, null]
+          }
+
+          // Unchanged typical prices count on neither side
+          const rawMoneyFlow = typicalPrice * bar.volume
+          const change = typicalPrice - state.previousTypicalPrice.value
+          const flow: MoneyFlow = {
+            positive: change > 0 ? rawMoneyFlow : 0,
+            negative: change < 0 ? rawMoneyFlow : 0,
+          }
+          const flows = [...state.flows, flow].slice(-config.period)
+
+          if (flows.length < config.period) {
+            return [{ ...newState, flows }, null]
+          }
+
+          const positiveFlow = flows.reduce((sum, f) => sum + f.positive, 0)
+          const negativeFlow = flows.reduce((sum, f) => sum + f.negative, 0)
+
+          return [
+            { ...newState, flows },
+            State.make({
+              id: config.id,
+              name: "MFI",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: calculateMFI(positiveFlow, negativeFlow),
+              metadata: {
+                period: config.period,
+                positiveFlow,
+                negativeFlow,
+                typicalPrice,
+                oversold: config.oversold,
+                overbought: config.overbought,
+                currentVolume: bar.volume,
+                currentPrice: bar.close,
+                barStart: bar.start,
+                barEnd: bar.end,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<MFIOutput>) =>
+    Effect.gen(function* () {
+      const mfi = state.value
+      const oversold = state.metadata.oversold
+      const overbought = state.metadata.overbought
+      const timestamp = state.lastUpdate
+
+      if (mfi < oversold) {
+        // Oversold on volume - potential buy signal
+        const strength = Math.min(1, (oversold - mfi) / oversold)
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `MFI oversold at ${mfi.toFixed(2)} (threshold: ${oversold})`,
+        })
+      } else if (mfi > overbought) {
+        // Overbought on volume - potential sell signal
+        const strength = Math.min(1, (mfi - overbought) / (100 - overbought))
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `MFI overbought at ${mfi.toFixed(2)} (threshold: ${overbought})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<MFIOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const currentVolume = state.metadata.currentVolume
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volumeAbove: (c) => currentVolume > c.threshold,
+        crossOver: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the MFI indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as MFI from "@/indicators/MFI"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(MFI.MFIConfig, {
+ *   id: "mfi-14-1m",
+ *   symbol: "AAPL",
+ *   period: 14,
+ *   oversold: 20,
+ *   overbought: 80,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(MFI.MFIIndicatorLive, config)
+ */
+export const MFIIndicatorLive = Layer.effect(MFIIndicator, Effect.map(MFIConfig, make))
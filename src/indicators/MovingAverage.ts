@@ -4,6 +4,7 @@ import * as Stream from "effect/Stream"
 import * as Layer from "effect/Layer"
 import * as Array from "effect/Array"
 import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
 import * as DateTime from "effect/DateTime"
 import { pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
@@ -30,6 +31,23 @@ export interface MovingAverageConfig {
  */
 export const MovingAverageConfig = Context.GenericTag<MovingAverageConfig>("@indicators/config/MA")
 
+/**
+ * Outputs of the Moving Average indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const MovingAverageOutput = Schema.Struct({
+  period: Schema.Number,
+  type: Schema.Literal("simple", "exponential"),
+  priceCount: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type MovingAverageOutput = Schema.Schema.Type<typeof MovingAverageOutput>
+
+const State = Indicator.stateSchema(MovingAverageOutput)
+
 /**
  * Moving Average indicator service.
  *
@@ -56,7 +74,7 @@ export const MovingAverageConfig = Context.GenericTag<MovingAverageConfig>("@ind
  */
 export class MovingAverage extends Context.Tag("@indicators/MovingAverage")<
   MovingAverage,
-  Indicator.Indicator
+  Indicator.Indicator<MovingAverageOutput>
 >() {}
 
 /**
@@ -82,6 +100,22 @@ const calculateSMA = (prices: ReadonlyArray<number>): number => {
   )
 }
 
+/**
+ * Advance an Exponential Moving Average by one value.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as MA from "@/indicators/MovingAverage"
+ *
+ * // Incremental EMA, seeded with the first value
+ * const ema = [101, 102, 100].reduce((ema, price) => MA.emaStep(ema, price, 12))
+ */
+export const emaStep = (previous: number, value: number, period: number): number => {
+  const multiplier = 2 / (period + 1)
+  return value * multiplier + previous * (1 - multiplier)
+}
+
 /**
  * Calculate Exponential Moving Average.
  *
@@ -90,17 +124,115 @@ const calculateSMA = (prices: ReadonlyArray<number>): number => {
  */
 const calculateEMA = (prices: ReadonlyArray<number>, period: number): number => {
   if (prices.length === 0) return 0
-  if (prices.length === 1) return prices[0]
+  return prices.reduce((ema, price) => emaStep(ema, price, period))
+}
 
-  const multiplier = 2 / (period + 1)
-  let ema = prices[0]
+/**
+ * Create a moving average indicator instance from its configuration.
+ *
+ * States are emitted once `period` prices were seen. The EMA is recomputed
+ * over the last `period` prices, seeded with the oldest of them.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: MovingAverageConfig): Indicator.Indicator<MovingAverageOutput> => ({
+  id: config.id,
+  name: config.type === "simple" ? "SMA" : "EMA",
+  output: MovingAverageOutput,
 
-  for (let i = 1; i < prices.length; i++) {
-    ema = prices[i] * multiplier + ema * (1 - multiplier)
-  }
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<
+        MAState,
+        Trade.TradeData,
+        Indicator.IndicatorState<MovingAverageOutput> | null
+      >({ prices: [], currentMA: 0 }, (state, trade) => {
+        const newPrices = [...state.prices, trade.price].slice(-config.period)
+        const newMA =
+          config.type === "simple"
+            ? calculateSMA(newPrices)
+            : calculateEMA(newPrices, config.period)
 
-  return ema
-}
+        const newState = { prices: newPrices, currentMA: newMA }
+
+        if (newPrices.length >= config.period) {
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: config.type === "simple" ? "SMA" : "EMA",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(trade.timestamp),
+              value: newMA,
+              metadata: {
+                period: config.period,
+                type: config.type,
+                priceCount: newPrices.length,
+                currentPrice: trade.price,
+              },
+            }),
+          ]
+        }
+
+        return [newState, null]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<MovingAverageOutput>) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const ma = state.value
+      const timestamp = state.lastUpdate
+
+      if (currentPrice > ma * 1.02) {
+        // Price 2% above MA - bullish
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: 0.6,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} above ${state.name} ${ma.toFixed(2)}`,
+        })
+      } else if (currentPrice < ma * 0.98) {
+        // Price 2% below MA - bearish
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: 0.6,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} below ${state.name} ${ma.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<MovingAverageOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const ma = state.value
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: (c) => {
+          // Check if fast period crossed above slow period (golden cross)
+          // This is simplified - real implementation would track both MAs
+          return c.fastPeriod < c.slowPeriod && currentPrice > ma
+        },
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
 
 /**
  * Layer that provides the Moving Average indicator service.
@@ -121,102 +253,4 @@ const calculateEMA = (prices: ReadonlyArray<number>, period: number): number =>
  *
  * const MainLive = Layer.provide(MA.MovingAverageLive, config)
  */
-export const MovingAverageLive = Layer.effect(
-  MovingAverage,
-  Effect.gen(function* () {
-    const config = yield* MovingAverageConfig
-
-    return MovingAverage.of({
-      id: config.id,
-      name: config.type === "simple" ? "SMA" : "EMA",
-
-      process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
-        pipe(
-          trades,
-          Stream.filter((t) => t.symbol === config.symbol),
-          Stream.mapAccum<MAState, Trade.TradeData, Indicator.IndicatorState | null>(
-            { prices: [], currentMA: 0 },
-            (state, trade) => {
-              const newPrices = [...state.prices, trade.price].slice(-config.period)
-              const newMA =
-                config.type === "simple"
-                  ? calculateSMA(newPrices)
-                  : calculateEMA(newPrices, config.period)
-
-              const newState = { prices: newPrices, currentMA: newMA }
-
-              if (newPrices.length >= config.period) {
-                return [
-                  newState,
-                  Indicator.IndicatorState.make({
-                    id: config.id,
-                    name: config.type === "simple" ? "SMA" : "EMA",
-                    symbol: config.symbol,
-                    lastUpdate: DateTime.unsafeNow(),
-                    value: newMA,
-                    metadata: {
-                      period: config.period,
-                      type: config.type,
-                      priceCount: newPrices.length,
-                      currentPrice: trade.price,
-                    },
-                  }),
-                ]
-              }
-
-              return [newState, null]
-            }
-          ),
-          Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
-        ),
-
-      signal: (state: Indicator.IndicatorState) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const ma = state.value
-          const timestamp = state.lastUpdate
-
-          if (currentPrice > ma * 1.02) {
-            // Price 2% above MA - bullish
-            return Indicator.Buy.make({
-              _tag: "buy",
-              strength: 0.6,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} above ${state.name} ${ma.toFixed(2)}`,
-            })
-          } else if (currentPrice < ma * 0.98) {
-            // Price 2% below MA - bearish
-            return Indicator.Sell.make({
-              _tag: "sell",
-              strength: 0.6,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} below ${state.name} ${ma.toFixed(2)}`,
-            })
-          } else {
-            return Indicator.Hold.make({
-              _tag: "hold",
-              timestamp,
-            })
-          }
-        }),
-
-      checkTrigger: (state: Indicator.IndicatorState, condition: Indicator.TriggerCondition) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const ma = state.value
-
-          return Indicator.matchCondition(condition, {
-            priceAbove: (c) => currentPrice > c.threshold,
-            priceBelow: (c) => currentPrice < c.threshold,
-            crossOver: (c) => {
-              // Check if fast period crossed above slow period (golden cross)
-              // This is simplified - real implementation would track both MAs
-              return c.fastPeriod < c.slowPeriod && currentPrice > ma
-            },
-            volumeAbove: () => false,
-            volatilityAbove: () => false,
-          })
-        }),
-    })
-  })
-)
+export const MovingAverageLive = Layer.effect(MovingAverage, Effect.map(MovingAverageConfig, make))
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "bun:test"
+import * as OBV from "./OBV"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const obv = OBV.make({ id: "obv-3-1m", symbol: "AAPL", period: 3, bars: Bar.time("1 minute") })
+
+const bar = (close: number, volume: number) => ({
+  high: close + 0.5,
+  low: close - 0.5,
+  close,
+  volume,
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(obv.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const lastSignal = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(obv.signal(states(bars).at(-1)!))
+
+describe("OBV", () => {
+  it("should add volume on up closes and subtract it on down closes", () => {
+    const result = states([
+      bar(100, 300),
+      bar(101, 600),
+      bar(100.5, 300),
+      bar(100.5, 900),
+      bar(102, 1200),
+    ])
+
+    // period + 1 bars before the first state
+    expect(result.map((state) => state.value)).toEqual([300, 1500])
+  })
+
+  it("should compare the direction of price and a volume line", () => {
+    const points = (closes: ReadonlyArray<number>, flows: ReadonlyArray<number>) =>
+      closes.map((close, i) => ({ close, flow: flows[i] }))
+
+    expect(OBV.divergence(points([100, 104], [5_000, 3_000]))).toBe("bearish")
+    expect(OBV.divergence(points([100, 96], [5_000, 7_000]))).toBe("bullish")
+    expect(OBV.divergence(points([100, 104], [5_000, 7_000]))).toBe("none")
+    expect(OBV.divergence(points([100], [5_000]))).toBe("none")
+  })
+
+  it("should signal sell when price rises on outflowing volume", () => {
+    const signal = lastSignal([bar(100, 300), bar(99, 3000), bar(101, 300), bar(102, 300)])
+    expect(Indicator.isSell(signal) && signal.reason).toContain("Bearish OBV divergence")
+  })
+
+  it("should signal buy when price falls on inflowing volume", () => {
+    const signal = lastSignal([bar(100, 300), bar(101, 3000), bar(99, 300), bar(98, 300)])
+    expect(Indicator.isBuy(signal) && signal.reason).toContain("Bullish OBV divergence")
+  })
+
+  it("should hold when volume confirms price", () => {
+    expect(
+      Indicator.isHold(lastSignal([bar(100, 300), bar(101, 300), bar(102, 300), bar(103, 300)]))
+    ).toBe(true)
+  })
+
+  it("should check volumeAbove against the latest bar's volume", () => {
+    const last = states([bar(100, 300), bar(101, 300), bar(102, 300), bar(103, 600)]).at(-1)!
+    const check = (threshold: number) =>
+      Effect.runSync(obv.checkTrigger(last, Indicator.VolumeAbove.make({ threshold })))
+
+    expect(check(500)).toBe(true)
+    expect(check(700)).toBe(false)
+  })
+})
@@ -0,0 +1,271 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * OBV (On-Balance Volume) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface OBVConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Divergence lookback in bars, default 20
+  readonly bars: Bar.BarSpec // How trades are rolled into bars
+}
+
+/**
+ * Configuration service for OBV indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const OBVConfig = Context.GenericTag<OBVConfig>("@indicators/config/OBV")
+
+/**
+ * Divergence between price and a volume line.
+ *
+ * - bullish: price fell while volume flowed in
+ * - bearish: price rose while volume flowed out
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Divergence = Schema.Literal("bullish", "bearish", "none")
+
+export type Divergence = Schema.Schema.Type<typeof Divergence>
+
+/**
+ * Outputs of the OBV indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const OBVOutput = Schema.Struct({
+  period: Schema.Number,
+  obvChange: Schema.Number.pipe(Indicator.label("Chg")),
+  priceChange: Schema.Number,
+  divergence: Divergence.pipe(Indicator.label("Divergence")),
+  currentVolume: Schema.Number,
+  currentPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+})
+
+export type OBVOutput = Schema.Schema.Type<typeof OBVOutput>
+
+const State = Indicator.stateSchema(OBVOutput)
+
+/**
+ * OBV indicator service.
+ *
+ * Rolls trades into bars and keeps a running total of volume, added on bars
+ * that close up and subtracted on bars that close down. Emits the running
+ * total as `value`; signals come from divergences between OBV and price over
+ * the last `period` bars.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as OBV from "@/indicators/OBV"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const obv = yield* OBV.OBVIndicator
+ *   yield* Stream.runForEach(obv.process(tradeStream), (state) =>
+ *     Console.log(`OBV ${state.value} (${state.metadata.divergence})`)
+ *   )
+ * })
+ */
+export class OBVIndicator extends Context.Tag("@indicators/OBV")<
+  OBVIndicator,
+  Indicator.Indicator<OBVOutput>
+>() {}
+
+/**
+ * A price close paired with the value of a volume line at that close.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface FlowPoint {
+  readonly close: number
+  readonly flow: number
+}
+
+/**
+ * Compare the direction of price and of a volume line between the first and
+ * last point of a window.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as OBV from "@/indicators/OBV"
+ *
+ * OBV.divergence([
+ *   { close: 100, flow: 5_000 },
+ *   { close: 104, flow: 3_000 }
+ * ]) // "bearish"
+ */
+export const divergence = (points: ReadonlyArray<FlowPoint>): Divergence => {
+  if (points.length < 2) return "none"
+  const first = points[0]
+  const last = points[points.length - 1]
+  const priceChange = last.close - first.close
+  const flowChange = last.flow - first.flow
+  if (priceChange < 0 && flowChange > 0) return "bullish"
+  if (priceChange > 0 && flowChange < 0) return "bearish"
+  return "none"
+}
+
+/**
+ * Internal state for OBV calculation.
+ */
+interface OBVState {
+  readonly obv: number
+  readonly points: ReadonlyArray<FlowPoint>
+}
+
+/**
+ * Create an OBV indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. OBV starts at 0 on the first bar and states are emitted once
+ * `period + 1` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: OBVConfig): Indicator.Indicator<OBVOutput> => ({
+  id: config.id,
+  name: "OBV",
+  output: OBVOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<OBVState, Bar.Bar, Indicator.IndicatorState<OBVOutput> | null>(
+        { obv: 0, points: [] },
+        (state, bar) => {
+          const previous = state.points.at(-1)
+          const obv =
+            previous === undefined || bar.close === previous.close
+              ? state.obv
+              : bar.close > previous.close
+                ? state.obv + bar.volume
+                : state.obv - bar.volume
+          const points = [...state.points, { close: bar.close, flow: obv }].slice(
+            -config.period - 1
+          )
+          const newState: OBVState = { obv, points }
+
+          if (points.length <= config.period) {
+            return [newState, null]
+          }
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "OBV",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: obv,
+              metadata: {
+                period: config.period,
+                obvChange: obv - points[0].flow,
+                priceChange: bar.close - points[0].close,
+                divergence: divergence(points),
+                currentVolume: bar.volume,
+                currentPrice: bar.close,
+                barStart: bar.start,
+                barEnd: bar.end,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<OBVOutput>) =>
+    Effect.gen(function* () {
+      const obvChange = state.metadata.obvChange
+      const priceChange = state.metadata.priceChange
+      const period = state.metadata.period
+      const timestamp = state.lastUpdate
+
+      switch (state.metadata.divergence) {
+        case "bullish":
+          return Indicator.Buy.make({
+            _tag: "buy",
+            strength: 0.6,
+            timestamp,
+            reason: `Bullish OBV divergence over ${period} bars: price ${priceChange.toFixed(2)}, OBV +${obvChange}`,
+          })
+        case "bearish":
+          return Indicator.Sell.make({
+            _tag: "sell",
+            strength: 0.6,
+            timestamp,
+            reason: `Bearish OBV divergence over ${period} bars: price +${priceChange.toFixed(2)}, OBV ${obvChange}`,
+          })
+        case "none":
+          return Indicator.Hold.make({
+            _tag: "hold",
+            timestamp,
+          })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<OBVOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const currentVolume = state.metadata.currentVolume
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volumeAbove: (c) => currentVolume > c.threshold,
+        crossOver: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the OBV indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as OBV from "@/indicators/OBV"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(OBV.OBVConfig, {
+ *   id: "obv-20-1m",
+ *   symbol: "AAPL",
+ *   period: 20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(OBV.OBVIndicatorLive, config)
+ */
+export const OBVIndicatorLive = Layer.effect(OBVIndicator, Effect.map(OBVConfig, make))
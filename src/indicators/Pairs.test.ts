@@ -0,0 +1,58 @@
+import { describe, it, expect } from "bun:test"
+import * as Pairs from "./Pairs"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockAlignedTrades } from "../test-utils/fixtures"
+
+const pairs = Pairs.make({
+  id: "pairs-4-KO-PEP",
+  symbol: "KO",
+  other: "PEP",
+  period: 4,
+  threshold: 1,
+  bars: Bar.time("1 minute"),
+})
+
+const pep = [50, 51, 52, 53, 54, 55]
+
+const states = (ko: ReadonlyArray<number>) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(
+      Stream.runCollect(pairs.process(Stream.fromIterable(mockAlignedTrades({ KO: ko, PEP: pep }))))
+    )
+  )
+
+const signals = (ko: ReadonlyArray<number>) =>
+  Effect.runSync(Effect.forEach(states(ko), pairs.signal))
+
+// Tracks twice PEP, then jumps away from it on the last bar
+const rich = [100, 102, 104, 106, 108, 115]
+const cheap = [100, 102, 104, 106, 108, 101]
+
+describe("Pairs", () => {
+  it("should fit the hedge ratio and z-score over the window", () => {
+    const result = states(rich)
+
+    expect(result.length).toBe(3)
+    expect(result[0].metadata.hedgeRatio).toBeCloseTo(2, 10)
+    expect(result[0].value).toBe(0)
+    // Hedge 17.5 / 5 = 3.5, spreads -78, -79.5, -81 and -77.5
+    expect(result[2].metadata.hedgeRatio).toBeCloseTo(3.5, 10)
+    expect(result[2].metadata.spread).toBeCloseTo(-77.5, 10)
+    expect(result[2].value).toBeCloseTo(1.5 / Math.sqrt(1.875), 10)
+    expect(result[2].metadata.previousZScore).toBeCloseTo(0, 10)
+  })
+
+  it("should signal when the z-score crosses the threshold", () => {
+    const sells = signals(rich)
+    const buys = signals(cheap)
+
+    expect(sells.map((s) => s._tag)).toEqual(["hold", "hold", "sell"])
+    expect(buys.map((s) => s._tag)).toEqual(["hold", "hold", "buy"])
+    expect(Indicator.getStrength(sells[2])).toBeCloseTo(1.5 / Math.sqrt(1.875) / 2, 10)
+    expect(sells[2]._tag === "sell" && sells[2].reason).toContain("sell KO, buy 3.50 PEP")
+  })
+})
@@ -0,0 +1,231 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import type * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as CrossSymbol from "./CrossSymbol"
+
+/**
+ * Pairs spread indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface PairsConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly other: string // Second leg of the pair, hedged against `symbol`
+  readonly period: number // Bars the hedge ratio and z-score are fitted over, default 20
+  readonly threshold: number // Z-score whose crossing signals an entry, default 2
+  readonly bars: Bar.TimeBars // Interval both symbols are aligned on
+}
+
+/**
+ * Configuration service for Pairs indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const PairsConfig = Context.GenericTag<PairsConfig>("@indicators/config/Pairs")
+
+/**
+ * Outputs of the Pairs indicator. The spread's z-score is emitted as `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const PairsOutput = Schema.Struct({
+  period: Schema.Number,
+  threshold: Schema.Number,
+  other: Schema.String.pipe(Indicator.label("vs")),
+  hedgeRatio: Schema.Number.pipe(Indicator.label("Hedge")),
+  spread: Schema.Number.pipe(Indicator.label("Spread")),
+  previousZScore: Schema.Number,
+  otherPrice: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type PairsOutput = Schema.Schema.Type<typeof PairsOutput>
+
+const State = Indicator.stateSchema(PairsOutput)
+
+/**
+ * Pairs spread indicator service.
+ *
+ * Aligns the bars of `symbol` and `other`, fits the hedge ratio as the
+ * least-squares slope of `symbol`'s closes on `other`'s over the last `period`
+ * bars, and tracks the spread `symbol - hedgeRatio * other`. The z-score of
+ * the latest spread against the window is emitted as `value`. When it crosses
+ * above `threshold` the spread is rich, a Sell of `symbol` (against a buy of
+ * the hedge); when it crosses below `-threshold` it is cheap, a Buy. Like
+ * Correlation it reads the trades of both symbols.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Pairs from "@/indicators/Pairs"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const pairs = yield* Pairs.PairsIndicator
+ *   yield* Stream.runForEach(pairs.process(tradeStream), (state) =>
+ *     Console.log(`KO/PEP spread z-score ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class PairsIndicator extends Context.Tag("@indicators/Pairs")<
+  PairsIndicator,
+  Indicator.Indicator<PairsOutput>
+>() {}
+
+/**
+ * Internal state for Pairs calculation.
+ */
+interface PairsState {
+  readonly closes: ReadonlyArray<number>
+  readonly otherCloses: ReadonlyArray<number>
+  readonly zScore: Option.Option<number>
+}
+
+/**
+ * Create a Pairs indicator instance from its configuration.
+ *
+ * States are emitted once `period` aligned bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: PairsConfig): Indicator.Indicator<PairsOutput> => ({
+  id: config.id,
+  name: "Pairs",
+  output: PairsOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      CrossSymbol.align([config.symbol, config.other], config.bars),
+      Stream.mapAccum<
+        PairsState,
+        CrossSymbol.AlignedBar,
+        Indicator.IndicatorState<PairsOutput> | null
+      >({ closes: [], otherCloses: [], zScore: Option.none() }, (state, row) => {
+        const [close, otherClose] = row.closes
+        const closes = [...state.closes, close].slice(-config.period)
+        const otherCloses = [...state.otherCloses, otherClose].slice(-config.period)
+
+        if (closes.length < config.period) {
+          return [{ ...state, closes, otherCloses }, null]
+        }
+
+        const hedgeRatio = CrossSymbol.slope(closes, otherCloses)
+        const spreads = closes.map((c, i) => c - hedgeRatio * otherCloses[i])
+        const zScore = CrossSymbol.zScore(spreads)
+
+        return [
+          { closes, otherCloses, zScore: Option.some(zScore) },
+          State.make({
+            id: config.id,
+            name: "Pairs",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(row.end),
+            value: zScore,
+            metadata: {
+              period: config.period,
+              threshold: config.threshold,
+              other: config.other,
+              hedgeRatio,
+              spread: spreads[spreads.length - 1],
+              // Without a previous update nothing can have crossed
+              previousZScore: Option.getOrElse(state.zScore, () => zScore),
+              otherPrice: otherClose,
+              barStart: row.start,
+              barEnd: row.end,
+              currentPrice: close,
+            },
+          }),
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<PairsOutput>) =>
+    Effect.gen(function* () {
+      const { threshold, previousZScore, hedgeRatio, other } = state.metadata
+      const zScore = state.value
+      const timestamp = state.lastUpdate
+
+      // Half strength at the threshold, full strength at twice the threshold
+      const strength = Math.min(1, Math.abs(zScore) / (2 * threshold))
+      const hedge = `${hedgeRatio.toFixed(2)} ${other}`
+
+      if (zScore > threshold && previousZScore <= threshold) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Spread z-score ${zScore.toFixed(2)} crossed above ${threshold}: sell ${state.symbol}, buy ${hedge}`,
+        })
+      } else if (zScore < -threshold && previousZScore >= -threshold) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Spread z-score ${zScore.toFixed(2)} crossed below -${threshold}: buy ${state.symbol}, sell ${hedge}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<PairsOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Pairs indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Pairs from "@/indicators/Pairs"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Pairs.PairsConfig, {
+ *   id: "pairs-20-KO-PEP",
+ *   symbol: "KO",
+ *   other: "PEP",
+ *   period: 20,
+ *   threshold: 2,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Pairs.PairsIndicatorLive, config)
+ */
+export const PairsIndicatorLive = Layer.effect(PairsIndicator, Effect.map(PairsConfig, make))
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test"
+import * as ParabolicSAR from "./ParabolicSAR"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const sar = ParabolicSAR.make({
+  id: "psar",
+  symbol: "AAPL",
+  accelerationStart: 0.02,
+  accelerationStep: 0.02,
+  accelerationMax: 0.2,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(sar.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), sar.signal))
+
+// Rallies for three bars, then breaks down
+const rally = [
+  { high: 101, low: 99, close: 100 },
+  { high: 102, low: 100, close: 101.5 },
+  { high: 104, low: 101, close: 103 },
+  { high: 106, low: 103, close: 105 },
+  { high: 105, low: 98, close: 99 },
+  { high: 100, low: 96, close: 97 },
+]
+const selloff = rally.map((bar) => ({
+  high: 200 - bar.low,
+  low: 200 - bar.high,
+  close: 200 - bar.close,
+}))
+
+describe("ParabolicSAR", () => {
+  it("should start the trend from the first two bars", () => {
+    const first = states(rally)[0]
+
+    expect(first.value).toBe(99)
+    expect(first.metadata).toMatchObject({
+      stop: 99,
+      trend: "up",
+      previousTrend: "up",
+      extremePoint: 102,
+      accelerationFactor: 0.02,
+    })
+  })
+
+  it("should accelerate towards new extremes without entering the prior bars' range", () => {
+    const result = states(rally)
+
+    // 99.06 is held at the low of the bar two back
+    expect(result[1].value).toBe(99)
+    expect(result[1].metadata.extremePoint).toBe(104)
+    expect(result[1].metadata.accelerationFactor).toBeCloseTo(0.04, 10)
+    expect(result[2].value).toBeCloseTo(99.2, 10)
+    expect(result[2].metadata.accelerationFactor).toBeCloseTo(0.06, 10)
+  })
+
+  it("should stop and reverse to the extreme point when the stop is hit", () => {
+    const result = states(rally)
+
+    expect(result[3].metadata).toMatchObject({
+      stop: 106,
+      trend: "down",
+      previousTrend: "up",
+      extremePoint: 98,
+      accelerationFactor: 0.02,
+    })
+    // 105.84 is held at the highs of the two bars before
+    expect(result[4].value).toBe(106)
+    expect(result[4].metadata.extremePoint).toBe(96)
+  })
+
+  it("should signal on flips only", () => {
+    expect(signals(rally).map((s) => s._tag)).toEqual(["hold", "hold", "hold", "sell", "hold"])
+    expect(signals(selloff).map((s) => s._tag)).toEqual(["hold", "hold", "hold", "buy", "hold"])
+  })
+
+  it("should trigger priceAbove/priceBelow on the price", () => {
+    const result = states(rally)
+    const check = (state: (typeof result)[number], condition: Indicator.TriggerCondition) =>
+      Effect.runSync(sar.checkTrigger(state, condition))
+
+    // Close 105
+    expect(check(result[2], Indicator.PriceAbove.make({ threshold: 100 }))).toBe(true)
+    expect(check(result[2], Indicator.PriceBelow.make({ threshold: 100 }))).toBe(false)
+    expect(check(result[2], Indicator.PriceBelow.make({ threshold: 106 }))).toBe(true)
+    // Close 99
+    expect(check(result[3], Indicator.PriceBelow.make({ threshold: 100 }))).toBe(true)
+  })
+})
@@ -0,0 +1,317 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Parabolic SAR (Stop And Reverse) indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface ParabolicSARConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly accelerationStart: number // Acceleration factor at the start of a trend, default 0.02
+  readonly accelerationStep: number // Added on every new extreme point, default 0.02
+  readonly accelerationMax: number // Cap on the acceleration factor, default 0.2
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Parabolic SAR indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const ParabolicSARConfig = Context.GenericTag<ParabolicSARConfig>(
+  "@indicators/config/ParabolicSAR"
+)
+
+/**
+ * Direction of the trend a trailing stop follows: an uptrend trails the stop
+ * below price, a downtrend above it.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Trend = Schema.Literal("up", "down")
+
+export type Trend = Schema.Schema.Type<typeof Trend>
+
+/**
+ * Outputs of the Parabolic SAR indicator. The stop level is also emitted as
+ * `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const ParabolicSAROutput = Schema.Struct({
+  stop: Schema.Number.pipe(Indicator.label("Stop")),
+  trend: Trend.pipe(Indicator.label("Trend")),
+  previousTrend: Trend,
+  extremePoint: Schema.Number.pipe(Indicator.label("EP")),
+  accelerationFactor: Schema.Number.pipe(Indicator.label("AF")),
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type ParabolicSAROutput = Schema.Schema.Type<typeof ParabolicSAROutput>
+
+const State = Indicator.stateSchema(ParabolicSAROutput)
+
+/**
+ * Parabolic SAR indicator service.
+ *
+ * Rolls trades into bars and trails a stop behind the trend. Each bar the stop
+ * moves towards the trend's extreme point by the acceleration factor, which
+ * grows by `accelerationStep` on every new extreme up to `accelerationMax`.
+ * When a bar trades through the stop the trend flips: the stop jumps to the
+ * old extreme point and a Buy or Sell signal is raised.
+ *
+ * The stop level is emitted as `value`, so a trigger tests it by comparing
+ * the price with the indicator, e.g.
+ * `Trigger.compare(Trigger.price("AAPL"), "<", Trigger.value("psar-1m"))`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as ParabolicSAR from "@/indicators/ParabolicSAR"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const sar = yield* ParabolicSAR.ParabolicSARIndicator
+ *   yield* Stream.runForEach(sar.process(tradeStream), (state) =>
+ *     Console.log(`${state.metadata.trend}trend, stop at ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class ParabolicSARIndicator extends Context.Tag("@indicators/ParabolicSAR")<
+  ParabolicSARIndicator,
+  Indicator.Indicator<ParabolicSAROutput>
+>() {}
+
+/**
+ * Running stop of a Parabolic SAR.
+ */
+interface SAR {
+  readonly stop: number
+  readonly trend: Trend
+  readonly extremePoint: number
+  readonly accelerationFactor: number
+}
+
+/**
+ * Internal state for Parabolic SAR calculation.
+ */
+interface ParabolicSARState {
+  readonly bars: ReadonlyArray<Bar.Bar> // The last two bars
+  readonly sar: Option.Option<SAR>
+}
+
+/**
+ * Start a trend from the first two bars, in the direction the second closed.
+ */
+const initial = (first: Bar.Bar, second: Bar.Bar, accelerationStart: number): SAR =>
+  second.close >= first.close
+    ? {
+        stop: Math.min(first.low, second.low),
+        trend: "up",
+        extremePoint: Math.max(first.high, second.high),
+        accelerationFactor: accelerationStart,
+      }
+    : {
+        stop: Math.max(first.high, second.high),
+        trend: "down",
+        extremePoint: Math.min(first.low, second.low),
+        accelerationFactor: accelerationStart,
+      }
+
+/**
+ * Advance the stop by one bar, flipping the trend if the bar trades through it.
+ * The stop never moves into the range of the two bars before.
+ */
+const step = (
+  sar: SAR,
+  bar: Bar.Bar,
+  previous: ReadonlyArray<Bar.Bar>,
+  config: ParabolicSARConfig
+): SAR => {
+  const next = sar.stop + sar.accelerationFactor * (sar.extremePoint - sar.stop)
+  const accelerate = Math.min(
+    sar.accelerationFactor + config.accelerationStep,
+    config.accelerationMax
+  )
+
+  if (sar.trend === "up") {
+    const stop = Math.min(next, ...previous.map((b) => b.low))
+    if (bar.low < stop) {
+      return {
+        stop: sar.extremePoint,
+        trend: "down",
+        extremePoint: bar.low,
+        accelerationFactor: config.accelerationStart,
+      }
+    }
+    return bar.high > sar.extremePoint
+      ? { ...sar, stop, extremePoint: bar.high, accelerationFactor: accelerate }
+      : { ...sar, stop }
+  }
+
+  const stop = Math.max(next, ...previous.map((b) => b.high))
+  if (bar.high > stop) {
+    return {
+      stop: sar.extremePoint,
+      trend: "up",
+      extremePoint: bar.high,
+      accelerationFactor: config.accelerationStart,
+    }
+  }
+  return bar.low < sar.extremePoint
+    ? { ...sar, stop, extremePoint: bar.low, accelerationFactor: accelerate }
+    : { ...sar, stop }
+}
+
+/**
+ * Create a Parabolic SAR indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The first trend is taken from the first two bars, so states are
+ * emitted from the second bar on.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: ParabolicSARConfig): Indicator.Indicator<ParabolicSAROutput> => ({
+  id: config.id,
+  name: "Parabolic SAR",
+  output: ParabolicSAROutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<
+        ParabolicSARState,
+        Bar.Bar,
+        Indicator.IndicatorState<ParabolicSAROutput> | null
+      >({ bars: [], sar: Option.none() }, (state, bar) => {
+        const bars = [...state.bars, bar].slice(-2)
+
+        if (state.bars.length === 0) {
+          return [{ ...state, bars }, null]
+        }
+
+        const sar = Option.match(state.sar, {
+          onNone: () => initial(state.bars[0], bar, config.accelerationStart),
+          onSome: (previous) => step(previous, bar, state.bars, config),
+        })
+
+        return [
+          { bars, sar: Option.some(sar) },
+          State.make({
+            id: config.id,
+            name: "Parabolic SAR",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(bar.end),
+            value: sar.stop,
+            metadata: {
+              stop: sar.stop,
+              trend: sar.trend,
+              // Without a previous update nothing can have flipped
+              previousTrend: Option.getOrElse(
+                Option.map(state.sar, (p) => p.trend),
+                () => sar.trend
+              ),
+              extremePoint: sar.extremePoint,
+              accelerationFactor: sar.accelerationFactor,
+              barStart: bar.start,
+              barEnd: bar.end,
+              currentPrice: bar.close,
+            },
+          }),
+        ]
+      }),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<ParabolicSAROutput>) =>
+    Effect.gen(function* () {
+      const { stop, trend, previousTrend, currentPrice } = state.metadata
+      const timestamp = state.lastUpdate
+
+      if (trend === "up" && previousTrend === "down") {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: 0.6,
+          timestamp,
+          reason: `Parabolic SAR flipped to an uptrend at ${currentPrice.toFixed(2)}, stop ${stop.toFixed(2)}`,
+        })
+      } else if (trend === "down" && previousTrend === "up") {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: 0.6,
+          timestamp,
+          reason: `Parabolic SAR flipped to a downtrend at ${currentPrice.toFixed(2)}, stop ${stop.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<ParabolicSAROutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const { currentPrice } = state.metadata
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Parabolic SAR indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as ParabolicSAR from "@/indicators/ParabolicSAR"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(ParabolicSAR.ParabolicSARConfig, {
+ *   id: "psar-1m",
+ *   symbol: "AAPL",
+ *   accelerationStart: 0.02,
+ *   accelerationStep: 0.02,
+ *   accelerationMax: 0.2,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(ParabolicSAR.ParabolicSARIndicatorLive, config)
+ */
+export const ParabolicSARIndicatorLive = Layer.effect(
+  ParabolicSARIndicator,
+  Effect.map(ParabolicSARConfig, make)
+)
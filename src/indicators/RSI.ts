@@ -3,6 +3,7 @@ import * as Effect from "effect/Effect"
 import * as Stream from "effect/Stream"
 import * as Layer from "effect/Layer"
 import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
 import * as DateTime from "effect/DateTime"
 import { pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
@@ -30,6 +31,25 @@ export interface RSIConfig {
  */
 export const RSIConfig = Context.GenericTag<RSIConfig>("@indicators/config/RSI")
 
+/**
+ * Outputs of the RSI indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const RSIOutput = Schema.Struct({
+  period: Schema.Number,
+  avgGain: Schema.Number.pipe(Indicator.label("Avg gain")),
+  avgLoss: Schema.Number.pipe(Indicator.label("Avg loss")),
+  currentPrice: Schema.Number,
+  oversold: Schema.Number,
+  overbought: Schema.Number,
+})
+
+export type RSIOutput = Schema.Schema.Type<typeof RSIOutput>
+
+const State = Indicator.stateSchema(RSIOutput)
+
 /**
  * RSI indicator service.
  *
@@ -57,7 +77,7 @@ export const RSIConfig = Context.GenericTag<RSIConfig>("@indicators/config/RSI")
  */
 export class RSIIndicator extends Context.Tag("@indicators/RSI")<
   RSIIndicator,
-  Indicator.Indicator
+  Indicator.Indicator<RSIOutput>
 >() {}
 
 /**
@@ -83,6 +103,150 @@ const calculateRSI = (avgGain: number, avgLoss: number): number => {
   return 100 - 100 / (1 + rs)
 }
 
+/**
+ * Create a RSI indicator instance from its configuration.
+ *
+ * States are emitted once `period` price changes were seen. The averages of
+ * the first changes are plain means; from then on they are smoothed the Wilder
+ * way.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: RSIConfig): Indicator.Indicator<RSIOutput> => ({
+  id: config.id,
+  name: "RSI",
+  output: RSIOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<RSIState, Trade.TradeData, Indicator.IndicatorState<RSIOutput> | null>(
+        {
+          prices: [],
+          gains: [],
+          losses: [],
+          avgGain: 0,
+          avgLoss: 0,
+        },
+        (state, trade) => {
+          const newPrices = [...state.prices, trade.price]
+
+          if (newPrices.length < 2) {
+            return [{ ...state, prices: newPrices }, null]
+          }
+
+          // Calculate price change
+          const change = newPrices[newPrices.length - 1] - newPrices[newPrices.length - 2]
+          const gain = change > 0 ? change : 0
+          const loss = change < 0 ? -change : 0
+
+          const newGains = [...state.gains, gain].slice(-config.period)
+          const newLosses = [...state.losses, loss].slice(-config.period)
+
+          // Calculate average gain and loss
+          let avgGain: number
+          let avgLoss: number
+
+          if (newGains.length < config.period) {
+            // Not enough data yet
+            avgGain = newGains.reduce((sum, g) => sum + g, 0) / newGains.length
+            avgLoss = newLosses.reduce((sum, l) => sum + l, 0) / newLosses.length
+          } else {
+            // Use smoothed average (Wilder's smoothing)
+            avgGain = (state.avgGain * (config.period - 1) + gain) / config.period
+            avgLoss = (state.avgLoss * (config.period - 1) + loss) / config.period
+          }
+
+          const rsi = calculateRSI(avgGain, avgLoss)
+
+          const newState = {
+            prices: newPrices.slice(-config.period - 1),
+            gains: newGains,
+            losses: newLosses,
+            avgGain,
+            avgLoss,
+          }
+
+          if (newGains.length >= config.period) {
+            return [
+              newState,
+              State.make({
+                id: config.id,
+                name: "RSI",
+                symbol: config.symbol,
+                lastUpdate: DateTime.unsafeMake(trade.timestamp),
+                value: rsi,
+                metadata: {
+                  period: config.period,
+                  avgGain,
+                  avgLoss,
+                  currentPrice: trade.price,
+                  oversold: config.oversold,
+                  overbought: config.overbought,
+                },
+              }),
+            ]
+          }
+
+          return [newState, null]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<RSIOutput>) =>
+    Effect.gen(function* () {
+      const rsi = state.value
+      const oversold = state.metadata.oversold
+      const overbought = state.metadata.overbought
+      const timestamp = state.lastUpdate
+
+      if (rsi < oversold) {
+        // Oversold - potential buy signal
+        const strength = Math.min(1, (oversold - rsi) / oversold)
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `RSI oversold at ${rsi.toFixed(2)} (threshold: ${oversold})`,
+        })
+      } else if (rsi > overbought) {
+        // Overbought - potential sell signal
+        const strength = Math.min(1, (rsi - overbought) / (100 - overbought))
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `RSI overbought at ${rsi.toFixed(2)} (threshold: ${overbought})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<RSIOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const rsi = state.value
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
 /**
  * Layer that provides the RSI indicator service.
  *
@@ -102,139 +266,4 @@ const calculateRSI = (avgGain: number, avgLoss: number): number => {
  *
  * const MainLive = Layer.provide(RSI.RSIIndicatorLive, config)
  */
-export const RSIIndicatorLive = Layer.effect(
-  RSIIndicator,
-  Effect.gen(function* () {
-    const config = yield* RSIConfig
-
-    return RSIIndicator.of({
-      id: config.id,
-      name: "RSI",
-
-      process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
-        pipe(
-          trades,
-          Stream.filter((t) => t.symbol === config.symbol),
-          Stream.mapAccum<RSIState, Trade.TradeData, Indicator.IndicatorState | null>(
-            {
-              prices: [],
-              gains: [],
-              losses: [],
-              avgGain: 0,
-              avgLoss: 0,
-            },
-            (state, trade) => {
-              const newPrices = [...state.prices, trade.price]
-
-              if (newPrices.length < 2) {
-                return [{ ...state, prices: newPrices }, null]
-              }
-
-              // Calculate price change
-              const change = newPrices[newPrices.length - 1] - newPrices[newPrices.length - 2]
-              const gain = change > 0 ? change : 0
-              const loss = change < 0 ? -change : 0
-
-              const newGains = [...state.gains, gain].slice(-config.period)
-              const newLosses = [...state.losses, loss].slice(-config.period)
-
-              // Calculate average gain and loss
-              let avgGain: number
-              let avgLoss: number
-
-              if (newGains.length < config.period) {
-                // Not enough data yet
-                avgGain = newGains.reduce((sum, g) => sum + g, 0) / newGains.length
-                avgLoss = newLosses.reduce((sum, l) => sum + l, 0) / newLosses.length
-              } else {
-                // Use smoothed average (Wilder's smoothing)
-                avgGain = (state.avgGain * (config.period - 1) + gain) / config.period
-                avgLoss = (state.avgLoss * (config.period - 1) + loss) / config.period
-              }
-
-              const rsi = calculateRSI(avgGain, avgLoss)
-
-              const newState = {
-                prices: newPrices.slice(-config.period - 1),
-                gains: newGains,
-                losses: newLosses,
-                avgGain,
-                avgLoss,
-              }
-
-              if (newGains.length >= config.period) {
-                return [
-                  newState,
-                  Indicator.IndicatorState.make({
-                    id: config.id,
-                    name: "RSI",
-                    symbol: config.symbol,
-                    lastUpdate: DateTime.unsafeNow(),
-                    value: rsi,
-                    metadata: {
-                      period: config.period,
-                      avgGain,
-                      avgLoss,
-                      currentPrice: trade.price,
-                      oversold: config.oversold,
-                      overbought: config.overbought,
-                    },
-                  }),
-                ]
-              }
-
-              return [newState, null]
-            }
-          ),
-          Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
-        ),
-
-      signal: (state: Indicator.IndicatorState) =>
-        Effect.gen(function* () {
-          const rsi = state.value
-          const oversold = state.metadata["oversold"] as number
-          const overbought = state.metadata["overbought"] as number
-          const timestamp = state.lastUpdate
-
-          if (rsi < oversold) {
-            // Oversold - potential buy signal
-            const strength = Math.min(1, (oversold - rsi) / oversold)
-            return Indicator.Buy.make({
-              _tag: "buy",
-              strength,
-              timestamp,
-              reason: `RSI oversold at ${rsi.toFixed(2)} (threshold: ${oversold})`,
-            })
-          } else if (rsi > overbought) {
-            // Overbought - potential sell signal
-            const strength = Math.min(1, (rsi - overbought) / (100 - overbought))
-            return Indicator.Sell.make({
-              _tag: "sell",
-              strength,
-              timestamp,
-              reason: `RSI overbought at ${rsi.toFixed(2)} (threshold: ${overbought})`,
-            })
-          } else {
-            return Indicator.Hold.make({
-              _tag: "hold",
-              timestamp,
-            })
-          }
-        }),
-
-      checkTrigger: (state: Indicator.IndicatorState, condition: Indicator.TriggerCondition) =>
-        Effect.gen(function* () {
-          const rsi = state.value
-          const currentPrice = state.metadata["currentPrice"] as number
-
-          return Indicator.matchCondition(condition, {
-            priceAbove: (c) => currentPrice > c.threshold,
-            priceBelow: (c) => currentPrice < c.threshold,
-            crossOver: () => false,
-            volumeAbove: () => false,
-            volatilityAbove: () => false,
-          })
-        }),
-    })
-  })
-)
+export const RSIIndicatorLive = Layer.effect(RSIIndicator, Effect.map(RSIConfig, make))
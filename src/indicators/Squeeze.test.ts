@@ -0,0 +1,87 @@
+import { describe, it, expect } from "bun:test"
+import * as Squeeze from "./Squeeze"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const squeeze = Squeeze.make({
+  id: "squeeze-5-1m",
+  symbol: "AAPL",
+  period: 5,
+  bbMultiplier: 2,
+  kcMultiplier: 1.5,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(squeeze.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), squeeze.signal))
+
+// Wide bars closing near 100: the closes barely move, so the Bollinger Bands
+// sit well inside the Keltner Channel. Then four bars trend away with gaps.
+const coil = Array.from({ length: 6 }, (_, i) => ({
+  high: 102,
+  low: 98,
+  close: 100 + (i % 2) * 0.2,
+}))
+const breakout = [
+  ...coil,
+  ...Array.from({ length: 4 }, (_, i) => ({
+    high: 103.5 + 3 * i,
+    low: 102.5 + 3 * i,
+    close: 103 + 3 * i,
+  })),
+]
+const breakdown = breakout.map((bar) => ({
+  high: 200 - bar.low,
+  low: 200 - bar.high,
+  close: 200 - bar.close,
+}))
+
+describe("Squeeze", () => {
+  it("should report the squeeze while the Bollinger Bands are inside the Keltner Channel", () => {
+    const result = states(coil)
+
+    expect(result.length).toBe(2)
+    for (const state of result) {
+      expect(state.metadata.squeezeOn).toBe(true)
+      expect(state.metadata.bbUpper).toBeLessThan(state.metadata.kcUpper)
+      expect(state.metadata.bbLower).toBeGreaterThan(state.metadata.kcLower)
+      expect(state.value).toBeLessThan(1)
+    }
+    expect(result.map((state) => state.metadata.squeezeBars)).toEqual([1, 2])
+  })
+
+  it("should release once the bands expand back outside the channel", () => {
+    const result = states(breakout)
+    const released = result.filter(Squeeze.isReleased)
+
+    expect(released.length).toBe(1)
+    expect(released[0].metadata.squeezeBars).toBe(4)
+    expect(released[0].value).toBeGreaterThan(1)
+    expect(result.at(-1)!.metadata.squeezeBars).toBe(0)
+  })
+
+  it("should fire in the direction of momentum on release only", () => {
+    const up = signals(breakout)
+    const down = signals(breakdown)
+
+    expect(up.filter(Indicator.isBuy).length).toBe(1)
+    expect(up.some(Indicator.isSell)).toBe(false)
+    expect(down.filter(Indicator.isSell).length).toBe(1)
+    expect(down.some(Indicator.isBuy)).toBe(false)
+    // Four bars of squeeze over a period of five
+    expect(Indicator.getStrength(up.find(Indicator.isBuy)!)).toBeCloseTo(0.9, 10)
+  })
+
+  it("should hold while the squeeze builds", () => {
+    expect(signals(coil).every(Indicator.isHold)).toBe(true)
+  })
+})
@@ -0,0 +1,252 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as BB from "./BollingerBands"
+import * as Keltner from "./Keltner"
+
+/**
+ * Squeeze indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SqueezeConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Bollinger Bands, EMA and ATR period in bars, default 20
+  readonly bbMultiplier: number // Bollinger Bands standard deviations, default 2
+  readonly kcMultiplier: number // Keltner Channel ATRs, default 1.5
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Squeeze indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const SqueezeConfig = Context.GenericTag<SqueezeConfig>("@indicators/config/Squeeze")
+
+/**
+ * Outputs of the Squeeze indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const SqueezeOutput = Schema.Struct({
+  period: Schema.Number,
+  squeezeOn: Schema.Boolean.pipe(Indicator.label("Squeeze")),
+  previousSqueezeOn: Schema.Boolean,
+  // Bars in the running squeeze, or in the one that just released
+  squeezeBars: Schema.Number.pipe(Indicator.label("Bars")),
+  momentum: Schema.Number.pipe(Indicator.label("Mom")),
+  bbUpper: Schema.Number,
+  bbLower: Schema.Number,
+  bandwidth: Schema.Number.pipe(Indicator.label("BW%")),
+  kcUpper: Schema.Number,
+  kcLower: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type SqueezeOutput = Schema.Schema.Type<typeof SqueezeOutput>
+
+const State = Indicator.stateSchema(SqueezeOutput)
+
+/**
+ * Squeeze indicator service.
+ *
+ * Rolls trades into bars and compares Bollinger Bands with a Keltner Channel
+ * over the same bars. While volatility contracts, the Bollinger Bands narrow
+ * to inside the channel: the squeeze is on. Volatility tends to expand again
+ * sharply, so when the bands move back outside the channel the squeeze
+ * releases and signals a breakout in the direction of momentum (the close
+ * against the Bollinger middle band). Emits the Bollinger width as a multiple
+ * of the Keltner width as `value`, below 1 during a squeeze.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Squeeze from "@/indicators/Squeeze"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const squeeze = yield* Squeeze.SqueezeIndicator
+ *   yield* Stream.runForEach(squeeze.process(tradeStream), (state) =>
+ *     Squeeze.isReleased(state) ? Console.log("Squeeze fired") : Effect.void
+ *   )
+ * })
+ */
+export class SqueezeIndicator extends Context.Tag("@indicators/Squeeze")<
+  SqueezeIndicator,
+  Indicator.Indicator<SqueezeOutput>
+>() {}
+
+/**
+ * Internal state for Squeeze calculation.
+ */
+interface SqueezeState {
+  readonly channel: Keltner.ChannelState
+  readonly squeezeOn: Option.Option<boolean>
+  readonly squeezeBars: number
+}
+
+/**
+ * Check whether a Squeeze state reports the squeeze releasing on its bar.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isReleased = (state: Indicator.IndicatorState<SqueezeOutput>): boolean =>
+  state.metadata.previousSqueezeOn && !state.metadata.squeezeOn
+
+/**
+ * Create a Squeeze indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. States are emitted once `period` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: SqueezeConfig): Indicator.Indicator<SqueezeOutput> => ({
+  id: config.id,
+  name: "Squeeze",
+  output: SqueezeOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<SqueezeState, Bar.Bar, Indicator.IndicatorState<SqueezeOutput> | null>(
+        { channel: Keltner.emptyChannel, squeezeOn: Option.none(), squeezeBars: 0 },
+        (state, bar) => {
+          const channelState = Keltner.updateChannel(state.channel, bar, {
+            period: config.period,
+            atrPeriod: config.period,
+          })
+          const kc = Keltner.channel(channelState, config.kcMultiplier)
+
+          if (Option.isNone(kc)) {
+            return [{ ...state, channel: channelState }, null]
+          }
+
+          const bb = BB.bands(channelState.closes, config.bbMultiplier)
+          const squeezeOn = bb.upper < kc.value.upper && bb.lower > kc.value.lower
+          const squeezeBars = squeezeOn ? state.squeezeBars + 1 : 0
+          const kcWidth = kc.value.upper - kc.value.lower
+
+          return [
+            { channel: channelState, squeezeOn: Option.some(squeezeOn), squeezeBars },
+            State.make({
+              id: config.id,
+              name: "Squeeze",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: kcWidth === 0 ? 0 : (bb.upper - bb.lower) / kcWidth,
+              metadata: {
+                period: config.period,
+                squeezeOn,
+                // Without a previous update nothing can have released
+                previousSqueezeOn: Option.getOrElse(state.squeezeOn, () => squeezeOn),
+                squeezeBars: squeezeOn ? squeezeBars : state.squeezeBars,
+                momentum: bar.close - bb.middle,
+                bbUpper: bb.upper,
+                bbLower: bb.lower,
+                bandwidth: bb.bandwidth,
+                kcUpper: kc.value.upper,
+                kcLower: kc.value.lower,
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<SqueezeOutput>) =>
+    Effect.gen(function* () {
+      const { momentum, squeezeBars } = state.metadata
+      const timestamp = state.lastUpdate
+
+      // The longer the squeeze, the stronger the release
+      const strength = Math.min(1, 0.5 + squeezeBars / (2 * config.period))
+      const reason = `after ${squeezeBars} bars, momentum ${momentum.toFixed(2)}`
+
+      if (isReleased(state) && momentum > 0) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Squeeze fired upward ${reason}`,
+        })
+      } else if (isReleased(state) && momentum < 0) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Squeeze fired downward ${reason}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<SqueezeOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const bandwidth = state.metadata.bandwidth
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => bandwidth > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Squeeze indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Squeeze from "@/indicators/Squeeze"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Squeeze.SqueezeConfig, {
+ *   id: "squeeze-20-1m",
+ *   symbol: "AAPL",
+ *   period: 20,
+ *   bbMultiplier: 2,
+ *   kcMultiplier: 1.5,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Squeeze.SqueezeIndicatorLive, config)
+ */
+export const SqueezeIndicatorLive = Layer.effect(SqueezeIndicator, Effect.map(SqueezeConfig, make))
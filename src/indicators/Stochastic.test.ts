@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test"
+import * as Stochastic from "./Stochastic"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const stochastic = Stochastic.make({
+  id: "stoch-3-2-1m",
+  symbol: "AAPL",
+  period: 3,
+  dPeriod: 2,
+  oversold: 20,
+  overbought: 80,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(stochastic.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), stochastic.signal))
+
+// Closes at the lows for five bars, then turns up off the bottom
+const selloff = [
+  { high: 110, low: 105, close: 105 },
+  { high: 106, low: 100, close: 100 },
+  { high: 101, low: 95, close: 95 },
+  { high: 96, low: 90, close: 90 },
+  { high: 91, low: 88, close: 88 },
+  { high: 89, low: 86, close: 88 },
+]
+// The same bars upside down
+const rally = selloff.map((bar) => ({
+  high: 200 - bar.low,
+  low: 200 - bar.high,
+  close: 200 - bar.close,
+}))
+
+describe("Stochastic", () => {
+  it("should emit once %D has warmed up", () => {
+    // period + dPeriod - 1 = 4 bars before the first state
+    expect(states(selloff).length).toBe(3)
+  })
+
+  it("should locate the close within the high/low range of the period", () => {
+    const last = states(selloff).at(-1)!
+
+    expect(last.metadata["highestHigh"]).toBe(96)
+    expect(last.metadata["lowestLow"]).toBe(86)
+    expect(last.value).toBeCloseTo(20)
+    expect(last.metadata["percentD"]).toBeCloseTo(10)
+  })
+
+  it("should signal buy when %K crosses above %D while oversold", () => {
+    const found = signals(selloff)
+
+    expect(found.slice(0, -1).every(Indicator.isHold)).toBe(true)
+    expect(Indicator.isBuy(found.at(-1)!)).toBe(true)
+  })
+
+  it("should signal sell when %K crosses below %D while overbought", () => {
+    const found = signals(rally)
+
+    expect(states(rally).at(-1)!.value).toBeCloseTo(80)
+    expect(found.slice(0, -1).every(Indicator.isHold)).toBe(true)
+    expect(Indicator.isSell(found.at(-1)!)).toBe(true)
+  })
+})
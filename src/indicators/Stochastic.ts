@@ -0,0 +1,266 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Stochastic oscillator indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface StochasticConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // %K lookback in bars, default 14
+  readonly dPeriod: number // %D smoothing of %K, default 3
+  readonly oversold: number // Default 20
+  readonly overbought: number // Default 80
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Stochastic indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const StochasticConfig = Context.GenericTag<StochasticConfig>(
+  "@indicators/config/Stochastic"
+)
+
+/**
+ * Outputs of the Stochastic indicator. %K is emitted as `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const StochasticOutput = Schema.Struct({
+  period: Schema.Number,
+  dPeriod: Schema.Number,
+  percentD: Schema.Number.pipe(Indicator.label("%D")),
+  previousK: Schema.Number,
+  previousD: Schema.Number,
+  highestHigh: Schema.Number.pipe(Indicator.label("High")),
+  lowestLow: Schema.Number.pipe(Indicator.label("Low")),
+  oversold: Schema.Number,
+  overbought: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type StochasticOutput = Schema.Schema.Type<typeof StochasticOutput>
+
+const State = Indicator.stateSchema(StochasticOutput)
+
+/**
+ * Stochastic oscillator indicator service.
+ *
+ * Rolls trades into bars and locates each close within the high/low range of
+ * the last `period` bars. %K ranges from 0 (at the lowest low) to 100 (at the
+ * highest high) and %D is its simple moving average. Emits %K as `value`, with
+ * %D in `metadata`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Stochastic from "@/indicators/Stochastic"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const stochastic = yield* Stochastic.StochasticIndicator
+ *   yield* Stream.runForEach(stochastic.process(tradeStream), (state) =>
+ *     Console.log(`%K ${state.value.toFixed(2)} %D ${state.metadata.percentD}`)
+ *   )
+ * })
+ */
+export class StochasticIndicator extends Context.Tag("@indicators/Stochastic")<
+  StochasticIndicator,
+  Indicator.Indicator<StochasticOutput>
+>() {}
+
+/**
+ * Internal state for Stochastic calculation.
+ */
+interface StochasticState {
+  readonly highs: ReadonlyArray<number>
+  readonly lows: ReadonlyArray<number>
+  readonly kValues: ReadonlyArray<number>
+  readonly previous: Option.Option<{ readonly k: number; readonly d: number }>
+}
+
+/**
+ * Where a close sits within a high/low range, from 0 to 100. A flat range
+ * puts it in the middle.
+ */
+const percentK = (close: number, highestHigh: number, lowestLow: number): number =>
+  highestHigh === lowestLow ? 50 : ((close - lowestLow) / (highestHigh - lowestLow)) * 100
+
+/**
+ * Create a Stochastic indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. States are emitted once `period + dPeriod - 1` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: StochasticConfig): Indicator.Indicator<StochasticOutput> => ({
+  id: config.id,
+  name: "Stochastic",
+  output: StochasticOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<StochasticState, Bar.Bar, Indicator.IndicatorState<StochasticOutput> | null>(
+        { highs: [], lows: [], kValues: [], previous: Option.none() },
+        (state, bar) => {
+          const highs = [...state.highs, bar.high].slice(-config.period)
+          const lows = [...state.lows, bar.low].slice(-config.period)
+
+          if (highs.length < config.period) {
+            return [{ ...state, highs, lows }, null]
+          }
+
+          const highestHigh = Math.max(...highs)
+          const lowestLow = Math.min(...lows)
+          const k = percentK(bar.close, highestHigh, lowestLow)
+          const kValues = [...state.kValues, k].slice(-config.dPeriod)
+
+          if (kValues.length < config.dPeriod) {
+            return [{ ...state, highs, lows, kValues }, null]
+          }
+
+          const d = kValues.reduce((sum, value) => sum + value, 0) / kValues.length
+          const newState: StochasticState = {
+            highs,
+            lows,
+            kValues,
+            previous: Option.some({ k, d }),
+          }
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "Stochastic",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: k,
+              metadata: {
+                period: config.period,
+                dPeriod: config.dPeriod,
+                percentD: d,
+                // Without a previous update nothing can have crossed
+                previousK: Option.getOrElse(
+                  Option.map(state.previous, (p) => p.k),
+                  () => k
+                ),
+                previousD: Option.getOrElse(
+                  Option.map(state.previous, (p) => p.d),
+                  () => d
+                ),
+                highestHigh,
+                lowestLow,
+                oversold: config.oversold,
+                overbought: config.overbought,
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<StochasticOutput>) =>
+    Effect.gen(function* () {
+      const k = state.value
+      const d = state.metadata.percentD
+      const previousK = state.metadata.previousK
+      const previousD = state.metadata.previousD
+      const oversold = state.metadata.oversold
+      const overbought = state.metadata.overbought
+      const timestamp = state.lastUpdate
+
+      // Only crossovers inside the extreme zones count
+      if (previousK <= previousD && k > d && d < oversold) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: Math.min(1, 0.5 + (oversold - d) / oversold / 2),
+          timestamp,
+          reason: `%K ${k.toFixed(2)} crossed above %D ${d.toFixed(2)} while oversold (threshold: ${oversold})`,
+        })
+      } else if (previousK >= previousD && k < d && d > overbought) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: Math.min(1, 0.5 + (d - overbought) / (100 - overbought) / 2),
+          timestamp,
+          reason: `%K ${k.toFixed(2)} crossed below %D ${d.toFixed(2)} while overbought (threshold: ${overbought})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<StochasticOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Stochastic indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Stochastic from "@/indicators/Stochastic"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(Stochastic.StochasticConfig, {
+ *   id: "stoch-14-3-1m",
+ *   symbol: "AAPL",
+ *   period: 14,
+ *   dPeriod: 3,
+ *   oversold: 20,
+ *   overbought: 80,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(Stochastic.StochasticIndicatorLive, config)
+ */
+export const StochasticIndicatorLive = Layer.effect(
+  StochasticIndicator,
+  Effect.map(StochasticConfig, make)
+)
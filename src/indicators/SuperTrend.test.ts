@@ -0,0 +1,81 @@
+import { describe, it, expect } from "bun:test"
+import * as SuperTrend from "./SuperTrend"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const superTrend = SuperTrend.make({
+  id: "supertrend-3-1",
+  symbol: "AAPL",
+  period: 3,
+  multiplier: 1,
+  bars: Bar.time("1 minute"),
+})
+
+const states = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(superTrend.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const signals = (bars: Parameters<typeof mockBarTrades>[0]) =>
+  Effect.runSync(Effect.forEach(states(bars), superTrend.signal))
+
+// Dips, gaps up through the upper band, then falls through the lower one
+const swing = [
+  { high: 102, low: 100, close: 101 },
+  { high: 104, low: 101, close: 103 },
+  { high: 103, low: 99, close: 100 },
+  { high: 108, low: 102, close: 107 },
+  { high: 107, low: 104, close: 105 },
+  { high: 103, low: 98, close: 99 },
+]
+
+describe("SuperTrend", () => {
+  it("should emit once the ATR is seeded, trailing the band beyond the trend", () => {
+    const first = states(swing)[0]
+
+    // ATR 3 around a midpoint of 101; the close is below the midpoint
+    expect(first.value).toBe(104)
+    expect(first.metadata).toMatchObject({
+      stop: 104,
+      trend: "down",
+      previousTrend: "down",
+      upperBand: 104,
+      lowerBand: 98,
+      atr: 3,
+    })
+  })
+
+  it("should only loosen a band once the close has broken through it", () => {
+    const result = states(swing)
+
+    // The upper band holds at 104 while the close breaks it, and only resets after
+    expect(result[1].metadata.upperBand).toBe(104)
+    expect(result[1].metadata.trend).toBe("up")
+    expect(result[1].value).toBeCloseTo(100.3333, 4)
+    expect(result[2].metadata.upperBand).toBeCloseTo(109.6111, 4)
+    expect(result[2].value).toBeCloseTo(101.3889, 4)
+    // The lower band does not drop with the wider ATR
+    expect(result[3].metadata.lowerBand).toBeCloseTo(101.3889, 4)
+    expect(result[3].metadata.trend).toBe("down")
+    expect(result[3].value).toBeCloseTo(105.5741, 4)
+  })
+
+  it("should signal on flips only", () => {
+    expect(signals(swing).map((s) => s._tag)).toEqual(["hold", "buy", "hold", "sell"])
+  })
+
+  it("should trigger priceAbove/priceBelow on the price", () => {
+    const last = states(swing).at(-1)!
+    const check = (condition: Indicator.TriggerCondition) =>
+      Effect.runSync(superTrend.checkTrigger(last, condition))
+
+    // Close 99
+    expect(check(Indicator.PriceBelow.make({ threshold: 100 }))).toBe(true)
+    expect(check(Indicator.PriceAbove.make({ threshold: 100 }))).toBe(false)
+    expect(check(Indicator.PriceAbove.make({ threshold: 98 }))).toBe(true)
+  })
+})
@@ -0,0 +1,305 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+import * as ATR from "./ATR"
+import * as ParabolicSAR from "./ParabolicSAR"
+
+/**
+ * SuperTrend indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SuperTrendConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // ATR period in bars, default 10
+  readonly multiplier: number // ATRs between the bar midpoint and the stop, default 3
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for SuperTrend indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const SuperTrendConfig = Context.GenericTag<SuperTrendConfig>(
+  "@indicators/config/SuperTrend"
+)
+
+/**
+ * Outputs of the SuperTrend indicator. The stop level is also emitted as
+ * `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const SuperTrendOutput = Schema.Struct({
+  period: Schema.Number,
+  multiplier: Schema.Number,
+  stop: Schema.Number.pipe(Indicator.label("Stop")),
+  trend: ParabolicSAR.Trend.pipe(Indicator.label("Trend")),
+  previousTrend: ParabolicSAR.Trend,
+  upperBand: Schema.Number,
+  lowerBand: Schema.Number,
+  atr: Schema.Number.pipe(Indicator.label("ATR")),
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type SuperTrendOutput = Schema.Schema.Type<typeof SuperTrendOutput>
+
+const State = Indicator.stateSchema(SuperTrendOutput)
+
+/**
+ * SuperTrend indicator service.
+ *
+ * Rolls trades into bars and draws bands `multiplier` ATRs above and below
+ * each bar's midpoint. The bands only ever tighten while price stays between
+ * them, so the one on the far side of the trend acts as a trailing stop: the
+ * lower band in an uptrend, the upper band in a downtrend. A close through the
+ * stop flips the trend and raises a Buy or Sell signal.
+ *
+ * The stop level is emitted as `value`, so a trigger tests it by comparing
+ * the price with the indicator, e.g.
+ * `Trigger.compare(Trigger.price("AAPL"), "<", Trigger.value("supertrend-10-3-1m"))`.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as SuperTrend from "@/indicators/SuperTrend"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const superTrend = yield* SuperTrend.SuperTrendIndicator
+ *   yield* Stream.runForEach(superTrend.process(tradeStream), (state) =>
+ *     Console.log(`${state.metadata.trend}trend, stop at ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class SuperTrendIndicator extends Context.Tag("@indicators/SuperTrend")<
+  SuperTrendIndicator,
+  Indicator.Indicator<SuperTrendOutput>
+>() {}
+
+/**
+ * Final bands and trend as of the last bar.
+ */
+interface Bands {
+  readonly upper: number
+  readonly lower: number
+  readonly trend: ParabolicSAR.Trend
+}
+
+/**
+ * Internal state for SuperTrend calculation.
+ */
+interface SuperTrendState {
+  readonly trueRanges: ReadonlyArray<number>
+  readonly atr: Option.Option<number>
+  readonly previousClose: Option.Option<number>
+  readonly bands: Option.Option<Bands>
+}
+
+/**
+ * Tighten the previous bands towards this bar's basic bands and follow the
+ * close through them. The first bar's trend is the side of the midpoint it
+ * closed on.
+ */
+const nextBands = (
+  previous: Option.Option<Bands>,
+  previousClose: number,
+  bar: Bar.Bar,
+  basicUpper: number,
+  basicLower: number
+): Bands =>
+  Option.match(previous, {
+    onNone: () => ({
+      upper: basicUpper,
+      lower: basicLower,
+      trend: bar.close >= (bar.high + bar.low) / 2 ? "up" : "down",
+    }),
+    onSome: (prev) => {
+      // A band only widens again once the close has broken through it
+      const upper = basicUpper < prev.upper || previousClose > prev.upper ? basicUpper : prev.upper
+      const lower = basicLower > prev.lower || previousClose < prev.lower ? basicLower : prev.lower
+      const trend =
+        prev.trend === "up"
+          ? bar.close < lower
+            ? "down"
+            : "up"
+          : bar.close > upper
+            ? "up"
+            : "down"
+
+      return { upper, lower, trend }
+    },
+  })
+
+/**
+ * Create a SuperTrend indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. The ATR is seeded with the mean of the first `period` true ranges
+ * and then uses Wilder smoothing, so states are emitted once `period` bars
+ * have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: SuperTrendConfig): Indicator.Indicator<SuperTrendOutput> => ({
+  id: config.id,
+  name: "SuperTrend",
+  output: SuperTrendOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<SuperTrendState, Bar.Bar, Indicator.IndicatorState<SuperTrendOutput> | null>(
+        {
+          trueRanges: [],
+          atr: Option.none(),
+          previousClose: Option.none(),
+          bands: Option.none(),
+        },
+        (state, bar) => {
+          const tr = ATR.trueRange(bar, state.previousClose)
+          const trueRanges = [...state.trueRanges, tr].slice(-config.period)
+          const atr = Option.match(state.atr, {
+            onNone: () =>
+              trueRanges.length >= config.period
+                ? Option.some(trueRanges.reduce((sum, v) => sum + v, 0) / config.period)
+                : Option.none(),
+            onSome: (previous) => Option.some(ATR.wilderStep(previous, tr, config.period)),
+          })
+
+          if (Option.isNone(atr)) {
+            return [{ ...state, trueRanges, previousClose: Option.some(bar.close) }, null]
+          }
+
+          const midpoint = (bar.high + bar.low) / 2
+          const bands = nextBands(
+            state.bands,
+            Option.getOrElse(state.previousClose, () => bar.close),
+            bar,
+            midpoint + config.multiplier * atr.value,
+            midpoint - config.multiplier * atr.value
+          )
+          const stop = bands.trend === "up" ? bands.lower : bands.upper
+
+          return [
+            { trueRanges, atr, previousClose: Option.some(bar.close), bands: Option.some(bands) },
+            State.make({
+              id: config.id,
+              name: "SuperTrend",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: stop,
+              metadata: {
+                period: config.period,
+                multiplier: config.multiplier,
+                stop,
+                trend: bands.trend,
+                // Without a previous update nothing can have flipped
+                previousTrend: Option.getOrElse(
+                  Option.map(state.bands, (b) => b.trend),
+                  () => bands.trend
+                ),
+                upperBand: bands.upper,
+                lowerBand: bands.lower,
+                atr: atr.value,
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<SuperTrendOutput>) =>
+    Effect.gen(function* () {
+      const { stop, trend, previousTrend, currentPrice } = state.metadata
+      const timestamp = state.lastUpdate
+
+      // Flips need a close through an ATR band, so they whipsaw less than SAR
+      if (trend === "up" && previousTrend === "down") {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: 0.8,
+          timestamp,
+          reason: `SuperTrend flipped to an uptrend at ${currentPrice.toFixed(2)}, stop ${stop.toFixed(2)}`,
+        })
+      } else if (trend === "down" && previousTrend === "up") {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: 0.8,
+          timestamp,
+          reason: `SuperTrend flipped to a downtrend at ${currentPrice.toFixed(2)}, stop ${stop.toFixed(2)}`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<SuperTrendOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const { currentPrice, atr } = state.metadata
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        // ATR as a percentage of price
+        volatilityAbove: (c) => currentPrice > 0 && (atr / currentPrice) * 100 > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the SuperTrend indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as SuperTrend from "@/indicators/SuperTrend"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(SuperTrend.SuperTrendConfig, {
+ *   id: "supertrend-10-3-1m",
+ *   symbol: "AAPL",
+ *   period: 10,
+ *   multiplier: 3,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(SuperTrend.SuperTrendIndicatorLive, config)
+ */
+export const SuperTrendIndicatorLive = Layer.effect(
+  SuperTrendIndicator,
+  Effect.map(SuperTrendConfig, make)
+)
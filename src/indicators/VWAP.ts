@@ -3,6 +3,7 @@ import * as Effect from "effect/Effect"
 import * as Stream from "effect/Stream"
 import * as Layer from "effect/Layer"
 import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
 import * as DateTime from "effect/DateTime"
 import { pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
@@ -28,6 +29,25 @@ export interface VWAPConfig {
  */
 export const VWAPConfig = Context.GenericTag<VWAPConfig>("@indicators/config/VWAP")
 
+/**
+ * Outputs of the VWAP indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const VWAPOutput = Schema.Struct({
+  cumulativeVolume: Schema.Number.pipe(Indicator.label("Volume")),
+  currentPrice: Schema.Number,
+  currentVolume: Schema.Number,
+  deviation: Schema.Number.pipe(Indicator.label("Dev%")),
+  resetDaily: Schema.Boolean,
+  tradingDate: Schema.String,
+})
+
+export type VWAPOutput = Schema.Schema.Type<typeof VWAPOutput>
+
+const State = Indicator.stateSchema(VWAPOutput)
+
 /**
  * VWAP indicator service.
  *
@@ -56,7 +76,7 @@ export const VWAPConfig = Context.GenericTag<VWAPConfig>("@indicators/config/VWA
  */
 export class VWAPIndicator extends Context.Tag("@indicators/VWAP")<
   VWAPIndicator,
-  Indicator.Indicator
+  Indicator.Indicator<VWAPOutput>
 >() {}
 
 /**
@@ -79,6 +99,131 @@ const getDateString = (timestamp: number): string => {
   return date.toISOString().split("T")[0]
 }
 
+/**
+ * Create a VWAP indicator instance from its configuration.
+ *
+ * A state is emitted for every trade. With `resetDaily` the sums start over on
+ * the first trade of each UTC day.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: VWAPConfig): Indicator.Indicator<VWAPOutput> => ({
+  id: config.id,
+  name: "VWAP",
+  output: VWAPOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<VWAPState, Trade.TradeData, Indicator.IndicatorState<VWAPOutput>>(
+        {
+          cumulativePV: 0,
+          cumulativeVolume: 0,
+          lastResetDate: "",
+        },
+        (state, trade) => {
+          const currentDate = getDateString(trade.timestamp)
+
+          // Check if we need to reset for new day
+          const shouldReset =
+            config.resetDaily && state.lastResetDate !== "" && currentDate !== state.lastResetDate
+
+          let cumulativePV: number
+          let cumulativeVolume: number
+
+          if (shouldReset) {
+            // Reset for new trading day
+            cumulativePV = trade.price * trade.volume
+            cumulativeVolume = trade.volume
+          } else {
+            // Accumulate
+            cumulativePV = state.cumulativePV + trade.price * trade.volume
+            cumulativeVolume = state.cumulativeVolume + trade.volume
+          }
+
+          const vwap = cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : trade.price
+
+          const newState = {
+            cumulativePV,
+            cumulativeVolume,
+            lastResetDate: currentDate,
+          }
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "VWAP",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(trade.timestamp),
+              value: vwap,
+              metadata: {
+                cumulativeVolume,
+                currentPrice: trade.price,
+                currentVolume: trade.volume,
+                deviation: ((trade.price - vwap) / vwap) * 100,
+                resetDaily: config.resetDaily,
+                tradingDate: currentDate,
+              },
+            }),
+          ]
+        }
+      )
+    ),
+
+  signal: (state: Indicator.IndicatorState<VWAPOutput>) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const vwap = state.value
+      const deviation = state.metadata.deviation
+      const timestamp = state.lastUpdate
+
+      if (currentPrice > vwap * 1.015) {
+        // Price 1.5% above VWAP - bullish
+        const strength = Math.min(1, Math.abs(deviation) / 5)
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} above VWAP ${vwap.toFixed(2)} (${deviation.toFixed(2)}%)`,
+        })
+      } else if (currentPrice < vwap * 0.985) {
+        // Price 1.5% below VWAP - bearish
+        const strength = Math.min(1, Math.abs(deviation) / 5)
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} below VWAP ${vwap.toFixed(2)} (${deviation.toFixed(2)}%)`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<VWAPOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const currentVolume = state.metadata.currentVolume
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volumeAbove: (c) => currentVolume > c.threshold,
+        crossOver: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
 /**
  * Layer that provides the VWAP indicator service.
  *
@@ -96,123 +241,4 @@ const getDateString = (timestamp: number): string => {
  *
  * const MainLive = Layer.provide(VWAP.VWAPIndicatorLive, config)
  */
-export const VWAPIndicatorLive = Layer.effect(
-  VWAPIndicator,
-  Effect.gen(function* () {
-    const config = yield* VWAPConfig
-
-    return VWAPIndicator.of({
-      id: config.id,
-      name: "VWAP",
-
-      process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
-        pipe(
-          trades,
-          Stream.filter((t) => t.symbol === config.symbol),
-          Stream.mapAccum<VWAPState, Trade.TradeData, Indicator.IndicatorState>(
-            {
-              cumulativePV: 0,
-              cumulativeVolume: 0,
-              lastResetDate: "",
-            },
-            (state, trade) => {
-              const currentDate = getDateString(trade.timestamp)
-
-              // Check if we need to reset for new day
-              const shouldReset =
-                config.resetDaily &&
-                state.lastResetDate !== "" &&
-                currentDate !== state.lastResetDate
-
-              let cumulativePV: number
-              let cumulativeVolume: number
-
-              if (shouldReset) {
-                // Reset for new trading day
-                cumulativePV = trade.price * trade.volume
-                cumulativeVolume = trade.volume
-              } else {
-                // Accumulate
-                cumulativePV = state.cumulativePV + trade.price * trade.volume
-                cumulativeVolume = state.cumulativeVolume + trade.volume
-              }
-
-              const vwap = cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : trade.price
-
-              const newState = {
-                cumulativePV,
-                cumulativeVolume,
-                lastResetDate: currentDate,
-              }
-
-              return [
-                newState,
-                Indicator.IndicatorState.make({
-                  id: config.id,
-                  name: "VWAP",
-                  symbol: config.symbol,
-                  lastUpdate: DateTime.unsafeNow(),
-                  value: vwap,
-                  metadata: {
-                    cumulativeVolume,
-                    currentPrice: trade.price,
-                    currentVolume: trade.volume,
-                    deviation: ((trade.price - vwap) / vwap) * 100,
-                    resetDaily: config.resetDaily,
-                    tradingDate: currentDate,
-                  },
-                }),
-              ]
-            }
-          )
-        ),
-
-      signal: (state: Indicator.IndicatorState) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const vwap = state.value
-          const deviation = state.metadata["deviation"] as number
-          const timestamp = state.lastUpdate
-
-          if (currentPrice > vwap * 1.015) {
-            // Price 1.5% above VWAP - bullish
-            const strength = Math.min(1, Math.abs(deviation) / 5)
-            return Indicator.Buy.make({
-              _tag: "buy",
-              strength,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} above VWAP ${vwap.toFixed(2)} (${deviation.toFixed(2)}%)`,
-            })
-          } else if (currentPrice < vwap * 0.985) {
-            // Price 1.5% below VWAP - bearish
-            const strength = Math.min(1, Math.abs(deviation) / 5)
-            return Indicator.Sell.make({
-              _tag: "sell",
-              strength,
-              timestamp,
-              reason: `Price ${currentPrice.toFixed(2)} below VWAP ${vwap.toFixed(2)} (${deviation.toFixed(2)}%)`,
-            })
-          } else {
-            return Indicator.Hold.make({
-              _tag: "hold",
-              timestamp,
-            })
-          }
-        }),
-
-      checkTrigger: (state: Indicator.IndicatorState, condition: Indicator.TriggerCondition) =>
-        Effect.gen(function* () {
-          const currentPrice = state.metadata["currentPrice"] as number
-          const currentVolume = state.metadata["currentVolume"] as number
-
-          return Indicator.matchCondition(condition, {
-            priceAbove: (c) => currentPrice > c.threshold,
-            priceBelow: (c) => currentPrice < c.threshold,
-            volumeAbove: (c) => currentVolume > c.threshold,
-            crossOver: () => false,
-            volatilityAbove: () => false,
-          })
-        }),
-    })
-  })
-)
+export const VWAPIndicatorLive = Layer.effect(VWAPIndicator, Effect.map(VWAPConfig, make))
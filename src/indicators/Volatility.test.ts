@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test"
+import * as Vol from "./Volatility"
+import * as ATR from "./ATR"
+import * as Bar from "../domain/Bar"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades, mockTradesWithPrices } from "../test-utils/fixtures"
+import type * as Trade from "../domain/Trade"
+import type * as Indicator from "../domain/Indicator"
+
+const volatility = (method: Vol.VolatilityConfig["method"]) =>
+  Vol.make({
+    id: `vol-3-${method}`,
+    symbol: "AAPL",
+    period: 3,
+    method,
+    highVolatilityThreshold: 30,
+    bars: Bar.time("1 minute"),
+  })
+
+const states = <Output extends Indicator.IndicatorOutput>(
+  indicator: Indicator.Indicator<Output>,
+  trades: ReadonlyArray<Trade.TradeData>
+) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(indicator.process(Stream.fromIterable(trades))))
+  )
+
+const bars = [
+  { high: 102, low: 100, close: 101 },
+  { high: 104, low: 101, close: 103 },
+  { high: 103, low: 99, close: 100 },
+  { high: 108, low: 102, close: 107 },
+  { high: 107, low: 105, close: 106 },
+]
+
+describe("Volatility", () => {
+  it("should keep measuring stdDev from trade-to-trade returns", () => {
+    const result = states(volatility("stdDev"), mockTradesWithPrices([100, 101, 99, 102, 100]))
+
+    // One state per trade once `period` returns were seen
+    expect(result.length).toBe(2)
+    expect(result[0].metadata["method"]).toBe("stdDev")
+  })
+
+  it("should compute ATR from bar high/low as a percentage of the close", () => {
+    const fromVolatility = states(volatility("atr"), mockBarTrades(bars))
+    const fromATR = states(
+      ATR.make({
+        id: "atr-3",
+        symbol: "AAPL",
+        period: 3,
+        bars: Bar.time("1 minute"),
+        breakoutMultiplier: 2,
+      }),
+      mockBarTrades(bars)
+    )
+
+    expect(fromVolatility.length).toBe(3)
+    fromVolatility.forEach((state, i) =>
+      expect(state.value).toBeCloseTo(fromATR[i].metadata["atrPercent"] as number)
+    )
+  })
+
+  it("should annualize the Parkinson estimate over the bar interval", () => {
+    const flat = Array.from({ length: 4 }, () => ({ high: 101, low: 100, close: 100.5 }))
+    const perBar = Math.pow(Math.log(1.01), 2) / (4 * Math.LN2)
+    const minutesPerYear = 252 * 24 * 60
+
+    const minute = states(volatility("parkinson"), mockBarTrades(flat))
+    const hourly = states(
+      Vol.make({
+        id: "vol-3-parkinson-1h",
+        symbol: "AAPL",
+        period: 3,
+        method: "parkinson",
+        highVolatilityThreshold: 30,
+        bars: Bar.time("1 hour"),
+      }),
+      mockBarTrades(flat, 3_600_000)
+    )
+
+    expect(minute.length).toBe(2)
+    expect(minute[0].value).toBeCloseTo(Math.sqrt(perBar * minutesPerYear) * 100)
+    expect(hourly[0].value).toBeCloseTo(Math.sqrt((perBar * minutesPerYear) / 60) * 100)
+    expect(minute[0].metadata["volatilityChange"]).toBeCloseTo(0)
+  })
+
+  it("should ignore close-to-close moves in the Parkinson estimate", () => {
+    const swings = bars.map((bar, i) => ({
+      high: 101 * (1 + i),
+      low: 100 * (1 + i),
+      close: 100.5 * (1 + i),
+    }))
+    const values = states(volatility("parkinson"), mockBarTrades(swings)).map((s) => s.value)
+
+    expect(values.every((value) => Math.abs(value - values[0]) < 1e-9)).toBe(true)
+  })
+})
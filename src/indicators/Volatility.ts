@@ -4,11 +4,14 @@ import * as Stream from "effect/Stream"
 import * as Layer from "effect/Layer"
 import * as Array from "effect/Array"
 import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
 import * as DateTime from "effect/DateTime"
 import * as Duration from "effect/Duration"
 import { pipe } from "effect/Function"
 import * as Indicator from "../domain/Indicator"
 import * as Trade from "../domain/Trade"
+import * as Bar from "../domain/Bar"
+import * as ATR from "./ATR"
 
 /**
  * Number of trading days in a typical year.
@@ -40,6 +43,7 @@ export interface VolatilityConfig {
   readonly period: number
   readonly method: "stdDev" | "atr" | "parkinson" // Different volatility calculation methods
   readonly highVolatilityThreshold: number // Percentage threshold for high volatility
+  readonly bars?: Bar.BarSpec // Bars for "atr" and "parkinson", default 1 minute
 }
 
 /**
@@ -52,13 +56,35 @@ export const VolatilityConfig = Context.GenericTag<VolatilityConfig>(
   "@indicators/config/Volatility"
 )
 
+/**
+ * Outputs of the Volatility indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const VolatilityOutput = Schema.Struct({
+  period: Schema.Number,
+  method: Schema.Literal("stdDev", "atr", "parkinson").pipe(Indicator.label("Method")),
+  currentPrice: Schema.Number,
+  recentVolatility: Schema.Number.pipe(Indicator.label("Recent")),
+  volatilityChange: Schema.Number.pipe(Indicator.label("Chg%")),
+  threshold: Schema.Number,
+})
+
+export type VolatilityOutput = Schema.Schema.Type<typeof VolatilityOutput>
+
+const State = Indicator.stateSchema(VolatilityOutput)
+
 /**
  * Volatility indicator service.
  *
  * Measures price volatility using various methods:
- * - stdDev: Standard deviation of returns
- * - atr: Average True Range (requires high/low data)
- * - parkinson: Parkinson's historical volatility
+ * - stdDev: Annualized standard deviation of trade-to-trade returns
+ * - atr: Average True Range of bars, as a percentage of the close
+ * - parkinson: Annualized Parkinson estimate from bar high/low ranges
+ *
+ * "atr" and "parkinson" roll trades into `bars` first, since single trades
+ * have no high or low.
  *
  * @category Services
  * @since 0.1.0
@@ -81,17 +107,32 @@ export const VolatilityConfig = Context.GenericTag<VolatilityConfig>(
  */
 export class VolatilityIndicator extends Context.Tag("@indicators/Volatility")<
   VolatilityIndicator,
-  Indicator.Indicator
+  Indicator.Indicator<VolatilityOutput>
 >() {}
 
 /**
- * Internal state for Volatility calculation.
+ * Internal state for Volatility calculation from trade returns.
  */
 interface VolatilityState {
   readonly prices: ReadonlyArray<number>
   readonly returns: ReadonlyArray<number>
 }
 
+/**
+ * Internal state for Volatility calculation from bars.
+ */
+interface BarVolatilityState {
+  readonly bars: ReadonlyArray<Bar.Bar>
+  readonly trueRanges: ReadonlyArray<number>
+  readonly atr: Option.Option<number>
+  readonly previousClose: Option.Option<number>
+}
+
+/**
+ * Bars used by "atr" and "parkinson" when the config names none.
+ */
+const DEFAULT_BARS = Bar.time("1 minute")
+
 /**
  * Calculate standard deviation volatility.
  *
@@ -117,6 +158,46 @@ const calculateStdDevVolatility = (returns: ReadonlyArray<number>): number => {
   return Math.sqrt(variance * TRADING_DAYS_PER_YEAR) * 100
 }
 
+/**
+ * Calculate Parkinson volatility: the variance of log returns estimated from
+ * each bar's high/low range, annualized over `barsPerYear`.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const calculateParkinsonVolatility = (
+  bars: ReadonlyArray<Bar.Bar>,
+  barsPerYear: number
+): number => {
+  if (bars.length === 0) return 0
+
+  const variance = pipe(
+    bars,
+    Array.reduce(0, (sum, bar) => sum + Math.pow(Math.log(bar.high / bar.low), 2)),
+    (sum) => sum / (4 * Math.LN2 * bars.length)
+  )
+
+  return Math.sqrt(variance * barsPerYear) * 100
+}
+
+/**
+ * Number of bars in a trading year. Tick, volume and dollar bars have no
+ * fixed duration, so like trade returns they are annualized as if each
+ * were a day.
+ */
+const barsPerYear = (spec: Bar.BarSpec): number =>
+  Bar.matchSpec(spec, {
+    TimeBars: ({ intervalMs }) => TRADING_YEAR_MS / intervalMs,
+    TickBars: () => TRADING_DAYS_PER_YEAR,
+    VolumeBars: () => TRADING_DAYS_PER_YEAR,
+    DollarBars: () => TRADING_DAYS_PER_YEAR,
+  })
+
+/**
+ * Express an average true range as a percentage of the close.
+ */
+const atrPercent = (atr: number, close: number): number => (close === 0 ? 0 : (atr / close) * 100)
+
 /**
  * Calculate simple return.
  *
@@ -128,6 +209,226 @@ const calculateReturn = (currentPrice: number, previousPrice: number): number =>
   return (currentPrice - previousPrice) / previousPrice
 }
 
+/**
+ * Build the emitted state, comparing the volatility of the most recent
+ * returns or bars to the full period.
+ */
+const toIndicatorState = (
+  config: VolatilityConfig,
+  volatility: number,
+  recentVol: number,
+  currentPrice: number,
+  timestamp: number
+): Indicator.IndicatorState<VolatilityOutput> =>
+  State.make({
+    id: config.id,
+    name: "Volatility",
+    symbol: config.symbol,
+    lastUpdate: DateTime.unsafeMake(timestamp),
+    value: volatility,
+    metadata: {
+      period: config.period,
+      method: config.method,
+      currentPrice,
+      recentVolatility: recentVol,
+      volatilityChange: volatility === 0 ? 0 : ((recentVol - volatility) / volatility) * 100,
+      threshold: config.highVolatilityThreshold,
+    },
+  })
+
+/**
+ * Standard deviation of the last `period` trade-to-trade returns.
+ */
+const processReturns = (
+  config: VolatilityConfig,
+  trades: Stream.Stream<Trade.TradeData, never, never>
+) =>
+  pipe(
+    trades,
+    Stream.filter((t) => t.symbol === config.symbol),
+    Stream.mapAccum<
+      VolatilityState,
+      Trade.TradeData,
+      Indicator.IndicatorState<VolatilityOutput> | null
+    >(
+      {
+        prices: [],
+        returns: [],
+      },
+      (state, trade) => {
+        const newPrices = [...state.prices, trade.price].slice(-config.period - 1)
+
+        let newReturns = state.returns
+
+        // Calculate return if we have at least 2 prices
+        if (newPrices.length >= 2) {
+          const ret = calculateReturn(
+            newPrices[newPrices.length - 1],
+            newPrices[newPrices.length - 2]
+          )
+          newReturns = [...state.returns, ret].slice(-config.period)
+        }
+
+        const newState = {
+          prices: newPrices,
+          returns: newReturns,
+        }
+
+        if (newReturns.length >= config.period) {
+          const volatility = calculateStdDevVolatility(newReturns)
+          const recentVol = calculateStdDevVolatility(newReturns.slice(-5))
+
+          return [
+            newState,
+            toIndicatorState(config, volatility, recentVol, trade.price, trade.timestamp),
+          ]
+        }
+
+        return [newState, null]
+      }
+    ),
+    Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+  )
+
+/**
+ * ATR or Parkinson volatility of the last `period` bars. Intervals without
+ * trades are skipped, so quiet periods do not dilute the estimate.
+ */
+const processBars = (
+  config: VolatilityConfig,
+  trades: Stream.Stream<Trade.TradeData, never, never>
+) => {
+  const spec = config.bars ?? DEFAULT_BARS
+  const perYear = barsPerYear(spec)
+
+  return pipe(
+    trades,
+    Stream.filter((t) => t.symbol === config.symbol),
+    Bar.aggregate(spec, { fillEmpty: false }),
+    Stream.mapAccum<BarVolatilityState, Bar.Bar, Indicator.IndicatorState<VolatilityOutput> | null>(
+      { bars: [], trueRanges: [], atr: Option.none(), previousClose: Option.none() },
+      (state, bar) => {
+        const tr = ATR.trueRange(bar, state.previousClose)
+        const bars = [...state.bars, bar].slice(-config.period)
+        const trueRanges = [...state.trueRanges, tr].slice(-config.period)
+        const atr = Option.match(state.atr, {
+          onNone: () =>
+            trueRanges.length >= config.period
+              ? Option.some(trueRanges.reduce((sum, r) => sum + r, 0) / config.period)
+              : Option.none(),
+          onSome: (previous) => Option.some(ATR.wilderStep(previous, tr, config.period)),
+        })
+
+        const newState: BarVolatilityState = {
+          bars,
+          trueRanges,
+          atr,
+          previousClose: Option.some(bar.close),
+        }
+
+        if (Option.isNone(atr)) {
+          return [newState, null]
+        }
+
+        if (config.method === "atr") {
+          const recent = trueRanges.slice(-5)
+          const recentAtr = recent.reduce((sum, r) => sum + r, 0) / recent.length
+          return [
+            newState,
+            toIndicatorState(
+              config,
+              atrPercent(atr.value, bar.close),
+              atrPercent(recentAtr, bar.close),
+              bar.close,
+              bar.end
+            ),
+          ]
+        }
+
+        return [
+          newState,
+          toIndicatorState(
+            config,
+            calculateParkinsonVolatility(bars, perYear),
+            calculateParkinsonVolatility(bars.slice(-5), perYear),
+            bar.close,
+            bar.end
+          ),
+        ]
+      }
+    ),
+    Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+  )
+}
+
+/**
+ * Create a volatility indicator instance from its configuration.
+ *
+ * "stdDev" emits once `period` returns were seen. "atr" and "parkinson" emit
+ * once `period` bars have closed, with bars built from trade timestamps.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: VolatilityConfig): Indicator.Indicator<VolatilityOutput> => ({
+  id: config.id,
+  name: "Volatility",
+  output: VolatilityOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    config.method === "stdDev" ? processReturns(config, trades) : processBars(config, trades),
+
+  signal: (state: Indicator.IndicatorState<VolatilityOutput>) =>
+    Effect.gen(function* () {
+      const volatility = state.value
+      const threshold = state.metadata.threshold
+      const volChange = state.metadata.volatilityChange
+      const timestamp = state.lastUpdate
+
+      if (volatility > threshold && volChange > 0) {
+        // High and increasing volatility - caution signal (sell)
+        const strength = Math.min(1, (volatility - threshold) / threshold)
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `High volatility ${volatility.toFixed(2)}% (threshold: ${threshold}%, change: +${volChange.toFixed(2)}%)`,
+        })
+      } else if (volatility < threshold * 0.5 && volChange < 0) {
+        // Low and decreasing volatility - potential accumulation (buy)
+        const strength = 0.4
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Low volatility ${volatility.toFixed(2)}% (threshold: ${threshold}%, change: ${volChange.toFixed(2)}%)`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<VolatilityOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const volatility = state.value
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volatilityAbove: (c) => volatility > c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+      })
+    }),
+})
+
 /**
  * Layer that provides the Volatility indicator service.
  *
@@ -149,135 +450,5 @@ const calculateReturn = (currentPrice: number, previousPrice: number): number =>
  */
 export const VolatilityIndicatorLive = Layer.effect(
   VolatilityIndicator,
-  Effect.gen(function* () {
-    const config = yield* VolatilityConfig
-
-    return VolatilityIndicator.of({
-      id: config.id,
-      name: "Volatility",
-
-      process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
-        pipe(
-          trades,
-          Stream.filter((t) => t.symbol === config.symbol),
-          Stream.mapAccum<VolatilityState, Trade.TradeData, Indicator.IndicatorState | null>(
-            {
-              prices: [],
-              returns: [],
-            },
-            (state, trade) => {
-              const newPrices = [...state.prices, trade.price].slice(-config.period - 1)
-
-              let newReturns = state.returns
-
-              // Calculate return if we have at least 2 prices
-              if (newPrices.length >= 2) {
-                const ret = calculateReturn(
-                  newPrices[newPrices.length - 1],
-                  newPrices[newPrices.length - 2]
-                )
-                newReturns = [...state.returns, ret].slice(-config.period)
-              }
-
-              const newState = {
-                prices: newPrices,
-                returns: newReturns,
-              }
-
-              if (newReturns.length >= config.period) {
-                let volatility: number
-
-                switch (config.method) {
-                  case "stdDev":
-                    volatility = calculateStdDevVolatility(newReturns)
-                    break
-                  case "atr":
-                    // Simplified ATR - would need high/low data for proper implementation
-                    volatility = calculateStdDevVolatility(newReturns)
-                    break
-                  case "parkinson":
-                    // Simplified Parkinson - would need high/low data for proper implementation
-                    volatility = calculateStdDevVolatility(newReturns) * 1.67
-                    break
-                }
-
-                // Calculate recent volatility change
-                const recentReturns = newReturns.slice(-5)
-                const recentVol = calculateStdDevVolatility(recentReturns)
-                const volChange = ((recentVol - volatility) / volatility) * 100
-
-                return [
-                  newState,
-                  Indicator.IndicatorState.make({
-                    id: config.id,
-                    name: "Volatility",
-                    symbol: config.symbol,
-                    lastUpdate: DateTime.unsafeNow(),
-                    value: volatility,
-                    metadata: {
-                      period: config.period,
-                      method: config.method,
-                      currentPrice: trade.price,
-                      recentVolatility: recentVol,
-                      volatilityChange: volChange,
-                      threshold: config.highVolatilityThreshold,
-                    },
-                  }),
-                ]
-              }
-
-              return [newState, null]
-            }
-          ),
-          Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
-        ),
-
-      signal: (state: Indicator.IndicatorState) =>
-        Effect.gen(function* () {
-          const volatility = state.value
-          const threshold = state.metadata["threshold"] as number
-          const volChange = state.metadata["volatilityChange"] as number
-          const timestamp = state.lastUpdate
-
-          if (volatility > threshold && volChange > 0) {
-            // High and increasing volatility - caution signal (sell)
-            const strength = Math.min(1, (volatility - threshold) / threshold)
-            return Indicator.Sell.make({
-              _tag: "sell",
-              strength,
-              timestamp,
-              reason: `High volatility ${volatility.toFixed(2)}% (threshold: ${threshold}%, change: +${volChange.toFixed(2)}%)`,
-            })
-          } else if (volatility < threshold * 0.5 && volChange < 0) {
-            // Low and decreasing volatility - potential accumulation (buy)
-            const strength = 0.4
-            return Indicator.Buy.make({
-              _tag: "buy",
-              strength,
-              timestamp,
-              reason: `Low volatility ${volatility.toFixed(2)}% (threshold: ${threshold}%, change: ${volChange.toFixed(2)}%)`,
-            })
-          } else {
-            return Indicator.Hold.make({
-              _tag: "hold",
-              timestamp,
-            })
-          }
-        }),
-
-      checkTrigger: (state: Indicator.IndicatorState, condition: Indicator.TriggerCondition) =>
-        Effect.gen(function* () {
-          const volatility = state.value
-          const currentPrice = state.metadata["currentPrice"] as number
-
-          return Indicator.matchCondition(condition, {
-            priceAbove: (c) => currentPrice > c.threshold,
-            priceBelow: (c) => currentPrice < c.threshold,
-            volatilityAbove: (c) => volatility > c.threshold,
-            crossOver: () => false,
-            volumeAbove: () => false,
-          })
-        }),
-    })
-  })
+  Effect.map(VolatilityConfig, make)
 )
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "bun:test"
+import * as VolumeProfile from "./VolumeProfile"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockTrade, makePrice, makeVolume, makeTimestamp } from "../test-utils/fixtures"
+
+const profile = VolumeProfile.make({
+  id: "vp-daily",
+  symbol: "AAPL",
+  tickSize: 0.5,
+  valueAreaPercent: 70,
+  resetDaily: true,
+})
+
+const trade = (price: number, volume: number, timestamp = 1_700_000_000_000) =>
+  mockTrade({
+    price: makePrice(price),
+    volume: makeVolume(volume),
+    timestamp: makeTimestamp(timestamp),
+  })
+
+const states = (trades: ReadonlyArray<ReturnType<typeof trade>>) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(profile.process(Stream.fromIterable(trades))))
+  )
+
+const level = (price: number, volume: number) => ({ price, volume })
+
+describe("VolumeProfile", () => {
+  it("should bucket volume into tick-sized price levels", () => {
+    const last = states([trade(100.1, 10), trade(99.9, 20), trade(100.6, 5), trade(101.2, 5)]).at(
+      -1
+    )!
+
+    expect(last.metadata.levels).toEqual([level(100, 30), level(100.5, 5), level(101, 5)])
+    expect(last.metadata.sessionVolume).toBe(40)
+    expect(last.value).toBe(100)
+  })
+
+  it("should grow the value area towards the busier neighbour", () => {
+    const area = VolumeProfile.valueArea(
+      [level(99, 5), level(99.5, 10), level(100, 40), level(100.5, 20), level(101, 25)],
+      70
+    )
+
+    // 40, then 20 above (60 of 100), then 25 above (85)
+    expect(area).toEqual({ pointOfControl: 100, low: 100, high: 101, volume: 85 })
+    expect(VolumeProfile.valueArea([level(100, 10)], 70)).toEqual({
+      pointOfControl: 100,
+      low: 100,
+      high: 100,
+      volume: 10,
+    })
+  })
+
+  it("should start a new profile every session", () => {
+    const result = states([trade(100, 50), trade(105, 10, 1_700_000_000_000 + 86_400_000)])
+
+    expect(result[1].value).toBe(105)
+    expect(result[1].metadata.sessionVolume).toBe(10)
+    expect(result[1].metadata.session).not.toBe(result[0].metadata.session)
+  })
+
+  it("should signal trades outside the value area", () => {
+    const result = states([trade(100, 80), trade(100.5, 10), trade(99.5, 10), trade(102, 10)])
+    const signals = Effect.runSync(Effect.forEach(result, profile.signal))
+
+    expect(result[3].metadata).toMatchObject({ valueAreaLow: 100, valueAreaHigh: 100 })
+    expect(signals.at(-1)!._tag).toBe("buy")
+    expect(Indicator.getStrength(signals.at(-1)!)).toBe(0.5)
+  })
+
+  it("should merge levels into histogram rows, keeping gaps", () => {
+    const rows = VolumeProfile.histogram(
+      [level(100, 10), level(100.5, 5), level(102, 20), level(103, 1)],
+      0.5,
+      4
+    )
+
+    expect(rows).toEqual([
+      { low: 100, high: 100.5, volume: 15 },
+      { low: 101, high: 101.5, volume: 0 },
+      { low: 102, high: 102.5, volume: 20 },
+      { low: 103, high: 103.5, volume: 1 },
+    ])
+  })
+
+  it("should recognise its states among other indicators' readings", () => {
+    const [state] = states([trade(100, 10)])
+
+    expect(VolumeProfile.isVolumeProfileState(state)).toBe(true)
+    expect(VolumeProfile.isVolumeProfileState({ ...state, metadata: { period: 20 } })).toBe(false)
+  })
+})
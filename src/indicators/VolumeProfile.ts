@@ -0,0 +1,367 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Volume profile indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface VolumeProfileConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly tickSize: number // Width of a price level, default 0.1
+  readonly valueAreaPercent: number // Share of session volume in the value area, default 70
+  readonly resetDaily: boolean // Start a new profile each (UTC) trading day
+}
+
+/**
+ * Configuration service for VolumeProfile indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const VolumeProfileConfig = Context.GenericTag<VolumeProfileConfig>(
+  "@indicators/config/VolumeProfile"
+)
+
+/**
+ * Volume traded at one price level.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const Level = Schema.Struct({
+  price: Schema.Number,
+  volume: Schema.Number,
+})
+
+export type Level = Schema.Schema.Type<typeof Level>
+
+/**
+ * Outputs of the VolumeProfile indicator. The point of control is emitted as
+ * `value`.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const VolumeProfileOutput = Schema.Struct({
+  tickSize: Schema.Number,
+  valueAreaPercent: Schema.Number,
+  valueAreaHigh: Schema.Number.pipe(Indicator.label("VAH")),
+  valueAreaLow: Schema.Number.pipe(Indicator.label("VAL")),
+  sessionVolume: Schema.Number.pipe(Indicator.label("Volume")),
+  // Every traded level of the session, by ascending price
+  levels: Schema.Array(Level),
+  session: Schema.String,
+  currentPrice: Schema.Number,
+  currentVolume: Schema.Number,
+})
+
+export type VolumeProfileOutput = Schema.Schema.Type<typeof VolumeProfileOutput>
+
+const State = Indicator.stateSchema(VolumeProfileOutput)
+
+const isVolumeProfileOutput = Schema.is(VolumeProfileOutput)
+
+/**
+ * Check whether an indicator state carries a volume profile, e.g. to pick the
+ * profiles out of IndicatorsState.
+ *
+ * @category Guards
+ * @since 0.5.0
+ */
+export const isVolumeProfileState = (
+  state: Indicator.IndicatorState
+): state is Indicator.IndicatorState<VolumeProfileOutput> => isVolumeProfileOutput(state.metadata)
+
+/**
+ * VolumeProfile indicator service.
+ *
+ * Buckets each session's traded volume by price level, `tickSize` wide. The
+ * level with the most volume is the point of control (POC), emitted as
+ * `value`; the value area spreads out from it level by level, always taking
+ * the busier neighbour, until it holds `valueAreaPercent` of the volume. Where
+ * VWAP weights one average price by volume, the profile keeps the whole
+ * distribution, so the POC and the value area high/low (VAH/VAL) serve as
+ * intraday support and resistance. Trading outside the value area signals
+ * in the direction of the move.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as VolumeProfile from "@/indicators/VolumeProfile"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const profile = yield* VolumeProfile.VolumeProfileIndicator
+ *   yield* Stream.runForEach(profile.process(tradeStream), (state) =>
+ *     Console.log(
+ *       `POC ${state.value}, value area ${state.metadata.valueAreaLow} - ${state.metadata.valueAreaHigh}`
+ *     )
+ *   )
+ * })
+ */
+export class VolumeProfileIndicator extends Context.Tag("@indicators/VolumeProfile")<
+  VolumeProfileIndicator,
+  Indicator.Indicator<VolumeProfileOutput>
+>() {}
+
+/**
+ * Point of control and value area of a profile.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface ValueArea {
+  readonly pointOfControl: number
+  readonly high: number
+  readonly low: number
+  readonly volume: number
+}
+
+/**
+ * Find the point of control and the value area of a non-empty profile.
+ *
+ * The POC is the busiest level (the lowest one on ties). The value area grows
+ * from it one level at a time towards whichever neighbour traded more (upward
+ * on ties) until it holds `percent` of the total volume.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const valueArea = (levels: ReadonlyArray<Level>, percent: number): ValueArea => {
+  const total = levels.reduce((sum, level) => sum + level.volume, 0)
+  const poc = levels.reduce((best, level, i) => (level.volume > levels[best].volume ? i : best), 0)
+
+  let low = poc
+  let high = poc
+  let volume = levels[poc].volume
+  while (volume < (total * percent) / 100 && (low > 0 || high < levels.length - 1)) {
+    const below = low > 0 ? levels[low - 1].volume : -1
+    const above = high < levels.length - 1 ? levels[high + 1].volume : -1
+    if (above >= below) {
+      high += 1
+      volume += above
+    } else {
+      low -= 1
+      volume += below
+    }
+  }
+
+  return {
+    pointOfControl: levels[poc].price,
+    high: levels[high].price,
+    low: levels[low].price,
+    volume,
+  }
+}
+
+/**
+ * Price range and volume of one histogram row.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Row {
+  readonly low: number
+  readonly high: number
+  readonly volume: number
+}
+
+/**
+ * Merge a profile's levels into at most `maxRows` rows of equal price range,
+ * by ascending price. Price ranges without trades become empty rows, so the
+ * rows show the gaps of the distribution.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const histogram = (
+  levels: ReadonlyArray<Level>,
+  tickSize: number,
+  maxRows: number
+): ReadonlyArray<Row> => {
+  if (levels.length === 0) return []
+
+  const ticks = levels.map((level) => Math.round(level.price / tickSize))
+  const first = ticks[0]
+  const span = Math.ceil((ticks[ticks.length - 1] - first + 1) / maxRows)
+  const volumes = new Map<number, number>()
+  ticks.forEach((tick, i) => {
+    const row = Math.floor((tick - first) / span)
+    volumes.set(row, (volumes.get(row) ?? 0) + levels[i].volume)
+  })
+
+  return Array.from(
+    { length: Math.floor((ticks[ticks.length - 1] - first) / span) + 1 },
+    (_, row) => ({
+      low: (first + row * span) * tickSize,
+      high: (first + (row + 1) * span - 1) * tickSize,
+      volume: volumes.get(row) ?? 0,
+    })
+  )
+}
+
+/**
+ * Internal state for VolumeProfile calculation.
+ */
+interface VolumeProfileState {
+  readonly volumes: ReadonlyMap<number, number> // Volume by price level, in ticks
+  readonly sessionVolume: number
+  readonly session: string
+}
+
+/**
+ * Trading session (UTC date, YYYY-MM-DD) of a timestamp.
+ */
+const sessionOf = (timestamp: number): string => new Date(timestamp).toISOString().split("T")[0]
+
+/**
+ * Create a VolumeProfile indicator instance from its configuration.
+ *
+ * A state is emitted for every trade.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: VolumeProfileConfig): Indicator.Indicator<VolumeProfileOutput> => ({
+  id: config.id,
+  name: "Volume Profile",
+  output: VolumeProfileOutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Stream.mapAccum<
+        VolumeProfileState,
+        Trade.TradeData,
+        Indicator.IndicatorState<VolumeProfileOutput>
+      >({ volumes: new Map(), sessionVolume: 0, session: "" }, (state, trade) => {
+        const session = sessionOf(trade.timestamp)
+        const current =
+          config.resetDaily && session !== state.session
+            ? { volumes: new Map<number, number>(), sessionVolume: 0 }
+            : state
+        const tick = Math.round(trade.price / config.tickSize)
+        const newState: VolumeProfileState = {
+          volumes: new Map(current.volumes).set(
+            tick,
+            (current.volumes.get(tick) ?? 0) + trade.volume
+          ),
+          sessionVolume: current.sessionVolume + trade.volume,
+          session,
+        }
+
+        const levels = [...newState.volumes]
+          .sort(([a], [b]) => a - b)
+          .map(([t, volume]) => ({ price: t * config.tickSize, volume }))
+        const area = valueArea(levels, config.valueAreaPercent)
+
+        return [
+          newState,
+          State.make({
+            id: config.id,
+            name: "Volume Profile",
+            symbol: config.symbol,
+            lastUpdate: DateTime.unsafeMake(trade.timestamp),
+            value: area.pointOfControl,
+            metadata: {
+              tickSize: config.tickSize,
+              valueAreaPercent: config.valueAreaPercent,
+              valueAreaHigh: area.high,
+              valueAreaLow: area.low,
+              sessionVolume: newState.sessionVolume,
+              levels,
+              session,
+              currentPrice: trade.price,
+              currentVolume: trade.volume,
+            },
+          }),
+        ]
+      })
+    ),
+
+  signal: (state: Indicator.IndicatorState<VolumeProfileOutput>) =>
+    Effect.gen(function* () {
+      const { currentPrice, valueAreaHigh, valueAreaLow } = state.metadata
+      const timestamp = state.lastUpdate
+
+      // Half strength at the edge, full strength a whole value area beyond it
+      const width = valueAreaHigh - valueAreaLow
+      const strength = (distance: number) =>
+        Math.min(1, 0.5 + (width > 0 ? distance / width : 0) / 2)
+
+      if (currentPrice > valueAreaHigh) {
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength: strength(currentPrice - valueAreaHigh),
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} above value area high ${valueAreaHigh.toFixed(2)} (POC ${state.value.toFixed(2)})`,
+        })
+      } else if (currentPrice < valueAreaLow) {
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength: strength(valueAreaLow - currentPrice),
+          timestamp,
+          reason: `Price ${currentPrice.toFixed(2)} below value area low ${valueAreaLow.toFixed(2)} (POC ${state.value.toFixed(2)})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<VolumeProfileOutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+      const currentVolume = state.metadata.currentVolume
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        volumeAbove: (c) => currentVolume > c.threshold,
+        crossOver: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the VolumeProfile indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as VolumeProfile from "@/indicators/VolumeProfile"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(VolumeProfile.VolumeProfileConfig, {
+ *   id: "vp-daily",
+ *   symbol: "AAPL",
+ *   tickSize: 0.1,
+ *   valueAreaPercent: 70,
+ *   resetDaily: true
+ * })
+ *
+ * const MainLive = Layer.provide(VolumeProfile.VolumeProfileIndicatorLive, config)
+ */
+export const VolumeProfileIndicatorLive = Layer.effect(
+  VolumeProfileIndicator,
+  Effect.map(VolumeProfileConfig, make)
+)
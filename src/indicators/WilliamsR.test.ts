@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test"
+import * as WilliamsR from "./WilliamsR"
+import * as Stochastic from "./Stochastic"
+import * as Bar from "../domain/Bar"
+import * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import { mockBarTrades } from "../test-utils/fixtures"
+
+const williamsR = WilliamsR.make({
+  id: "willr-3-1m",
+  symbol: "AAPL",
+  period: 3,
+  oversold: -80,
+  overbought: -20,
+  bars: Bar.time("1 minute"),
+})
+
+const run = <Output extends Indicator.IndicatorOutput>(
+  indicator: Indicator.Indicator<Output>,
+  bars: Parameters<typeof mockBarTrades>[0]
+) =>
+  Chunk.toReadonlyArray(
+    Effect.runSync(Stream.runCollect(indicator.process(Stream.fromIterable(mockBarTrades(bars)))))
+  )
+
+const bars = [
+  { high: 110, low: 105, close: 105 },
+  { high: 106, low: 100, close: 100 },
+  { high: 101, low: 95, close: 95 },
+  { high: 96, low: 90, close: 90 },
+  { high: 91, low: 88, close: 88 },
+  { high: 89, low: 86, close: 88 },
+  { high: 96, low: 88, close: 94 },
+]
+
+describe("Williams %R", () => {
+  it("should range from -100 at the lowest low to 0 at the highest high", () => {
+    const values = run(williamsR, bars).map((state) => state.value)
+
+    expect(values.length).toBe(5)
+    expect(values.slice(0, 3)).toEqual([-100, -100, -100])
+    expect(values[3]).toBeCloseTo(-80)
+    expect(values[4]).toBeCloseTo(-20)
+  })
+
+  it("should mirror a Stochastic %K without smoothing", () => {
+    const fast = Stochastic.make({
+      id: "stoch-3-1-1m",
+      symbol: "AAPL",
+      period: 3,
+      dPeriod: 1,
+      oversold: 20,
+      overbought: 80,
+      bars: Bar.time("1 minute"),
+    })
+
+    const percentK = run(fast, bars).map((state) => state.value)
+    run(williamsR, bars).forEach((state, i) => expect(state.value).toBeCloseTo(percentK[i] - 100))
+  })
+
+  it("should signal buy when oversold and sell when overbought", () => {
+    const found = Effect.runSync(Effect.forEach(run(williamsR, bars), williamsR.signal))
+
+    expect(found.map((signal) => signal._tag)).toEqual(["buy", "buy", "buy", "hold", "hold"])
+
+    const rally = bars.map((bar) => ({
+      high: 200 - bar.low,
+      low: 200 - bar.high,
+      close: 200 - bar.close,
+    }))
+    const reversed = Effect.runSync(Effect.forEach(run(williamsR, rally), williamsR.signal))
+    expect(reversed.slice(0, 3).every(Indicator.isSell)).toBe(true)
+  })
+})
@@ -0,0 +1,236 @@
+import * as Context from "effect/Context"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import { pipe } from "effect/Function"
+import * as Indicator from "../domain/Indicator"
+import * as Bar from "../domain/Bar"
+import type * as Trade from "../domain/Trade"
+
+/**
+ * Williams %R indicator configuration.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface WilliamsRConfig {
+  readonly id: string
+  readonly symbol: string
+  readonly period: number // Lookback in bars, default 14
+  readonly oversold: number // Default -80
+  readonly overbought: number // Default -20
+  readonly bars: Bar.BarSpec // How trades are rolled into high/low/close bars
+}
+
+/**
+ * Configuration service for Williams %R indicator.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const WilliamsRConfig = Context.GenericTag<WilliamsRConfig>("@indicators/config/WilliamsR")
+
+/**
+ * Outputs of the Williams %R indicator.
+ *
+ * @category Schemas
+ * @since 0.5.0
+ */
+export const WilliamsROutput = Schema.Struct({
+  period: Schema.Number,
+  highestHigh: Schema.Number.pipe(Indicator.label("High")),
+  lowestLow: Schema.Number.pipe(Indicator.label("Low")),
+  oversold: Schema.Number,
+  overbought: Schema.Number,
+  barStart: Schema.Number,
+  barEnd: Schema.Number,
+  currentPrice: Schema.Number,
+})
+
+export type WilliamsROutput = Schema.Schema.Type<typeof WilliamsROutput>
+
+const State = Indicator.stateSchema(WilliamsROutput)
+
+/**
+ * Williams %R indicator service.
+ *
+ * Rolls trades into bars and measures how far each close sits below the
+ * highest high of the last `period` bars. Values range from -100 (at the
+ * lowest low) to 0 (at the highest high), with < -80 indicating oversold and
+ * > -20 overbought.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as WilliamsR from "@/indicators/WilliamsR"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const williamsR = yield* WilliamsR.WilliamsRIndicator
+ *   yield* Stream.runForEach(williamsR.process(tradeStream), (state) =>
+ *     Console.log(`%R ${state.value.toFixed(2)}`)
+ *   )
+ * })
+ */
+export class WilliamsRIndicator extends Context.Tag("@indicators/WilliamsR")<
+  WilliamsRIndicator,
+  Indicator.Indicator<WilliamsROutput>
+>() {}
+
+/**
+ * Internal state for Williams %R calculation.
+ */
+interface WilliamsRState {
+  readonly highs: ReadonlyArray<number>
+  readonly lows: ReadonlyArray<number>
+}
+
+/**
+ * Calculate Williams %R from a close and a high/low range. A flat range puts
+ * the close in the middle.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const calculateWilliamsR = (close: number, highestHigh: number, lowestLow: number): number =>
+  highestHigh === lowestLow ? -50 : ((highestHigh - close) / (highestHigh - lowestLow)) * -100
+
+/**
+ * Create a Williams %R indicator instance from its configuration.
+ *
+ * Bars are built from trade timestamps and intervals without trades are
+ * skipped. States are emitted once `period` bars have closed.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const make = (config: WilliamsRConfig): Indicator.Indicator<WilliamsROutput> => ({
+  id: config.id,
+  name: "Williams %R",
+  output: WilliamsROutput,
+
+  process: (trades: Stream.Stream<Trade.TradeData, never, never>) =>
+    pipe(
+      trades,
+      Stream.filter((t) => t.symbol === config.symbol),
+      Bar.aggregate(config.bars, { fillEmpty: false }),
+      Stream.mapAccum<WilliamsRState, Bar.Bar, Indicator.IndicatorState<WilliamsROutput> | null>(
+        { highs: [], lows: [] },
+        (state, bar) => {
+          const newState: WilliamsRState = {
+            highs: [...state.highs, bar.high].slice(-config.period),
+            lows: [...state.lows, bar.low].slice(-config.period),
+          }
+
+          if (newState.highs.length < config.period) {
+            return [newState, null]
+          }
+
+          const highestHigh = Math.max(...newState.highs)
+          const lowestLow = Math.min(...newState.lows)
+
+          return [
+            newState,
+            State.make({
+              id: config.id,
+              name: "Williams %R",
+              symbol: config.symbol,
+              lastUpdate: DateTime.unsafeMake(bar.end),
+              value: calculateWilliamsR(bar.close, highestHigh, lowestLow),
+              metadata: {
+                period: config.period,
+                highestHigh,
+                lowestLow,
+                oversold: config.oversold,
+                overbought: config.overbought,
+                barStart: bar.start,
+                barEnd: bar.end,
+                currentPrice: bar.close,
+              },
+            }),
+          ]
+        }
+      ),
+      Stream.filterMap((x) => (x === null ? Option.none() : Option.some(x)))
+    ),
+
+  signal: (state: Indicator.IndicatorState<WilliamsROutput>) =>
+    Effect.gen(function* () {
+      const williamsR = state.value
+      const oversold = state.metadata.oversold
+      const overbought = state.metadata.overbought
+      const timestamp = state.lastUpdate
+
+      if (williamsR < oversold) {
+        // Oversold - potential buy signal
+        const strength = Math.min(1, (oversold - williamsR) / (100 + oversold))
+        return Indicator.Buy.make({
+          _tag: "buy",
+          strength,
+          timestamp,
+          reason: `Williams %R oversold at ${williamsR.toFixed(2)} (threshold: ${oversold})`,
+        })
+      } else if (williamsR > overbought) {
+        // Overbought - potential sell signal
+        const strength = Math.min(1, (williamsR - overbought) / -overbought)
+        return Indicator.Sell.make({
+          _tag: "sell",
+          strength,
+          timestamp,
+          reason: `Williams %R overbought at ${williamsR.toFixed(2)} (threshold: ${overbought})`,
+        })
+      } else {
+        return Indicator.Hold.make({
+          _tag: "hold",
+          timestamp,
+        })
+      }
+    }),
+
+  checkTrigger: (
+    state: Indicator.IndicatorState<WilliamsROutput>,
+    condition: Indicator.TriggerCondition
+  ) =>
+    Effect.gen(function* () {
+      const currentPrice = state.metadata.currentPrice
+
+      return Indicator.matchCondition(condition, {
+        priceAbove: (c) => currentPrice > c.threshold,
+        priceBelow: (c) => currentPrice < c.threshold,
+        crossOver: () => false,
+        volumeAbove: () => false,
+        volatilityAbove: () => false,
+      })
+    }),
+})
+
+/**
+ * Layer that provides the Williams %R indicator service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as WilliamsR from "@/indicators/WilliamsR"
+ * import * as Bar from "@/domain/Bar"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(WilliamsR.WilliamsRConfig, {
+ *   id: "willr-14-1m",
+ *   symbol: "AAPL",
+ *   period: 14,
+ *   oversold: -80,
+ *   overbought: -20,
+ *   bars: Bar.time("1 minute")
+ * })
+ *
+ * const MainLive = Layer.provide(WilliamsR.WilliamsRIndicatorLive, config)
+ */
+export const WilliamsRIndicatorLive = Layer.effect(
+  WilliamsRIndicator,
+  Effect.map(WilliamsRConfig, make)
+)
@@ -26,13 +26,33 @@
 
 // Re-export all indicator implementations
 export * as MA from "./MovingAverage"
+export * as MACD from "./MACD"
 export * as RSI from "./RSI"
 export * as BollingerBands from "./BollingerBands"
 export * as VWAP from "./VWAP"
 export * as Volatility from "./Volatility"
+export * as ATR from "./ATR"
+export * as Stochastic from "./Stochastic"
+export * as WilliamsR from "./WilliamsR"
+export * as ADX from "./ADX"
+export * as OBV from "./OBV"
+export * as AccumulationDistribution from "./AccumulationDistribution"
+export * as MFI from "./MFI"
+export * as Ichimoku from "./Ichimoku"
+export * as Keltner from "./Keltner"
+export * as Donchian from "./Donchian"
+export * as Squeeze from "./Squeeze"
+export * as ParabolicSAR from "./ParabolicSAR"
+export * as SuperTrend from "./SuperTrend"
+export * as CrossSymbol from "./CrossSymbol"
+export * as Correlation from "./Correlation"
+export * as Beta from "./Beta"
+export * as Pairs from "./Pairs"
+export * as VolumeProfile from "./VolumeProfile"
 
-// Re-export registry and aggregator
+// Re-export registry, aggregator and factory
 export * as Registry from "./IndicatorRegistry"
+export * as Factory from "./IndicatorFactory"
 
 // Re-export domain models
 export * as Domain from "../domain/Indicator"
@@ -1,7 +1,6 @@
 import * as Layer from "effect/Layer"
 import * as Effect from "effect/Effect"
 import * as Stream from "effect/Stream"
-import * as PubSub from "effect/PubSub"
 import * as Console from "effect/Console"
 import { pipe } from "effect/Function"
 import * as TradePubSub from "../services/TradePubSub"
@@ -12,6 +11,7 @@ import * as VWAP from "../indicators/VWAP"
 import * as Vol from "../indicators/Volatility"
 import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
 import * as Indicator from "../domain/Indicator"
+import * as Consensus from "../domain/Consensus"
 
 /**
  * Example layer composition showing how to combine multiple indicators.
@@ -47,7 +47,9 @@ import * as Indicator from "../domain/Indicator"
  * @since 0.1.0
  */
 export const IndicatorConfigsLive = Layer.mergeAll(
-  // Moving Average - Simple 20-period
+  // Moving Average - Simple 20-period. Each tag holds a single config, so a
+  // second MovingAverageConfig would replace this one; see
+  // RegisteredIndicatorsLive for several instances of the same indicator.
   Layer.succeed(MA.MovingAverageConfig, {
     id: "sma-20-AAPL",
     symbol: "AAPL",
@@ -55,14 +57,6 @@ export const IndicatorConfigsLive = Layer.mergeAll(
     type: "simple",
   }),
 
-  // Moving Average - Exponential 12-period
-  Layer.succeed(MA.MovingAverageConfig, {
-    id: "ema-12-AAPL",
-    symbol: "AAPL",
-    period: 12,
-    type: "exponential",
-  }),
-
   // RSI - 14-period
   Layer.succeed(RSI.RSIConfig, {
     id: "rsi-14-AAPL",
@@ -123,9 +117,47 @@ export const AllIndicatorsLive = pipe(
 export const IndicatorManagementLive = Layer.mergeAll(
   AllIndicatorsLive,
   IndicatorRegistry.IndicatorRegistryLive,
-  IndicatorRegistry.SignalAggregatorLive
+  IndicatorRegistry.SignalAggregatorLiveDefault
 )
 
+/**
+ * Indicator instances for the registry, including several of the same kind.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const exampleIndicatorConfigs: ReadonlyArray<Indicator.IndicatorConfig> = [
+  { id: "sma-20-AAPL", name: "SMA", symbol: "AAPL", period: 20, params: {} },
+  { id: "sma-50-AAPL", name: "SMA", symbol: "AAPL", period: 50, params: {} },
+  { id: "ema-12-AAPL", name: "EMA", symbol: "AAPL", period: 12, params: {} },
+  { id: "rsi-14-AAPL", name: "RSI", symbol: "AAPL", period: 14, params: {} },
+  { id: "rsi-14-MSFT", name: "RSI", symbol: "MSFT", period: 14, params: { oversold: 25 } },
+]
+
+/**
+ * Registry pre-populated with `exampleIndicatorConfigs` through the
+ * IndicatorFactory.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorExample from "@/layers/IndicatorLayerExample"
+ * import * as IndicatorRegistry from "@/indicators/IndicatorRegistry"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const registry = yield* IndicatorRegistry.IndicatorRegistry
+ *   const ids = yield* registry.list() // sma-20-AAPL, sma-50-AAPL, ema-12-AAPL, ...
+ * })
+ *
+ * Effect.runPromise(program.pipe(Effect.provide(IndicatorExample.RegisteredIndicatorsLive)))
+ */
+export const RegisteredIndicatorsLive = Layer.effectDiscard(
+  Effect.flatMap(IndicatorRegistry.IndicatorRegistry, (registry) =>
+    Effect.forEach(exampleIndicatorConfigs, registry.add, { discard: true })
+  )
+).pipe(Layer.provideMerge(IndicatorRegistry.IndicatorRegistryLive))
+
 /**
  * Complete application layer with trade pubsub and all indicators.
  *
@@ -145,8 +177,7 @@ export const MainWithIndicatorsLive = Layer.mergeAll(
  * @example
  * import * as IndicatorExample from "@/layers/IndicatorLayerExample"
  * import * as Effect from "effect/Effect"
- * import * as PubSub from "effect/PubSub"
- *
+ *  *
  * const program = Effect.gen(function* () {
  *   const pubsub = yield* TradePubSub.TradePubSub
  *
@@ -163,8 +194,8 @@ export const MainWithIndicatorsLive = Layer.mergeAll(
  */
 export const subscribeAllIndicators = Effect.gen(function* () {
   const { pubsub } = yield* TradePubSub.TradePubSub
-  const dequeue = yield* PubSub.subscribe(pubsub)
-  const tradeStream = Stream.fromQueue(dequeue)
+  // Every run of this stream takes its own subscription, so each indicator sees every trade
+  const tradeStream = Stream.fromPubSub(pubsub)
 
   const ma = yield* MA.MovingAverage
   const rsi = yield* RSI.RSIIndicator
@@ -173,64 +204,72 @@ export const subscribeAllIndicators = Effect.gen(function* () {
   const vol = yield* Vol.VolatilityIndicator
   const aggregator = yield* IndicatorRegistry.SignalAggregator
 
-  // Subscribe each indicator to the trade stream
-  const allSignals: Indicator.Signal[] = []
+  // Latest vote of each indicator, for the consensus at the end
+  const latestVotes = new Map<string, Consensus.Vote>()
 
-  // Process RSI
-  yield* Stream.runForEach(rsi.process(tradeStream), (state) =>
-    Effect.gen(function* () {
-      const signal = yield* rsi.signal(state)
-      allSignals.push(signal)
-      yield* Console.log(`[RSI] Value: ${state.value.toFixed(2)} | Signal: ${signal._tag}`)
-    })
-  )
+  // Run all indicators concurrently until the trade stream ends
+  yield* Effect.all(
+    [
+      // Process RSI
+      Stream.runForEach(rsi.process(tradeStream), (state) =>
+        Effect.gen(function* () {
+          const signal = yield* rsi.signal(state)
+          latestVotes.set(state.id, Consensus.vote(state, signal))
+          yield* Console.log(`[RSI] Value: ${state.value.toFixed(2)} | Signal: ${signal._tag}`)
+        })
+      ),
 
-  // Process Moving Average
-  yield* Stream.runForEach(ma.process(tradeStream), (state) =>
-    Effect.gen(function* () {
-      const signal = yield* ma.signal(state)
-      allSignals.push(signal)
-      yield* Console.log(`[MA] Value: ${state.value.toFixed(2)} | Signal: ${signal._tag}`)
-    })
-  )
+      // Process Moving Average
+      Stream.runForEach(ma.process(tradeStream), (state) =>
+        Effect.gen(function* () {
+          const signal = yield* ma.signal(state)
+          latestVotes.set(state.id, Consensus.vote(state, signal))
+          yield* Console.log(`[MA] Value: ${state.value.toFixed(2)} | Signal: ${signal._tag}`)
+        })
+      ),
 
-  // Process Bollinger Bands
-  yield* Stream.runForEach(bb.process(tradeStream), (state) =>
-    Effect.gen(function* () {
-      const signal = yield* bb.signal(state)
-      allSignals.push(signal)
-      const upper = state.metadata["upperBand"] as number
-      const lower = state.metadata["lowerBand"] as number
-      yield* Console.log(
-        `[BB] Range: ${lower.toFixed(2)} - ${upper.toFixed(2)} | Signal: ${signal._tag}`
-      )
-    })
-  )
+      // Process Bollinger Bands
+      Stream.runForEach(bb.process(tradeStream), (state) =>
+        Effect.gen(function* () {
+          const signal = yield* bb.signal(state)
+          latestVotes.set(state.id, Consensus.vote(state, signal))
+          const upper = state.metadata.upperBand
+          const lower = state.metadata.lowerBand
+          yield* Console.log(
+            `[BB] Range: ${lower.toFixed(2)} - ${upper.toFixed(2)} | Signal: ${signal._tag}`
+          )
+        })
+      ),
 
-  // Process VWAP
-  yield* Stream.runForEach(vwap.process(tradeStream), (state) =>
-    Effect.gen(function* () {
-      const signal = yield* vwap.signal(state)
-      allSignals.push(signal)
-      const deviation = state.metadata["deviation"] as number
-      yield* Console.log(
-        `[VWAP] Value: ${state.value.toFixed(2)} | Deviation: ${deviation.toFixed(2)}% | Signal: ${signal._tag}`
-      )
-    })
-  )
+      // Process VWAP
+      Stream.runForEach(vwap.process(tradeStream), (state) =>
+        Effect.gen(function* () {
+          const signal = yield* vwap.signal(state)
+          latestVotes.set(state.id, Consensus.vote(state, signal))
+          const deviation = state.metadata.deviation
+          yield* Console.log(
+            `[VWAP] Value: ${state.value.toFixed(2)} | Deviation: ${deviation.toFixed(2)}% | Signal: ${signal._tag}`
+          )
+        })
+      ),
 
-  // Process Volatility
-  yield* Stream.runForEach(vol.process(tradeStream), (state) =>
-    Effect.gen(function* () {
-      const signal = yield* vol.signal(state)
-      allSignals.push(signal)
-      yield* Console.log(`[VOL] Volatility: ${state.value.toFixed(2)}% | Signal: ${signal._tag}`)
-    })
+      // Process Volatility
+      Stream.runForEach(vol.process(tradeStream), (state) =>
+        Effect.gen(function* () {
+          const signal = yield* vol.signal(state)
+          latestVotes.set(state.id, Consensus.vote(state, signal))
+          yield* Console.log(
+            `[VOL] Volatility: ${state.value.toFixed(2)}% | Signal: ${signal._tag}`
+          )
+        })
+      ),
+    ],
+    { concurrency: "unbounded", discard: true }
   )
 
-  // Aggregate signals
-  if (allSignals.length > 0) {
-    const consensus = yield* aggregator.aggregate(allSignals)
+  // Aggregate the indicators' final votes
+  if (latestVotes.size > 0) {
+    const consensus = yield* aggregator.aggregate(Array.from(latestVotes.values()))
     yield* Console.log(`\n[CONSENSUS] ${consensus._tag.toUpperCase()}`)
 
     if (Indicator.isBuy(consensus)) {
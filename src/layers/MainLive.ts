@@ -3,6 +3,16 @@ import * as TradePubSub from "../services/TradePubSub"
 import * as StatsState from "../services/StatsState"
 import * as WebSocketPublisher from "../services/WebSocketPublisher"
 import * as StatsCollector from "../services/StatsCollector"
+import * as IndicatorsState from "../services/IndicatorsState"
+import * as ConsensusState from "../services/ConsensusState"
+import * as IndicatorRunner from "../services/IndicatorRunner"
+import * as TriggerEngine from "../services/TriggerEngine"
+import * as AlertPubSub from "../services/AlertPubSub"
+import * as AlertEngine from "../services/AlertEngine"
+import * as SignalAlerts from "../services/SignalAlerts"
+import * as FlashState from "../services/FlashState"
+import * as SinksLive from "./SinksLive"
+import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
 import * as UIState from "../ui/state/UIState"
 
 /**
@@ -20,12 +30,25 @@ import * as UIState from "../ui/state/UIState"
  * Infrastructure (no dependencies):
  *   - TradePubSub
  *   - StatsState
- *   - UIStateAtom
+ *   - IndicatorsState
+ *   - ConsensusState
+ *   - IndicatorRegistry
+ *   - SignalAggregator (depends on SignalAggregatorConfig)
+ *   - AlertPubSub
+ *   - FlashState
  *
  * Services (depend on infrastructure and provider):
  *   - WebSocketPublisher (depends on TradePubSub, MarketDataProvider, WebSocketPublisherConfig)
  *   - StatsCollector (depends on TradePubSub, StatsState, StatsCollectorConfig)
- *   - UIRenderer (depends on TradePubSub, StatsState, UIStateAtom, UIRendererConfig)
+ *   - IndicatorRunner (depends on TradePubSub, IndicatorsState, ConsensusState,
+ *     IndicatorRegistry, SignalAggregator, IndicatorRunnerConfig)
+ *   - TriggerEngine (depends on IndicatorsState, IndicatorRegistry)
+ *   - AlertEngine (depends on IndicatorRunner, TriggerEngine, AlertPubSub, AlertEngineConfig)
+ *   - SignalAlerts (depends on IndicatorRunner, AlertPubSub, SignalAlertsConfig)
+ *   - Alert sinks (depend on AlertPubSub, FlashState, SinksConfig and, for the desktop
+ *     and log sinks, CommandExecutor and FileSystem)
+ *   - UIStateAtom (depends on TradePubSub, StatsState, IndicatorsState, ConsensusState,
+ *     MarketDataProvider, UIStateConfig)
  *
  * Provider Layer (injected externally):
  *   - MarketDataProvider (e.g., FinnhubProvider, PolygonProvider)
@@ -52,5 +75,23 @@ import * as UIState from "../ui/state/UIState"
 export const MainLive = Layer.mergeAll(
   WebSocketPublisher.WebSocketPublisherLive,
   StatsCollector.StatsCollectorLive,
+  AlertEngine.AlertEngineLive,
+  SignalAlerts.SignalAlertsLive,
+  SinksLive.SinksLive,
   UIState.UIStateAtomLive
-).pipe(Layer.provide(Layer.mergeAll(TradePubSub.TradePubSubLiveDefault, StatsState.StatsStateLive)))
+).pipe(
+  Layer.provideMerge(IndicatorRunner.IndicatorRunnerLive),
+  Layer.provideMerge(TriggerEngine.TriggerEngineLiveDefault),
+  Layer.provide(
+    Layer.mergeAll(
+      TradePubSub.TradePubSubLiveDefault,
+      StatsState.StatsStateLive,
+      IndicatorsState.IndicatorsStateLive,
+      ConsensusState.ConsensusStateLive,
+      IndicatorRegistry.IndicatorRegistryLive,
+      IndicatorRegistry.SignalAggregatorLive,
+      AlertPubSub.AlertPubSubLiveDefault,
+      FlashState.FlashStateLive
+    )
+  )
+)
@@ -0,0 +1,66 @@
+import * as Layer from "effect/Layer"
+import * as Socket from "@effect/platform/Socket"
+import type * as FileSystem from "@effect/platform/FileSystem"
+import type * as MarketDataProvider from "../services/MarketDataProvider"
+import * as FinnhubProvider from "../providers/FinnhubProvider"
+import * as PolygonProvider from "../providers/PolygonProvider"
+import * as ReplayProvider from "../providers/ReplayProvider"
+import * as SimulatedProvider from "../providers/SimulatedProvider"
+import type { ProviderConfig } from "../config/AppConfig"
+
+/**
+ * Build the MarketDataProvider layer for a provider configuration.
+ *
+ * Selects the implementation from `ProviderConfig._tag` and provides it with
+ * its configuration. Streaming providers get the global WebSocket constructor;
+ * the replay provider reads its recording through the platform FileSystem and
+ * the simulated provider needs nothing but its configuration.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as ProviderLive from "./layers/ProviderLive"
+ * import * as MainLive from "./layers/MainLive"
+ * import * as Layer from "effect/Layer"
+ * import * as Redacted from "effect/Redacted"
+ *
+ * const provider = ProviderLive.fromConfig({
+ *   _tag: "polygon",
+ *   apiKey: Redacted.make("your-api-key"),
+ *   wsUrl: "wss://socket.polygon.io/stocks"
+ * })
+ *
+ * const appLayer = Layer.provideMerge(MainLive.MainLive, provider)
+ */
+export const fromConfig = (
+  config: ProviderConfig
+): Layer.Layer<MarketDataProvider.MarketDataProvider, never, FileSystem.FileSystem> => {
+  switch (config._tag) {
+    case "finnhub":
+      return Layer.provide(
+        FinnhubProvider.FinnhubProviderLive,
+        Layer.mergeAll(
+          Layer.succeed(FinnhubProvider.FinnhubConfigTag, config),
+          Socket.layerWebSocketConstructorGlobal
+        )
+      )
+    case "polygon":
+      return Layer.provide(
+        PolygonProvider.PolygonProviderLive,
+        Layer.mergeAll(
+          Layer.succeed(PolygonProvider.PolygonConfigTag, config),
+          Socket.layerWebSocketConstructorGlobal
+        )
+      )
+    case "replay":
+      return Layer.provide(
+        ReplayProvider.ReplayProviderLive,
+        Layer.succeed(ReplayProvider.ReplayConfigTag, config)
+      )
+    case "simulated":
+      return Layer.provide(
+        SimulatedProvider.SimulatedProviderLive,
+        Layer.succeed(SimulatedProvider.SimulatedConfigTag, config)
+      )
+  }
+}
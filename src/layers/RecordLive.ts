@@ -0,0 +1,37 @@
+import * as Layer from "effect/Layer"
+import * as TradePubSub from "../services/TradePubSub"
+import * as WebSocketPublisher from "../services/WebSocketPublisher"
+import * as TradeRecorder from "../services/TradeRecorder"
+
+/**
+ * Headless recording layer used by the `record` command.
+ *
+ * Layer composition structure:
+ *
+ * ```
+ * Infrastructure (no dependencies):
+ *   - TradePubSub
+ *
+ * Services (depend on infrastructure and provider):
+ *   - WebSocketPublisher (depends on TradePubSub, MarketDataProvider, WebSocketPublisherConfig)
+ *   - TradeRecorder (depends on TradePubSub, TradeRecorderConfig, FileSystem)
+ *
+ * Provider Layer (injected externally):
+ *   - MarketDataProvider, exactly as for MainLive
+ * ```
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as RecordLive from "./layers/RecordLive"
+ * import * as ProviderLive from "./layers/ProviderLive"
+ * import * as Layer from "effect/Layer"
+ *
+ * const recordLayer = RecordLive.RecordLive.pipe(
+ *   Layer.provide(Layer.mergeAll(providerLayer, publisherConfig, recorderConfig))
+ * )
+ */
+export const RecordLive = Layer.mergeAll(
+  WebSocketPublisher.WebSocketPublisherLive,
+  TradeRecorder.TradeRecorderLive
+).pipe(Layer.provide(TradePubSub.TradePubSubLiveDefault))
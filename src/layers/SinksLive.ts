@@ -0,0 +1,117 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
+import * as FetchHttpClient from "@effect/platform/FetchHttpClient"
+import type * as FileSystem from "@effect/platform/FileSystem"
+import type * as CommandExecutor from "@effect/platform/CommandExecutor"
+import type * as AlertPubSub from "../services/AlertPubSub"
+import type * as FlashState from "../services/FlashState"
+import * as TerminalSink from "../sinks/TerminalSink"
+import * as DesktopSink from "../sinks/DesktopSink"
+import * as WebhookSink from "../sinks/WebhookSink"
+import * as FileSink from "../sinks/FileSink"
+
+/**
+ * Which alert sinks to run and how. A sink whose entry is None is not started.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SinksConfig {
+  readonly terminal: Option.Option<TerminalSink.TerminalSinkConfig>
+  readonly desktop: Option.Option<DesktopSink.DesktopSinkConfig>
+  readonly webhook: Option.Option<WebhookSink.WebhookSinkConfig>
+  readonly log: Option.Option<FileSink.FileSinkConfig>
+}
+
+/**
+ * Configuration service for the alert sinks.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const SinksConfig = Context.GenericTag<SinksConfig>("@layers/SinksConfig")
+
+/**
+ * Default configuration: only the terminal sink, with its defaults.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: SinksConfig = {
+  terminal: Option.some(TerminalSink.defaultConfig),
+  desktop: Option.none(),
+  webhook: Option.none(),
+  log: Option.none(),
+}
+
+type SinksRequirements =
+  | AlertPubSub.AlertPubSub
+  | FlashState.FlashState
+  | FileSystem.FileSystem
+  | CommandExecutor.CommandExecutor
+
+/**
+ * Build the layer running every enabled sink, each provided with its
+ * configuration. The webhook sink gets the fetch-based HttpClient.
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as SinksLive from "./layers/SinksLive"
+ * import * as Option from "effect/Option"
+ *
+ * const sinks = SinksLive.fromConfig({
+ *   ...SinksLive.defaultConfig,
+ *   log: Option.some({ path: "alerts.jsonl", minSeverity: "info" })
+ * })
+ */
+export const fromConfig = (config: SinksConfig): Layer.Layer<never, never, SinksRequirements> => {
+  const sinks: ReadonlyArray<Layer.Layer<never, never, SinksRequirements>> = [
+    ...Option.toArray(
+      Option.map(config.terminal, (terminal) =>
+        Layer.provide(
+          TerminalSink.TerminalSinkLive,
+          Layer.succeed(TerminalSink.TerminalSinkConfig, terminal)
+        )
+      )
+    ),
+    ...Option.toArray(
+      Option.map(config.desktop, (desktop) =>
+        Layer.provide(
+          DesktopSink.DesktopSinkLive,
+          Layer.succeed(DesktopSink.DesktopSinkConfig, desktop)
+        )
+      )
+    ),
+    ...Option.toArray(
+      Option.map(config.webhook, (webhook) =>
+        Layer.provide(
+          WebhookSink.WebhookSinkLive,
+          Layer.mergeAll(
+            Layer.succeed(WebhookSink.WebhookSinkConfig, webhook),
+            FetchHttpClient.layer
+          )
+        )
+      )
+    ),
+    ...Option.toArray(
+      Option.map(config.log, (log) =>
+        Layer.provide(FileSink.FileSinkLive, Layer.succeed(FileSink.FileSinkConfig, log))
+      )
+    ),
+  ]
+
+  return sinks.reduce((all, sink) => Layer.merge(all, sink), Layer.empty)
+}
+
+/**
+ * Layer running the sinks selected by SinksConfig.
+ *
+ * Type: Layer<never, never, SinksConfig | AlertPubSub | FlashState | FileSystem | CommandExecutor>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const SinksLive = Layer.unwrapEffect(Effect.map(SinksConfig, fromConfig))
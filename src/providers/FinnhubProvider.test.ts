@@ -0,0 +1,280 @@
+import { describe, it, expect } from "bun:test"
+import * as FinnhubProvider from "./FinnhubProvider"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import type * as Trade from "../domain/Trade"
+import type * as ConnectionStatus from "../domain/ConnectionStatus"
+import type { ReconnectConfig } from "../config/AppConfig"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as Fiber from "effect/Fiber"
+import * as Redacted from "effect/Redacted"
+import type * as Scope from "effect/Scope"
+import * as Socket from "@effect/platform/Socket"
+
+/**
+ * In-memory WebSocket driven by the test: it opens, receives messages and
+ * closes only when told to, and records everything written to it.
+ */
+class FakeWebSocket extends EventTarget {
+  readyState = 0
+  readonly sent: Array<string> = []
+
+  send(data: string) {
+    this.sent.push(data)
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === 3) return
+    this.readyState = 3
+    this.dispatchEvent(Object.assign(new Event("close"), { code, reason }))
+  }
+
+  open() {
+    this.readyState = 1
+    this.dispatchEvent(new Event("open"))
+  }
+
+  receive(message: unknown) {
+    this.dispatchEvent(new MessageEvent("message", { data: JSON.stringify(message) }))
+  }
+
+  messages(): ReadonlyArray<string> {
+    return this.sent.map((text) => {
+      const message = JSON.parse(text) as
+        | FinnhubProvider.SubscribeMessage
+        | FinnhubProvider.UnsubscribeMessage
+      return `${message.type} ${message.symbol}`
+    })
+  }
+}
+
+const fastReconnect: ReconnectConfig = {
+  initialDelayMs: 5,
+  maxDelayMs: 5,
+  factor: 1,
+  maxAttempts: undefined,
+  resetAfterMs: 60_000,
+}
+
+const makeProvider = (reconnect: ReconnectConfig = fastReconnect) => {
+  const sockets: Array<FakeWebSocket> = []
+  const layer = FinnhubProvider.FinnhubProviderLive.pipe(
+    Layer.provide(
+      Layer.succeed(FinnhubProvider.FinnhubConfigTag, {
+        _tag: "finnhub",
+        token: Redacted.make("test-token"),
+        wsUrl: "wss://finnhub.test",
+        reconnect,
+      })
+    ),
+    Layer.provide(
+      Layer.succeed(Socket.WebSocketConstructor, () => {
+        const socket = new FakeWebSocket()
+        sockets.push(socket)
+        return socket as unknown as globalThis.WebSocket
+      })
+    )
+  )
+  return { sockets, layer }
+}
+
+/**
+ * Wait until a condition holds, polling on the real clock.
+ */
+const eventually = (condition: () => boolean) =>
+  Effect.promise(async () => {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await Bun.sleep(5)
+    }
+  }).pipe(Effect.andThen(() => expect(condition()).toBe(true)))
+
+const tradeMessage = (...symbols: ReadonlyArray<string>): FinnhubProvider.TradeMessage => ({
+  type: "trade",
+  data: symbols.map((s, i) => ({ s, p: 100 + i, v: 10, t: 1_700_000_000_000 + i })),
+})
+
+/**
+ * Collect a subscription's trades in the background.
+ */
+const collect = (symbols: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const provider = yield* MarketDataProvider.MarketDataProvider
+    const trades: Array<Trade.TradeData> = []
+    const fiber = yield* Effect.forkScoped(
+      Stream.runForEach(provider.subscribe(symbols), (trade) =>
+        Effect.sync(() => trades.push(trade))
+      )
+    )
+    return { trades, fiber }
+  })
+
+/**
+ * Collect the provider's connection statuses in the background.
+ */
+const statuses = Effect.gen(function* () {
+  const provider = yield* MarketDataProvider.MarketDataProvider
+  const seen: Array<ConnectionStatus.ConnectionStatus> = []
+  yield* Effect.forkScoped(
+    Stream.runForEach(provider.connectionStatus, (status) => Effect.sync(() => seen.push(status)))
+  )
+  return seen
+})
+
+const run = <A, E>(
+  layer: Layer.Layer<MarketDataProvider.MarketDataProvider>,
+  program: Effect.Effect<A, E, MarketDataProvider.MarketDataProvider | Scope.Scope>
+) => Effect.runPromise(program.pipe(Effect.provide(layer), Effect.scoped))
+
+describe("FinnhubProvider", () => {
+  describe("subscribe", () => {
+    it("should share one connection and emit only the trades of the stream's own symbols", async () => {
+      const { sockets, layer } = makeProvider()
+
+      await run(
+        layer,
+        Effect.gen(function* () {
+          const aapl = yield* collect(["AAPL"])
+          yield* eventually(() => sockets.length === 1)
+          sockets[0]!.open()
+          yield* eventually(() => sockets[0]!.sent.length === 1)
+          const msft = yield* collect(["MSFT"])
+          yield* eventually(() => sockets[0]!.sent.length === 2)
+
+          sockets[0]!.receive(tradeMessage("AAPL", "MSFT"))
+          yield* eventually(() => aapl.trades.length > 0 && msft.trades.length > 0)
+
+          expect(sockets).toHaveLength(1)
+          expect(sockets[0]!.messages()).toEqual(["subscribe AAPL", "subscribe MSFT"])
+          expect(aapl.trades.map((trade) => trade.symbol as string)).toEqual(["AAPL"])
+          expect(msft.trades.map((trade) => trade.symbol as string)).toEqual(["MSFT"])
+        })
+      )
+    })
+
+    it("should keep a symbol active while another subscription still holds it", async () => {
+      const { sockets, layer } = makeProvider()
+
+      await run(
+        layer,
+        Effect.gen(function* () {
+          const first = yield* collect(["AAPL"])
+          yield* eventually(() => sockets.length === 1)
+          sockets[0]!.open()
+          yield* eventually(() => sockets[0]!.sent.length === 1)
+          const second = yield* collect(["AAPL", "MSFT"])
+          yield* eventually(() => sockets[0]!.sent.length === 2)
+
+          yield* Fiber.interrupt(second.fiber)
+          yield* eventually(() => sockets[0]!.sent.length === 3)
+          expect(sockets[0]!.messages()).toEqual([
+            "subscribe AAPL",
+            "subscribe MSFT",
+            "unsubscribe MSFT",
+          ])
+
+          sockets[0]!.close(1006)
+          yield* eventually(() => sockets.length === 2)
+          sockets[1]!.open()
+          yield* eventually(() => sockets[1]!.sent.length === 1)
+
+          expect(sockets[1]!.messages()).toEqual(["subscribe AAPL"])
+          sockets[1]!.receive(tradeMessage("AAPL"))
+          yield* eventually(() => first.trades.length === 1)
+        })
+      )
+    })
+  })
+
+  describe("reconnect", () => {
+    it("should reconnect after a disconnect and resubscribe the active symbols", async () => {
+      const { sockets, layer } = makeProvider()
+
+      await run(
+        layer,
+        Effect.gen(function* () {
+          const seen = yield* statuses
+          const aapl = yield* collect(["AAPL"])
+          yield* eventually(() => sockets.length === 1)
+          sockets[0]!.open()
+          yield* eventually(() => sockets[0]!.sent.length === 1)
+
+          sockets[0]!.close(4000, "gone")
+          yield* eventually(() => sockets.length === 2)
+          sockets[1]!.open()
+          yield* eventually(() => sockets[1]!.sent.length === 1)
+
+          expect(sockets[1]!.messages()).toEqual(["subscribe AAPL"])
+          sockets[1]!.receive(tradeMessage("AAPL"))
+          yield* eventually(() => aapl.trades.length === 1)
+
+          expect(seen.filter((status) => status._tag === "Reconnecting")).toEqual([
+            { _tag: "Reconnecting", attempt: 1, reason: "Connection closed (code 4000: gone)" },
+          ])
+          expect(seen[seen.length - 1]?._tag).toBe("Open")
+        })
+      )
+    })
+
+    it("should report the status of the one shared connection", async () => {
+      const { sockets, layer } = makeProvider()
+
+      await run(
+        layer,
+        Effect.gen(function* () {
+          const seen = yield* statuses
+          yield* collect(["AAPL"])
+          const msft = yield* collect(["MSFT"])
+          yield* eventually(() => sockets.length === 1)
+          sockets[0]!.open()
+          yield* eventually(() => sockets[0]!.sent.length === 2)
+          yield* Fiber.interrupt(msft.fiber)
+
+          sockets[0]!.close(4000, "gone")
+          yield* eventually(() => sockets.length === 2)
+          sockets[1]!.open()
+          yield* eventually(() => seen[seen.length - 1]?._tag === "Open")
+
+          expect(seen.map((status) => status._tag)).toEqual([
+            "Connecting",
+            "Open",
+            "Reconnecting",
+            "Connecting",
+            "Open",
+          ])
+          expect(seen[3]).toEqual({ _tag: "Connecting", attempt: 2 })
+        })
+      )
+    })
+
+    it("should count flapping connections towards the attempt limit it reports", async () => {
+      const { sockets, layer } = makeProvider({ ...fastReconnect, maxAttempts: 2 })
+
+      await run(
+        layer,
+        Effect.gen(function* () {
+          const seen = yield* statuses
+          const aapl = yield* collect(["AAPL"])
+          for (let i = 0; i < 3; i++) {
+            yield* eventually(() => sockets.length === i + 1)
+            sockets[i]!.open()
+            yield* eventually(() => sockets[i]!.sent.length === 1)
+            sockets[i]!.close(4000, "flap")
+          }
+          yield* Fiber.join(aapl.fiber)
+
+          expect(sockets).toHaveLength(3)
+          expect(
+            seen.flatMap((status) => (status._tag === "Reconnecting" ? [status.attempt] : []))
+          ).toEqual([1, 2])
+          yield* eventually(() => seen[seen.length - 1]?._tag === "Failed")
+          expect(seen[seen.length - 1]).toEqual({
+            _tag: "Failed",
+            attempts: 3,
+            reason: "Connection closed (code 4000: flap)",
+          })
+        })
+      )
+    })
+  })
+})
@@ -7,12 +7,20 @@ import * as Console from "effect/Console"
 import * as Clock from "effect/Clock"
 import * as Array from "effect/Array"
 import * as Data from "effect/Data"
-import * as Scope from "effect/Scope"
+import * as Deferred from "effect/Deferred"
+import * as PubSub from "effect/PubSub"
+import * as Queue from "effect/Queue"
 import * as Redacted from "effect/Redacted"
+import * as Ref from "effect/Ref"
+import * as Schedule from "effect/Schedule"
+import * as ScheduleDecision from "effect/ScheduleDecision"
+import * as SubscriptionRef from "effect/SubscriptionRef"
+import * as DateTime from "effect/DateTime"
 import { pipe } from "effect/Function"
 import * as MarketDataProvider from "../services/MarketDataProvider"
 import * as Trade from "../domain/Trade"
-import { type FinnhubConfig } from "../config/AppConfig"
+import * as ConnectionStatus from "../domain/ConnectionStatus"
+import { type FinnhubConfig, defaultReconnectConfig } from "../config/AppConfig"
 
 /**
  * Finnhub-specific error types.
@@ -92,6 +100,59 @@ const ANSI = {
   bold: "\x1b[1m",
   brightCyan: "\x1b[96m",
   brightGreen: "\x1b[92m",
+  brightYellow: "\x1b[93m",
+  brightRed: "\x1b[91m",
+}
+
+/**
+ * Describe a socket failure for connection status and logs.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const describeSocketError = (error: Socket.SocketError): string =>
+  error.reason === "Close"
+    ? `Connection closed (code ${error.code}${error.closeReason ? `: ${error.closeReason}` : ""})`
+    : `Socket ${error.reason} error`
+
+/**
+ * Count one more subscription for each of the symbols.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const retainSymbols = (
+  active: ReadonlyMap<string, number>,
+  symbols: ReadonlyArray<string>
+): ReadonlyMap<string, number> => {
+  const next = new Map(active)
+  for (const symbol of Array.dedupe(symbols)) {
+    next.set(symbol, (next.get(symbol) ?? 0) + 1)
+  }
+  return next
+}
+
+/**
+ * Count one subscription less for each of the symbols, dropping a symbol once
+ * no subscription holds it.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const releaseSymbols = (
+  active: ReadonlyMap<string, number>,
+  symbols: ReadonlyArray<string>
+): ReadonlyMap<string, number> => {
+  const next = new Map(active)
+  for (const symbol of Array.dedupe(symbols)) {
+    const count = (next.get(symbol) ?? 0) - 1
+    if (count > 0) {
+      next.set(symbol, count)
+    } else {
+      next.delete(symbol)
+    }
+  }
+  return next
 }
 
 /**
@@ -107,10 +168,15 @@ export const FinnhubConfigTag = Context.GenericTag<FinnhubConfig>("@config/Finnh
  *
  * This layer implements the MarketDataProvider interface for Finnhub's
  * WebSocket API. It:
- * - Establishes WebSocket connection with authentication
- * - Subscribes to symbols
- * - Parses and transforms Finnhub messages into Trade.TradeData
- * - Handles connection lifecycle and errors
+ * - Establishes one WebSocket connection with authentication, shared by all
+ *   subscriptions (Finnhub's free tier allows a single connection)
+ * - Ref-counts subscribed symbols, sending a SubscribeMessage when a symbol is
+ *   first wanted and an UnsubscribeMessage once no subscription holds it
+ * - Parses and transforms Finnhub messages into Trade.TradeData, each stream
+ *   emitting only the trades of its own symbols
+ * - Reconnects with jittered exponential backoff when the socket errors or closes,
+ *   resending a SubscribeMessage for every active symbol
+ * - Publishes the connection lifecycle on `connectionStatus`
  *
  * Type: Layer<MarketDataProvider, never, FinnhubConfig | Socket.WebSocketConstructor>
  * - RequirementsOut: MarketDataProvider (what we're creating)
@@ -130,7 +196,8 @@ export const FinnhubConfigTag = Context.GenericTag<FinnhubConfig>("@config/Finnh
  *   {
  *     _tag: "finnhub",
  *     token: Redacted.make("your-token"),
- *     wsUrl: "wss://ws.finnhub.io"
+ *     wsUrl: "wss://ws.finnhub.io",
+ *     reconnect: AppConfig.defaultReconnectConfig
  *   }
  * )
  *
@@ -143,113 +210,206 @@ export const FinnhubProviderLive = Layer.scoped(
   MarketDataProvider.MarketDataProvider,
   Effect.gen(function* () {
     const config = yield* FinnhubConfigTag
-    const scope = yield* Scope.Scope
     // Extract token from Redacted
     const token = Redacted.value(config.token)
     const wsUrl = `${config.wsUrl}?token=${token}`
+    const schedule = MarketDataProvider.reconnectSchedule(
+      config.reconnect ?? defaultReconnectConfig
+    )
+
+    const status = yield* SubscriptionRef.make<ConnectionStatus.ConnectionStatus>(
+      ConnectionStatus.Connecting.make({ attempt: 1 })
+    )
+    // Symbols of all live subscriptions with the number of subscriptions holding
+    // each, resent on every (re)connect
+    const activeSymbols = yield* Ref.make<ReadonlyMap<string, number>>(new Map())
+    // Consecutive failed connections, as last counted by the reconnect schedule
+    const failures = yield* Ref.make(0)
+    // Every trade of the connection, each subscription keeps its own symbols
+    const trades = yield* PubSub.unbounded<Trade.TradeData>()
+    // Completed once reconnecting is given up, which ends every subscription
+    const gaveUp = yield* Deferred.make<void>()
+    // Subscribe/unsubscribe messages, written in order as the connection allows
+    const outbox = yield* Queue.unbounded<SubscribeMessage | UnsubscribeMessage>()
 
     yield* Console.log(
       `${ANSI.brightCyan}Finnhub Provider: Connecting to ${config.wsUrl}...${ANSI.reset}`
     )
 
-    // Create WebSocket connection (requires WebSocketConstructor from layer dependencies)
+    // Create WebSocket connection (requires WebSocketConstructor from layer dependencies).
+    // Every runRaw call acquires a fresh socket, which is what makes reconnecting possible.
     const ws = yield* Socket.makeWebSocket(wsUrl)
+    const write = yield* ws.writer
+
+    // Messages wait for an open socket, so the writer blocks while disconnected
+    yield* Effect.forkScoped(
+      Queue.take(outbox).pipe(
+        Effect.flatMap((message) => write(JSON.stringify(message))),
+        Effect.catchAll((error) =>
+          Console.error(`Finnhub: Error writing to socket: ${describeSocketError(error)}`)
+        ),
+        Effect.forever
+      )
+    )
+
+    // Changes are only sent on an open connection, the next one resubscribes anyway
+    const announce = (type: "subscribe" | "unsubscribe", symbols: ReadonlyArray<string>) =>
+      Effect.gen(function* () {
+        const current = yield* SubscriptionRef.get(status)
+        if (current._tag === "Open") {
+          yield* Queue.offerAll(
+            outbox,
+            symbols.map((symbol) => ({ type, symbol }))
+          )
+        }
+      })
+
+    const retain = (symbols: ReadonlyArray<string>) =>
+      Ref.modify(activeSymbols, (active) => [
+        Array.dedupe(symbols).filter((symbol) => !active.has(symbol)),
+        retainSymbols(active, symbols),
+      ]).pipe(Effect.flatMap((added) => announce("subscribe", added)))
+
+    const release = (symbols: ReadonlyArray<string>) =>
+      Ref.modify(activeSymbols, (active) => {
+        const next = releaseSymbols(active, symbols)
+        return [Array.dedupe(symbols).filter((symbol) => !next.has(symbol)), next]
+      }).pipe(Effect.flatMap((removed) => announce("unsubscribe", removed)))
+
+    // Process incoming WebSocket messages
+    const processMessage = (data: string | Uint8Array): Effect.Effect<void, FinnhubParseError> =>
+      Effect.gen(function* () {
+        const text = typeof data === "string" ? data : new TextDecoder().decode(data)
+        const message = yield* parseMessage(text)
+
+        if (message.type === "trade") {
+          const receivedTime = yield* Clock.currentTimeMillis
+
+          yield* PubSub.publishAll(
+            trades,
+            message.data.map((trade) =>
+              Trade.TradeData.make({
+                symbol: trade.s,
+                price: trade.p,
+                volume: trade.v,
+                timestamp: trade.t,
+                conditions: trade.c,
+                receivedAt: receivedTime,
+                latency: receivedTime - trade.t,
+              })
+            )
+          )
+        }
+      })
+
+    // Resubscribe to every active symbol each time the connection opens. Messages
+    // still queued for the previous connection are superseded by the full set.
+    const onOpen = Effect.gen(function* () {
+      yield* Ref.set(failures, 0)
+      yield* SubscriptionRef.set(status, ConnectionStatus.Open.make({ since: yield* DateTime.now }))
+      yield* Console.log(`${ANSI.brightGreen}Finnhub: WebSocket connection opened${ANSI.reset}`)
+
+      yield* Queue.takeAll(outbox)
+      const subscribed = Array.fromIterable((yield* Ref.get(activeSymbols)).keys())
+      yield* pipe(
+        subscribed,
+        Array.map((symbol): SubscribeMessage => ({ type: "subscribe", symbol })),
+        (messages) => Queue.offerAll(outbox, messages)
+      )
+
+      yield* Console.log(
+        `${ANSI.brightGreen}Finnhub: Subscribed to ${subscribed.length} symbol(s)${ANSI.reset}`
+      )
+    })
+
+    // A single connection: runs until the socket errors or is closed.
+    // A clean close still ends the feed, so it is treated as a failure too.
+    const connectOnce = Effect.gen(function* () {
+      const attempt = (yield* Ref.get(failures)) + 1
+      yield* SubscriptionRef.set(status, ConnectionStatus.Connecting.make({ attempt }))
+
+      yield* ws
+        .runRaw(
+          (data) =>
+            processMessage(data).pipe(
+              Effect.catchTag("FinnhubParseError", (error) =>
+                Console.error(`Finnhub: Parse error: ${error.message}\nRaw text: ${error.rawText}`)
+              )
+            ),
+          { onOpen }
+        )
+        .pipe(
+          Effect.mapError(
+            (error) => new FinnhubConnectionError({ reason: describeSocketError(error) })
+          )
+        )
+
+      return yield* new FinnhubConnectionError({ reason: "Connection closed by server" })
+    })
+
+    const onDisconnect = (error: FinnhubConnectionError, attempt: number) =>
+      Effect.gen(function* () {
+        yield* Ref.set(failures, attempt)
+        yield* SubscriptionRef.set(
+          status,
+          ConnectionStatus.Reconnecting.make({ attempt, reason: error.reason })
+        )
+        yield* Console.error(
+          `${ANSI.brightYellow}Finnhub: ${error.reason}, reconnecting (attempt ${attempt})...${ANSI.reset}`
+        )
+      })
+
+    const onGiveUp = (error: FinnhubConnectionError, attempts: number) =>
+      Effect.gen(function* () {
+        yield* SubscriptionRef.set(
+          status,
+          ConnectionStatus.Failed.make({ attempts, reason: error.reason })
+        )
+        yield* Console.error(
+          `${ANSI.brightRed}Finnhub: Giving up after ${attempts} attempt(s): ${error.reason}${ANSI.reset}`
+        )
+        yield* Deferred.succeed(gaveUp, undefined)
+      })
+
+    // The schedule counts the failures, both for its own limit and for the statuses
+    const reconnecting = Schedule.identity<FinnhubConnectionError>().pipe(
+      Schedule.intersect(schedule),
+      Schedule.onDecision(([error, attempt], decision) =>
+        ScheduleDecision.isContinue(decision) ? onDisconnect(error, attempt) : Effect.void
+      )
+    )
+
+    // The layer's one connection, shared by all subscriptions and reconnecting on
+    // the configured schedule
+    yield* Effect.forkScoped(
+      connectOnce.pipe(
+        Effect.retryOrElse(reconnecting, (error, [, attempts]) => onGiveUp(error, attempts))
+      )
+    )
 
     return MarketDataProvider.MarketDataProvider.of({
       authenticate: Effect.gen(function* () {
         yield* Console.log(`${ANSI.brightGreen}Finnhub: Connection authenticated${ANSI.reset}`)
       }),
 
+      connectionStatus: status.changes,
+
       subscribe: (symbols) =>
-        Stream.asyncScoped<Trade.TradeData>((emit) =>
+        Stream.unwrapScoped(
           Effect.gen(function* () {
             yield* Console.log(
               `${ANSI.brightCyan}Finnhub: Subscribing to ${symbols.length} symbol(s): ${symbols.join(", ")}${ANSI.reset}`
             )
 
-            // Process incoming WebSocket messages
-            const processMessage = (
-              data: string | Uint8Array
-            ): Effect.Effect<void, FinnhubParseError> =>
-              Effect.gen(function* () {
-                const text = typeof data === "string" ? data : new TextDecoder().decode(data)
-                const message = yield* parseMessage(text)
-
-                if (message.type === "trade") {
-                  const receivedTime = yield* Clock.currentTimeMillis
-
-                  // Emit each trade to the stream
-                  yield* Effect.forEach(
-                    message.data,
-                    (trade) => {
-                      const tradeData = Trade.TradeData.make({
-                        symbol: trade.s,
-                        price: trade.p,
-                        volume: trade.v,
-                        timestamp: trade.t,
-                        conditions: trade.c,
-                        receivedAt: receivedTime,
-                        latency: receivedTime - trade.t,
-                      })
-                      return Effect.promise(() => emit.single(tradeData))
-                    },
-                    { discard: true }
-                  )
-                }
-              })
-
-            // Subscribe to symbols on connection open
-            const onOpen = Effect.gen(function* () {
-              yield* Console.log(
-                `${ANSI.brightGreen}Finnhub: WebSocket connection opened${ANSI.reset}`
-              )
+            // Listen before subscribing so no trade of the new symbols is missed
+            const subscription = yield* PubSub.subscribe(trades)
+            yield* Effect.acquireRelease(retain(symbols), () => release(symbols))
+            // The connection carries the symbols of all subscriptions, keep this stream's own
+            const wanted = new Set<string>(symbols)
 
-              yield* Effect.gen(function* () {
-                const write = yield* ws.writer
-
-                yield* pipe(
-                  symbols,
-                  Array.map((symbol) => {
-                    const subscribeMsg: SubscribeMessage = {
-                      type: "subscribe",
-                      symbol: symbol,
-                    }
-                    return write(JSON.stringify(subscribeMsg))
-                  }),
-                  Effect.all,
-                  Effect.asVoid
-                )
-
-                yield* Console.log(
-                  `${ANSI.brightGreen}Finnhub: Subscribed to ${symbols.length} symbol(s)${ANSI.reset}`
-                )
-              }).pipe(
-                Scope.extend(scope),
-                Effect.catchAll((error) =>
-                  Console.error(`Finnhub: Error in onOpen: ${JSON.stringify(error, null, 2)}`)
-                )
-              )
-            })
-
-            // Run WebSocket with message handler
-            yield* Effect.forkScoped(
-              ws
-                .runRaw(
-                  (data) =>
-                    processMessage(data).pipe(
-                      Effect.catchTag("FinnhubParseError", (error) =>
-                        Console.error(
-                          `Finnhub: Parse error: ${error.message}\nRaw text: ${error.rawText}`
-                        )
-                      )
-                    ),
-                  { onOpen }
-                )
-                .pipe(
-                  Effect.catchAll((error) =>
-                    Console.error(`Finnhub: WebSocket error: ${JSON.stringify(error, null, 2)}`)
-                  )
-                )
+            return Stream.fromQueue(subscription).pipe(
+              Stream.filter((trade) => wanted.has(trade.symbol)),
+              Stream.interruptWhenDeferred(gaveUp)
             )
           })
         ),
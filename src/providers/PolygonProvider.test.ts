@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test"
+import * as PolygonProvider from "./PolygonProvider"
+import * as Trade from "../domain/Trade"
+import * as Effect from "effect/Effect"
+import * as Exit from "effect/Exit"
+
+const tradeMessage = (
+  overrides?: Partial<PolygonProvider.PolygonTradeMessage>
+): PolygonProvider.PolygonTradeMessage => ({
+  ev: "T",
+  sym: "AAPL",
+  x: 4,
+  i: "12345",
+  z: 3,
+  p: 189.25,
+  s: 100,
+  c: [12, 37],
+  t: 1_700_000_000_123,
+  ...overrides,
+})
+
+describe("PolygonProvider", () => {
+  describe("toMillis", () => {
+    it("should keep millisecond timestamps", () => {
+      expect(PolygonProvider.toMillis(1_700_000_000_123)).toBe(1_700_000_000_123)
+    })
+
+    it("should convert nanosecond timestamps", () => {
+      expect(PolygonProvider.toMillis(1_700_000_000_123_456_789)).toBe(1_700_000_000_123)
+    })
+
+    it("should convert microsecond timestamps", () => {
+      expect(PolygonProvider.toMillis(1_700_000_000_123_456)).toBe(1_700_000_000_123)
+    })
+  })
+
+  describe("toTradeChannels", () => {
+    it("should prefix every symbol with the trade channel", () => {
+      expect(PolygonProvider.toTradeChannels(["AAPL", "MSFT"])).toBe("T.AAPL,T.MSFT")
+    })
+  })
+
+  describe("convertTrade", () => {
+    it("should convert a trade message into TradeData", async () => {
+      const trade = await Effect.runPromise(
+        PolygonProvider.convertTrade(
+          tradeMessage({ t: 1_700_000_000_000_000_000 }),
+          1_700_000_000_050
+        )
+      )
+
+      expect(trade.symbol).toBe("AAPL" as Trade.Symbol)
+      expect(trade.price).toBe(189.25 as Trade.Price)
+      expect(trade.volume).toBe(100 as Trade.Volume)
+      expect(trade.timestamp).toBe(1_700_000_000_000 as Trade.Timestamp)
+      expect(trade.latency).toBe(50 as Trade.Latency)
+      expect(trade.conditions).toEqual(["12", "37"])
+    })
+
+    it("should clamp negative latency from clock skew", async () => {
+      const trade = await Effect.runPromise(
+        PolygonProvider.convertTrade(tradeMessage(), 1_700_000_000_000)
+      )
+      expect(trade.latency).toBe(0 as Trade.Latency)
+    })
+
+    it("should reject invalid trades", async () => {
+      const exit = await Effect.runPromiseExit(
+        PolygonProvider.convertTrade(tradeMessage({ p: -1 }), 1_700_000_000_200)
+      )
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+})
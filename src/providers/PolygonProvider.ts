@@ -0,0 +1,372 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Socket from "@effect/platform/Socket"
+import * as Console from "effect/Console"
+import * as Clock from "effect/Clock"
+import * as Redacted from "effect/Redacted"
+import * as Data from "effect/Data"
+import * as Ref from "effect/Ref"
+import * as Schedule from "effect/Schedule"
+import * as ScheduleDecision from "effect/ScheduleDecision"
+import * as Schema from "effect/Schema"
+import * as SubscriptionRef from "effect/SubscriptionRef"
+import * as DateTime from "effect/DateTime"
+import type { ParseError } from "effect/ParseResult"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import * as Trade from "../domain/Trade"
+import * as ConnectionStatus from "../domain/ConnectionStatus"
+import { type PolygonConfig, defaultReconnectConfig } from "../config/AppConfig"
+
+/**
+ * Polygon-specific error types.
+ *
+ * @category Errors
+ * @since 0.3.0
+ */
+export class PolygonParseError extends Data.TaggedError("PolygonParseError")<{
+  readonly message: string
+  readonly rawText: string
+}> {}
+
+export class PolygonConnectionError extends Data.TaggedError("PolygonConnectionError")<{
+  readonly reason: string
+}> {}
+
+export class PolygonAuthError extends Data.TaggedError("PolygonAuthError")<{
+  readonly message: string
+}> {}
+
+/**
+ * Polygon WebSocket message types.
+ *
+ * Reference: https://polygon.io/docs/stocks/ws_stocks_t
+ *
+ * @category Types
+ * @since 0.3.0
+ */
+export interface PolygonTradeMessage {
+  ev: "T" // Event type (T = Trade)
+  sym: string // Symbol
+  x: number // Exchange ID
+  i: string // Trade ID
+  z: number // Tape
+  p: number // Price
+  s: number // Size (volume)
+  c?: number[] // Conditions
+  t: number // SIP timestamp (milliseconds on the stream, nanoseconds in flat files)
+}
+
+export interface PolygonStatusMessage {
+  ev: "status"
+  status: PolygonStatus | (string & {})
+  message: string
+}
+
+/**
+ * Status values sent by Polygon during the connection handshake.
+ *
+ * @category Types
+ * @since 0.5.0
+ */
+export type PolygonStatus =
+  | "connected"
+  | "auth_success"
+  | "auth_failed"
+  | "auth_timeout"
+  | "success"
+  | "error"
+  | "max_connections"
+
+export type PolygonMessage = PolygonTradeMessage | PolygonStatusMessage
+
+/**
+ * Polygon configuration tag for dependency injection.
+ *
+ * @category Services
+ * @since 0.3.0
+ */
+export const PolygonConfigTag = Context.GenericTag<PolygonConfig>("@config/PolygonConfig")
+
+/**
+ * Parse incoming Polygon WebSocket message (always a JSON array of events).
+ *
+ * @category Utilities
+ * @since 0.3.0
+ */
+const parseMessage = (text: string): Effect.Effect<PolygonMessage[], PolygonParseError> =>
+  Effect.try({
+    try: () => JSON.parse(text) as PolygonMessage[],
+    catch: () => new PolygonParseError({ message: "Failed to parse JSON", rawText: text }),
+  })
+
+/**
+ * Normalize a Polygon timestamp to epoch milliseconds.
+ *
+ * Polygon uses milliseconds on the real-time stream but nanoseconds (and
+ * occasionally microseconds) in REST responses and flat files, so the unit
+ * is inferred from the magnitude.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as PolygonProvider from "./providers/PolygonProvider"
+ *
+ * PolygonProvider.toMillis(1_700_000_000_123_456_789) // 1_700_000_000_123
+ * PolygonProvider.toMillis(1_700_000_000_123) // 1_700_000_000_123
+ */
+export const toMillis = (timestamp: number): number => {
+  if (timestamp >= 1e17) return Math.floor(timestamp / 1_000_000) // nanoseconds
+  if (timestamp >= 1e14) return Math.floor(timestamp / 1_000) // microseconds
+  return Math.floor(timestamp)
+}
+
+/**
+ * Format symbols as Polygon trade channels (e.g. "T.AAPL,T.MSFT").
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const toTradeChannels = (symbols: ReadonlyArray<string>): string =>
+  symbols.map((symbol) => `T.${symbol}`).join(",")
+
+/**
+ * Convert Polygon trade to standard Trade.TradeData format.
+ *
+ * @category Utilities
+ * @since 0.3.0
+ */
+export const convertTrade = (
+  trade: PolygonTradeMessage,
+  receivedAt: number
+): Effect.Effect<Trade.TradeData, ParseError> => {
+  const timestamp = toMillis(trade.t)
+  return Schema.decodeUnknown(Trade.TradeData)({
+    symbol: trade.sym,
+    price: trade.p,
+    volume: trade.s,
+    timestamp,
+    conditions: trade.c?.map(String),
+    receivedAt,
+    latency: Math.max(0, receivedAt - timestamp),
+  })
+}
+
+/**
+ * Describe a socket failure for connection status and logs.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const describeSocketError = (error: Socket.SocketError): string =>
+  error.reason === "Close"
+    ? `Connection closed (code ${error.code}${error.closeReason ? `: ${error.closeReason}` : ""})`
+    : `Socket ${error.reason} error`
+
+/**
+ * Polygon MarketDataProvider implementation.
+ *
+ * Performs Polygon's handshake on every connection:
+ * 1. Wait for the `connected` status and send `{"action":"auth"}`
+ * 2. Wait for `auth_success` and subscribe to `T.<symbol>` channels
+ * 3. Convert trade events (`ev: "T"`) into Trade.TradeData
+ *
+ * Dropped connections are retried with the configured reconnect policy, while
+ * `auth_failed` is fatal and moves the connection status to Failed.
+ *
+ * Type: Layer<MarketDataProvider, never, PolygonConfig | Socket.WebSocketConstructor>
+ *
+ * @category Layers
+ * @since 0.3.0
+ * @example
+ * import * as PolygonProvider from "./providers/PolygonProvider"
+ * import * as Layer from "effect/Layer"
+ * import * as Socket from "@effect/platform/Socket"
+ * import * as Redacted from "effect/Redacted"
+ *
+ * const configLayer = Layer.succeed(
+ *   PolygonProvider.PolygonConfigTag,
+ *   {
+ *     _tag: "polygon",
+ *     apiKey: Redacted.make("your-api-key"),
+ *     wsUrl: "wss://socket.polygon.io/stocks"
+ *   }
+ * )
+ *
+ * const provider = PolygonProvider.PolygonProviderLive.pipe(
+ *   Layer.provide(configLayer),
+ *   Layer.provide(Socket.layerWebSocketConstructorGlobal)
+ * )
+ */
+export const PolygonProviderLive = Layer.scoped(
+  MarketDataProvider.MarketDataProvider,
+  Effect.gen(function* () {
+    const config = yield* PolygonConfigTag
+
+    // Extract API key from Redacted
+    const apiKey = Redacted.value(config.apiKey)
+    const schedule = MarketDataProvider.reconnectSchedule(
+      config.reconnect ?? defaultReconnectConfig
+    )
+
+    const status = yield* SubscriptionRef.make<ConnectionStatus.ConnectionStatus>(
+      ConnectionStatus.Connecting.make({ attempt: 1 })
+    )
+    // Consecutive failed connections, as last counted by the reconnect schedule
+    const failures = yield* Ref.make(0)
+
+    yield* Console.log(`Polygon Provider: Connecting to ${config.wsUrl}...`)
+
+    // Create WebSocket connection (a fresh socket is acquired on every runRaw)
+    const ws = yield* Socket.makeWebSocket(config.wsUrl)
+
+    return MarketDataProvider.MarketDataProvider.of({
+      // Polygon authenticates per connection as part of the handshake in `subscribe`
+      authenticate: Console.log("Polygon: Authentication is performed on connect"),
+
+      connectionStatus: status.changes,
+
+      subscribe: (symbols) =>
+        Stream.asyncScoped<Trade.TradeData>((emit) =>
+          Effect.gen(function* () {
+            yield* Console.log(
+              `Polygon: Subscribing to ${symbols.length} symbol(s): ${symbols.join(", ")}`
+            )
+
+            const write = yield* ws.writer
+
+            const handleStatus = (
+              message: PolygonStatusMessage
+            ): Effect.Effect<void, PolygonAuthError | Socket.SocketError> =>
+              Effect.gen(function* () {
+                switch (message.status) {
+                  case "connected":
+                    yield* write(JSON.stringify({ action: "auth", params: apiKey }))
+                    yield* Console.log("Polygon: Authentication sent")
+                    return
+                  case "auth_success":
+                    yield* SubscriptionRef.set(
+                      status,
+                      ConnectionStatus.Open.make({ since: yield* DateTime.now })
+                    )
+                    yield* write(
+                      JSON.stringify({ action: "subscribe", params: toTradeChannels(symbols) })
+                    )
+                    yield* Console.log(
+                      `Polygon: Authenticated, subscribed to ${symbols.length} symbol(s)`
+                    )
+                    return
+                  case "auth_failed":
+                    return yield* new PolygonAuthError({ message: message.message })
+                  default:
+                    yield* Console.log(`Polygon status: ${message.status} - ${message.message}`)
+                }
+              })
+
+            // Process incoming WebSocket messages
+            const processMessage = (
+              data: string | Uint8Array
+            ): Effect.Effect<void, PolygonParseError | PolygonAuthError | Socket.SocketError> =>
+              Effect.gen(function* () {
+                const text = typeof data === "string" ? data : new TextDecoder().decode(data)
+                const messages = yield* parseMessage(text)
+                const receivedTime = yield* Clock.currentTimeMillis
+
+                yield* Effect.forEach(
+                  messages,
+                  (message) =>
+                    message.ev === "T"
+                      ? convertTrade(message, receivedTime).pipe(
+                          Effect.flatMap((tradeData) =>
+                            Effect.promise(() => emit.single(tradeData))
+                          ),
+                          Effect.catchTag("ParseError", (error) =>
+                            Console.error(
+                              `Polygon: Invalid trade for ${message.sym}: ${error.message}`
+                            )
+                          )
+                        )
+                      : handleStatus(message),
+                  { discard: true }
+                )
+              })
+
+            // A single connection: runs until the socket errors or is closed.
+            const connectOnce = Effect.gen(function* () {
+              const attempt = (yield* Ref.get(failures)) + 1
+              yield* SubscriptionRef.set(status, ConnectionStatus.Connecting.make({ attempt }))
+
+              yield* ws
+                .runRaw(
+                  (data) =>
+                    processMessage(data).pipe(
+                      Effect.catchTag("PolygonParseError", (error) =>
+                        Console.error(
+                          `Polygon: Parse error: ${error.message}\nRaw text: ${error.rawText}`
+                        )
+                      )
+                    ),
+                  { onOpen: Console.log("Polygon: WebSocket connection opened") }
+                )
+                .pipe(
+                  Effect.catchTag("SocketError", (error) =>
+                    Effect.fail(new PolygonConnectionError({ reason: describeSocketError(error) }))
+                  )
+                )
+
+              return yield* new PolygonConnectionError({ reason: "Connection closed by server" })
+            })
+
+            const reasonOf = (error: PolygonConnectionError | PolygonAuthError) =>
+              error._tag === "PolygonAuthError"
+                ? `Authentication failed: ${error.message}`
+                : error.reason
+
+            const onDisconnect = (
+              error: PolygonConnectionError | PolygonAuthError,
+              attempt: number
+            ) =>
+              Effect.gen(function* () {
+                const reason = reasonOf(error)
+                yield* Ref.set(failures, attempt)
+                yield* SubscriptionRef.set(
+                  status,
+                  ConnectionStatus.Reconnecting.make({ attempt, reason })
+                )
+                yield* Console.error(`Polygon: ${reason}, reconnecting (attempt ${attempt})...`)
+              })
+
+            const onGiveUp = (error: PolygonConnectionError | PolygonAuthError, attempts: number) =>
+              Effect.gen(function* () {
+                const reason = reasonOf(error)
+                yield* SubscriptionRef.set(
+                  status,
+                  ConnectionStatus.Failed.make({ attempts, reason })
+                )
+                yield* Console.error(`Polygon: Giving up: ${reason}`)
+                yield* Effect.promise(() => emit.end())
+              })
+
+            // The schedule counts the failures, both for its own limit and for the statuses
+            const reconnecting = Schedule.identity<
+              PolygonConnectionError | PolygonAuthError
+            >().pipe(
+              Schedule.whileInput((error) => error._tag !== "PolygonAuthError"),
+              Schedule.intersect(schedule),
+              Schedule.onDecision(([error, attempt], decision) =>
+                ScheduleDecision.isContinue(decision) ? onDisconnect(error, attempt) : Effect.void
+              )
+            )
+
+            // Run WebSocket with message handler, reconnecting unless authentication is rejected
+            yield* Effect.forkScoped(
+              connectOnce.pipe(
+                Effect.retryOrElse(reconnecting, (error, [, attempts]) => onGiveUp(error, attempts))
+              )
+            )
+          })
+        ),
+    })
+  })
+)
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "bun:test"
+import * as ReplayProvider from "./ReplayProvider"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import * as Trade from "../domain/Trade"
+import * as Effect from "effect/Effect"
+import * as Exit from "effect/Exit"
+import * as Fiber from "effect/Fiber"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as TestClock from "effect/TestClock"
+import * as TestContext from "effect/TestContext"
+import * as FileSystem from "@effect/platform/FileSystem"
+
+const encodedTrade = (symbol: string, price: number, timestamp: number) => ({
+  symbol,
+  price,
+  volume: 100,
+  timestamp,
+  receivedAt: timestamp + 5,
+  latency: 5,
+})
+
+const ndjson = [
+  encodedTrade("AAPL", 150, 1_700_000_000_000),
+  encodedTrade("MSFT", 380, 1_700_000_000_500),
+  encodedTrade("AAPL", 151, 1_700_000_001_000),
+  encodedTrade("AAPL", 152, 1_700_000_003_000),
+]
+  .map((trade) => JSON.stringify(trade))
+  .join("\n")
+
+const fileSystem = (contents: string) =>
+  FileSystem.layerNoop({
+    stream: () => Stream.make(new TextEncoder().encode(contents)),
+  })
+
+const replay = (contents: string, speed: number) =>
+  ReplayProvider.ReplayProviderLive.pipe(
+    Layer.provide(
+      Layer.succeed(ReplayProvider.ReplayConfigTag, {
+        _tag: "replay",
+        path: "session.ndjson",
+        speed,
+      })
+    ),
+    Layer.provide(fileSystem(contents))
+  )
+
+describe("ReplayProvider", () => {
+  describe("formatFromPath", () => {
+    it("should infer CSV and default to NDJSON", () => {
+      expect(ReplayProvider.formatFromPath("trades.CSV")).toBe("csv")
+      expect(ReplayProvider.formatFromPath("trades.ndjson")).toBe("ndjson")
+      expect(ReplayProvider.formatFromPath("trades.jsonl")).toBe("ndjson")
+    })
+  })
+
+  describe("decodeNdjsonLine", () => {
+    it("should decode a recorded trade", async () => {
+      const trade = await Effect.runPromise(
+        ReplayProvider.decodeNdjsonLine(
+          JSON.stringify(encodedTrade("AAPL", 150, 1_700_000_000_000))
+        )
+      )
+      expect(trade.symbol).toBe("AAPL" as Trade.Symbol)
+      expect(trade.latency).toBe(5 as Trade.Latency)
+    })
+
+    it("should reject malformed lines", async () => {
+      const exit = await Effect.runPromiseExit(ReplayProvider.decodeNdjsonLine("{not json"))
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+
+  describe("decodeCsvLine", () => {
+    it("should map columns by header name", async () => {
+      const header = ReplayProvider.parseCsvHeader("timestamp, symbol, price, volume, conditions")
+      const trade = await Effect.runPromise(
+        ReplayProvider.decodeCsvLine(header, "1700000000000,AAPL,150.25,100,12;37")
+      )
+      expect(trade.symbol).toBe("AAPL" as Trade.Symbol)
+      expect(trade.price).toBe(150.25 as Trade.Price)
+      expect(trade.conditions).toEqual(["12", "37"])
+    })
+
+    it("should default receivedAt and latency", async () => {
+      const header = ReplayProvider.parseCsvHeader("symbol,price,volume,timestamp")
+      const trade = await Effect.runPromise(
+        ReplayProvider.decodeCsvLine(header, "AAPL,150.25,100,1700000000000")
+      )
+      expect(trade.receivedAt).toBe(1_700_000_000_000 as Trade.Timestamp)
+      expect(trade.latency).toBe(0 as Trade.Latency)
+    })
+
+    it("should reject rows with missing values", async () => {
+      const header = ReplayProvider.parseCsvHeader("symbol,price,volume,timestamp")
+      const exit = await Effect.runPromiseExit(ReplayProvider.decodeCsvLine(header, "AAPL,,100,1"))
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+
+  describe("readTrades", () => {
+    it("should skip the CSV header, blank lines and invalid rows", async () => {
+      const csv = "symbol,price,volume,timestamp\nAAPL,150,100,1700000000000\n\nAAPL,-1,100,1\n"
+      const trades = await Effect.runPromise(
+        Stream.runCollect(ReplayProvider.readTrades("session.csv", "csv")).pipe(
+          Effect.provide(fileSystem(csv))
+        )
+      )
+      expect(Chunk.toReadonlyArray(trades).map((trade) => trade.price)).toEqual([
+        150 as Trade.Price,
+      ])
+    })
+  })
+
+  describe("ReplayProviderLive", () => {
+    it("should replay only subscribed symbols as fast as possible", async () => {
+      const prices = await Effect.runPromise(
+        Effect.gen(function* () {
+          const provider = yield* MarketDataProvider.MarketDataProvider
+          const trades = yield* Stream.runCollect(provider.subscribe(["AAPL"]))
+          return Chunk.toReadonlyArray(trades).map(Trade.getPrice)
+        }).pipe(Effect.provide(replay(ndjson, Number.POSITIVE_INFINITY)))
+      )
+      expect(prices).toEqual([150, 151, 152])
+    })
+
+    it("should pace trades by their timestamps at the configured speed", async () => {
+      const program = Effect.gen(function* () {
+        const provider = yield* MarketDataProvider.MarketDataProvider
+        const fiber = yield* Effect.fork(Stream.runCollect(provider.subscribe(["AAPL", "MSFT"])))
+        const emitted = () => Fiber.poll(fiber).pipe(Effect.map((exit) => exit._tag === "Some"))
+
+        // At 2x speed the last trade (3s after the first) is due after 1.5s
+        yield* TestClock.adjust("1499 millis")
+        const doneEarly = yield* emitted()
+        yield* TestClock.adjust("1 millis")
+        const trades = yield* Fiber.join(fiber)
+        return { doneEarly, count: Chunk.size(trades) }
+      }).pipe(Effect.provide(replay(ndjson, 2)), Effect.provide(TestContext.TestContext))
+
+      const result = await Effect.runPromise(program)
+      expect(result.doneEarly).toBe(false)
+      expect(result.count).toBe(4)
+    })
+
+    it("should close the connection status at the end of the recording", async () => {
+      const status = await Effect.runPromise(
+        Effect.gen(function* () {
+          const provider = yield* MarketDataProvider.MarketDataProvider
+          yield* Stream.runDrain(provider.subscribe(["AAPL"]))
+          return yield* Stream.runHead(provider.connectionStatus)
+        }).pipe(Effect.provide(replay(ndjson, Number.POSITIVE_INFINITY)))
+      )
+      expect(status._tag === "Some" && status.value._tag).toBe("Closed")
+    })
+  })
+})
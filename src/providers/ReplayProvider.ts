@@ -0,0 +1,293 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Console from "effect/Console"
+import * as Clock from "effect/Clock"
+import * as Duration from "effect/Duration"
+import * as Option from "effect/Option"
+import * as Schema from "effect/Schema"
+import * as SubscriptionRef from "effect/SubscriptionRef"
+import * as DateTime from "effect/DateTime"
+import { identity } from "effect/Function"
+import { gunzipSync } from "node:zlib"
+import * as FileSystem from "@effect/platform/FileSystem"
+import type { PlatformError } from "@effect/platform/Error"
+import type { ParseError } from "effect/ParseResult"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import * as Trade from "../domain/Trade"
+import * as ConnectionStatus from "../domain/ConnectionStatus"
+import type { ReplayConfig, ReplayFormat } from "../config/AppConfig"
+
+/**
+ * Replay configuration tag for dependency injection.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const ReplayConfigTag = Context.GenericTag<ReplayConfig>("@config/ReplayConfig")
+
+/**
+ * Infer the recording format from a file path (`.csv` or NDJSON otherwise),
+ * ignoring a trailing `.gz`.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const formatFromPath = (path: string): ReplayFormat =>
+  path.toLowerCase().replace(/\.gz$/, "").endsWith(".csv") ? "csv" : "ndjson"
+
+/**
+ * Decode one NDJSON line holding an encoded Trade.TradeData.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as ReplayProvider from "./providers/ReplayProvider"
+ *
+ * const trade = ReplayProvider.decodeNdjsonLine(
+ *   '{"symbol":"AAPL","price":150.25,"volume":100,"timestamp":1700000000000,"receivedAt":1700000000042,"latency":42}'
+ * ) // Effect<TradeData, ParseError>
+ */
+export const decodeNdjsonLine = (line: string): Effect.Effect<Trade.TradeData, ParseError> =>
+  Schema.decodeUnknown(Schema.parseJson(Trade.TradeData))(line)
+
+/**
+ * Split a CSV header row into column names.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const parseCsvHeader = (line: string): ReadonlyArray<string> =>
+  line.split(",").map((column) => column.trim())
+
+/**
+ * Decode one CSV row into Trade.TradeData using the header's column names.
+ *
+ * Required columns are `symbol`, `price`, `volume` and `timestamp`.
+ * `receivedAt` defaults to the trade timestamp, `latency` to the difference
+ * between the two, and `conditions` is a `;`-separated list.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as ReplayProvider from "./providers/ReplayProvider"
+ *
+ * const header = ReplayProvider.parseCsvHeader("symbol,price,volume,timestamp")
+ * const trade = ReplayProvider.decodeCsvLine(header, "AAPL,150.25,100,1700000000000")
+ */
+export const decodeCsvLine = (
+  header: ReadonlyArray<string>,
+  line: string
+): Effect.Effect<Trade.TradeData, ParseError> => {
+  const values = line.split(",").map((value) => value.trim())
+  const field = (name: string): string | undefined => {
+    const value = values[header.indexOf(name)]
+    return value === undefined || value === "" ? undefined : value
+  }
+
+  const timestamp = Number(field("timestamp"))
+  const receivedAt = Number(field("receivedAt") ?? timestamp)
+  return Schema.decodeUnknown(Trade.TradeData)({
+    symbol: field("symbol"),
+    price: Number(field("price")),
+    volume: Number(field("volume")),
+    timestamp,
+    conditions: field("conditions")?.split(";"),
+    receivedAt,
+    latency: Number(field("latency") ?? Math.max(0, receivedAt - timestamp)),
+  })
+}
+
+/**
+ * Read the trades of a recorded session in file order.
+ *
+ * Blank lines are ignored and invalid rows are logged and skipped, so a
+ * partially corrupted recording still replays. CSV files must start with a
+ * header row. Files ending in `.gz` (such as TradeRecorder output) are
+ * decompressed in memory before decoding.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const readTrades = (
+  path: string,
+  format: ReplayFormat
+): Stream.Stream<Trade.TradeData, PlatformError, FileSystem.FileSystem> =>
+  Stream.unwrap(
+    Effect.map(FileSystem.FileSystem, (fs) =>
+      (path.endsWith(".gz")
+        ? Stream.map(Stream.fromEffect(fs.readFile(path)), (bytes) => gunzipSync(bytes))
+        : fs.stream(path)
+      ).pipe(
+        Stream.decodeText(),
+        Stream.splitLines,
+        Stream.zipWithIndex,
+        Stream.filter(([line]) => line.trim().length > 0),
+        Stream.mapAccumEffect(Option.none<ReadonlyArray<string>>(), (header, [line, index]) => {
+          if (format === "csv" && Option.isNone(header)) {
+            return Effect.succeed([Option.some(parseCsvHeader(line)), Option.none()] as const)
+          }
+
+          const decoded = Option.match(header, {
+            onNone: () => decodeNdjsonLine(line),
+            onSome: (columns) => decodeCsvLine(columns, line),
+          })
+
+          return decoded.pipe(
+            Effect.map(Option.some),
+            Effect.catchTag("ParseError", (error) =>
+              Console.error(
+                `Replay: Skipping invalid trade on line ${index + 1}: ${error.message}`
+              ).pipe(Effect.as(Option.none<Trade.TradeData>()))
+            ),
+            Effect.map((trade) => [header, trade] as const)
+          )
+        }),
+        Stream.filterMap(identity)
+      )
+    )
+  )
+
+/**
+ * Pace a stream of trades by their timestamps.
+ *
+ * The first trade is emitted immediately and every following trade once
+ * `(timestamp - firstTimestamp) / speed` has elapsed on the Clock, so the
+ * recorded rhythm is kept without drift. A speed of `Infinity` disables
+ * pacing, and out-of-order timestamps are emitted without waiting.
+ *
+ * Uses the Effect Clock, so replays are deterministic under TestClock.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ * @example
+ * import * as ReplayProvider from "./providers/ReplayProvider"
+ * import * as Stream from "effect/Stream"
+ *
+ * // Replay ten times faster than recorded
+ * const fast = trades.pipe(ReplayProvider.pace(10))
+ */
+export const pace =
+  (speed: number) =>
+  <E, R>(self: Stream.Stream<Trade.TradeData, E, R>): Stream.Stream<Trade.TradeData, E, R> =>
+    !Number.isFinite(speed)
+      ? self
+      : self.pipe(
+          Stream.mapAccumEffect(
+            Option.none<{ readonly origin: number; readonly startedAt: number }>(),
+            (anchor, trade) =>
+              Effect.gen(function* () {
+                const now = yield* Clock.currentTimeMillis
+                const { origin, startedAt } = Option.getOrElse(anchor, () => ({
+                  origin: trade.timestamp,
+                  startedAt: now,
+                }))
+                const delay = startedAt + (trade.timestamp - origin) / speed - now
+                if (delay > 0) {
+                  yield* Effect.sleep(Duration.millis(delay))
+                }
+                return [Option.some({ origin, startedAt }), trade] as const
+              })
+          )
+        )
+
+/**
+ * Describe a replay speed for logs.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+const describeSpeed = (speed: number): string =>
+  Number.isFinite(speed) ? `${speed}x speed` : "maximum speed"
+
+/**
+ * Replay MarketDataProvider implementation.
+ *
+ * Replays a recorded NDJSON or CSV session of Trade.TradeData through
+ * `subscribe`, keeping only the subscribed symbols. Trades are paced by their
+ * recorded timestamps at the configured speed. Each subscription replays the
+ * file from the start; the connection status is Open while replaying, Closed
+ * at the end of the file and Failed if the file cannot be read.
+ *
+ * Type: Layer<MarketDataProvider, never, ReplayConfig | FileSystem>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as ReplayProvider from "./providers/ReplayProvider"
+ * import * as Layer from "effect/Layer"
+ * import { BunContext } from "@effect/platform-bun"
+ *
+ * const provider = ReplayProvider.ReplayProviderLive.pipe(
+ *   Layer.provide(
+ *     Layer.succeed(ReplayProvider.ReplayConfigTag, {
+ *       _tag: "replay",
+ *       path: "./recordings/2024-01-02.ndjson",
+ *       speed: 10
+ *     })
+ *   ),
+ *   Layer.provide(BunContext.layer)
+ * )
+ */
+export const ReplayProviderLive = Layer.effect(
+  MarketDataProvider.MarketDataProvider,
+  Effect.gen(function* () {
+    const config = yield* ReplayConfigTag
+    const fs = yield* FileSystem.FileSystem
+    const format = config.format ?? formatFromPath(config.path)
+
+    const status = yield* SubscriptionRef.make<ConnectionStatus.ConnectionStatus>(
+      ConnectionStatus.Connecting.make({ attempt: 1 })
+    )
+
+    const onError = (error: PlatformError) =>
+      Stream.execute(
+        Effect.gen(function* () {
+          yield* SubscriptionRef.set(
+            status,
+            ConnectionStatus.Failed.make({ attempts: 1, reason: error.message })
+          )
+          yield* Console.error(`Replay: Failed to read ${config.path}: ${error.message}`)
+        })
+      )
+
+    return MarketDataProvider.MarketDataProvider.of({
+      // Recordings need no credentials
+      authenticate: Console.log(`Replay: Using recorded session ${config.path}`),
+
+      connectionStatus: status.changes,
+
+      subscribe: (symbols) => {
+        const subscribed = new Set(symbols)
+
+        return Stream.unwrap(
+          Effect.gen(function* () {
+            yield* Console.log(
+              `Replay: Replaying ${symbols.join(", ")} from ${config.path} at ${describeSpeed(config.speed)}`
+            )
+            yield* SubscriptionRef.set(
+              status,
+              ConnectionStatus.Open.make({ since: yield* DateTime.now })
+            )
+
+            return readTrades(config.path, format).pipe(
+              Stream.filter((trade) => subscribed.has(trade.symbol)),
+              pace(config.speed),
+              Stream.concat(
+                Stream.execute(
+                  SubscriptionRef.set(
+                    status,
+                    ConnectionStatus.Closed.make({ reason: "End of recording" })
+                  )
+                )
+              ),
+              Stream.catchAll(onError),
+              Stream.provideService(FileSystem.FileSystem, fs)
+            )
+          })
+        )
+      },
+    })
+  })
+)
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "bun:test"
+import * as SimulatedProvider from "./SimulatedProvider"
+import * as MarketDataProvider from "../services/MarketDataProvider"
+import * as AppConfig from "../config/AppConfig"
+import * as Simulation from "../domain/Simulation"
+import type * as Trade from "../domain/Trade"
+import * as Effect from "effect/Effect"
+import * as Fiber from "effect/Fiber"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import type * as Duration from "effect/Duration"
+import * as TestClock from "effect/TestClock"
+import * as TestContext from "effect/TestContext"
+
+const start = 1_700_000_000_000
+
+const config: AppConfig.SimulatedConfig = {
+  ...AppConfig.defaultSimulatedConfig,
+  seed: 42,
+}
+
+/**
+ * Run a finite trade stream to completion under TestClock.
+ */
+const collect = <E, R>(
+  stream: Stream.Stream<Trade.TradeData, E, R>,
+  elapsed: Duration.DurationInput = "1 hour"
+) =>
+  Effect.gen(function* () {
+    yield* TestClock.setTime(start)
+    const fiber = yield* Effect.fork(Stream.runCollect(stream))
+    yield* TestClock.adjust(elapsed)
+    return Chunk.toReadonlyArray(yield* Fiber.join(fiber))
+  }).pipe(Effect.provide(TestContext.TestContext))
+
+describe("SimulatedProvider", () => {
+  describe("simulateSymbol", () => {
+    it("should generate valid, time-ordered trades from the Clock", async () => {
+      const trades = await Effect.runPromise(
+        collect(SimulatedProvider.simulateSymbol("SIM", config).pipe(Stream.take(50)))
+      )
+
+      expect(trades.length).toBe(50)
+      expect(trades.every((trade) => trade.symbol === "SIM")).toBe(true)
+      expect(trades.every((trade) => trade.receivedAt - trade.timestamp === trade.latency)).toBe(
+        true
+      )
+      const received = trades.map((trade) => trade.receivedAt)
+      expect(received).toEqual([...received].sort((a, b) => a - b))
+      expect(received[0]).toBeGreaterThanOrEqual(start)
+    })
+
+    it("should reproduce the same market for the same seed", async () => {
+      const run = (seed: number) =>
+        Effect.runPromise(
+          collect(
+            SimulatedProvider.simulateSymbol("SIM", { ...config, seed }).pipe(Stream.take(20))
+          )
+        )
+
+      const [first, second, other] = await Promise.all([run(42), run(42), run(43)])
+      expect(first).toEqual(second)
+      expect(first).not.toEqual(other)
+    })
+
+    it("should arrive at the configured Poisson rate", async () => {
+      // 5 trades/s for 2 minutes: 600 expected, standard deviation ~25
+      const trades = await Effect.runPromise(
+        collect(
+          SimulatedProvider.simulateSymbol("SIM", config).pipe(
+            Stream.takeWhile((trade) => trade.receivedAt < start + 120_000)
+          ),
+          "3 minutes"
+        )
+      )
+      expect(Math.abs(trades.length - 600)).toBeLessThan(100)
+    })
+
+    it("should apply the configured volume distribution and latency", async () => {
+      const trades = await Effect.runPromise(
+        collect(
+          SimulatedProvider.simulateSymbol("SIM", {
+            ...config,
+            volume: Simulation.Constant.make({ size: 25 }),
+            latency: { meanMs: 40, jitterMs: 0 },
+          }).pipe(Stream.take(10))
+        )
+      )
+      expect(trades.every((trade) => trade.volume === 25 && trade.latency === 40)).toBe(true)
+    })
+  })
+
+  describe("SimulatedProviderLive", () => {
+    it("should stream every subscribed symbol and report an open connection", async () => {
+      const layer = SimulatedProvider.SimulatedProviderLive.pipe(
+        Layer.provide(Layer.succeed(SimulatedProvider.SimulatedConfigTag, config))
+      )
+
+      const result = await Effect.runPromise(
+        Effect.gen(function* () {
+          const provider = yield* MarketDataProvider.MarketDataProvider
+          const trades = yield* collect(provider.subscribe(["AAA", "BBB"]).pipe(Stream.take(40)))
+          const status = yield* Stream.runHead(provider.connectionStatus)
+          return { symbols: new Set(trades.map((trade) => String(trade.symbol))), status }
+        }).pipe(Effect.provide(layer))
+      )
+
+      expect([...result.symbols].sort()).toEqual(["AAA", "BBB"])
+      expect(result.status._tag === "Some" && result.status.value._tag).toBe("Open")
+    })
+  })
+})
@@ -0,0 +1,281 @@
+import { describe, it, expect } from "bun:test"
+import * as AlertEngine from "./AlertEngine"
+import * as AlertPubSub from "./AlertPubSub"
+import * as IndicatorRunner from "./IndicatorRunner"
+import type * as IndicatorsState from "./IndicatorsState"
+import * as TriggerEngine from "./TriggerEngine"
+import * as Alert from "../domain/Alert"
+import * as Trigger from "../domain/Trigger"
+import * as Effect from "effect/Effect"
+import * as Either from "effect/Either"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Queue from "effect/Queue"
+import * as Chunk from "effect/Chunk"
+import * as Clock from "effect/Clock"
+import * as DateTime from "effect/DateTime"
+import * as Option from "effect/Option"
+import * as Ref from "effect/Ref"
+import * as Schedule from "effect/Schedule"
+import * as Schema from "effect/Schema"
+import * as TestClock from "effect/TestClock"
+import * as TestContext from "effect/TestContext"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as BunFileSystem from "@effect/platform-bun/BunFileSystem"
+import { mockIndicatorState, mockReading } from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+
+const rsi = Trigger.value("rsi-14-AAPL")
+
+const rule = Schema.decodeUnknownSync(Alert.Rule)({
+  id: "aapl-oversold",
+  symbol: "AAPL",
+  condition: Trigger.compare(rsi, "<", Trigger.constant(30)),
+  rearm: Trigger.compare(rsi, ">", Trigger.constant(35)),
+  message: "{symbol} oversold at {price}",
+})
+
+/**
+ * Runner reading of an indicator at `at` seconds in, for a trade at `price`.
+ */
+const reading = (
+  at: number,
+  price: number,
+  id = "rsi-14-AAPL",
+  symbol = "AAPL"
+): IndicatorsState.IndicatorReading =>
+  mockReading(
+    mockIndicatorState({
+      id,
+      symbol,
+      lastUpdate: DateTime.unsafeMake(start + at * 1000),
+      metadata: { currentPrice: price },
+    })
+  )
+
+/**
+ * TriggerEngine over a single RSI value set by the test, counting evaluations
+ * so the test can wait for each reading to be handled.
+ */
+const stubEngine = (rsiRef: Ref.Ref<number>, evaluations: Ref.Ref<number>) =>
+  Layer.succeed(TriggerEngine.TriggerEngine, {
+    evaluate: (condition, memory) =>
+      Effect.gen(function* () {
+        const value = yield* Ref.get(rsiRef)
+        const now = yield* Clock.currentTimeMillis
+        yield* Ref.update(evaluations, (n) => n + 1)
+        return yield* Trigger.evaluate(
+          condition,
+          {
+            now,
+            resolve: (operand) =>
+              operand._tag === "constant" ? Option.some(operand.value) : Option.some(value),
+            check: () => Effect.succeed(false),
+          },
+          memory
+        )
+      }),
+    watch: () => {
+      throw new Error("not used")
+    },
+  })
+
+/**
+ * Run the engine with the rule over readings published by a stand-in runner.
+ * `body` sets the RSI, publishes readings and waits for their evaluations;
+ * the alerts published and the history are returned.
+ */
+const withEngine = (
+  historySize: number,
+  body: (
+    publish: (reading: IndicatorsState.IndicatorReading) => Effect.Effect<boolean>,
+    rsiRef: Ref.Ref<number>,
+    evaluated: (n: number) => Effect.Effect<void>
+  ) => Effect.Effect<void>
+) =>
+  Effect.gen(function* () {
+    const rsiRef = yield* Ref.make(0)
+    const evaluations = yield* Ref.make(0)
+    const readings = yield* PubSub.unbounded<IndicatorsState.IndicatorReading>()
+    const runner = Layer.succeed(
+      IndicatorRunner.IndicatorRunner,
+      IndicatorRunner.IndicatorRunner.of({
+        start: Effect.void,
+        readings: PubSub.subscribe(readings),
+      })
+    )
+    const layer = AlertEngine.AlertEngineLive.pipe(
+      Layer.provideMerge(
+        Layer.mergeAll(runner, AlertPubSub.AlertPubSubLiveDefault, stubEngine(rsiRef, evaluations))
+      ),
+      Layer.provide(Layer.succeed(AlertEngine.AlertEngineConfig, { rules: [rule], historySize }))
+    )
+    const evaluated = (n: number) =>
+      Ref.get(evaluations).pipe(
+        Effect.filterOrFail((count) => count >= n),
+        Effect.retry(Schedule.recurs(10_000)),
+        Effect.orDie
+      )
+
+    return yield* Effect.scoped(
+      Effect.gen(function* () {
+        const engine = yield* AlertEngine.AlertEngine
+        const alerts = yield* PubSub.subscribe((yield* AlertPubSub.AlertPubSub).pubsub)
+        yield* Effect.forkScoped(engine.start)
+
+        yield* body((r) => PubSub.publish(readings, r), rsiRef, evaluated)
+
+        return {
+          published: Chunk.toReadonlyArray(yield* Queue.takeAll(alerts)),
+          history: yield* engine.history,
+          evaluations: yield* Ref.get(evaluations),
+        }
+      }).pipe(Effect.provide(layer))
+    )
+  }).pipe(Effect.provide(TestContext.TestContext))
+
+/**
+ * Publish one AAPL RSI reading per step, `at` seconds in, with the RSI at
+ * `value`, and return the alerts published and the history.
+ */
+const run = (steps: ReadonlyArray<readonly [at: number, value: number]>, historySize = 100) =>
+  withEngine(historySize, (publish, rsiRef, evaluated) =>
+    Effect.forEach(
+      steps,
+      ([at, value], i) =>
+        Effect.gen(function* () {
+          yield* TestClock.setTime(start + at * 1000)
+          yield* Ref.set(rsiRef, value)
+          yield* publish(reading(at, 100 + i))
+          // Condition and re-arm condition are evaluated once per reading
+          yield* evaluated(2 * (i + 1))
+        }),
+      { discard: true }
+    )
+  )
+
+describe("AlertEngine", () => {
+  it("should fire on the rising edge, re-arm with hysteresis and respect the cooldown", async () => {
+    const { published, history } = await Effect.runPromise(
+      run([
+        [0, 25], // fires
+        [10, 32], // recovered, but not above the re-arm level
+        [20, 28], // still disarmed, so no flapping
+        [30, 40], // re-armed
+        [40, 20], // within the 60 second cooldown
+        [70, 20], // cooled down
+      ])
+    )
+
+    expect(published.map((alert) => alert.message)).toEqual([
+      "AAPL oversold at 100.00",
+      "AAPL oversold at 105.00",
+    ])
+    expect(published.map((alert) => alert.timestamp.epochMillis)).toEqual([start, start + 70_000])
+    expect(published[0]).toMatchObject({
+      rule: "aapl-oversold",
+      severity: "warning",
+      condition: "rsi-14-AAPL < 30",
+    })
+    expect(history).toEqual(published)
+  })
+
+  it("should keep only the most recent alerts in the history", async () => {
+    const { published, history } = await Effect.runPromise(
+      run(
+        [
+          [0, 25],
+          [100, 40],
+          [200, 25],
+        ],
+        1
+      )
+    )
+
+    expect(published).toHaveLength(2)
+    expect(history).toEqual([published[1]])
+  })
+
+  it("should evaluate only the rules that read the indicator of a reading", async () => {
+    const { published, evaluations } = await Effect.runPromise(
+      withEngine(100, (publish, rsiRef, evaluated) =>
+        Effect.gen(function* () {
+          yield* Ref.set(rsiRef, 25)
+          yield* publish(reading(0, 99, "sma-20-AAPL"))
+          yield* publish(reading(0, 98, "rsi-14-MSFT", "MSFT"))
+          yield* publish(reading(0, 101.5))
+          yield* evaluated(2)
+        })
+      )
+    )
+
+    // Readings are handled in order, so the first two were skipped
+    expect(evaluations).toBe(2)
+    expect(published.map((alert) => alert.message)).toEqual(["AAPL oversold at 101.50"])
+  })
+
+  it("should load JSON and YAML rules and reject invalid ones", async () => {
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem.FileSystem
+          const directory = yield* fs.makeTempDirectoryScoped()
+          const write = (name: string, content: string) =>
+            Effect.as(fs.writeFileString(`${directory}/${name}`, content), `${directory}/${name}`)
+          const load = (path: string) => Effect.either(AlertEngine.loadRules(path))
+
+          const json = yield* write(
+            "rules.json",
+            JSON.stringify({ rules: [Schema.encodeSync(Alert.Rule)(rule)] })
+          )
+          const yaml = yield* write(
+            "rules.yaml",
+            [
+              "rules:",
+              "  - id: aapl-oversold",
+              "    symbol: AAPL",
+              "    message: '{symbol} oversold at {price}'",
+              "    condition:",
+              "      _tag: compare",
+              "      left: { _tag: value, indicator: rsi-14-AAPL }",
+              "      operator: '<'",
+              "      right: { _tag: constant, value: 30 }",
+              "    rearm:",
+              "      _tag: compare",
+              "      left: { _tag: value, indicator: rsi-14-AAPL }",
+              "      operator: '>'",
+              "      right: { _tag: constant, value: 35 }",
+            ].join("\n")
+          )
+          const invalid = yield* write(
+            "invalid.json",
+            JSON.stringify({ rules: [{ id: "x", symbol: "AAPL", condition: { _tag: "maybe" } }] })
+          )
+          const duplicate = yield* write(
+            "duplicate.json",
+            JSON.stringify({ rules: [rule, rule].map((r) => Schema.encodeSync(Alert.Rule)(r)) })
+          )
+
+          return {
+            json: yield* load(json),
+            yaml: yield* load(yaml),
+            invalid: yield* load(invalid),
+            duplicate: yield* load(duplicate),
+            missing: yield* load(`${directory}/missing.json`),
+          }
+        })
+      ).pipe(Effect.provide(BunFileSystem.layer))
+    )
+
+    expect(result.json).toEqual(Either.right([rule]))
+    expect(result.yaml).toEqual(Either.right([rule]))
+    expect(Either.isLeft(result.invalid) && result.invalid.left.reason).toContain(
+      "rules.0.condition"
+    )
+    expect(Either.isLeft(result.duplicate) && result.duplicate.left.reason).toBe(
+      "Duplicate rule id aapl-oversold"
+    )
+    expect(Either.isLeft(result.missing) && result.missing.left._tag).toBe("AlertRulesError")
+  })
+})
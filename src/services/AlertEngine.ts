@@ -0,0 +1,325 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Ref from "effect/Ref"
+import * as Clock from "effect/Clock"
+import * as DateTime from "effect/DateTime"
+import * as Option from "effect/Option"
+import * as Data from "effect/Data"
+import * as Schema from "effect/Schema"
+import * as ParseResult from "effect/ParseResult"
+import * as FileSystem from "@effect/platform/FileSystem"
+import { pipe } from "effect/Function"
+import * as IndicatorRunner from "./IndicatorRunner"
+import type * as IndicatorsState from "./IndicatorsState"
+import * as TriggerEngine from "./TriggerEngine"
+import * as AlertPubSub from "./AlertPubSub"
+import * as Alert from "../domain/Alert"
+import * as Trigger from "../domain/Trigger"
+
+/**
+ * Error raised when a rules file cannot be read or is invalid.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class AlertRulesError extends Data.TaggedError("AlertRulesError")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+/**
+ * AlertEngine Service - Fires alerts from user-defined rules.
+ *
+ * This service:
+ * - Follows every reading the IndicatorRunner produces and evaluates the rules
+ *   for its symbol that read its indicator, or read no indicator at all, with
+ *   the TriggerEngine at the price of the trade behind the reading, so a rule
+ *   sees the readings that trade produced
+ * - Fires a rule when its condition starts to hold, then waits for it to
+ *   re-arm (hysteresis) and for its cooldown to pass before firing it again
+ * - Publishes fired alerts on AlertPubSub and keeps the most recent ones in
+ *   an in-memory history
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as AlertEngine from "./services/AlertEngine"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const engine = yield* AlertEngine.AlertEngine
+ *   yield* Effect.forkScoped(engine.start)
+ *
+ *   yield* engine.addRule(rule)
+ *   const recent = yield* engine.history
+ * })
+ */
+export class AlertEngine extends Context.Tag("@services/AlertEngine")<
+  AlertEngine,
+  {
+    readonly start: Effect.Effect<void>
+    readonly addRule: (rule: Alert.Rule) => Effect.Effect<void>
+    readonly removeRule: (id: string) => Effect.Effect<void>
+    readonly rules: Effect.Effect<ReadonlyArray<Alert.Rule>>
+    readonly history: Effect.Effect<ReadonlyArray<Alert.Alert>>
+  }
+>() {}
+
+/**
+ * Configuration for AlertEngine.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface AlertEngineConfig {
+  readonly rules: ReadonlyArray<Alert.Rule>
+  readonly historySize: number // Fired alerts kept in memory, oldest dropped first
+}
+
+/**
+ * Configuration service for AlertEngine.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const AlertEngineConfig = Context.GenericTag<AlertEngineConfig>(
+  "@services/AlertEngineConfig"
+)
+
+/**
+ * Default configuration for AlertEngine: no rules, the last 100 alerts kept.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: AlertEngineConfig = {
+  rules: [],
+  historySize: 100,
+}
+
+/**
+ * Parse the contents of a rules file. Files ending in `.yaml` or `.yml` are
+ * read as YAML, anything else as JSON.
+ */
+const parseRuleFile = (path: string, text: string) =>
+  Effect.try({
+    try: (): unknown => (/\.ya?ml$/i.test(path) ? Bun.YAML.parse(text) : JSON.parse(text)),
+    catch: (error) =>
+      new AlertRulesError({
+        path,
+        reason: error instanceof Error ? error.message : String(error),
+      }),
+  })
+
+/**
+ * Load and validate alert rules from a JSON or YAML file of the form
+ * `{ rules: [...] }`.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as AlertEngine from "./services/AlertEngine"
+ * import * as Effect from "effect/Effect"
+ *
+ * // rules.yaml
+ * // rules:
+ * //   - id: aapl-oversold
+ * //     symbol: AAPL
+ * //     severity: warning
+ * //     message: "{symbol} oversold at {price}"
+ * //     condition:
+ * //       _tag: compare
+ * //       left: { _tag: value, indicator: rsi-14-AAPL }
+ * //       operator: "<"
+ * //       right: { _tag: constant, value: 30 }
+ * const rules = AlertEngine.loadRules("rules.yaml")
+ */
+export const loadRules = (
+  path: string
+): Effect.Effect<ReadonlyArray<Alert.Rule>, AlertRulesError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const text = yield* Effect.mapError(
+      fs.readFileString(path),
+      (error) => new AlertRulesError({ path, reason: error.message })
+    )
+    const file = yield* Effect.flatMap(parseRuleFile(path, text), (raw) =>
+      Effect.mapError(
+        Schema.decodeUnknown(Alert.RuleFile)(raw),
+        (error) =>
+          new AlertRulesError({
+            path,
+            reason: ParseResult.ArrayFormatter.formatErrorSync(error)
+              .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+              .join(", "),
+          })
+      )
+    )
+
+    const ids = file.rules.map((rule) => rule.id)
+    const duplicate = ids.find((id, i) => ids.indexOf(id) !== i)
+    if (duplicate !== undefined) {
+      return yield* new AlertRulesError({ path, reason: `Duplicate rule id ${duplicate}` })
+    }
+    return file.rules
+  })
+
+/**
+ * Evaluation state of one rule.
+ */
+interface RuleState {
+  readonly rule: Alert.Rule
+  readonly armed: boolean
+  readonly lastFired: Option.Option<number> // Epoch milliseconds
+  readonly memory: Trigger.Memory
+  readonly rearmMemory: Trigger.Memory
+  readonly indicators: ReadonlyArray<string> // Ids the condition and re-arm condition read
+}
+
+const initialState = (rule: Alert.Rule): RuleState => ({
+  rule,
+  indicators: Trigger.indicators(Trigger.and(rule.condition, rule.rearm ?? rule.condition)),
+  armed: true,
+  lastFired: Option.none(),
+  memory: Trigger.emptyMemory,
+  rearmMemory: Trigger.emptyMemory,
+})
+
+/**
+ * Layer that provides the AlertEngine service.
+ *
+ * The readings are subscribed when the layer is built, so no reading
+ * produced before `start` runs is missed.
+ *
+ * Type: Layer<AlertEngine, never, IndicatorRunner | TriggerEngine | AlertPubSub |
+ * AlertEngineConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as AlertEngine from "./services/AlertEngine"
+ * import * as Layer from "effect/Layer"
+ * import * as Effect from "effect/Effect"
+ *
+ * const config = Layer.effect(
+ *   AlertEngine.AlertEngineConfig,
+ *   Effect.map(AlertEngine.loadRules("rules.yaml"), (rules) => ({
+ *     ...AlertEngine.defaultConfig,
+ *     rules
+ *   }))
+ * )
+ *
+ * const MainLive = Layer.provide(AlertEngine.AlertEngineLive, config)
+ */
+export const AlertEngineLive = Layer.scoped(
+  AlertEngine,
+  Effect.gen(function* () {
+    const runner = yield* IndicatorRunner.IndicatorRunner
+    const triggers = yield* TriggerEngine.TriggerEngine
+    const { pubsub } = yield* AlertPubSub.AlertPubSub
+    const config = yield* AlertEngineConfig
+
+    const readings = yield* runner.readings
+    const statesRef = yield* Ref.make<ReadonlyMap<string, RuleState>>(
+      new Map(config.rules.map((rule) => [rule.id, initialState(rule)]))
+    )
+    const historyRef = yield* Ref.make<ReadonlyArray<Alert.Alert>>([])
+
+    const fire = (rule: Alert.Rule, quote: TriggerEngine.Quote) =>
+      Effect.gen(function* () {
+        const condition = Trigger.format(rule.condition)
+        const alert = Alert.Alert.make({
+          rule: rule.id,
+          symbol: rule.symbol,
+          severity: rule.severity,
+          message: Alert.render(rule.message, {
+            rule: rule.id,
+            symbol: rule.symbol,
+            severity: rule.severity,
+            price: quote.price.toFixed(2),
+            condition,
+          }),
+          condition,
+          price: quote.price,
+          timestamp: yield* DateTime.now,
+        })
+        yield* Ref.update(historyRef, (history) => [...history, alert].slice(-config.historySize))
+        yield* PubSub.publish(pubsub, alert)
+      })
+
+    const step = (state: RuleState, quote: TriggerEngine.Quote) =>
+      Effect.gen(function* () {
+        const { rule } = state
+        // Both are evaluated every time so their time-aware memory stays current
+        const condition = yield* triggers.evaluate(rule.condition, state.memory, quote)
+        const rearm = yield* triggers.evaluate(
+          rule.rearm ?? Trigger.not(rule.condition),
+          state.rearmMemory,
+          quote
+        )
+        const now = yield* Clock.currentTimeMillis
+        const next = { ...state, memory: condition.memory, rearmMemory: rearm.memory }
+
+        if (!state.armed) {
+          return { ...next, armed: rearm.result }
+        }
+        const coolingDown = Option.exists(
+          state.lastFired,
+          (at) => now - at < rule.cooldownSeconds * 1000
+        )
+        if (!condition.result || coolingDown) {
+          return next
+        }
+        yield* fire(rule, quote)
+        return { ...next, armed: false, lastFired: Option.some(now) }
+      })
+
+    const evaluateRules = (id: string, quote: TriggerEngine.Quote) =>
+      Effect.flatMap(Ref.get(statesRef), (states) =>
+        Effect.forEach(
+          Array.from(states.values()).filter(
+            (state) =>
+              state.rule.symbol === quote.symbol &&
+              (state.indicators.length === 0 || state.indicators.includes(id))
+          ),
+          (state) =>
+            Effect.flatMap(step(state, quote), (next) =>
+              // Skip the update if the rule was replaced or removed meanwhile
+              Ref.update(statesRef, (current) =>
+                current.get(state.rule.id)?.rule === state.rule
+                  ? new Map(current).set(state.rule.id, next)
+                  : current
+              )
+            ),
+          { discard: true }
+        )
+      )
+
+    // A reading without a price has no trade to evaluate the rules at
+    const onReading = ({ state }: IndicatorsState.IndicatorReading) => {
+      const price = state.metadata.currentPrice
+      return typeof price === "number" && Number.isFinite(price)
+        ? evaluateRules(state.id, { symbol: state.symbol, price })
+        : Effect.void
+    }
+
+    return AlertEngine.of({
+      start: pipe(Stream.fromQueue(readings), Stream.runForEach(onReading)),
+      addRule: (rule) =>
+        Ref.update(statesRef, (states) => new Map(states).set(rule.id, initialState(rule))),
+      removeRule: (id) =>
+        Ref.update(statesRef, (states) => {
+          const remaining = new Map(states)
+          remaining.delete(id)
+          return remaining
+        }),
+      rules: Effect.map(Ref.get(statesRef), (states) =>
+        Array.from(states.values(), (state) => state.rule)
+      ),
+      history: Ref.get(historyRef),
+    })
+  })
+)
@@ -0,0 +1,92 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as PubSub from "effect/PubSub"
+import type * as Alert from "../domain/Alert"
+
+/**
+ * AlertPubSub Service - Broadcast hub for fired alerts.
+ *
+ * The AlertEngine publishes every alert it fires here, and any number of
+ * sinks subscribe independently, as trade consumers do with TradePubSub. The
+ * hub slides, dropping the oldest alert when a sink falls behind, so a slow
+ * sink never holds up rule evaluation.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as AlertPubSub from "./services/AlertPubSub"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ *
+ * const program = Effect.gen(function* () {
+ *   const { pubsub } = yield* AlertPubSub.AlertPubSub
+ *   yield* Stream.runForEach(Stream.fromPubSub(pubsub), (alert) =>
+ *     Effect.log(`[${alert.severity}] ${alert.message}`)
+ *   )
+ * })
+ */
+export class AlertPubSub extends Context.Tag("@services/AlertPubSub")<
+  AlertPubSub,
+  {
+    readonly pubsub: PubSub.PubSub<Alert.Alert>
+  }
+>() {}
+
+/**
+ * Configuration for AlertPubSub.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface AlertPubSubConfig {
+  readonly capacity: number
+}
+
+/**
+ * Configuration service for AlertPubSub.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const AlertPubSubConfig = Context.GenericTag<AlertPubSubConfig>(
+  "@services/AlertPubSubConfig"
+)
+
+/**
+ * Default configuration for AlertPubSub.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: AlertPubSubConfig = {
+  capacity: 256,
+}
+
+/**
+ * Layer that provides the AlertPubSub service.
+ *
+ * Type: Layer<AlertPubSub, never, AlertPubSubConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const AlertPubSubLive = Layer.scoped(
+  AlertPubSub,
+  Effect.gen(function* () {
+    const config = yield* AlertPubSubConfig
+    const pubsub = yield* PubSub.sliding<Alert.Alert>(config.capacity)
+    return AlertPubSub.of({ pubsub })
+  })
+)
+
+/**
+ * Layer with default configuration.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const AlertPubSubLiveDefault = Layer.provide(
+  AlertPubSubLive,
+  Layer.succeed(AlertPubSubConfig, defaultConfig)
+)
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "bun:test"
+import * as Backtester from "./Backtester"
+import * as TradeRecorder from "./TradeRecorder"
+import * as Effect from "effect/Effect"
+import * as Either from "effect/Either"
+import * as Layer from "effect/Layer"
+import * as TestContext from "effect/TestContext"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as BunFileSystem from "@effect/platform-bun/BunFileSystem"
+import { mockTrade, makeSymbol, makePrice, makeTimestamp } from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+
+// Falls into RSI(3) oversold, rallies into overbought, then falls again
+const prices = [100, 99, 98, 97, 96, 97, 98, 99, 100, 101, 102, 101, 100, 99, 98]
+
+const recording = (symbol: string) =>
+  prices
+    .map((price, i) =>
+      TradeRecorder.encodeLine(
+        mockTrade({
+          symbol: makeSymbol(symbol),
+          price: makePrice(price),
+          timestamp: makeTimestamp(start + i * 60_000),
+        })
+      )
+    )
+    .join("\n")
+
+const layer = (config: Partial<Backtester.BacktesterConfig> = {}) =>
+  Backtester.BacktesterLive.pipe(
+    Layer.provide(
+      Layer.succeed(Backtester.BacktesterConfig, {
+        ...Backtester.defaultConfig,
+        symbol: "AAPL",
+        indicators: (symbol) => [
+          { id: `rsi-3-${symbol}`, name: "RSI", symbol, period: 3, params: {} },
+        ],
+        ...config,
+      })
+    )
+  )
+
+/**
+ * Write a recording to a temporary file and backtest it.
+ */
+const backtest = (
+  content: string,
+  config?: Partial<Backtester.BacktesterConfig>,
+  file = "AAPL.ndjson"
+) =>
+  Effect.runPromise(
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const directory = yield* fs.makeTempDirectoryScoped()
+      yield* fs.writeFileString(`${directory}/${file}`, content)
+
+      const backtester = yield* Backtester.Backtester
+      return yield* Effect.either(backtester.run(`${directory}/${file}`))
+    }).pipe(
+      Effect.provide(layer(config)),
+      Effect.scoped,
+      Effect.provide(BunFileSystem.layer),
+      Effect.provide(TestContext.TestContext)
+    )
+  )
+
+describe("Backtester", () => {
+  it("should trade the indicators' signals at the trades that produced them", async () => {
+    const report = Either.getOrThrow(await backtest(recording("AAPL")))
+
+    expect(report.trades).toHaveLength(1)
+    expect(report.trades[0]).toMatchObject({
+      side: "long",
+      entryPrice: 97,
+      entryTimestamp: start + 3 * 60_000,
+      exitPrice: 101,
+      exitTimestamp: start + 9 * 60_000,
+    })
+    expect(report.trades[0]?.entryReason).toContain("RSI oversold")
+    expect(report.equity).toHaveLength(prices.length)
+    expect(report.summary.totalReturn).toBeCloseTo(4 / 97)
+  })
+
+  it("should produce the same report for the same file and configuration", async () => {
+    const first = await backtest(recording("AAPL"), { allowShort: true })
+    const second = await backtest(recording("AAPL"), { allowShort: true })
+
+    expect(Either.isRight(first)).toBe(true)
+    expect(second).toEqual(first)
+  })
+
+  it("should fail without trades of the symbol", async () => {
+    const result = await backtest(recording("MSFT"))
+
+    expect(Either.getLeft(result)).toMatchObject({
+      _tag: "Some",
+      value: { _tag: "BacktestError", reason: "No AAPL trades" },
+    })
+  })
+
+  it("should fail on a missing recording", async () => {
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const backtester = yield* Backtester.Backtester
+        return yield* Effect.either(backtester.run("/nonexistent/AAPL.ndjson"))
+      }).pipe(Effect.provide(layer()), Effect.provide(BunFileSystem.layer))
+    )
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("BacktestError")
+  })
+})
@@ -0,0 +1,200 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as Ref from "effect/Ref"
+import * as Data from "effect/Data"
+import * as Array from "effect/Array"
+import * as Order from "effect/Order"
+import * as DateTime from "effect/DateTime"
+import * as FileSystem from "@effect/platform/FileSystem"
+import { pipe } from "effect/Function"
+import * as IndicatorRunner from "./IndicatorRunner"
+import * as Backtest from "../domain/Backtest"
+import * as Consensus from "../domain/Consensus"
+import * as Indicator from "../domain/Indicator"
+import type * as Trade from "../domain/Trade"
+import * as IndicatorFactory from "../indicators/IndicatorFactory"
+import * as ReplayProvider from "../providers/ReplayProvider"
+
+/**
+ * Error raised when a backtest cannot read its recording or has nothing to
+ * trade.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class BacktestError extends Data.TaggedError("BacktestError")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+/**
+ * Backtester Service - Replays a recorded session through the indicators and
+ * a simulated account.
+ *
+ * This service:
+ * - Reads a recording written by the TradeRecorder (NDJSON or CSV, optionally
+ *   gzipped), like the replay provider
+ * - Runs every configured indicator's `process`/`signal` pipeline over it, as
+ *   the IndicatorRunner does live
+ * - Combines the signals with a `Consensus.Strategy` and trades them with
+ *   `Backtest.simulate`
+ *
+ * Indicators run one after the other over the whole recording and every
+ * signal is stamped with the trade it followed, so the report depends on the
+ * file and the configuration only, not on the clock or on scheduling.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as Backtester from "./services/Backtester"
+ * import * as Backtest from "./domain/Backtest"
+ * import * as Effect from "effect/Effect"
+ * import * as Console from "effect/Console"
+ *
+ * const program = Effect.gen(function* () {
+ *   const backtester = yield* Backtester.Backtester
+ *   const report = yield* backtester.run("recordings/2024-01-02/AAPL.ndjson")
+ *   yield* Console.log(Backtest.format(report))
+ * })
+ */
+export class Backtester extends Context.Tag("@services/Backtester")<
+  Backtester,
+  {
+    readonly run: (
+      path: string
+    ) => Effect.Effect<Backtest.Report, BacktestError | IndicatorFactory.IndicatorConfigError>
+  }
+>() {}
+
+/**
+ * Configuration for the Backtester: the simulation and the indicators voting
+ * in it.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface BacktesterConfig extends Backtest.SimulationConfig {
+  readonly indicators: (symbol: string) => ReadonlyArray<Indicator.IndicatorConfig>
+}
+
+/**
+ * Configuration service for the Backtester.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const BacktesterConfig = Context.GenericTag<BacktesterConfig>("@services/BacktesterConfig")
+
+/**
+ * Default configuration: the default simulation over the TUI's indicator
+ * suite.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: Omit<BacktesterConfig, "symbol"> = {
+  ...Backtest.defaultSimulation,
+  indicators: IndicatorRunner.defaultIndicators,
+}
+
+const byIndex: Order.Order<Backtest.Event> = Order.mapInput(Order.number, (event) => event.index)
+
+/**
+ * Run one indicator over the recording and collect its votes, each with the
+ * index of the trade it followed.
+ *
+ * Trades are fed one per chunk and the index of the last one pulled is read
+ * back as each state comes out, so a state is attributed to the trade that
+ * produced it (for bar indicators, the trade that closed the bar).
+ */
+const votesOf = (indicator: Indicator.AnyIndicator, trades: ReadonlyArray<Trade.TradeData>) =>
+  Effect.gen(function* () {
+    const cursor = yield* Ref.make(0)
+    const source = pipe(
+      Stream.fromIterable(trades),
+      Stream.rechunk(1),
+      Stream.zipWithIndex,
+      Stream.tap(([, index]) => Ref.set(cursor, index)),
+      Stream.map(([trade]) => trade)
+    )
+
+    const events = yield* pipe(
+      indicator.process(source),
+      Stream.mapEffect(({ state, signal }) =>
+        Effect.map(
+          Ref.get(cursor),
+          (index): Backtest.Event => ({
+            index,
+            vote: Consensus.vote(state, {
+              ...signal,
+              timestamp: DateTime.unsafeMake(trades[index]!.timestamp),
+            }),
+          })
+        )
+      ),
+      Stream.runCollect
+    )
+    return Chunk.toReadonlyArray(events)
+  })
+
+/**
+ * Layer that provides the Backtester service.
+ *
+ * Type: Layer<Backtester, never, FileSystem | BacktesterConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as Backtester from "./services/Backtester"
+ * import * as Consensus from "./domain/Consensus"
+ * import * as BunContext from "@effect/platform-bun/BunContext"
+ * import * as Layer from "effect/Layer"
+ *
+ * const BacktesterLive = Backtester.BacktesterLive.pipe(
+ *   Layer.provide(BunContext.layer),
+ *   Layer.provide(
+ *     Layer.succeed(Backtester.BacktesterConfig, {
+ *       ...Backtester.defaultConfig,
+ *       symbol: "AAPL",
+ *       strategy: Consensus.majority(3),
+ *       allowShort: true
+ *     })
+ *   )
+ * )
+ */
+export const BacktesterLive = Layer.effect(
+  Backtester,
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const config = yield* BacktesterConfig
+
+    const run = (path: string) =>
+      Effect.gen(function* () {
+        const trades = yield* pipe(
+          ReplayProvider.readTrades(path, ReplayProvider.formatFromPath(path)),
+          Stream.runCollect,
+          Effect.map(Chunk.toReadonlyArray),
+          Effect.provideService(FileSystem.FileSystem, fs),
+          Effect.mapError((error) => new BacktestError({ path, reason: error.message }))
+        )
+        if (!trades.some((trade) => trade.symbol === config.symbol)) {
+          return yield* new BacktestError({ path, reason: `No ${config.symbol} trades` })
+        }
+
+        const indicators = yield* Effect.forEach(
+          config.indicators(config.symbol),
+          IndicatorFactory.make
+        )
+        // One indicator at a time, so events of the same trade keep the configured order
+        const votes = yield* Effect.forEach(indicators, (indicator) => votesOf(indicator, trades))
+        const events = Array.sort(Array.flatten(votes), byIndex)
+
+        return Backtest.simulate(config, trades, events)
+      })
+
+    return Backtester.of({ run })
+  })
+)
@@ -0,0 +1,47 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Ref from "effect/Ref"
+import type * as Indicator from "../domain/Indicator"
+
+/**
+ * Latest consensus signal per symbol.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type ConsensusSignals = ReadonlyMap<string, Indicator.Signal>
+
+/**
+ * ConsensusState Service - Holds the latest consensus signal of every symbol.
+ *
+ * Mirrors IndicatorsState: the IndicatorRunner writes the SignalAggregator's
+ * consensus to the Ref and the UI reads from it.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as ConsensusState from "./services/ConsensusState"
+ * import * as Effect from "effect/Effect"
+ * import * as Ref from "effect/Ref"
+ *
+ * const program = Effect.gen(function* () {
+ *   const consensusRef = yield* ConsensusState.ConsensusState
+ *   const consensus = yield* Ref.get(consensusRef)
+ *   const apple = consensus.get("AAPL")
+ * })
+ */
+export class ConsensusState extends Context.Tag("@services/ConsensusState")<
+  ConsensusState,
+  Ref.Ref<ConsensusSignals>
+>() {}
+
+/**
+ * Layer that provides the ConsensusState service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const ConsensusStateLive = Layer.effect(
+  ConsensusState,
+  Ref.make<ConsensusSignals>(new Map())
+)
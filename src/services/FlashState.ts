@@ -0,0 +1,36 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Ref from "effect/Ref"
+import * as Option from "effect/Option"
+import type * as Alert from "../domain/Alert"
+
+/**
+ * FlashState Service - Holds the alert the terminal UI is flashing, if any.
+ *
+ * Mirrors StatsState: the terminal alert sink writes to the Ref and the UI
+ * reads from it.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as FlashState from "./services/FlashState"
+ * import * as Effect from "effect/Effect"
+ * import * as Ref from "effect/Ref"
+ *
+ * const program = Effect.gen(function* () {
+ *   const flashRef = yield* FlashState.FlashState
+ *   const flashing = yield* Ref.get(flashRef)
+ * })
+ */
+export class FlashState extends Context.Tag("@services/FlashState")<
+  FlashState,
+  Ref.Ref<Option.Option<Alert.Alert>>
+>() {}
+
+/**
+ * Layer that provides the FlashState service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const FlashStateLive = Layer.effect(FlashState, Ref.make(Option.none<Alert.Alert>()))
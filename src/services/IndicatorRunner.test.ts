@@ -0,0 +1,260 @@
+import { describe, it, expect } from "bun:test"
+import * as IndicatorRunner from "./IndicatorRunner"
+import * as IndicatorsState from "./IndicatorsState"
+import * as ConsensusState from "./ConsensusState"
+import * as TradePubSub from "./TradePubSub"
+import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
+import * as Consensus from "../domain/Consensus"
+import type * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Ref from "effect/Ref"
+import * as Schedule from "effect/Schedule"
+import * as DateTime from "effect/DateTime"
+import { mockTrade, makeSymbol, makePrice, makeTimestamp } from "../test-utils/fixtures"
+
+const start = 1_700_000_000_000
+
+const trades = (symbol: string, base: number) =>
+  Array.from({ length: 40 }, (_, i) =>
+    mockTrade({
+      symbol: makeSymbol(symbol),
+      price: makePrice(base + Math.sin(i) * 2),
+      // 30 seconds apart, so the one-minute bar indicators warm up too
+      timestamp: makeTimestamp(start + i * 30_000),
+    })
+  )
+
+const runnerLayer = (symbols: ReadonlyArray<string>) =>
+  IndicatorRunner.IndicatorRunnerLive.pipe(
+    Layer.provideMerge(
+      Layer.mergeAll(
+        TradePubSub.TradePubSubLiveDefault,
+        IndicatorsState.IndicatorsStateLive,
+        ConsensusState.ConsensusStateLive,
+        IndicatorRegistry.IndicatorRegistryLive,
+        IndicatorRegistry.SignalAggregatorLiveDefault
+      )
+    ),
+    Layer.provide(
+      Layer.succeed(IndicatorRunner.IndicatorRunnerConfig, {
+        ...IndicatorRunner.defaultConfig,
+        symbols,
+      })
+    )
+  )
+
+/**
+ * Poll IndicatorsState until the readings satisfy the predicate.
+ */
+const waitFor = (predicate: (readings: IndicatorsState.IndicatorReadings) => boolean) =>
+  Effect.flatMap(IndicatorsState.IndicatorsState, (readingsRef) =>
+    Ref.get(readingsRef).pipe(
+      Effect.filterOrFail(predicate),
+      Effect.retry(Schedule.spaced("10 millis")),
+      Effect.timeout("5 seconds")
+    )
+  )
+
+/**
+ * Publish the trades, run the indicators and wait until every symbol has all
+ * ten readings.
+ */
+const runUntilReady = (symbols: ReadonlyArray<string>) =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const { pubsub } = yield* TradePubSub.TradePubSub
+      const runner = yield* IndicatorRunner.IndicatorRunner
+
+      yield* Effect.forkScoped(runner.start)
+      yield* PubSub.publishAll(pubsub, [...trades("AAPL", 150), ...trades("MSFT", 380)])
+
+      return yield* waitFor((readings) =>
+        symbols.every((symbol) => readings.get(symbol)?.size === 11)
+      )
+    }).pipe(Effect.provide(runnerLayer(symbols)))
+  )
+
+describe("IndicatorRunner", () => {
+  it("should run every indicator for every symbol concurrently", async () => {
+    const readings = await Effect.runPromise(runUntilReady(["AAPL", "MSFT"]))
+
+    expect([...readings.keys()].sort()).toEqual(["AAPL", "MSFT"])
+    expect([...readings.get("AAPL")!.keys()].sort()).toEqual([
+      "atr-14-AAPL",
+      "bb-20-2-AAPL",
+      "ema-12-AAPL",
+      "macd-12-26-9-AAPL",
+      "rsi-14-AAPL",
+      "sma-20-AAPL",
+      "stoch-14-3-AAPL",
+      "vol-20-stddev-AAPL",
+      "vp-daily-AAPL",
+      "vwap-daily-AAPL",
+      "willr-14-AAPL",
+    ])
+  })
+
+  it("should keep each symbol's readings and signals separate", async () => {
+    const readings = await Effect.runPromise(runUntilReady(["AAPL", "MSFT"]))
+
+    for (const [symbol, bySymbol] of readings) {
+      for (const reading of bySymbol.values()) {
+        expect(reading.state.symbol).toBe(symbol)
+        expect(["buy", "sell", "hold"]).toContain(reading.signal._tag)
+      }
+    }
+    const sma = (symbol: string) => readings.get(symbol)!.get(`sma-20-${symbol}`)!.state.value
+    expect(sma("AAPL")).toBeLessThan(160)
+    expect(sma("MSFT")).toBeGreaterThan(370)
+  })
+
+  it("should attach each indicator's labelled outputs to its reading", async () => {
+    const readings = await Effect.runPromise(runUntilReady(["AAPL"]))
+    const bb = readings.get("AAPL")!.get("bb-20-2-AAPL")!
+
+    expect(bb.fields.map((field) => field.label)).toEqual(["Upper", "Middle", "Lower", "BW%", "%B"])
+    expect(bb.fields.find((field) => field.key === "middleBand")!.value).toBe(bb.state.value)
+  })
+
+  it("should only run indicators for configured symbols", async () => {
+    const readings = await Effect.runPromise(runUntilReady(["MSFT"]))
+    expect([...readings.keys()]).toEqual(["MSFT"])
+  })
+
+  it("should start and stop indicators added to or removed from the registry", async () => {
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const { pubsub } = yield* TradePubSub.TradePubSub
+          const runner = yield* IndicatorRunner.IndicatorRunner
+          const registry = yield* IndicatorRegistry.IndicatorRegistry
+
+          yield* Effect.forkScoped(runner.start)
+          yield* registry.add({
+            id: "sma-5-AAPL",
+            name: "SMA",
+            symbol: "AAPL",
+            period: 5,
+            params: {},
+          })
+          yield* registry.remove("rsi-14-AAPL")
+
+          // The runner picks the change up asynchronously, so publish until the new
+          // indicator has seen enough trades
+          const readingsRef = yield* IndicatorsState.IndicatorsState
+          const added = yield* PubSub.publishAll(pubsub, trades("AAPL", 150)).pipe(
+            Effect.zipRight(Effect.sleep("20 millis")),
+            Effect.zipRight(Ref.get(readingsRef)),
+            Effect.filterOrFail((readings) => readings.get("AAPL")?.has("sma-5-AAPL") ?? false),
+            Effect.retry({ times: 50 })
+          )
+          const ids = yield* registry.list()
+          return { ids, readings: [...added.get("AAPL")!.keys()] }
+        }).pipe(Effect.provide(runnerLayer(["AAPL"])))
+      )
+    )
+
+    expect(result.ids).toContain("sma-5-AAPL")
+    expect(result.ids).not.toContain("rsi-14-AAPL")
+    expect(result.readings).toContain("sma-5-AAPL")
+    expect(result.readings).toContain("sma-20-AAPL")
+    expect(result.readings).not.toContain("rsi-14-AAPL")
+  })
+
+  it("should keep each symbol's consensus of its indicators' latest signals", async () => {
+    // Consensus of the latest reading of every indicator of a symbol
+    const expected = (readings: IndicatorsState.IndicatorReadings, symbol: string) =>
+      Consensus.aggregate(
+        Consensus.weighted(),
+        [...(readings.get(symbol)?.values() ?? [])].map((reading) =>
+          Consensus.vote(reading.state, reading.signal)
+        ),
+        DateTime.unsafeNow()
+      )
+    const strength = (signal: Indicator.Signal | undefined) =>
+      signal === undefined || signal._tag === "hold" ? 0 : signal.strength
+
+    const [readings, consensus] = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const { pubsub } = yield* TradePubSub.TradePubSub
+          const runner = yield* IndicatorRunner.IndicatorRunner
+          const readingsRef = yield* IndicatorsState.IndicatorsState
+          const consensusRef = yield* ConsensusState.ConsensusState
+
+          yield* Effect.forkScoped(runner.start)
+          yield* PubSub.publishAll(pubsub, [...trades("AAPL", 150), ...trades("MSFT", 380)])
+
+          // The consensus follows every vote, so it settles on the latest readings
+          return yield* Effect.all([Ref.get(readingsRef), Ref.get(consensusRef)]).pipe(
+            Effect.filterOrFail(([readings, consensus]) =>
+              ["AAPL", "MSFT"].every(
+                (symbol) =>
+                  readings.get(symbol)?.size === 11 &&
+                  consensus.get(symbol)?._tag === expected(readings, symbol)._tag &&
+                  Math.abs(strength(consensus.get(symbol)) - strength(expected(readings, symbol))) <
+                    1e-9
+              )
+            ),
+            Effect.retry(Schedule.spaced("10 millis")),
+            Effect.timeout("5 seconds")
+          )
+        }).pipe(Effect.provide(runnerLayer(["AAPL", "MSFT"])))
+      )
+    )
+
+    expect([...consensus.keys()].sort()).toEqual(["AAPL", "MSFT"])
+    for (const symbol of ["AAPL", "MSFT"]) {
+      expect(consensus.get(symbol)!._tag).toBe(expected(readings, symbol)._tag)
+    }
+  })
+
+  it("should drop the votes of removed indicators from the consensus", async () => {
+    // A steady rally: SMA(20) votes buy, RSI(14) overbought votes sell
+    const rally = Array.from({ length: 40 }, (_, i) =>
+      mockTrade({
+        symbol: makeSymbol("AAPL"),
+        price: makePrice(100 * Math.pow(1.02, i)),
+        timestamp: makeTimestamp(start + i * 30_000),
+      })
+    )
+
+    const consensus = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const { pubsub } = yield* TradePubSub.TradePubSub
+          const runner = yield* IndicatorRunner.IndicatorRunner
+          const registry = yield* IndicatorRegistry.IndicatorRegistry
+          const consensusRef = yield* ConsensusState.ConsensusState
+
+          yield* Effect.forkScoped(runner.start)
+          yield* PubSub.publishAll(pubsub, rally)
+          yield* waitFor((readings) => readings.get("AAPL")?.size === 11)
+
+          const ids = yield* registry.list()
+          yield* Effect.forEach(
+            ids.filter((id) => id !== "sma-20-AAPL"),
+            registry.remove,
+            { discard: true }
+          )
+
+          return yield* Ref.get(consensusRef).pipe(
+            Effect.map((consensus) => consensus.get("AAPL")),
+            Effect.filterOrFail(
+              (signal) =>
+                signal !== undefined &&
+                signal._tag !== "hold" &&
+                signal.reason.includes("(1 indicators)")
+            ),
+            Effect.retry(Schedule.spaced("10 millis")),
+            Effect.timeout("5 seconds")
+          )
+        }).pipe(Effect.provide(runnerLayer(["AAPL"])))
+      )
+    )
+
+    expect(consensus?._tag).toBe("buy")
+  })
+})
@@ -0,0 +1,346 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Queue from "effect/Queue"
+import * as Ref from "effect/Ref"
+import * as Deferred from "effect/Deferred"
+import * as FiberMap from "effect/FiberMap"
+import * as HashMap from "effect/HashMap"
+import * as Option from "effect/Option"
+import * as Scope from "effect/Scope"
+import * as Exit from "effect/Exit"
+import * as GroupBy from "effect/GroupBy"
+import { pipe } from "effect/Function"
+import * as TradePubSub from "./TradePubSub"
+import * as IndicatorsState from "./IndicatorsState"
+import * as ConsensusState from "./ConsensusState"
+import * as Indicator from "../domain/Indicator"
+import * as Consensus from "../domain/Consensus"
+import type * as Trade from "../domain/Trade"
+import * as Bar from "../domain/Bar"
+import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
+
+/**
+ * IndicatorRunner Service - Runs the indicator suite for every tracked symbol.
+ *
+ * This service:
+ * - Adds one set of indicators per symbol to the IndicatorRegistry
+ * - Gives every registered indicator its own TradePubSub subscription
+ * - Runs all indicators concurrently, so one never starves another
+ * - Follows the registry, starting indicators added at runtime and stopping
+ *   removed ones
+ * - Stores each IndicatorState with its Signal in IndicatorsState
+ * - Combines the signals of each symbol's indicators with the SignalAggregator
+ *   and stores the latest consensus in ConsensusState, withdrawing the vote of
+ *   an indicator once it is stopped
+ * - Hands out subscriptions to every reading, for consumers that must see each
+ *   signal rather than the latest one
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorRunner from "./services/IndicatorRunner"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const runner = yield* IndicatorRunner.IndicatorRunner
+ *   const registry = yield* IndicatorRegistry.IndicatorRegistry
+ *   yield* Effect.forkScoped(runner.start)
+ *
+ *   // Picked up by the running runner
+ *   yield* registry.add({ id: "sma-50-AAPL", name: "SMA", symbol: "AAPL", period: 50, params: {} })
+ * })
+ */
+export class IndicatorRunner extends Context.Tag("@services/IndicatorRunner")<
+  IndicatorRunner,
+  {
+    readonly start: Effect.Effect<void>
+
+    /**
+     * Subscribe to every reading produced from now on, in the order each
+     * indicator produced them. The subscription lasts as long as the scope.
+     */
+    readonly readings: Effect.Effect<
+      Queue.Dequeue<IndicatorsState.IndicatorReading>,
+      never,
+      Scope.Scope
+    >
+  }
+>() {}
+
+/**
+ * Configuration for IndicatorRunner.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface IndicatorRunnerConfig {
+  readonly symbols: ReadonlyArray<string>
+  readonly indicators: (symbol: string) => ReadonlyArray<Indicator.IndicatorConfig>
+}
+
+/**
+ * Configuration service for IndicatorRunner.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const IndicatorRunnerConfig = Context.GenericTag<IndicatorRunnerConfig>(
+  "@services/IndicatorRunnerConfig"
+)
+
+/**
+ * The default indicator suite for a symbol: SMA(20), EMA(12), MACD(12, 26, 9),
+ * RSI(14), Bollinger Bands(20, 2), daily VWAP, a daily volume profile in 0.1
+ * price levels, 20-period volatility and, on one-minute bars, ATR(14),
+ * Stochastic(14, 3) and Williams %R(14).
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const defaultIndicators = (symbol: string): ReadonlyArray<Indicator.IndicatorConfig> => [
+  { id: `sma-20-${symbol}`, name: "SMA", symbol, period: 20, params: {} },
+  { id: `ema-12-${symbol}`, name: "EMA", symbol, period: 12, params: {} },
+  {
+    id: `macd-12-26-9-${symbol}`,
+    name: "MACD",
+    symbol,
+    period: 26,
+    params: { fastPeriod: 12, signalPeriod: 9 },
+  },
+  {
+    id: `rsi-14-${symbol}`,
+    name: "RSI",
+    symbol,
+    period: 14,
+    params: { oversold: 30, overbought: 70 },
+  },
+  {
+    id: `bb-20-2-${symbol}`,
+    name: "BollingerBands",
+    symbol,
+    period: 20,
+    params: { stdDevMultiplier: 2 },
+  },
+  { id: `vwap-daily-${symbol}`, name: "VWAP", symbol, period: 1, params: { resetDaily: true } },
+  {
+    id: `vp-daily-${symbol}`,
+    name: "VolumeProfile",
+    symbol,
+    period: 1,
+    params: { tickSize: 0.1, valueAreaPercent: 70, resetDaily: true },
+  },
+  {
+    id: `vol-20-stddev-${symbol}`,
+    name: "Volatility",
+    symbol,
+    period: 20,
+    params: { method: "stdDev", highVolatilityThreshold: 30 },
+  },
+  {
+    id: `atr-14-${symbol}`,
+    name: "ATR",
+    symbol,
+    period: 14,
+    params: { bars: Bar.time("1 minute") },
+  },
+  {
+    id: `stoch-14-3-${symbol}`,
+    name: "Stochastic",
+    symbol,
+    period: 14,
+    params: { dPeriod: 3, bars: Bar.time("1 minute") },
+  },
+  {
+    id: `willr-14-${symbol}`,
+    name: "WilliamsR",
+    symbol,
+    period: 14,
+    params: { bars: Bar.time("1 minute") },
+  },
+]
+
+/**
+ * Default configuration for IndicatorRunner.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: IndicatorRunnerConfig = {
+  symbols: [],
+  indicators: defaultIndicators,
+}
+
+/**
+ * Feed one indicator from its subscription into IndicatorsState, publishing
+ * every reading as well as its vote. Once the indicator stops, its last vote
+ * is withdrawn.
+ */
+const runIndicator = (
+  indicator: Indicator.AnyIndicator,
+  dequeue: Queue.Dequeue<Trade.TradeData>,
+  readingsRef: Ref.Ref<IndicatorsState.IndicatorReadings>,
+  published: PubSub.PubSub<IndicatorsState.IndicatorReading>,
+  ballots: PubSub.PubSub<Consensus.Ballot>
+) =>
+  Effect.flatMap(Ref.make(Option.none<Consensus.Vote>()), (lastVote) =>
+    pipe(
+      Stream.fromQueue(dequeue),
+      indicator.process,
+      Stream.runForEach((reading) => {
+        const vote = Consensus.vote(reading.state, reading.signal)
+        return Ref.update(readingsRef, (readings) =>
+          IndicatorsState.setReading(readings, reading)
+        ).pipe(
+          Effect.zipRight(PubSub.publish(published, reading)),
+          Effect.zipRight(PubSub.publish(ballots, vote)),
+          Effect.zipRight(Ref.set(lastVote, Option.some(vote)))
+        )
+      }),
+      Effect.ensuring(
+        Effect.flatMap(
+          Ref.get(lastVote),
+          Option.match({
+            onNone: () => Effect.void,
+            onSome: (vote) =>
+              Effect.asVoid(PubSub.publish(ballots, Consensus.withdraw(vote.id, vote.symbol))),
+          })
+        )
+      )
+    )
+  )
+
+/**
+ * Run the aggregator's consensus stream of every symbol over the published
+ * ballots into ConsensusState.
+ */
+const runConsensus = (
+  dequeue: Queue.Dequeue<Consensus.Ballot>,
+  aggregator: Context.Tag.Service<IndicatorRegistry.SignalAggregator>,
+  consensusRef: Ref.Ref<ConsensusState.ConsensusSignals>
+) =>
+  pipe(
+    Stream.fromQueue(dequeue),
+    Stream.groupByKey((ballot) => ballot.symbol),
+    GroupBy.evaluate((symbol, ballots) =>
+      Stream.map(aggregator.consensus(symbol, ballots), (signal) => [symbol, signal] as const)
+    ),
+    Stream.runForEach(([symbol, signal]) =>
+      Ref.update(consensusRef, (consensus) => new Map(consensus).set(symbol, signal))
+    )
+  )
+
+/**
+ * Layer that provides the IndicatorRunner service.
+ *
+ * The configured indicators are added to the IndicatorRegistry and subscribed
+ * when the layer is built, so no trade published before `start` runs is
+ * missed. Indicators added later only see trades published after they were
+ * added.
+ *
+ * Type: Layer<IndicatorRunner, IndicatorConfigError, TradePubSub | IndicatorsState |
+ * ConsensusState | IndicatorRegistry | SignalAggregator | IndicatorRunnerConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorRunner from "./services/IndicatorRunner"
+ * import * as Layer from "effect/Layer"
+ *
+ * const config = Layer.succeed(IndicatorRunner.IndicatorRunnerConfig, {
+ *   ...IndicatorRunner.defaultConfig,
+ *   symbols: ["AAPL", "MSFT"]
+ * })
+ *
+ * const MainLive = Layer.mergeAll(
+ *   TradePubSub.TradePubSubLiveDefault,
+ *   IndicatorsState.IndicatorsStateLive,
+ *   ConsensusState.ConsensusStateLive,
+ *   IndicatorRegistry.IndicatorRegistryLive,
+ *   IndicatorRegistry.SignalAggregatorLiveDefault,
+ *   IndicatorRunner.IndicatorRunnerLive
+ * ).pipe(Layer.provide(config))
+ */
+export const IndicatorRunnerLive = Layer.scoped(
+  IndicatorRunner,
+  Effect.gen(function* () {
+    const { pubsub } = yield* TradePubSub.TradePubSub
+    const readingsRef = yield* IndicatorsState.IndicatorsState
+    const consensusRef = yield* ConsensusState.ConsensusState
+    const registry = yield* IndicatorRegistry.IndicatorRegistry
+    const aggregator = yield* IndicatorRegistry.SignalAggregator
+    const config = yield* IndicatorRunnerConfig
+    const published = yield* PubSub.unbounded<IndicatorsState.IndicatorReading>()
+    // Votes and withdrawals in the order each indicator cast them
+    const ballots = yield* PubSub.unbounded<Consensus.Ballot>()
+
+    const fibers = yield* FiberMap.make<string, void, never>()
+    const started = yield* Deferred.make<void>()
+    const runningRef = yield* Ref.make(HashMap.empty<string, Indicator.AnyIndicator>())
+
+    // Subscribe right away, but hold the trades until the runner is started
+    const launch = (id: string, indicator: Indicator.AnyIndicator) =>
+      Effect.gen(function* () {
+        const scope = yield* Scope.make()
+        const dequeue = yield* Scope.extend(PubSub.subscribe(pubsub), scope)
+        yield* FiberMap.run(
+          fibers,
+          id,
+          pipe(
+            Deferred.await(started),
+            Effect.zipRight(runIndicator(indicator, dequeue, readingsRef, published, ballots)),
+            Effect.ensuring(Scope.close(scope, Exit.void))
+          )
+        )
+      })
+
+    // Stop indicators that were removed or replaced, then start the new ones
+    const sync = (registered: HashMap.HashMap<string, Indicator.AnyIndicator>) =>
+      Effect.gen(function* () {
+        const running = yield* Ref.get(runningRef)
+        const isIn =
+          (instances: HashMap.HashMap<string, Indicator.AnyIndicator>) =>
+          (indicator: Indicator.AnyIndicator, id: string) =>
+            Option.exists(HashMap.get(instances, id), (current) => current === indicator)
+
+        yield* Effect.forEach(
+          HashMap.filter(running, (indicator, id) => !isIn(registered)(indicator, id)),
+          ([id, indicator]) =>
+            FiberMap.remove(fibers, id).pipe(
+              Effect.zipRight(
+                Ref.update(readingsRef, (readings) =>
+                  IndicatorsState.removeReading(readings, indicator.id)
+                )
+              )
+            ),
+          { discard: true }
+        )
+        yield* Effect.forEach(
+          HashMap.filter(registered, (indicator, id) => !isIn(running)(indicator, id)),
+          ([id, indicator]) => launch(id, indicator),
+          { discard: true }
+        )
+        yield* Ref.set(runningRef, registered)
+      })
+
+    yield* Effect.forEach(config.symbols.flatMap(config.indicators), registry.add, {
+      discard: true,
+    })
+    yield* Stream.runForEach(Stream.take(registry.changes, 1), sync)
+
+    return IndicatorRunner.of({
+      start: Effect.scoped(
+        Effect.gen(function* () {
+          // Follow the ballots before any indicator casts one
+          const votes = yield* PubSub.subscribe(ballots)
+          yield* Effect.forkScoped(runConsensus(votes, aggregator, consensusRef))
+          yield* Deferred.succeed(started, undefined)
+          yield* Stream.runForEach(registry.changes, sync)
+        })
+      ),
+      readings: PubSub.subscribe(published),
+    })
+  })
+)
@@ -0,0 +1,85 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Ref from "effect/Ref"
+import type * as Indicator from "../domain/Indicator"
+
+/**
+ * Latest state of one indicator instance together with the signal it produced,
+ * the labelled outputs to display and a trigger check against it.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type IndicatorReading = Indicator.Reading
+
+/**
+ * Latest readings per symbol, keyed by indicator id.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export type IndicatorReadings = ReadonlyMap<string, ReadonlyMap<string, IndicatorReading>>
+
+/**
+ * IndicatorsState Service - Holds the latest reading of every running indicator.
+ *
+ * Mirrors StatsState: the IndicatorRunner writes to the Ref and the UI reads
+ * from it.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as IndicatorsState from "./services/IndicatorsState"
+ * import * as Effect from "effect/Effect"
+ * import * as Ref from "effect/Ref"
+ *
+ * const program = Effect.gen(function* () {
+ *   const readingsRef = yield* IndicatorsState.IndicatorsState
+ *   const readings = yield* Ref.get(readingsRef)
+ *   const apple = readings.get("AAPL")
+ * })
+ */
+export class IndicatorsState extends Context.Tag("@services/IndicatorsState")<
+  IndicatorsState,
+  Ref.Ref<IndicatorReadings>
+>() {}
+
+/**
+ * Record a reading under its symbol and indicator id, replacing the previous one.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const setReading = (
+  readings: IndicatorReadings,
+  reading: IndicatorReading
+): IndicatorReadings => {
+  const { symbol, id } = reading.state
+  return new Map(readings).set(symbol, new Map(readings.get(symbol)).set(id, reading))
+}
+
+/**
+ * Drop the reading of an indicator that is no longer running.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const removeReading = (readings: IndicatorReadings, id: string): IndicatorReadings =>
+  new Map(
+    Array.from(readings, ([symbol, bySymbol]) => {
+      const remaining = new Map(bySymbol)
+      remaining.delete(id)
+      return [symbol, remaining] as const
+    }).filter(([, remaining]) => remaining.size > 0)
+  )
+
+/**
+ * Layer that provides the IndicatorsState service.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const IndicatorsStateLive = Layer.effect(
+  IndicatorsState,
+  Ref.make<IndicatorReadings>(new Map())
+)
@@ -1,7 +1,11 @@
 import * as Context from "effect/Context"
 import * as Effect from "effect/Effect"
 import * as Stream from "effect/Stream"
+import * as Schedule from "effect/Schedule"
+import * as Duration from "effect/Duration"
 import type * as Trade from "../domain/Trade"
+import type * as ConnectionStatus from "../domain/ConnectionStatus"
+import type { ReconnectConfig } from "../config/AppConfig"
 
 /**
  * MarketDataProvider - Generic market data streaming abstraction.
@@ -12,6 +16,7 @@ import type * as Trade from "../domain/Trade"
  * The service provides:
  * - Authentication/connection lifecycle
  * - Symbol subscription with trade stream
+ * - Observable connection lifecycle (connecting/open/reconnecting/failed)
  * - No requirement leakage (Requirements = never)
  *
  * @category Services
@@ -48,5 +53,47 @@ export class MarketDataProvider extends Context.Tag("@services/MarketDataProvide
      * @returns Stream of trade data
      */
     readonly subscribe: (symbols: ReadonlyArray<string>) => Stream.Stream<Trade.TradeData>
+
+    /**
+     * Connection lifecycle changes, starting with the current status.
+     * Each evaluation of the stream is an independent observer.
+     */
+    readonly connectionStatus: Stream.Stream<ConnectionStatus.ConnectionStatus>
   }
 >() {}
+
+/**
+ * Build the jittered exponential backoff schedule for a reconnect policy.
+ *
+ * Delays start at `initialDelayMs`, grow by `factor`, are capped at `maxDelayMs`
+ * and randomized with `Schedule.jittered`. The schedule stops after
+ * `maxAttempts` consecutive failures (when set) and resets once no failure
+ * has been fed to it for `resetAfterMs`.
+ *
+ * Its output is the number of consecutive failures it has counted, 1 for the
+ * first, so connection statuses report the same count the schedule stops on.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as MarketDataProvider from "./services/MarketDataProvider"
+ * import * as AppConfig from "./config/AppConfig"
+ * import * as Effect from "effect/Effect"
+ *
+ * const resilient = connect.pipe(
+ *   Effect.retry(MarketDataProvider.reconnectSchedule(AppConfig.defaultReconnectConfig))
+ * )
+ */
+export const reconnectSchedule = (config: ReconnectConfig): Schedule.Schedule<number, unknown> => {
+  const backoff = Schedule.exponential(Duration.millis(config.initialDelayMs), config.factor).pipe(
+    Schedule.union(Schedule.spaced(Duration.millis(config.maxDelayMs))),
+    Schedule.jittered
+  )
+  const recurrences =
+    config.maxAttempts === undefined ? Schedule.count : Schedule.recurs(config.maxAttempts)
+
+  return Schedule.intersect(backoff, recurrences).pipe(
+    Schedule.map(([, n]) => n + 1),
+    Schedule.resetAfter(Duration.millis(config.resetAfterMs))
+  )
+}
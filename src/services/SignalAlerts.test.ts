@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test"
+import * as SignalAlerts from "./SignalAlerts"
+import type * as IndicatorsState from "./IndicatorsState"
+import * as IndicatorRunner from "./IndicatorRunner"
+import * as AlertPubSub from "./AlertPubSub"
+import type * as Indicator from "../domain/Indicator"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Chunk from "effect/Chunk"
+import * as DateTime from "effect/DateTime"
+import {
+  mockIndicatorState,
+  mockBuySignal,
+  mockSellSignal,
+  mockHoldSignal,
+  mockReading,
+} from "../test-utils/fixtures"
+
+const timestamp = DateTime.unsafeMake(1_700_000_000_000)
+
+const reading = (signal: Indicator.Signal, id = "rsi-14-AAPL"): IndicatorsState.IndicatorReading =>
+  mockReading(
+    mockIndicatorState({
+      id,
+      name: "RSI(14)",
+      value: 25,
+      metadata: { currentPrice: 150.5 },
+    }),
+    { signal }
+  )
+
+/**
+ * Feed the indicator's signals to SignalAlerts as runner readings, back to
+ * back, and return the alerts published. A strong signal of another indicator
+ * ends the run: its alert comes after every alert of the signals before it.
+ */
+const run = (signals: ReadonlyArray<Indicator.Signal>) =>
+  Effect.gen(function* () {
+    const published = yield* PubSub.unbounded<IndicatorsState.IndicatorReading>()
+    const runner = Layer.succeed(
+      IndicatorRunner.IndicatorRunner,
+      IndicatorRunner.IndicatorRunner.of({
+        start: Effect.void,
+        readings: PubSub.subscribe(published),
+      })
+    )
+
+    return yield* Effect.gen(function* () {
+      const signalAlerts = yield* SignalAlerts.SignalAlerts
+      const alerts = yield* PubSub.subscribe((yield* AlertPubSub.AlertPubSub).pubsub)
+      yield* Effect.forkScoped(signalAlerts.start)
+
+      yield* PubSub.publishAll(published, [
+        ...signals.map((signal) => reading(signal)),
+        reading(mockBuySignal({ strength: 0.9, timestamp }), "end"),
+      ])
+
+      const collected = yield* Stream.fromQueue(alerts).pipe(
+        Stream.takeWhile((alert) => alert.rule !== "end"),
+        Stream.runCollect
+      )
+      return Chunk.toReadonlyArray(collected)
+    }).pipe(
+      Effect.provide(
+        SignalAlerts.SignalAlertsLive.pipe(
+          Layer.provideMerge(Layer.mergeAll(runner, AlertPubSub.AlertPubSubLiveDefault)),
+          Layer.provide(
+            Layer.succeed(SignalAlerts.SignalAlertsConfig, {
+              ...SignalAlerts.defaultConfig,
+              severity: "critical",
+            })
+          )
+        )
+      )
+    )
+  }).pipe(Effect.scoped)
+
+describe("SignalAlerts", () => {
+  it("should alert once when a signal turns strong", async () => {
+    const alerts = await Effect.runPromise(
+      run([
+        mockBuySignal({ strength: 0.5, timestamp }), // not strong
+        mockBuySignal({ strength: 0.8, reason: "RSI oversold", timestamp }), // alerts
+        mockBuySignal({ strength: 0.9, timestamp }), // same streak
+        mockHoldSignal({ timestamp }),
+        mockBuySignal({ strength: 0.8, timestamp }), // new streak
+        mockSellSignal({ strength: 0.9, timestamp }), // turned around
+      ])
+    )
+
+    expect(alerts.map((alert) => alert.condition)).toEqual([
+      "strong buy",
+      "strong buy",
+      "strong sell",
+    ])
+    expect(alerts[0]).toMatchObject({
+      rule: "rsi-14-AAPL",
+      symbol: "AAPL",
+      severity: "critical",
+      message: "AAPL: strong buy from RSI(14) (0.80): RSI oversold",
+      price: 150.5,
+    })
+  })
+
+  it("should not alert without strong signals", async () => {
+    const alerts = await Effect.runPromise(
+      run([mockHoldSignal({ timestamp }), mockSellSignal({ strength: 0.6, timestamp })])
+    )
+
+    expect(alerts).toEqual([])
+  })
+})
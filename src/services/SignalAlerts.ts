@@ -0,0 +1,141 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Ref from "effect/Ref"
+import type * as IndicatorsState from "./IndicatorsState"
+import * as IndicatorRunner from "./IndicatorRunner"
+import * as AlertPubSub from "./AlertPubSub"
+import * as Alert from "../domain/Alert"
+import * as Indicator from "../domain/Indicator"
+
+/**
+ * SignalAlerts Service - Publishes strong indicator signals as alerts.
+ *
+ * This service:
+ * - Follows every reading the IndicatorRunner produces, so a strong signal is
+ *   seen even when the next trade replaces it straight away
+ * - Raises an alert when an indicator's signal turns into a strong buy or a
+ *   strong sell (strength above 0.7), once per streak
+ * - Publishes the alerts on AlertPubSub, next to the AlertEngine's rule alerts
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as SignalAlerts from "./services/SignalAlerts"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const signalAlerts = yield* SignalAlerts.SignalAlerts
+ *   yield* Effect.forkScoped(signalAlerts.start)
+ * })
+ */
+export class SignalAlerts extends Context.Tag("@services/SignalAlerts")<
+  SignalAlerts,
+  {
+    readonly start: Effect.Effect<void>
+  }
+>() {}
+
+/**
+ * Configuration for SignalAlerts.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface SignalAlertsConfig {
+  readonly severity: Alert.Severity
+}
+
+/**
+ * Configuration service for SignalAlerts.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const SignalAlertsConfig = Context.GenericTag<SignalAlertsConfig>(
+  "@services/SignalAlertsConfig"
+)
+
+/**
+ * Default configuration: strong signals are warnings.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: SignalAlertsConfig = {
+  severity: "warning",
+}
+
+type Strong = "buy" | "sell" | null
+
+const strong = (signal: Indicator.Signal): Strong =>
+  Indicator.isStrongBuy(signal) ? "buy" : Indicator.isStrongSell(signal) ? "sell" : null
+
+/**
+ * Alert for a strong signal of an indicator reading.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ */
+export const fromReading = (
+  reading: IndicatorsState.IndicatorReading,
+  severity: Alert.Severity
+): Alert.Alert => {
+  const { state, signal } = reading
+  const direction = signal._tag === "sell" ? "sell" : "buy"
+  const strength = signal._tag === "hold" ? 0 : signal.strength
+  const reason = signal._tag === "hold" ? "" : signal.reason
+  const currentPrice = state.metadata.currentPrice
+
+  return Alert.Alert.make({
+    rule: state.id,
+    symbol: state.symbol,
+    severity,
+    message: `${state.symbol}: strong ${direction} from ${state.name} (${strength.toFixed(2)}): ${reason}`,
+    condition: `strong ${direction}`,
+    price: typeof currentPrice === "number" ? currentPrice : state.value,
+    timestamp: signal.timestamp,
+  })
+}
+
+/**
+ * Layer that provides the SignalAlerts service.
+ *
+ * The readings are subscribed when the layer is built, so no signal produced
+ * before `start` runs is missed.
+ *
+ * Type: Layer<SignalAlerts, never, IndicatorRunner | AlertPubSub | SignalAlertsConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const SignalAlertsLive = Layer.scoped(
+  SignalAlerts,
+  Effect.gen(function* () {
+    const runner = yield* IndicatorRunner.IndicatorRunner
+    const { pubsub } = yield* AlertPubSub.AlertPubSub
+    const config = yield* SignalAlertsConfig
+    const readings = yield* runner.readings
+
+    // Strong direction of each indicator's last signal, keyed by indicator id
+    const lastRef = yield* Ref.make<ReadonlyMap<string, Strong>>(new Map())
+
+    const check = (reading: IndicatorsState.IndicatorReading) =>
+      Effect.gen(function* () {
+        const direction = strong(reading.signal)
+        const previous = yield* Ref.modify(lastRef, (last) => [
+          last.get(reading.state.id) ?? null,
+          new Map(last).set(reading.state.id, direction),
+        ])
+        if (direction !== null && direction !== previous) {
+          yield* PubSub.publish(pubsub, fromReading(reading, config.severity))
+        }
+      })
+
+    return SignalAlerts.of({
+      start: Stream.runForEach(Stream.fromQueue(readings), check),
+    })
+  })
+)
@@ -47,6 +47,7 @@ export class StatsCollector extends Context.Tag("@services/StatsCollector")<
 export interface StatsCollectorConfig {
   readonly symbols: ReadonlyArray<string>
   readonly windowConfig: Statistics.WindowConfig
+  readonly symbolWindows?: ReadonlyMap<string, Statistics.WindowConfig> // Per-symbol overrides
   readonly displayInterval: number
   readonly showEnhancedMetrics: boolean
 }
@@ -94,6 +95,7 @@ export const defaultConfig: StatsCollectorConfig = {
  *   {
  *     symbols: ["AAPL", "MSFT"],
  *     windowConfig: { _tag: "TimeBased", durationMs: 30_000 },
+ *     symbolWindows: new Map([["MSFT", { _tag: "EventBased", size: 50 }]]),
  *     displayInterval: 10,
  *     showEnhancedMetrics: true
  *   }
@@ -125,7 +127,8 @@ export const StatsCollectorLive = Layer.scoped(
             // Update stats for this symbol (no console output)
             yield* Ref.update(statsRef, (statsMap) => {
               const currentStats =
-                statsMap.get(symbol) ?? Statistics.emptyStats(config.windowConfig)
+                statsMap.get(symbol) ??
+                Statistics.emptyStats(config.symbolWindows?.get(symbol) ?? config.windowConfig)
               const updatedStats = Statistics.updateStats(currentStats, price, volume, timestamp)
               return new Map(statsMap).set(symbol, updatedStats)
             })
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "bun:test"
+import * as TradeRecorder from "./TradeRecorder"
+import * as TradePubSub from "./TradePubSub"
+import * as ReplayProvider from "../providers/ReplayProvider"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as Schedule from "effect/Schedule"
+import * as Scope from "effect/Scope"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as BunFileSystem from "@effect/platform-bun/BunFileSystem"
+import { gunzipSync } from "node:zlib"
+import { mockTrade, makeSymbol, makePrice, makeTimestamp } from "../test-utils/fixtures"
+
+// 2024-01-02T23:59:59Z and one second later
+const beforeMidnight = 1_704_239_999_000
+const afterMidnight = 1_704_240_000_000
+
+const trades = [
+  mockTrade({
+    symbol: makeSymbol("AAPL"),
+    price: makePrice(150),
+    timestamp: makeTimestamp(beforeMidnight),
+  }),
+  mockTrade({
+    symbol: makeSymbol("BINANCE:BTCUSDT"),
+    price: makePrice(42_000),
+    timestamp: makeTimestamp(beforeMidnight),
+  }),
+  mockTrade({
+    symbol: makeSymbol("AAPL"),
+    price: makePrice(151),
+    timestamp: makeTimestamp(afterMidnight),
+  }),
+]
+
+/**
+ * Record the trades into a fresh temporary directory and return it.
+ */
+const recordAll = (compress: boolean) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem
+    const directory = yield* fs.makeTempDirectoryScoped()
+
+    const recorderLayer = TradeRecorder.TradeRecorderLive.pipe(
+      Layer.provideMerge(TradePubSub.TradePubSubLiveDefault),
+      Layer.provide(
+        Layer.succeed(TradeRecorder.TradeRecorderConfig, {
+          ...TradeRecorder.defaultConfig,
+          directory,
+          compress,
+        })
+      )
+    )
+
+    yield* Effect.scoped(
+      Effect.gen(function* () {
+        const { pubsub } = yield* TradePubSub.TradePubSub
+        const recorder = yield* TradeRecorder.TradeRecorder
+        yield* PubSub.publishAll(pubsub, trades)
+        yield* Effect.forkScoped(recorder.start)
+
+        // Wait until the recorder has taken every trade off its subscription
+        yield* recorder.flush.pipe(
+          Effect.zipRight(fs.exists(`${directory}/2024-01-03/AAPL.ndjson${compress ? ".gz" : ""}`)),
+          Effect.repeat({ schedule: Schedule.spaced("5 millis"), until: (exists) => exists }),
+          Effect.timeout("2 seconds")
+        )
+      }).pipe(Effect.provide(recorderLayer))
+    )
+
+    return directory
+  })
+
+const run = <A, E>(effect: Effect.Effect<A, E, FileSystem.FileSystem | Scope.Scope>) =>
+  Effect.runPromise(Effect.scoped(effect).pipe(Effect.provide(BunFileSystem.layer)))
+
+describe("TradeRecorder", () => {
+  describe("filePath", () => {
+    it("should rotate by UTC day and sanitize symbols", () => {
+      const config = { directory: "out", compress: false }
+      expect(TradeRecorder.filePath(config, trades[0])).toBe("out/2024-01-02/AAPL.ndjson")
+      expect(TradeRecorder.filePath(config, trades[1])).toBe(
+        "out/2024-01-02/BINANCE_BTCUSDT.ndjson"
+      )
+      expect(TradeRecorder.filePath(config, trades[2])).toBe("out/2024-01-03/AAPL.ndjson")
+    })
+
+    it("should add the gzip extension when compressing", () => {
+      expect(TradeRecorder.filePath({ directory: "out", compress: true }, trades[0])).toBe(
+        "out/2024-01-02/AAPL.ndjson.gz"
+      )
+    })
+  })
+
+  describe("encodeLine", () => {
+    it("should encode a trade as a single JSON line", () => {
+      const line = TradeRecorder.encodeLine(trades[0])
+      expect(line).not.toContain("\n")
+      expect(JSON.parse(line).price).toBe(150)
+    })
+  })
+
+  describe("TradeRecorderLive", () => {
+    it("should write one NDJSON file per day and symbol", async () => {
+      const files = await run(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem.FileSystem
+          const directory = yield* recordAll(false)
+          return yield* Effect.all([
+            fs.readFileString(`${directory}/2024-01-02/AAPL.ndjson`),
+            fs.readFileString(`${directory}/2024-01-02/BINANCE_BTCUSDT.ndjson`),
+            fs.readFileString(`${directory}/2024-01-03/AAPL.ndjson`),
+          ])
+        })
+      )
+
+      expect(files.map((file) => file.trim().split("\n").length)).toEqual([1, 1, 1])
+      expect(JSON.parse(files[1]).symbol).toBe("BINANCE:BTCUSDT")
+    })
+
+    it("should write gzip files that the replay provider can read back", async () => {
+      const replayed = await run(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem.FileSystem
+          const directory = yield* recordAll(true)
+          const path = `${directory}/2024-01-02/AAPL.ndjson.gz`
+
+          const raw = gunzipSync(yield* fs.readFile(path)).toString()
+          const trades = yield* Stream.runCollect(ReplayProvider.readTrades(path, "ndjson"))
+          return { raw, trades: Chunk.toReadonlyArray(trades) }
+        })
+      )
+
+      expect(replayed.raw.trim().split("\n").length).toBe(1)
+      expect(replayed.trades.map((trade) => trade.timestamp)).toEqual([trades[0].timestamp])
+    })
+  })
+})
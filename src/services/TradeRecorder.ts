@@ -0,0 +1,229 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Ref from "effect/Ref"
+import * as Chunk from "effect/Chunk"
+import * as Data from "effect/Data"
+import * as Schema from "effect/Schema"
+import * as Schedule from "effect/Schedule"
+import * as Duration from "effect/Duration"
+import * as DateTime from "effect/DateTime"
+import * as FileSystem from "@effect/platform/FileSystem"
+import { pipe } from "effect/Function"
+import { gzipSync } from "node:zlib"
+import * as TradePubSub from "./TradePubSub"
+import * as Trade from "../domain/Trade"
+
+/**
+ * Error raised when recorded trades cannot be written to disk.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class TradeRecorderError extends Data.TaggedError("TradeRecorderError")<{
+  readonly path: string
+  readonly reason: string
+}> {}
+
+/**
+ * TradeRecorder Service - Tees the TradePubSub broadcast to NDJSON files on disk.
+ *
+ * This service:
+ * - Subscribes to TradePubSub like StatsCollector, so recording never slows other consumers
+ * - Writes one file per UTC day and symbol, rotating as trade timestamps cross midnight
+ * - Buffers lines and appends them in batches, optionally gzip-compressed
+ * - Flushes pending trades when its scope closes (e.g. on Ctrl+C)
+ *
+ * Files are valid input for the replay provider.
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as TradeRecorder from "./services/TradeRecorder"
+ * import * as Effect from "effect/Effect"
+ *
+ * const program = Effect.gen(function* () {
+ *   const recorder = yield* TradeRecorder.TradeRecorder
+ *   yield* recorder.start
+ * })
+ */
+export class TradeRecorder extends Context.Tag("@services/TradeRecorder")<
+  TradeRecorder,
+  {
+    readonly start: Effect.Effect<void, TradeRecorderError>
+    readonly flush: Effect.Effect<void, TradeRecorderError>
+  }
+>() {}
+
+/**
+ * Configuration for TradeRecorder.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface TradeRecorderConfig {
+  readonly directory: string
+  readonly compress: boolean
+  readonly batchSize: number // Buffered trades per file before an immediate flush
+  readonly flushInterval: Duration.DurationInput
+}
+
+/**
+ * Configuration service for TradeRecorder.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const TradeRecorderConfig = Context.GenericTag<TradeRecorderConfig>(
+  "@services/TradeRecorderConfig"
+)
+
+/**
+ * Default configuration for TradeRecorder.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: TradeRecorderConfig = {
+  directory: "recordings",
+  compress: false,
+  batchSize: 256,
+  flushInterval: "1 second",
+}
+
+/**
+ * Path of the recording file for a trade: `<directory>/<YYYY-MM-DD>/<symbol>.ndjson[.gz]`.
+ *
+ * The day is taken from the trade timestamp in UTC and characters that are
+ * not safe in file names (e.g. the `:` in `BINANCE:BTCUSDT`) become `_`.
+ *
+ * @category Utilities
+ * @since 0.5.0
+ * @example
+ * import * as TradeRecorder from "./services/TradeRecorder"
+ *
+ * TradeRecorder.filePath(TradeRecorder.defaultConfig, trade)
+ * // "recordings/2024-01-02/BINANCE_BTCUSDT.ndjson"
+ */
+export const filePath = (
+  config: Pick<TradeRecorderConfig, "directory" | "compress">,
+  trade: Trade.TradeData
+): string => {
+  const day = DateTime.formatIsoDateUtc(DateTime.unsafeMake(trade.timestamp))
+  const name = trade.symbol.replace(/[^A-Za-z0-9._-]/g, "_")
+  return `${config.directory}/${day}/${name}.ndjson${config.compress ? ".gz" : ""}`
+}
+
+/**
+ * Encode a trade as a single NDJSON line (without the trailing newline).
+ *
+ * @category Utilities
+ * @since 0.5.0
+ */
+export const encodeLine: (trade: Trade.TradeData) => string = Schema.encodeSync(
+  Schema.parseJson(Trade.TradeData)
+)
+
+/**
+ * Layer that provides the TradeRecorder service.
+ *
+ * The PubSub subscription is taken when the layer is built, so no trade
+ * published before `start` runs is missed. Each flush appends one batch per
+ * file; compressed batches are written as separate gzip members, which
+ * standard tools and the replay provider read as a single stream.
+ *
+ * Type: Layer<TradeRecorder, never, TradePubSub | TradeRecorderConfig | FileSystem>
+ * - RequirementsOut: TradeRecorder (what we're creating)
+ * - Error: never (write errors surface from `start` and `flush`)
+ * - RequirementsIn: TradePubSub | TradeRecorderConfig | FileSystem (dependencies)
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as TradeRecorder from "./services/TradeRecorder"
+ * import * as TradePubSub from "./services/TradePubSub"
+ * import * as Layer from "effect/Layer"
+ * import { BunContext } from "@effect/platform-bun"
+ *
+ * const config = Layer.succeed(TradeRecorder.TradeRecorderConfig, {
+ *   ...TradeRecorder.defaultConfig,
+ *   directory: "./sessions",
+ *   compress: true
+ * })
+ *
+ * const RecorderLive = TradeRecorder.TradeRecorderLive.pipe(
+ *   Layer.provide(Layer.mergeAll(config, TradePubSub.TradePubSubLiveDefault, BunContext.layer))
+ * )
+ */
+export const TradeRecorderLive = Layer.scoped(
+  TradeRecorder,
+  Effect.gen(function* () {
+    const { pubsub } = yield* TradePubSub.TradePubSub
+    const config = yield* TradeRecorderConfig
+    const fs = yield* FileSystem.FileSystem
+
+    const dequeue = yield* PubSub.subscribe(pubsub)
+    const stream = Stream.fromQueue(dequeue)
+
+    // Lines waiting to be appended, keyed by file path
+    const pending = yield* Ref.make(new Map<string, Chunk.Chunk<string>>())
+    // Directories already created during this session
+    const directories = new Set<string>()
+    // Serializes appends so batches for the same file stay in order
+    const lock = yield* Effect.makeSemaphore(1)
+    const encoder = new TextEncoder()
+
+    const append = (path: string, lines: Chunk.Chunk<string>) =>
+      Effect.gen(function* () {
+        const directory = path.slice(0, path.lastIndexOf("/"))
+        if (!directories.has(directory)) {
+          yield* fs.makeDirectory(directory, { recursive: true })
+          directories.add(directory)
+        }
+
+        const bytes = encoder.encode(Chunk.join(lines, "\n") + "\n")
+        yield* fs.writeFile(path, config.compress ? gzipSync(bytes) : bytes, { flag: "a" })
+      }).pipe(Effect.mapError((error) => new TradeRecorderError({ path, reason: error.message })))
+
+    const flush = lock.withPermits(1)(
+      Effect.gen(function* () {
+        const batches = yield* Ref.getAndSet(pending, new Map())
+        yield* Effect.forEach(batches, ([path, lines]) => append(path, lines), { discard: true })
+      })
+    )
+
+    const record = (trade: Trade.TradeData) =>
+      Effect.gen(function* () {
+        const path = filePath(config, trade)
+        const size = yield* Ref.modify(pending, (batches) => {
+          const lines = Chunk.append(batches.get(path) ?? Chunk.empty(), encodeLine(trade))
+          return [Chunk.size(lines), new Map(batches).set(path, lines)]
+        })
+        if (size >= config.batchSize) {
+          yield* flush
+        }
+      })
+
+    // Write whatever is still buffered when the application shuts down
+    yield* Effect.addFinalizer(() =>
+      flush.pipe(
+        Effect.catchAll((error) =>
+          Effect.logError(`TradeRecorder: Failed to flush ${error.path}: ${error.reason}`)
+        )
+      )
+    )
+
+    return TradeRecorder.of({
+      start: Effect.all(
+        [
+          pipe(stream, Stream.runForEach(record)),
+          flush.pipe(Effect.repeat(Schedule.spaced(config.flushInterval))),
+        ],
+        { concurrency: "unbounded", discard: true }
+      ),
+      flush,
+    })
+  })
+)
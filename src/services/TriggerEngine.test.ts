@@ -0,0 +1,249 @@
+import { describe, it, expect } from "bun:test"
+import * as TriggerEngine from "./TriggerEngine"
+import * as IndicatorsState from "./IndicatorsState"
+import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
+import * as ParabolicSAR from "../indicators/ParabolicSAR"
+import * as RSI from "../indicators/RSI"
+import * as VWAP from "../indicators/VWAP"
+import * as SuperTrend from "../indicators/SuperTrend"
+import * as Bar from "../domain/Bar"
+import * as Trigger from "../domain/Trigger"
+import * as Indicator from "../domain/Indicator"
+import type * as Trade from "../domain/Trade"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Stream from "effect/Stream"
+import * as Chunk from "effect/Chunk"
+import * as Fiber from "effect/Fiber"
+import * as Ref from "effect/Ref"
+import * as DateTime from "effect/DateTime"
+import * as TestClock from "effect/TestClock"
+import * as TestContext from "effect/TestContext"
+import {
+  mockReading,
+  mockTrade,
+  makeSymbol,
+  makePrice,
+  mockBarTrades,
+} from "../test-utils/fixtures"
+
+const engineLayer = TriggerEngine.TriggerEngineLive.pipe(
+  Layer.provideMerge(
+    Layer.mergeAll(IndicatorsState.IndicatorsStateLive, IndicatorRegistry.IndicatorRegistryLive)
+  ),
+  Layer.provide(Layer.succeed(TriggerEngine.TriggerEngineConfig, { interval: "1 second" }))
+)
+
+/**
+ * Register RSI and VWAP on AAPL and record a reading with their outputs for
+ * each. The RSI reading is the newer one, so its price is the latest AAPL
+ * price.
+ */
+const seed = (rsi: number) =>
+  Effect.gen(function* () {
+    const registry = yield* IndicatorRegistry.IndicatorRegistry
+    const readingsRef = yield* IndicatorsState.IndicatorsState
+    yield* registry.add({ id: "rsi-14-AAPL", name: "RSI", symbol: "AAPL", period: 14, params: {} })
+    yield* registry.add({ id: "vwap-AAPL", name: "VWAP", symbol: "AAPL", period: 1, params: {} })
+
+    const vwap = VWAP.make({ id: "vwap-AAPL", symbol: "AAPL", resetDaily: true })
+    const rsiIndicator = RSI.make({
+      id: "rsi-14-AAPL",
+      symbol: "AAPL",
+      period: 14,
+      oversold: 30,
+      overbought: 70,
+    })
+    const seeded = yield* Effect.all([
+      Indicator.read(vwap, {
+        id: "vwap-AAPL",
+        name: "VWAP",
+        symbol: "AAPL",
+        value: 101,
+        lastUpdate: DateTime.unsafeMake(1_700_000_000_000),
+        metadata: {
+          cumulativeVolume: 10,
+          currentPrice: 100.5,
+          currentVolume: 10,
+          deviation: -0.5,
+          resetDaily: true,
+          tradingDate: "2023-11-14",
+        },
+      }),
+      Indicator.read(rsiIndicator, {
+        id: "rsi-14-AAPL",
+        name: "RSI",
+        symbol: "AAPL",
+        value: rsi,
+        lastUpdate: DateTime.unsafeMake(1_700_000_001_000),
+        metadata: {
+          period: 14,
+          avgGain: 0.5,
+          avgLoss: 1.5,
+          currentPrice: 102,
+          oversold: 30,
+          overbought: 70,
+        },
+      }),
+    ])
+    yield* Ref.update(readingsRef, (readings) =>
+      seeded.reduce(IndicatorsState.setReading, readings)
+    )
+  })
+
+// Sells off, turns up, rallies and then falls back through the stop
+const bars = [
+  { high: 101, low: 99, close: 100 },
+  { high: 100, low: 98, close: 98.5 },
+  { high: 99, low: 96, close: 97 },
+  { high: 97, low: 94, close: 95 },
+  { high: 102, low: 95, close: 101 },
+  { high: 104, low: 102, close: 103 },
+  { high: 104, low: 102, close: 103 },
+  { high: 106, low: 103, close: 105 },
+  { high: 105, low: 101, close: 102 },
+  { high: 102, low: 95, close: 96 },
+]
+
+/**
+ * Record each bar of a trailing-stop indicator as its reading and, from the
+ * flip into the uptrend to the bar that ends it, whether the price was below
+ * the stop.
+ */
+const belowStop = <Output extends { readonly trend: "up" | "down" }>(
+  indicator: Indicator.Indicator<Output>
+) =>
+  Effect.gen(function* () {
+    const engine = yield* TriggerEngine.TriggerEngine
+    const readingsRef = yield* IndicatorsState.IndicatorsState
+    const states = Chunk.toReadonlyArray(
+      yield* Stream.runCollect(indicator.process(Stream.fromIterable(mockBarTrades(bars))))
+    )
+    const from = states.findIndex((state) => state.metadata.trend === "up")
+    const to = states.findIndex((state, i) => i > from && state.metadata.trend === "down")
+    const belowStop = Trigger.compare(Trigger.price("AAPL"), "<", Trigger.value(indicator.id))
+
+    return yield* Effect.forEach(states.slice(from, to + 1), (state) =>
+      Ref.update(readingsRef, (readings) =>
+        IndicatorsState.setReading(readings, mockReading(state))
+      ).pipe(
+        Effect.zipRight(engine.evaluate(belowStop)),
+        Effect.map((e) => e.result)
+      )
+    )
+  }).pipe(Effect.provide(engineLayer))
+
+const oversold = Trigger.compare(Trigger.value("rsi-14-AAPL"), "<", Trigger.constant(30))
+const aboveVwap = Trigger.compare(Trigger.price("AAPL"), ">", Trigger.value("vwap-AAPL"))
+
+describe("TriggerEngine", () => {
+  it("should resolve operands and checks from the latest readings", async () => {
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const engine = yield* TriggerEngine.TriggerEngine
+        const before = yield* engine.evaluate(oversold)
+        yield* seed(25)
+
+        const check = (id: string, threshold: number) =>
+          Trigger.check(id, Indicator.PriceAbove.make({ _tag: "priceAbove", threshold }))
+
+        return yield* Effect.forEach(
+          [
+            Trigger.and(oversold, aboveVwap),
+            Trigger.compare(Trigger.field("rsi-14-AAPL", "oversold"), ">=", Trigger.constant(30)),
+            check("vwap-AAPL", 100),
+            check("vwap-AAPL", 101),
+            check("sma-20-AAPL", 0),
+            Trigger.compare(Trigger.price("MSFT"), ">", Trigger.constant(0)),
+          ],
+          (condition) => Effect.map(engine.evaluate(condition), (e) => e.result)
+        ).pipe(Effect.map((after) => [before.result, ...after]))
+      }).pipe(Effect.provide(engineLayer))
+    )
+
+    expect(results).toEqual([false, true, true, true, false, false, false])
+  })
+
+  it("should take the price of the symbol of the evaluated trade from that trade", async () => {
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const engine = yield* TriggerEngine.TriggerEngine
+        yield* seed(25)
+
+        const evaluate = (trade: Trade.TradeData) =>
+          Effect.map(engine.evaluate(aboveVwap, undefined, trade), (e) => e.result)
+
+        // The readings' latest AAPL price, 102, is above VWAP; these trades are not
+        return yield* Effect.all([
+          evaluate(mockTrade({ symbol: makeSymbol("AAPL"), price: makePrice(100) })),
+          evaluate(mockTrade({ symbol: makeSymbol("AAPL"), price: makePrice(101.5) })),
+          evaluate(mockTrade({ symbol: makeSymbol("MSFT"), price: makePrice(100) })),
+        ])
+      }).pipe(Effect.provide(engineLayer))
+    )
+
+    expect(results).toEqual([false, true, true])
+  })
+
+  it("should compare the price with the stop a trailing-stop indicator emits as its value", async () => {
+    const results = await Effect.runPromise(
+      Effect.all([
+        belowStop(
+          ParabolicSAR.make({
+            id: "psar",
+            symbol: "AAPL",
+            accelerationStart: 0.02,
+            accelerationStep: 0.02,
+            accelerationMax: 0.2,
+            bars: Bar.time("1 minute"),
+          })
+        ),
+        belowStop(
+          SuperTrend.make({
+            id: "supertrend-3-1",
+            symbol: "AAPL",
+            period: 3,
+            multiplier: 1,
+            bars: Bar.time("1 minute"),
+          })
+        ),
+      ])
+    )
+
+    // Close 102 stays over the stops of 95.46 and 101.41; close 96 falls through
+    expect(results).toEqual([
+      [false, false, false, false, false, true],
+      [false, false, false, false, false, true],
+    ])
+  })
+
+  it("should take the time from the Clock", async () => {
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const engine = yield* TriggerEngine.TriggerEngine
+        const readingsRef = yield* IndicatorsState.IndicatorsState
+        yield* seed(25)
+
+        const fiber = yield* Effect.fork(Stream.runCollect(Stream.take(engine.watch(oversold), 3)))
+        yield* TestClock.adjust("3 seconds")
+        const watched = Chunk.toReadonlyArray(yield* Fiber.join(fiber))
+
+        // Once the RSI reading is gone the condition holds for two more seconds
+        const recently = Trigger.withinDuration(oversold, 2)
+        const first = yield* engine.evaluate(recently)
+        yield* Ref.update(readingsRef, (readings) =>
+          IndicatorsState.removeReading(readings, "rsi-14-AAPL")
+        )
+        yield* TestClock.adjust("2 seconds")
+        const second = yield* engine.evaluate(recently, first.memory)
+        yield* TestClock.adjust("1 second")
+        const third = yield* engine.evaluate(recently, second.memory)
+
+        return { watched, recently: [first.result, second.result, third.result] }
+      }).pipe(Effect.provide(engineLayer), Effect.provide(TestContext.TestContext))
+    )
+
+    expect(results.watched).toEqual([true, true, true])
+    expect(results.recently).toEqual([true, true, false])
+  })
+})
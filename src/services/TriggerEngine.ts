@@ -0,0 +1,236 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as Schedule from "effect/Schedule"
+import * as Clock from "effect/Clock"
+import * as Duration from "effect/Duration"
+import * as DateTime from "effect/DateTime"
+import * as Option from "effect/Option"
+import * as Order from "effect/Order"
+import * as Array from "effect/Array"
+import * as Ref from "effect/Ref"
+import { pipe } from "effect/Function"
+import * as IndicatorsState from "./IndicatorsState"
+import * as Trigger from "../domain/Trigger"
+import * as IndicatorRegistry from "../indicators/IndicatorRegistry"
+
+/**
+ * TriggerEngine Service - Evaluates composable trigger conditions centrally.
+ *
+ * This service:
+ * - Resolves operands from the latest readings in IndicatorsState: another
+ *   indicator's value or output, or the newest price reported for a symbol
+ * - Resolves the price of the symbol of the quote being evaluated, when given
+ *   one, from that quote
+ * - Hands flat `check` leaves to the trigger check of the named indicator's
+ *   latest reading
+ * - Takes the time for `withinDuration` and `sequence` from the Clock, so
+ *   TestClock drives them in tests
+ *
+ * @category Services
+ * @since 0.5.0
+ * @example
+ * import * as TriggerEngine from "./services/TriggerEngine"
+ * import * as Trigger from "./domain/Trigger"
+ * import * as Effect from "effect/Effect"
+ * import * as Stream from "effect/Stream"
+ *
+ * const program = Effect.gen(function* () {
+ *   const engine = yield* TriggerEngine.TriggerEngine
+ *   const oversold = Trigger.and(
+ *     Trigger.compare(Trigger.value("rsi-14-AAPL"), "<", Trigger.constant(30)),
+ *     Trigger.compare(Trigger.price("AAPL"), ">", Trigger.value("vwap-daily-AAPL"))
+ *   )
+ *   yield* Stream.runForEach(Stream.changes(engine.watch(oversold)), (fired) =>
+ *     Effect.log(fired ? "oversold above VWAP" : "cleared")
+ *   )
+ * })
+ */
+export class TriggerEngine extends Context.Tag("@services/TriggerEngine")<
+  TriggerEngine,
+  {
+    readonly evaluate: (
+      condition: Trigger.Condition,
+      memory?: Trigger.Memory,
+      quote?: Quote
+    ) => Effect.Effect<Trigger.Evaluation>
+    readonly watch: (condition: Trigger.Condition) => Stream.Stream<boolean>
+  }
+>() {}
+
+/**
+ * Price of a symbol at the moment being evaluated, e.g. of the trade that
+ * produced the readings. A trade is a quote.
+ *
+ * @category Models
+ * @since 0.5.0
+ */
+export interface Quote {
+  readonly symbol: string
+  readonly price: number
+}
+
+/**
+ * Configuration for TriggerEngine.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface TriggerEngineConfig {
+  readonly interval: Duration.DurationInput // How often `watch` evaluates
+}
+
+/**
+ * Configuration service for TriggerEngine.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const TriggerEngineConfig = Context.GenericTag<TriggerEngineConfig>(
+  "@services/TriggerEngineConfig"
+)
+
+/**
+ * Default configuration for TriggerEngine: evaluate as often as the UI polls
+ * the readings.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: TriggerEngineConfig = {
+  interval: Duration.millis(100),
+}
+
+const byLastUpdate: Order.Order<IndicatorsState.IndicatorReading> = Order.mapInput(
+  DateTime.Order,
+  (reading) => reading.state.lastUpdate
+)
+
+const finite = (value: unknown): Option.Option<number> =>
+  typeof value === "number" && Number.isFinite(value) ? Option.some(value) : Option.none()
+
+/**
+ * Find the reading of an indicator id under whichever symbol it runs on.
+ */
+const findReading = (
+  readings: IndicatorsState.IndicatorReadings,
+  id: string
+): Option.Option<IndicatorsState.IndicatorReading> =>
+  Array.findFirst(Array.fromIterable(readings.values()), (bySymbol) =>
+    Option.fromNullable(bySymbol.get(id))
+  )
+
+/**
+ * Newest `currentPrice` any indicator on the symbol reported.
+ */
+const latestPrice = (
+  readings: IndicatorsState.IndicatorReadings,
+  symbol: string
+): Option.Option<number> =>
+  pipe(
+    Array.fromIterable(readings.get(symbol)?.values() ?? []),
+    Array.filter((reading) => Option.isSome(finite(reading.state.metadata.currentPrice))),
+    Array.sort(Order.reverse(byLastUpdate)),
+    Array.head,
+    Option.flatMap((reading) => finite(reading.state.metadata.currentPrice))
+  )
+
+/**
+ * Resolve an operand against the current readings and the quote being
+ * evaluated, if any.
+ */
+const resolve =
+  (readings: IndicatorsState.IndicatorReadings, quote: Quote | undefined) =>
+  (operand: Trigger.Operand): Option.Option<number> => {
+    switch (operand._tag) {
+      case "constant":
+        return Option.some(operand.value)
+      case "value":
+        return Option.flatMap(findReading(readings, operand.indicator), (reading) =>
+          finite(reading.state.value)
+        )
+      case "field":
+        return Option.flatMap(findReading(readings, operand.indicator), (reading) =>
+          finite(reading.state.metadata[operand.field])
+        )
+      case "price":
+        return quote !== undefined && quote.symbol === operand.symbol
+          ? Option.some(quote.price)
+          : latestPrice(readings, operand.symbol)
+    }
+  }
+
+/**
+ * Layer that provides the TriggerEngine service.
+ *
+ * Type: Layer<TriggerEngine, never, IndicatorsState | IndicatorRegistry |
+ * TriggerEngineConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as TriggerEngine from "./services/TriggerEngine"
+ * import * as Layer from "effect/Layer"
+ *
+ * const MainLive = TriggerEngine.TriggerEngineLive.pipe(
+ *   Layer.provide(Layer.succeed(TriggerEngine.TriggerEngineConfig, { interval: "1 second" }))
+ * )
+ */
+export const TriggerEngineLive = Layer.effect(
+  TriggerEngine,
+  Effect.gen(function* () {
+    const readingsRef = yield* IndicatorsState.IndicatorsState
+    const registry = yield* IndicatorRegistry.IndicatorRegistry
+    const config = yield* TriggerEngineConfig
+
+    const evaluate = (condition: Trigger.Condition, memory?: Trigger.Memory, quote?: Quote) =>
+      Effect.gen(function* () {
+        const readings = yield* Ref.get(readingsRef)
+        const now = yield* Clock.currentTimeMillis
+
+        return yield* Trigger.evaluate(
+          condition,
+          {
+            now,
+            resolve: resolve(readings, quote),
+            // An indicator without a reading, or no longer registered, is not triggered
+            check: (id, leaf) =>
+              Option.match(findReading(readings, id), {
+                onNone: () => Effect.succeed(false),
+                onSome: (reading) =>
+                  registry.get(id).pipe(
+                    Effect.flatMap(() => reading.checkTrigger(leaf)),
+                    Effect.orElseSucceed(() => false)
+                  ),
+              }),
+          },
+          memory
+        )
+      })
+
+    const watch = (condition: Trigger.Condition) =>
+      pipe(
+        Stream.fromSchedule(Schedule.spaced(config.interval)),
+        Stream.mapAccumEffect(Trigger.emptyMemory, (memory) =>
+          Effect.map(
+            evaluate(condition, memory),
+            (evaluation) => [evaluation.memory, evaluation.result] as const
+          )
+        )
+      )
+
+    return TriggerEngine.of({ evaluate, watch })
+  })
+)
+
+/**
+ * TriggerEngine layer with the default configuration.
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const TriggerEngineLiveDefault = Layer.provide(
+  TriggerEngineLive,
+  Layer.succeed(TriggerEngineConfig, defaultConfig)
+)
@@ -0,0 +1,65 @@
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Stream from "effect/Stream"
+import * as PubSub from "effect/PubSub"
+import * as Console from "effect/Console"
+import * as Data from "effect/Data"
+import { pipe } from "effect/Function"
+import * as AlertPubSub from "../services/AlertPubSub"
+import * as Alert from "../domain/Alert"
+
+/**
+ * Error raised when a sink fails to deliver an alert.
+ *
+ * @category Errors
+ * @since 0.5.0
+ */
+export class AlertSinkError extends Data.TaggedError("AlertSinkError")<{
+  readonly sink: string
+  readonly reason: string
+}> {}
+
+/**
+ * Build a sink layer that delivers every alert on AlertPubSub at or above
+ * `minSeverity`.
+ *
+ * The sink subscribes when the layer is built, so no alert published after
+ * that is missed, and delivers from a fiber that lives as long as the layer.
+ * Alerts are delivered one at a time, in order. A failed delivery is reported
+ * on stderr and the sink carries on with the next alert.
+ *
+ * @category Constructors
+ * @since 0.5.0
+ * @example
+ * import * as AlertSink from "./sinks/AlertSink"
+ * import * as Console from "effect/Console"
+ *
+ * const ConsoleSinkLive = AlertSink.make("console", "info", (alert) =>
+ *   Console.log(`[${alert.severity}] ${alert.message}`)
+ * )
+ */
+export const make = <R>(
+  name: string,
+  minSeverity: Alert.Severity,
+  deliver: (alert: Alert.Alert) => Effect.Effect<void, AlertSinkError, R>
+): Layer.Layer<never, never, AlertPubSub.AlertPubSub | R> =>
+  Layer.scopedDiscard(
+    Effect.gen(function* () {
+      const { pubsub } = yield* AlertPubSub.AlertPubSub
+      const dequeue = yield* PubSub.subscribe(pubsub)
+
+      yield* Effect.forkScoped(
+        pipe(
+          Stream.fromQueue(dequeue),
+          Stream.filter(Alert.atLeast(minSeverity)),
+          Stream.runForEach((alert) =>
+            deliver(alert).pipe(
+              Effect.catchAll((error) =>
+                Console.error(`${name}: Failed to deliver alert ${alert.rule}: ${error.reason}`)
+              )
+            )
+          )
+        )
+      )
+    })
+  )
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test"
+import * as DesktopSink from "./DesktopSink"
+import * as Alert from "../domain/Alert"
+import * as DateTime from "effect/DateTime"
+
+describe("DesktopSink", () => {
+  it("should map the severity to the notify-send urgency", () => {
+    const alert = (severity: Alert.Severity) =>
+      Alert.Alert.make({
+        rule: "aapl-breakout",
+        symbol: "AAPL",
+        severity,
+        message: "AAPL broke out at 201.00",
+        condition: "price(AAPL) > 200",
+        price: 201,
+        timestamp: DateTime.unsafeMake(1_700_000_000_000),
+      })
+
+    expect(DesktopSink.notifySendArgs(alert("critical"))).toEqual([
+      "--urgency",
+      "critical",
+      "--app-name",
+      "finnhub-trades",
+      "AAPL: aapl-breakout",
+      "AAPL broke out at 201.00",
+    ])
+    expect(DesktopSink.notifySendArgs(alert("info"))[1]).toBe("low")
+    expect(DesktopSink.notifySendArgs(alert("warning"))[1]).toBe("normal")
+  })
+})
@@ -0,0 +1,82 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Command from "@effect/platform/Command"
+import type * as CommandExecutor from "@effect/platform/CommandExecutor"
+import * as AlertSink from "./AlertSink"
+import type * as AlertPubSub from "../services/AlertPubSub"
+import type * as Alert from "../domain/Alert"
+
+/**
+ * Configuration for the desktop notification sink.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface DesktopSinkConfig {
+  readonly minSeverity: Alert.Severity
+}
+
+/**
+ * Configuration service for the desktop notification sink.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const DesktopSinkConfig = Context.GenericTag<DesktopSinkConfig>("@sinks/DesktopSinkConfig")
+
+const urgency: Record<Alert.Severity, string> = {
+  info: "low",
+  warning: "normal",
+  critical: "critical",
+}
+
+/**
+ * `notify-send` arguments for an alert: its severity as the urgency, the rule
+ * and symbol as the summary and the message as the body.
+ *
+ * @category Formatting
+ * @since 0.5.0
+ */
+export const notifySendArgs = (alert: Alert.Alert): ReadonlyArray<string> => [
+  "--urgency",
+  urgency[alert.severity],
+  "--app-name",
+  "finnhub-trades",
+  `${alert.symbol}: ${alert.rule}`,
+  alert.message,
+]
+
+/**
+ * Desktop sink: shows each alert as a Linux desktop notification with
+ * `notify-send`.
+ *
+ * Type: Layer<never, never, AlertPubSub | CommandExecutor | DesktopSinkConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const DesktopSinkLive: Layer.Layer<
+  never,
+  never,
+  AlertPubSub.AlertPubSub | CommandExecutor.CommandExecutor | DesktopSinkConfig
+> = Layer.unwrapEffect(
+  Effect.map(DesktopSinkConfig, (config) =>
+    AlertSink.make("desktop", config.minSeverity, (alert) =>
+      Command.make("notify-send", ...notifySendArgs(alert)).pipe(
+        Command.exitCode,
+        Effect.mapError(
+          (error) => new AlertSink.AlertSinkError({ sink: "desktop", reason: error.message })
+        ),
+        Effect.filterOrFail(
+          (code) => code === 0,
+          (code) =>
+            new AlertSink.AlertSinkError({
+              sink: "desktop",
+              reason: `notify-send exited with ${code}`,
+            })
+        )
+      )
+    )
+  )
+)
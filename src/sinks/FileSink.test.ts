@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test"
+import * as FileSink from "./FileSink"
+import * as AlertPubSub from "../services/AlertPubSub"
+import * as Alert from "../domain/Alert"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Schedule from "effect/Schedule"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as BunFileSystem from "@effect/platform-bun/BunFileSystem"
+
+const alert = (severity: Alert.Severity, rule: string): Alert.Alert =>
+  Alert.Alert.make({
+    rule,
+    symbol: "AAPL",
+    severity,
+    message: `AAPL: ${rule}`,
+    condition: "rsi-14-AAPL < 30",
+    price: 150.25,
+    timestamp: DateTime.unsafeMake(1_700_000_000_000),
+  })
+
+describe("FileSink", () => {
+  it("should encode an alert as a JSON line that decodes back", () => {
+    const line = FileSink.toJsonLine(alert("warning", "oversold"))
+
+    expect(line.endsWith("\n")).toBe(true)
+    expect(Schema.decodeUnknownSync(Alert.Alert)(JSON.parse(line))).toEqual(
+      alert("warning", "oversold")
+    )
+  })
+
+  it("should append alerts at or above its severity to the log", async () => {
+    const program = Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem
+      const directory = yield* fs.makeTempDirectoryScoped()
+      const path = `${directory}/logs/alerts.jsonl`
+
+      const layer = FileSink.FileSinkLive.pipe(
+        Layer.provideMerge(AlertPubSub.AlertPubSubLiveDefault),
+        Layer.provide(Layer.succeed(FileSink.FileSinkConfig, { path, minSeverity: "warning" }))
+      )
+
+      return yield* Effect.gen(function* () {
+        const { pubsub } = yield* AlertPubSub.AlertPubSub
+        yield* PubSub.publishAll(pubsub, [
+          alert("warning", "first"),
+          alert("info", "ignored"),
+          alert("critical", "second"),
+        ])
+
+        const lines = yield* fs.readFileString(path).pipe(
+          Effect.map((content) => content.trim().split("\n")),
+          Effect.filterOrFail((lines) => lines.length === 2),
+          Effect.retry(Schedule.spaced("10 millis").pipe(Schedule.compose(Schedule.recurs(200))))
+        )
+        return lines.map((line) => Schema.decodeUnknownSync(Alert.Alert)(JSON.parse(line)))
+      }).pipe(Effect.provide(layer))
+    }).pipe(Effect.scoped, Effect.provide(BunFileSystem.layer))
+
+    const logged = await Effect.runPromise(program)
+
+    expect(logged.map((entry) => entry.rule)).toEqual(["first", "second"])
+    expect(logged[1]?.severity).toBe("critical")
+  })
+})
@@ -0,0 +1,67 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Schema from "effect/Schema"
+import * as FileSystem from "@effect/platform/FileSystem"
+import * as Path from "node:path"
+import * as AlertSink from "./AlertSink"
+import type * as AlertPubSub from "../services/AlertPubSub"
+import * as Alert from "../domain/Alert"
+
+/**
+ * Configuration for the alert log sink.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface FileSinkConfig {
+  readonly path: string
+  readonly minSeverity: Alert.Severity
+}
+
+/**
+ * Configuration service for the alert log sink.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const FileSinkConfig = Context.GenericTag<FileSinkConfig>("@sinks/FileSinkConfig")
+
+/**
+ * Encode an alert as one line of the JSONL log.
+ *
+ * @category Formatting
+ * @since 0.5.0
+ */
+export const toJsonLine = (alert: Alert.Alert): string =>
+  `${JSON.stringify(Schema.encodeSync(Alert.Alert)(alert))}\n`
+
+/**
+ * Alert log sink: appends each alert as a JSON line to a file, creating the
+ * file and its directory if needed. Lines can be decoded back with
+ * `Alert.Alert`.
+ *
+ * Type: Layer<never, never, AlertPubSub | FileSystem | FileSinkConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const FileSinkLive: Layer.Layer<
+  never,
+  never,
+  AlertPubSub.AlertPubSub | FileSystem.FileSystem | FileSinkConfig
+> = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* FileSinkConfig
+    const fs = yield* FileSystem.FileSystem
+
+    return AlertSink.make("alert log", config.minSeverity, (alert) =>
+      fs.makeDirectory(Path.dirname(config.path), { recursive: true }).pipe(
+        Effect.zipRight(fs.writeFileString(config.path, toJsonLine(alert), { flag: "a" })),
+        Effect.mapError(
+          (error) => new AlertSink.AlertSinkError({ sink: "alert log", reason: error.message })
+        )
+      )
+    )
+  })
+)
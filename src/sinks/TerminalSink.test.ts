@@ -0,0 +1,89 @@
+import { describe, it, expect } from "bun:test"
+import * as TerminalSink from "./TerminalSink"
+import * as AlertPubSub from "../services/AlertPubSub"
+import * as FlashState from "../services/FlashState"
+import * as Alert from "../domain/Alert"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Ref from "effect/Ref"
+import * as Option from "effect/Option"
+import * as Schedule from "effect/Schedule"
+import * as DateTime from "effect/DateTime"
+import * as Duration from "effect/Duration"
+import * as TestClock from "effect/TestClock"
+import * as TestContext from "effect/TestContext"
+
+const alert = (severity: Alert.Severity, rule: string): Alert.Alert =>
+  Alert.Alert.make({
+    rule,
+    symbol: "AAPL",
+    severity,
+    message: `AAPL: ${rule}`,
+    condition: "price(AAPL) > 200",
+    price: 201,
+    timestamp: DateTime.unsafeMake(1_700_000_000_000),
+  })
+
+const layer = TerminalSink.TerminalSinkLive.pipe(
+  Layer.provideMerge(Layer.mergeAll(AlertPubSub.AlertPubSubLiveDefault, FlashState.FlashStateLive)),
+  Layer.provide(
+    Layer.succeed(TerminalSink.TerminalSinkConfig, {
+      minSeverity: "warning",
+      bell: false,
+      flashDuration: Duration.seconds(5),
+    })
+  )
+)
+
+/**
+ * Wait until the flashed alert satisfies `predicate`.
+ */
+const flashed = (predicate: (flash: Option.Option<Alert.Alert>) => boolean) =>
+  Effect.flatMap(FlashState.FlashState, (flashRef) =>
+    Ref.get(flashRef).pipe(Effect.filterOrFail(predicate), Effect.retry(Schedule.recurs(10_000)))
+  )
+
+describe("TerminalSink", () => {
+  it("should flash alerts at or above its severity and clear them after the flash duration", async () => {
+    const program = Effect.gen(function* () {
+      const { pubsub } = yield* AlertPubSub.AlertPubSub
+
+      yield* PubSub.publish(pubsub, alert("info", "ignored"))
+      yield* PubSub.publish(pubsub, alert("critical", "breakout"))
+      const shown = yield* flashed(Option.isSome)
+
+      yield* TestClock.adjust(Duration.seconds(5))
+      const cleared = yield* flashed(Option.isNone)
+
+      return { shown, cleared }
+    }).pipe(Effect.provide(layer), Effect.scoped, Effect.provide(TestContext.TestContext))
+
+    const { shown, cleared } = await Effect.runPromise(program)
+
+    expect(Option.map(shown, (flash) => flash.rule)).toEqual(Option.some("breakout"))
+    expect(Option.isNone(cleared)).toBe(true)
+  })
+
+  it("should keep a newer alert when an older one expires", async () => {
+    const program = Effect.gen(function* () {
+      const { pubsub } = yield* AlertPubSub.AlertPubSub
+
+      yield* PubSub.publish(pubsub, alert("warning", "first"))
+      yield* flashed(Option.exists((flash) => flash.rule === "first"))
+      yield* TestClock.adjust(Duration.seconds(3))
+
+      yield* PubSub.publish(pubsub, alert("warning", "second"))
+      yield* flashed(Option.exists((flash) => flash.rule === "second"))
+      // The first alert's timer fires, the second alert is still shown
+      yield* TestClock.adjust(Duration.seconds(2))
+      yield* Effect.yieldNow()
+
+      return yield* Ref.get(yield* FlashState.FlashState)
+    }).pipe(Effect.provide(layer), Effect.scoped, Effect.provide(TestContext.TestContext))
+
+    const flash = await Effect.runPromise(program)
+
+    expect(Option.map(flash, (current) => current.rule)).toEqual(Option.some("second"))
+  })
+})
@@ -0,0 +1,80 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Ref from "effect/Ref"
+import * as Option from "effect/Option"
+import * as Duration from "effect/Duration"
+import * as AlertSink from "./AlertSink"
+import * as FlashState from "../services/FlashState"
+import type * as Alert from "../domain/Alert"
+
+/**
+ * Configuration for the terminal sink.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface TerminalSinkConfig {
+  readonly minSeverity: Alert.Severity
+  readonly bell: boolean // Ring the terminal bell as well as flashing
+  readonly flashDuration: Duration.DurationInput // How long the TUI shows the alert
+}
+
+/**
+ * Configuration service for the terminal sink.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const TerminalSinkConfig = Context.GenericTag<TerminalSinkConfig>(
+  "@sinks/TerminalSinkConfig"
+)
+
+/**
+ * Default configuration: ring and flash for warnings and critical alerts, for
+ * five seconds.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultConfig: TerminalSinkConfig = {
+  minSeverity: "warning",
+  bell: true,
+  flashDuration: Duration.seconds(5),
+}
+
+/**
+ * Terminal sink: rings the bell and flashes the alert in the OpenTUI app.
+ *
+ * The alert is put in FlashState, where the header picks it up, and cleared
+ * again after `flashDuration` unless a newer alert replaced it.
+ *
+ * Type: Layer<never, never, AlertPubSub | FlashState | TerminalSinkConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ */
+export const TerminalSinkLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* TerminalSinkConfig
+    const flashRef = yield* FlashState.FlashState
+
+    return AlertSink.make("terminal", config.minSeverity, (alert) =>
+      Effect.gen(function* () {
+        if (config.bell) {
+          yield* Effect.sync(() => process.stdout.write("\x07"))
+        }
+        yield* Ref.set(flashRef, Option.some(alert))
+        // Clear the flash later without holding up the next alert
+        yield* Effect.forkDaemon(
+          Effect.delay(
+            Ref.update(flashRef, (current) =>
+              Option.exists(current, (flashing) => flashing === alert) ? Option.none() : current
+            ),
+            config.flashDuration
+          )
+        )
+      })
+    )
+  })
+)
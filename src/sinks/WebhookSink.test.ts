@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test"
+import * as WebhookSink from "./WebhookSink"
+import * as AlertPubSub from "../services/AlertPubSub"
+import * as Alert from "../domain/Alert"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as PubSub from "effect/PubSub"
+import * as Schedule from "effect/Schedule"
+import * as Schema from "effect/Schema"
+import * as DateTime from "effect/DateTime"
+import * as Duration from "effect/Duration"
+import * as FetchHttpClient from "@effect/platform/FetchHttpClient"
+
+const alert = (severity: Alert.Severity, rule: string): Alert.Alert =>
+  Alert.Alert.make({
+    rule,
+    symbol: "AAPL",
+    severity,
+    message: `AAPL: ${rule}`,
+    condition: "price(AAPL) > vwap",
+    price: 190.5,
+    timestamp: DateTime.unsafeMake(1_700_000_000_000),
+  })
+
+/**
+ * Local HTTP stand-in for the webhook receiver: answers with the given
+ * statuses in turn (200 once they run out) and records every request body.
+ */
+const standIn = (statuses: ReadonlyArray<number>) =>
+  Effect.acquireRelease(
+    Effect.sync(() => {
+      const received: Array<unknown> = []
+      let attempts = 0
+      const server = Bun.serve({
+        port: 0,
+        fetch: async (request) => {
+          received.push(await request.json())
+          const status = statuses[attempts++] ?? 200
+          return new Response(null, { status })
+        },
+      })
+      return { server, received, attempts: () => attempts }
+    }),
+    ({ server }) => Effect.sync(() => server.stop(true))
+  )
+
+/**
+ * Publish an alert to a webhook sink posting to a stand-in with the given
+ * statuses, and wait for the expected number of attempts plus a few retry
+ * delays for any unexpected one.
+ */
+const deliver = (statuses: ReadonlyArray<number>, retries: number, expected: number) =>
+  Effect.gen(function* () {
+    const receiver = yield* standIn(statuses)
+
+    const layer = WebhookSink.WebhookSinkLive.pipe(
+      Layer.provideMerge(AlertPubSub.AlertPubSubLiveDefault),
+      Layer.provide(FetchHttpClient.layer),
+      Layer.provide(
+        Layer.succeed(WebhookSink.WebhookSinkConfig, {
+          url: `http://localhost:${receiver.server.port}/alerts`,
+          minSeverity: "warning",
+          retries,
+          retryDelay: Duration.millis(10),
+        })
+      )
+    )
+
+    yield* Effect.gen(function* () {
+      const { pubsub } = yield* AlertPubSub.AlertPubSub
+      yield* PubSub.publishAll(pubsub, [alert("info", "ignored"), alert("critical", "breakout")])
+      yield* Effect.sync(receiver.attempts).pipe(
+        Effect.filterOrFail((attempts) => attempts >= expected),
+        Effect.retry(Schedule.spaced("10 millis").pipe(Schedule.compose(Schedule.recurs(200))))
+      )
+      yield* Effect.sleep("50 millis")
+    }).pipe(Effect.provide(layer), Effect.scoped)
+
+    return { received: receiver.received, attempts: receiver.attempts() }
+  }).pipe(Effect.scoped)
+
+describe("WebhookSink", () => {
+  it("should retry failed deliveries until the receiver accepts the alert", async () => {
+    const { received, attempts } = await Effect.runPromise(deliver([500, 503], 3, 3))
+
+    expect(attempts).toBe(3)
+    const decoded = received.map((body) => Schema.decodeUnknownSync(Alert.Alert)(body))
+    expect(decoded.map((posted) => posted.rule)).toEqual(["breakout", "breakout", "breakout"])
+    expect(decoded[0]).toEqual(alert("critical", "breakout"))
+  })
+
+  it("should give up after the configured retries", async () => {
+    const { attempts } = await Effect.runPromise(deliver([500, 500, 500, 500], 1, 2))
+
+    expect(attempts).toBe(2)
+  })
+
+  it("should retry rate limiting but not other client errors", async () => {
+    const limited = await Effect.runPromise(deliver([429], 3, 2))
+    const rejected = await Effect.runPromise(deliver([400], 3, 1))
+    const missing = await Effect.runPromise(deliver([404, 500], 3, 1))
+
+    expect([limited.attempts, rejected.attempts, missing.attempts]).toEqual([2, 1, 1])
+  })
+})
@@ -0,0 +1,111 @@
+import * as Context from "effect/Context"
+import * as Layer from "effect/Layer"
+import * as Effect from "effect/Effect"
+import * as Schedule from "effect/Schedule"
+import * as Duration from "effect/Duration"
+import * as Schema from "effect/Schema"
+import * as HttpClient from "@effect/platform/HttpClient"
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest"
+import type * as HttpClientError from "@effect/platform/HttpClientError"
+import { pipe } from "effect/Function"
+import * as AlertSink from "./AlertSink"
+import type * as AlertPubSub from "../services/AlertPubSub"
+import * as Alert from "../domain/Alert"
+
+/**
+ * Configuration for the webhook sink.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export interface WebhookSinkConfig {
+  readonly url: string
+  readonly minSeverity: Alert.Severity
+  readonly retries: number // Retries after the first attempt fails
+  readonly retryDelay: Duration.DurationInput // Delay before the first retry, doubling after
+}
+
+/**
+ * Configuration service for the webhook sink.
+ *
+ * @category Services
+ * @since 0.5.0
+ */
+export const WebhookSinkConfig = Context.GenericTag<WebhookSinkConfig>("@sinks/WebhookSinkConfig")
+
+/**
+ * Default retry policy: three retries, starting after half a second.
+ *
+ * @category Configuration
+ * @since 0.5.0
+ */
+export const defaultRetry: Pick<WebhookSinkConfig, "retries" | "retryDelay"> = {
+  retries: 3,
+  retryDelay: Duration.millis(500),
+}
+
+/**
+ * Whether a failed delivery may succeed when retried: network errors, 5xx
+ * responses and 429 (rate limited) may; any other 4xx means the receiver
+ * rejected the alert itself.
+ */
+const isRetryable = (error: HttpClientError.HttpClientError): boolean =>
+  error._tag === "RequestError"
+    ? error.reason === "Transport"
+    : error.reason === "StatusCode" &&
+      (error.response.status >= 500 || error.response.status === 429)
+
+/**
+ * Webhook sink: POSTs each alert as JSON to a URL.
+ *
+ * Network errors, 5xx and 429 responses are retried with exponential backoff;
+ * other 4xx responses fail straight away. An alert that is rejected or still
+ * fails after the last retry is reported and skipped.
+ *
+ * Type: Layer<never, never, AlertPubSub | HttpClient | WebhookSinkConfig>
+ *
+ * @category Layers
+ * @since 0.5.0
+ * @example
+ * import * as WebhookSink from "./sinks/WebhookSink"
+ * import * as FetchHttpClient from "@effect/platform/FetchHttpClient"
+ * import * as Layer from "effect/Layer"
+ *
+ * const WebhookLive = WebhookSink.WebhookSinkLive.pipe(
+ *   Layer.provide(FetchHttpClient.layer),
+ *   Layer.provide(
+ *     Layer.succeed(WebhookSink.WebhookSinkConfig, {
+ *       ...WebhookSink.defaultRetry,
+ *       url: "https://hooks.example.com/alerts",
+ *       minSeverity: "critical"
+ *     })
+ *   )
+ * )
+ */
+export const WebhookSinkLive: Layer.Layer<
+  never,
+  never,
+  AlertPubSub.AlertPubSub | HttpClient.HttpClient | WebhookSinkConfig
+> = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* WebhookSinkConfig
+    const client = HttpClient.filterStatusOk(yield* HttpClient.HttpClient)
+    const retry = Schedule.intersect(
+      Schedule.exponential(config.retryDelay),
+      Schedule.recurs(config.retries)
+    )
+
+    return AlertSink.make("webhook", config.minSeverity, (alert) =>
+      pipe(
+        HttpClientRequest.post(config.url),
+        HttpClientRequest.bodyUnsafeJson(Schema.encodeSync(Alert.Alert)(alert)),
+        client.execute,
+        Effect.retry({ schedule: retry, while: isRetryable }),
+        Effect.asVoid,
+        Effect.mapError(
+          (error) => new AlertSink.AlertSinkError({ sink: "webhook", reason: error.message })
+        )
+      )
+    )
+  })
+)
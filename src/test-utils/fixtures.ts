@@ -2,6 +2,7 @@ import * as Trade from "../domain/Trade"
 import * as Statistics from "../domain/Statistics"
 import * as Indicator from "../domain/Indicator"
 import * as DateTime from "effect/DateTime"
+import * as Effect from "effect/Effect"
 
 /**
  * Helper functions for creating branded types in tests.
@@ -57,8 +58,7 @@ export const makeLatency = (value: number): Trade.Latency => Trade.Latency(value
  * @example
  * const size = makeWindowSize(20)
  */
-export const makeWindowSize = (value: number): Statistics.WindowSize =>
-  Statistics.WindowSize(value)
+export const makeWindowSize = (value: number): Statistics.WindowSize => Statistics.WindowSize(value)
 
 /**
  * Create a branded TimeWindow for tests (unsafe).
@@ -66,8 +66,7 @@ export const makeWindowSize = (value: number): Statistics.WindowSize =>
  * @example
  * const window = makeTimeWindow(30_000)
  */
-export const makeTimeWindow = (value: number): Statistics.TimeWindow =>
-  Statistics.TimeWindow(value)
+export const makeTimeWindow = (value: number): Statistics.TimeWindow => Statistics.TimeWindow(value)
 
 /**
  * Create a mock trade with optional overrides.
@@ -126,6 +125,57 @@ export const mockTradesWithPrices = (prices: number[]): Trade.TradeData[] =>
     })
   })
 
+/**
+ * Create mock AAPL trades that aggregate into bars with the given high, low,
+ * close and volume: each interval trades a third of its volume (300 by
+ * default) at its low, high and close, in that order.
+ *
+ * @example
+ * const trades = mockBarTrades([{ high: 152, low: 149, close: 151 }]) // one-minute bars
+ */
+export const mockBarTrades = (
+  bars: ReadonlyArray<{
+    readonly high: number
+    readonly low: number
+    readonly close: number
+    readonly volume?: number
+  }>,
+  intervalMs = 60_000
+): Trade.TradeData[] =>
+  bars.flatMap((bar, i) =>
+    [bar.low, bar.high, bar.close].map((price, j) =>
+      mockTrade({
+        price: makePrice(price),
+        volume: makeVolume((bar.volume ?? 300) / 3),
+        timestamp: makeTimestamp(1_700_000_040_000 + i * intervalMs + j * 1_000),
+      })
+    )
+  )
+
+/**
+ * Create mock trades of several symbols, one per symbol and interval at the
+ * given prices, in time order. Each symbol's trades aggregate into bars that
+ * close at those prices.
+ *
+ * @example
+ * const trades = mockAlignedTrades({ AAPL: [150, 151], MSFT: [300, 303] }) // one-minute bars
+ */
+export const mockAlignedTrades = (
+  prices: Readonly<Record<string, ReadonlyArray<number>>>,
+  intervalMs = 60_000
+): Trade.TradeData[] =>
+  Object.entries(prices)
+    .flatMap(([symbol, closes]) =>
+      closes.map((price, i) =>
+        mockTrade({
+          symbol: makeSymbol(symbol),
+          price: makePrice(price),
+          timestamp: makeTimestamp(1_700_000_040_000 + i * intervalMs + 1_000),
+        })
+      )
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+
 /**
  * Create a mock Stats instance with specific prices.
  *
@@ -237,3 +287,21 @@ export const mockHoldSignal = (overrides?: Partial<Indicator.Hold>): Indicator.H
   timestamp: DateTime.unsafeNow(),
   ...overrides,
 })
+
+/**
+ * Create a mock Reading of a state that holds, lists no fields and never
+ * triggers.
+ *
+ * @example
+ * const reading = mockReading(mockIndicatorState({ value: 45.2 }), { signal: mockBuySignal() })
+ */
+export const mockReading = (
+  state: Indicator.IndicatorState,
+  overrides?: Partial<Omit<Indicator.Reading, "state">>
+): Indicator.Reading => ({
+  state,
+  signal: mockHoldSignal(),
+  fields: [],
+  checkTrigger: () => Effect.succeed(false),
+  ...overrides,
+})
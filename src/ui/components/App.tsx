@@ -1,17 +1,47 @@
 import * as React from "react"
+import * as Option from "effect/Option"
 import { TextAttributes } from "@opentui/core"
 import { Atom, useAtomValue, Result } from "@effect-atom/atom-react"
 import { TradeList } from "./TradeList"
 import { StatisticsPanel } from "./StatisticsPanel"
-import type * as UIState from "../state/UIState"
+import { IndicatorsPanel } from "./IndicatorsPanel"
+import { VolumeProfilePanel } from "./VolumeProfilePanel"
+import * as UIState from "../state/UIState"
+import * as ConnectionStatus from "../../domain/ConnectionStatus"
+import type * as Alert from "../../domain/Alert"
 
 /**
- * Header - Displays the application header.
+ * Get color based on connection status.
+ */
+const getConnectionColor = (status: ConnectionStatus.ConnectionStatus): string =>
+  ConnectionStatus.match(status, {
+    Connecting: () => "yellow",
+    Open: () => "green",
+    Reconnecting: () => "yellow",
+    Failed: () => "red",
+    Closed: () => "gray",
+  })
+
+/**
+ * Get color based on alert severity.
+ */
+const severityColors: Record<Alert.Severity, string> = {
+  info: "cyan",
+  warning: "yellow",
+  critical: "red",
+}
+
+/**
+ * Header - Displays the application header, with the flashed alert underneath.
  *
  * @category Components
  * @since 0.1.0
  */
-export const Header: React.FC<{ symbols: ReadonlyArray<string> }> = ({ symbols }) => (
+export const Header: React.FC<{
+  symbols: ReadonlyArray<string>
+  connectionStatus: ConnectionStatus.ConnectionStatus
+  alert: Option.Option<Alert.Alert>
+}> = ({ symbols, connectionStatus, alert }) => (
   <box flexDirection="column" marginBottom={1}>
     <box>
       <text fg="cyan" attributes={TextAttributes.BOLD}>
@@ -22,8 +52,21 @@ export const Header: React.FC<{ symbols: ReadonlyArray<string> }> = ({ symbols }
       <text fg="cyan" attributes={TextAttributes.BOLD}>
         REAL-TIME TRADE FEED & STATISTICS
       </text>
-      <text attributes={TextAttributes.DIM}> | Symbols: {symbols.join(", ")}</text>
+      <text attributes={TextAttributes.DIM}> | Symbols: {symbols.join(", ")} | </text>
+      <text fg={getConnectionColor(connectionStatus)}>
+        {ConnectionStatus.toLabel(connectionStatus)}
+      </text>
     </box>
+    {Option.match(alert, {
+      onNone: () => null,
+      onSome: (flashing) => (
+        <box>
+          <text fg={severityColors[flashing.severity]} attributes={TextAttributes.BOLD}>
+            [{flashing.severity.toUpperCase()}] {flashing.message}
+          </text>
+        </box>
+      ),
+    })}
     <box>
       <text fg="cyan" attributes={TextAttributes.BOLD}>
         {"═".repeat(120)}
@@ -33,7 +76,8 @@ export const Header: React.FC<{ symbols: ReadonlyArray<string> }> = ({ symbols }
 )
 
 /**
- * SplitView - Displays trades and statistics side by side.
+ * SplitView - Displays trades, statistics and indicators side by side, with
+ * the volume profiles underneath.
  *
  * @category Components
  * @since 0.1.0
@@ -42,16 +86,28 @@ export const SplitView: React.FC<{
   state: UIState.UIState
   showEnhancedMetrics: boolean
 }> = ({ state, showEnhancedMetrics }) => (
-  <box>
-    <box width="60%" borderStyle="single" borderColor="gray">
-      <TradeList trades={state.recentTrades} />
+  <box flexDirection="column">
+    <box>
+      <box width="40%" borderStyle="single" borderColor="gray">
+        <TradeList trades={state.recentTrades} />
+      </box>
+      <box width="35%" borderStyle="single" borderColor="gray">
+        <StatisticsPanel
+          symbols={state.symbols}
+          statistics={state.statistics}
+          showEnhanced={showEnhancedMetrics}
+        />
+      </box>
+      <box width="25%" borderStyle="single" borderColor="gray">
+        <IndicatorsPanel
+          symbols={state.symbols}
+          indicators={state.indicators}
+          consensus={state.consensus}
+        />
+      </box>
     </box>
-    <box width="40%" borderStyle="single" borderColor="gray">
-      <StatisticsPanel
-        symbols={state.symbols}
-        statistics={state.statistics}
-        showEnhanced={showEnhancedMetrics}
-      />
+    <box borderStyle="single" borderColor="gray">
+      <VolumeProfilePanel symbols={state.symbols} indicators={state.indicators} />
     </box>
   </box>
 )
@@ -70,16 +126,15 @@ export const App: React.FC<{
   showEnhancedMetrics?: boolean
 }> = ({ stateAtom, showEnhancedMetrics = true }) => {
   const result = useAtomValue(stateAtom)
-  const state = Result.getOrElse(result, () => ({
-    recentTrades: [],
-    statistics: new Map(),
-    symbols: [],
-    maxTrades: 20,
-  }))
+  const state = Result.getOrElse(result, () => UIState.empty([]))
 
   return (
     <box flexDirection="column">
-      <Header symbols={state.symbols} />
+      <Header
+        symbols={state.symbols}
+        connectionStatus={state.connectionStatus}
+        alert={state.alert}
+      />
       <SplitView state={state} showEnhancedMetrics={showEnhancedMetrics} />
     </box>
   )
@@ -0,0 +1,108 @@
+import * as React from "react"
+import { TextAttributes } from "@opentui/core"
+import * as Indicator from "../../domain/Indicator"
+import type * as IndicatorsState from "../../services/IndicatorsState"
+import type * as ConsensusState from "../../services/ConsensusState"
+
+/**
+ * Get label and color for a signal.
+ */
+const signalDisplay = (signal: Indicator.Signal): { label: string; color: string } =>
+  Indicator.matchSignal(signal, {
+    buy: (s) => ({ label: `BUY ${s.strength.toFixed(2)}`, color: "green" }),
+    sell: (s) => ({ label: `SELL ${s.strength.toFixed(2)}`, color: "red" }),
+    hold: () => ({ label: "HOLD", color: "gray" }),
+  })
+
+/**
+ * Format a labelled output field, e.g. "Upper 104.20".
+ */
+const formatField = (field: Indicator.OutputField): string =>
+  `${field.label} ${typeof field.value === "number" ? field.value.toFixed(2) : String(field.value)}`
+
+/**
+ * IndicatorRow - Displays the latest value and signal of one indicator, with
+ * its labelled outputs underneath.
+ *
+ * @category Components
+ * @since 0.5.0
+ */
+export const IndicatorRow: React.FC<{
+  reading: IndicatorsState.IndicatorReading
+}> = ({ reading }) => {
+  const { label, color } = signalDisplay(reading.signal)
+  const period = reading.state.metadata["period"]
+  const name = typeof period === "number" ? `${reading.state.name}(${period})` : reading.state.name
+
+  return (
+    <box flexDirection="column">
+      <box paddingLeft={2}>
+        <box width={22}>
+          <text fg="magenta">{name}</text>
+        </box>
+        <box width={12}>
+          <text fg="yellow">{reading.state.value.toFixed(2)}</text>
+        </box>
+        <text fg={color}>{label}</text>
+      </box>
+      {reading.fields.length > 0 && (
+        <box paddingLeft={4}>
+          <text attributes={TextAttributes.DIM}>{reading.fields.map(formatField).join("  ")}</text>
+        </box>
+      )}
+    </box>
+  )
+}
+
+/**
+ * IndicatorsPanel - Displays indicator values and signals for all tracked
+ * symbols, each headed by the consensus of its indicators.
+ *
+ * @category Components
+ * @since 0.5.0
+ */
+export const IndicatorsPanel: React.FC<{
+  symbols: ReadonlyArray<string>
+  indicators: IndicatorsState.IndicatorReadings
+  consensus: ConsensusState.ConsensusSignals
+}> = ({ symbols, indicators, consensus }) => (
+  <box flexDirection="column" padding={1}>
+    <box marginBottom={1}>
+      <text fg="cyan" attributes={TextAttributes.BOLD}>
+        INDICATORS
+      </text>
+    </box>
+    <box flexDirection="column">
+      {symbols.length === 0 ? (
+        <text attributes={TextAttributes.DIM}>No symbols tracked</text>
+      ) : (
+        symbols.map((symbol) => {
+          const readings = indicators.get(symbol)
+          const signal = consensus.get(symbol)
+          const overall = signal && signalDisplay(signal)
+          return readings && readings.size > 0 ? (
+            <box key={symbol} flexDirection="column" marginBottom={1}>
+              <box>
+                <box width={24}>
+                  <text fg="cyan" attributes={TextAttributes.BOLD}>
+                    {symbol}
+                  </text>
+                </box>
+                {overall && <text fg={overall.color}>Consensus {overall.label}</text>}
+              </box>
+              {[...readings.values()]
+                .sort((a, b) => a.state.id.localeCompare(b.state.id))
+                .map((reading) => (
+                  <IndicatorRow key={reading.state.id} reading={reading} />
+                ))}
+            </box>
+          ) : (
+            <box key={symbol}>
+              <text attributes={TextAttributes.DIM}>{symbol}: Warming up...</text>
+            </box>
+          )
+        })
+      )}
+    </box>
+  </box>
+)
@@ -17,7 +17,7 @@ export const StatRow: React.FC<{
   const stdDev = Statistics.calculateStdDev(stats)
   const min = Statistics.getMin(stats)
   const max = Statistics.getMax(stats)
-  const count = stats.recentPrices.length
+  const count = Statistics.windowLength(stats)
 
   const windowInfo = (() => {
     switch (stats.windowConfig._tag) {
@@ -129,7 +129,7 @@ export const StatisticsPanel: React.FC<{
       ) : (
         symbols.map((symbol) => {
           const stats = statistics.get(symbol)
-          return stats && stats.recentPrices.length > 0 ? (
+          return stats && !Statistics.isEmpty(stats) ? (
             <StatRow key={symbol} symbol={symbol} stats={stats} showEnhanced={showEnhanced} />
           ) : (
             <box key={symbol}>
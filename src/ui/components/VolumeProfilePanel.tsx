@@ -0,0 +1,104 @@
+import * as React from "react"
+import { TextAttributes } from "@opentui/core"
+import * as VolumeProfile from "../../indicators/VolumeProfile"
+import type * as IndicatorsState from "../../services/IndicatorsState"
+
+/**
+ * Most rows drawn per profile, and the width of the longest bar.
+ */
+const MAX_ROWS = 12
+const BAR_WIDTH = 40
+
+/**
+ * Compact volume label, e.g. 1.2K or 3.4M.
+ */
+const formatVolume = (volume: number): string =>
+  volume >= 1_000_000
+    ? `${(volume / 1_000_000).toFixed(1)}M`
+    : volume >= 1_000
+      ? `${(volume / 1_000).toFixed(1)}K`
+      : volume.toFixed(0)
+
+/**
+ * ProfileHistogram - Draws one symbol's volume profile as horizontal bars,
+ * highest price on top. The row holding the point of control is yellow and
+ * rows inside the value area cyan.
+ *
+ * @category Components
+ * @since 0.5.0
+ */
+export const ProfileHistogram: React.FC<{
+  symbol: string
+  poc: number
+  profile: VolumeProfile.VolumeProfileOutput
+}> = ({ symbol, poc, profile }) => {
+  const rows = VolumeProfile.histogram(profile.levels, profile.tickSize, MAX_ROWS)
+  const maxVolume = Math.max(...rows.map((row) => row.volume))
+  // Rows are whole ticks wide, so compare with half a tick of slack
+  const contains = (row: VolumeProfile.Row, price: number) =>
+    price > row.low - profile.tickSize / 2 && price < row.high + profile.tickSize / 2
+  const inValueArea = (row: VolumeProfile.Row) =>
+    row.high + profile.tickSize / 2 > profile.valueAreaLow &&
+    row.low - profile.tickSize / 2 < profile.valueAreaHigh
+
+  return (
+    <box flexDirection="column" marginBottom={1}>
+      <box>
+        <text fg="cyan" attributes={TextAttributes.BOLD}>
+          {symbol}
+        </text>
+        <text attributes={TextAttributes.DIM}>
+          {` POC ${poc.toFixed(2)} | VA ${profile.valueAreaLow.toFixed(2)} - ${profile.valueAreaHigh.toFixed(2)} | ${formatVolume(profile.sessionVolume)} on ${profile.session}`}
+        </text>
+      </box>
+      {[...rows].reverse().map((row) => {
+        const color = contains(row, poc) ? "yellow" : inValueArea(row) ? "cyan" : "gray"
+        const width = maxVolume > 0 ? Math.round((row.volume / maxVolume) * BAR_WIDTH) : 0
+
+        return (
+          <box key={row.low} paddingLeft={2}>
+            <box width={12}>
+              <text attributes={TextAttributes.DIM}>{row.low.toFixed(2)}</text>
+            </box>
+            <box width={BAR_WIDTH + 1}>
+              <text fg={color}>{"█".repeat(width)}</text>
+            </box>
+            <text attributes={TextAttributes.DIM}>{formatVolume(row.volume)}</text>
+          </box>
+        )
+      })}
+    </box>
+  )
+}
+
+/**
+ * VolumeProfilePanel - Displays the session volume profile of every tracked
+ * symbol, taken from the readings of its Volume Profile indicator.
+ *
+ * @category Components
+ * @since 0.5.0
+ */
+export const VolumeProfilePanel: React.FC<{
+  symbols: ReadonlyArray<string>
+  indicators: IndicatorsState.IndicatorReadings
+}> = ({ symbols, indicators }) => (
+  <box flexDirection="column" padding={1}>
+    <box marginBottom={1}>
+      <text fg="cyan" attributes={TextAttributes.BOLD}>
+        VOLUME PROFILE
+      </text>
+    </box>
+    {symbols.map((symbol) => {
+      const state = [...(indicators.get(symbol)?.values() ?? [])]
+        .map((reading) => reading.state)
+        .find(VolumeProfile.isVolumeProfileState)
+      return state ? (
+        <ProfileHistogram key={symbol} symbol={symbol} poc={state.value} profile={state.metadata} />
+      ) : (
+        <box key={symbol}>
+          <text attributes={TextAttributes.DIM}>{symbol}: No volume profile yet</text>
+        </box>
+      )
+    })}
+  </box>
+)
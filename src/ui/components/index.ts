@@ -8,3 +8,5 @@
 export * from "./App"
 export * from "./TradeList"
 export * from "./StatisticsPanel"
+export * from "./IndicatorsPanel"
+export * from "./VolumeProfilePanel"
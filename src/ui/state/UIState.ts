@@ -6,11 +6,18 @@ import * as PubSub from "effect/PubSub"
 import * as Ref from "effect/Ref"
 import * as Schedule from "effect/Schedule"
 import * as Duration from "effect/Duration"
+import * as Option from "effect/Option"
 import { Atom, Result } from "@effect-atom/atom-react"
 import type * as Trade from "../../domain/Trade"
 import type * as Statistics from "../../domain/Statistics"
+import type * as Alert from "../../domain/Alert"
+import * as ConnectionStatus from "../../domain/ConnectionStatus"
 import * as TradePubSub from "../../services/TradePubSub"
 import * as StatsState from "../../services/StatsState"
+import * as IndicatorsState from "../../services/IndicatorsState"
+import * as ConsensusState from "../../services/ConsensusState"
+import * as MarketDataProvider from "../../services/MarketDataProvider"
+import * as FlashState from "../../services/FlashState"
 import { Channel } from "effect"
 
 /**
@@ -19,6 +26,10 @@ import { Channel } from "effect"
  * This holds the data that the UI renders:
  * - Recent trades (fixed-size rolling window)
  * - Statistics per symbol
+ * - Indicator states and signals per symbol
+ * - The consensus signal per symbol
+ * - Provider connection status
+ * - The alert being flashed, if any
  *
  * @category State
  * @since 0.1.0
@@ -26,6 +37,10 @@ import { Channel } from "effect"
 export interface UIState {
   readonly recentTrades: ReadonlyArray<Trade.TradeData>
   readonly statistics: ReadonlyMap<string, Statistics.Stats>
+  readonly indicators: IndicatorsState.IndicatorReadings
+  readonly consensus: ConsensusState.ConsensusSignals
+  readonly connectionStatus: ConnectionStatus.ConnectionStatus
+  readonly alert: Option.Option<Alert.Alert>
   readonly symbols: ReadonlyArray<string>
   readonly maxTrades: number
 }
@@ -39,6 +54,10 @@ export interface UIState {
 export const empty = (symbols: ReadonlyArray<string>, maxTrades: number = 20): UIState => ({
   recentTrades: [],
   statistics: new Map(),
+  indicators: new Map(),
+  consensus: new Map(),
+  connectionStatus: ConnectionStatus.Connecting.make({ attempt: 1 }),
+  alert: Option.none(),
   symbols,
   maxTrades,
 })
@@ -65,6 +84,34 @@ export const updateStats = (state: UIState, symbol: string, stats: Statistics.St
   statistics: new Map(state.statistics).set(symbol, stats),
 })
 
+/**
+ * Update the latest reading of an indicator.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const updateIndicator = (
+  state: UIState,
+  reading: IndicatorsState.IndicatorReading
+): UIState => ({
+  ...state,
+  indicators: IndicatorsState.setReading(state.indicators, reading),
+})
+
+/**
+ * Update the provider connection status.
+ *
+ * @category Combinators
+ * @since 0.5.0
+ */
+export const updateConnectionStatus = (
+  state: UIState,
+  connectionStatus: ConnectionStatus.ConnectionStatus
+): UIState => ({
+  ...state,
+  connectionStatus,
+})
+
 /**
  * UIState Service - An Atom holding the UI state for reactive React integration.
  *
@@ -76,7 +123,7 @@ export const updateStats = (state: UIState, symbol: string, stats: Statistics.St
 export class UIStateAtom extends Context.Tag("@ui/UIStateAtom")<
   UIStateAtom,
   Atom.Atom<Result.Result<UIState>>
->() { }
+>() {}
 
 /**
  * Configuration for UIState.
@@ -101,7 +148,9 @@ export const UIStateConfig = Context.GenericTag<UIStateConfig>("@ui/UIStateConfi
 /**
  * Layer that provides the UIStateAtom service.
  *
- * Creates an Atom that automatically updates from the trade stream and statistics.
+ * Creates an Atom that automatically updates from the trade stream, statistics,
+ * indicator readings, consensus signals, the provider's connection status and
+ * the flashed alert.
  *
  * @category Layers
  * @since 0.1.0
@@ -112,7 +161,10 @@ export const UIStateAtomLive = Layer.scoped(
     const config = yield* UIStateConfig
     const { pubsub } = yield* TradePubSub.TradePubSub
     const statsState = yield* StatsState.StatsState
-
+    const indicatorsState = yield* IndicatorsState.IndicatorsState
+    const consensusState = yield* ConsensusState.ConsensusState
+    const provider = yield* MarketDataProvider.MarketDataProvider
+    const flashState = yield* FlashState.FlashState
 
     const stream = Stream.fromPubSub(pubsub)
 
@@ -127,14 +179,63 @@ export const UIStateAtomLive = Layer.scoped(
       Stream.changes
     )
 
-    // Combine both streams into UI state updates
+    // Periodically read indicator readings
+    const indicatorsStream = Stream.fromSchedule(Schedule.spaced(Duration.millis(100))).pipe(
+      Stream.mapEffect(() => Ref.get(indicatorsState)),
+      Stream.changes
+    )
+
+    // Periodically read the consensus signals
+    const consensusStream = Stream.fromSchedule(Schedule.spaced(Duration.millis(100))).pipe(
+      Stream.mapEffect(() => Ref.get(consensusState)),
+      Stream.changes
+    )
+
+    // Periodically read the flashed alert
+    const alertStream = Stream.fromSchedule(Schedule.spaced(Duration.millis(100))).pipe(
+      Stream.mapEffect(() => Ref.get(flashState)),
+      Stream.changes
+    )
+
+    // Combine all streams into UI state updates
     const uiStateStream = Stream.merge(
       tradeStream.pipe(Stream.map((state) => ({ type: "trade" as const, state }))),
-      statsStream.pipe(Stream.map((stats) => ({ type: "stats" as const, stats })))
-    ).pipe(
-      Stream.scan(empty(config.symbols, config.maxTrades), (state, update) =>
-        update.type === "trade" ? update.state : { ...state, statistics: update.stats }
+      Stream.merge(
+        statsStream.pipe(Stream.map((stats) => ({ type: "stats" as const, stats }))),
+        Stream.merge(
+          indicatorsStream.pipe(
+            Stream.map((indicators) => ({ type: "indicators" as const, indicators }))
+          ),
+          Stream.merge(
+            consensusStream.pipe(
+              Stream.map((consensus) => ({ type: "consensus" as const, consensus }))
+            ),
+            Stream.merge(
+              provider.connectionStatus.pipe(
+                Stream.map((status) => ({ type: "connection" as const, status }))
+              ),
+              alertStream.pipe(Stream.map((alert) => ({ type: "alert" as const, alert })))
+            )
+          )
+        )
       )
+    ).pipe(
+      Stream.scan(empty(config.symbols, config.maxTrades), (state, update) => {
+        switch (update.type) {
+          case "trade":
+            return { ...state, recentTrades: update.state.recentTrades }
+          case "stats":
+            return { ...state, statistics: update.stats }
+          case "indicators":
+            return { ...state, indicators: update.indicators }
+          case "consensus":
+            return { ...state, consensus: update.consensus }
+          case "connection":
+            return updateConnectionStatus(state, update.status)
+          case "alert":
+            return { ...state, alert: update.alert }
+        }
+      })
     )
 
     // Create a simple writable atom from the stream